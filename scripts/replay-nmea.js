@@ -0,0 +1,123 @@
+// scripts/replay-nmea.js
+// Replays a recorded NMEA file over a local socket so an NMEA feed can be
+// tested without a real receiver.
+//
+//   node scripts/replay-nmea.js <file> [--mode tcp-server|tcp-client|udp]
+//        [--host 127.0.0.1] [--port 10110] [--rate 20] [--loop] [--strip-tags]
+//
+//   tcp-server: waits for a "tcp-client" feed to connect
+//   tcp-client: connects to a "tcp-server" feed
+//   udp:        sends datagrams to a "udp" feed
+const fs = require('fs');
+const net = require('net');
+const dgram = require('dgram');
+
+function parseArgs(argv) {
+  const options = {
+    file: null,
+    mode: 'tcp-server',
+    host: '127.0.0.1',
+    port: 10110,
+    rate: 20, // lines per second
+    loop: false,
+    stripTags: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--mode') options.mode = argv[++i];
+    else if (arg === '--host') options.host = argv[++i];
+    else if (arg === '--port') options.port = parseInt(argv[++i], 10);
+    else if (arg === '--rate') options.rate = parseFloat(argv[++i]);
+    else if (arg === '--loop') options.loop = true;
+    else if (arg === '--strip-tags') options.stripTags = true;
+    else if (!options.file) options.file = arg;
+  }
+
+  return options;
+}
+
+function loadLines(file, stripTags) {
+  return fs
+    .readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    // ✅ Without the tag block the feed stamps lines with the replay time
+    .map((line) => (stripTags ? line.replace(/^\\[^\\]*\\/, '') : line));
+}
+
+function replay(lines, options, send, done) {
+  const intervalMs = Math.max(1, Math.round(1000 / options.rate));
+  let index = 0;
+
+  const timer = setInterval(() => {
+    if (index >= lines.length) {
+      if (!options.loop) {
+        clearInterval(timer);
+        console.log(`✅ Replayed ${lines.length} lines`);
+        done();
+        return;
+      }
+      index = 0;
+    }
+    send(lines[index++]);
+  }, intervalMs);
+
+  return timer;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.file) {
+    console.error('Usage: node scripts/replay-nmea.js <file> [--mode tcp-server|tcp-client|udp] [--port 10110]');
+    process.exit(1);
+  }
+
+  const lines = loadLines(options.file, options.stripTags);
+  console.log(`📼 Loaded ${lines.length} lines from ${options.file} (${options.mode}, ${options.rate} lines/s)`);
+
+  if (options.mode === 'udp') {
+    const socket = dgram.createSocket('udp4');
+    replay(
+      lines,
+      options,
+      (line) => socket.send(`${line}\r\n`, options.port, options.host),
+      () => socket.close(),
+    );
+    return;
+  }
+
+  if (options.mode === 'tcp-client') {
+    const socket = net.createConnection({ host: options.host, port: options.port }, () => {
+      console.log(`🔌 Connected to ${options.host}:${options.port}`);
+      replay(lines, options, (line) => socket.write(`${line}\r\n`), () => socket.end());
+    });
+    socket.on('error', (error) => {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    });
+    return;
+  }
+
+  const server = net.createServer((client) => {
+    console.log(`🔗 Feed connected from ${client.remoteAddress}:${client.remotePort}`);
+    const timer = replay(
+      lines,
+      options,
+      (line) => client.write(`${line}\r\n`),
+      () => {
+        client.end();
+        server.close();
+      },
+    );
+    client.on('close', () => clearInterval(timer));
+    client.on('error', () => clearInterval(timer));
+  });
+
+  server.listen(options.port, options.host, () => {
+    console.log(`👂 Waiting for a feed on ${options.host}:${options.port}`);
+  });
+}
+
+main();
@@ -14,10 +14,28 @@ import {
   Logger
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
-import { AisDataService } from './ais-data.service';
+import { AisDataService, NearbySearch, NearbyVessel, POIArea } from './ais-data.service';
+import { LocationMigrationService } from './location-migration.service';
+import { PoiAreasService } from '../poi-areas/poi-areas.service';
 import { CreateVesselDataDto } from './dto/create-vessel-data.dto';
 import { QueryVesselLogDto } from './dto/query-vessel-log.dto';
 import { QueryPOIAreaDto, POIAreaCountDto } from './dto/query-poi-area.dto';
+import { DistanceUnit, QueryNearestDto, QueryRadiusDto } from './dto/query-nearby.dto';
+import { parseApiDate } from '../common/time/timezone.util';
+import {
+  BoundingBox,
+  crossesAntimeridian,
+  NAUTICAL_MILE_METERS,
+  haversineDistanceKm,
+  longitudeCenter,
+  longitudeSpan,
+} from '../common/geo/geo.util';
+import {
+  PolygonGeometry,
+  polygonBoundingBox,
+  sphericalPolygonAreaKm2,
+  validatePolygonGeometry,
+} from '../common/geo/polygon.util';
 
 @ApiTags('AIS Data Management')
 @Controller('ais-data')
@@ -25,7 +43,9 @@ export class AisDataController {
   private readonly logger = new Logger(AisDataController.name);
 
   constructor(
-    private readonly aisDataService: AisDataService
+    private readonly aisDataService: AisDataService,
+    private readonly locationMigrationService: LocationMigrationService,
+    private readonly poiAreasService: PoiAreasService
   ) {}
 
   /**
@@ -70,10 +90,14 @@ export class AisDataController {
   @Get('current')
   @ApiOperation({ summary: 'Get current vessel positions' })
   @ApiQuery({ name: 'limit', required: false, description: 'Limit number of vessels' })
-  async getCurrentVessels(@Query('limit') limit?: string) {
+  @ApiQuery({ name: 'destinationLocode', required: false, description: 'Normalized destination UN/LOCODE, e.g. SGSIN' })
+  async getCurrentVessels(
+    @Query('limit') limit?: string,
+    @Query('destinationLocode') destinationLocode?: string
+  ) {
     try {
       const limitNum = limit ? parseInt(limit) : undefined;
-      const vessels = await this.aisDataService.getCurrentVessels(limitNum);
+      const vessels = await this.aisDataService.getCurrentVessels(limitNum, destinationLocode);
       
       return {
         success: true,
@@ -173,7 +197,7 @@ export class AisDataController {
       );
       
       // Calculate playback statistics
-      const duration = new Date(endDate).getTime() - new Date(startDate).getTime();
+      const duration = (parseApiDate(endDate)?.getTime() ?? 0) - (parseApiDate(startDate)?.getTime() ?? 0);
       const durationHours = duration / (1000 * 60 * 60);
       
       return {
@@ -266,6 +290,31 @@ export class AisDataController {
     }
   }
 
+  /**
+   * 🌐 BACKFILL GeoJSON LOCATION
+   */
+  @Post('migrations/location')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Backfill GeoJSON location on existing vessels and logs' })
+  async runLocationMigration() {
+    try {
+      const result = await this.locationMigrationService.run();
+
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      this.logger.error(`Location migration failed: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date()
+      };
+    }
+  }
+
   // ====================================================================
   // 🗺️ POI AREA APIs - ENHANCED WITH COMPREHENSIVE FEATURES
   // ====================================================================
@@ -278,6 +327,8 @@ export class AisDataController {
   @ApiQuery({ type: POIAreaCountDto })
   @ApiResponse({ status: 200, description: 'POI area count and metadata retrieved successfully' })
   async getPOIAreaCount(@Query(ValidationPipe) queryDto: POIAreaCountDto) {
+    await this.resolveSavedArea(queryDto);
+
     try {
       const safeQuery: POIAreaCountDto = {
         ...queryDto,
@@ -294,12 +345,7 @@ export class AisDataController {
         success: true,
         ...result,
         pageSize: 100,
-        bounds: {
-          minLongitude: safeQuery.minLongitude,
-          maxLongitude: safeQuery.maxLongitude,
-          minLatitude: safeQuery.minLatitude,
-          maxLatitude: safeQuery.maxLatitude
-        },
+        bounds: this.getQueryBounds(safeQuery),
         // ✅ ENHANCED: Comprehensive recommendations
         recommendations: {
           approach: this.getRecommendedApproach(result.totalCount),
@@ -309,10 +355,11 @@ export class AisDataController {
         },
         // ✅ NEW: Area analysis
         areaAnalysis: {
-          boundingBoxSize: this.calculateBoundingBoxSize(safeQuery),
+          shape: safeQuery.geometry ? safeQuery.geometry.type : 'BoundingBox',
+          boundingBoxSize: this.calculateQueryAreaKm2(safeQuery),
           density: result.dataBreakdown.totalUnique > 0 ? 
-            Math.round((result.totalCount / this.calculateBoundingBoxSize(safeQuery)) * 100) / 100 : 0,
-          classification: this.classifyAreaDensity(result.totalCount, this.calculateBoundingBoxSize(safeQuery)),
+            Math.round((result.totalCount / this.calculateQueryAreaKm2(safeQuery)) * 100) / 100 : 0,
+          classification: this.classifyAreaDensity(result.totalCount, this.calculateQueryAreaKm2(safeQuery)),
           dataDistribution: {
             currentVessels: result.dataBreakdown.currentVessels,
             archivedVessels: result.dataBreakdown.archivedVessels,
@@ -337,6 +384,8 @@ export class AisDataController {
   @ApiQuery({ type: QueryPOIAreaDto })
   @ApiResponse({ status: 200, description: 'POI area vessels retrieved successfully' })
   async getVesselsByPOIArea(@Query(ValidationPipe) queryDto: QueryPOIAreaDto) {
+    await this.resolveSavedArea(queryDto);
+
     try {
       const safeQuery: QueryPOIAreaDto = {
         ...queryDto,
@@ -422,6 +471,8 @@ export class AisDataController {
   @ApiQuery({ type: QueryPOIAreaDto })
   @ApiResponse({ status: 200, description: 'All POI area vessels retrieved successfully' })
   async getAllPOIAreaData(@Query(ValidationPipe) queryDto: QueryPOIAreaDto) {
+    await this.resolveSavedArea(queryDto);
+
     try {
       const safeQuery: QueryPOIAreaDto = {
         ...queryDto,
@@ -503,16 +554,24 @@ export class AisDataController {
    */
   @Get('poi-area/quick-count')
   @ApiOperation({ summary: 'Quick vessel count in specific bounds (current vessels only)' })
-  @ApiQuery({ name: 'minLongitude', required: true, type: Number })
+  @ApiQuery({ name: 'minLongitude', required: true, type: Number, description: 'West edge; greater than maxLongitude when the box crosses 180°' })
   @ApiQuery({ name: 'maxLongitude', required: true, type: Number })
   @ApiQuery({ name: 'minLatitude', required: true, type: Number })
   @ApiQuery({ name: 'maxLatitude', required: true, type: Number })
+  @ApiQuery({ name: 'areaId', required: false, description: 'Saved POI area id, replaces the bounds' })
   async getQuickVesselCount(
     @Query('minLongitude') minLongitude: string,
     @Query('maxLongitude') maxLongitude: string,
     @Query('minLatitude') minLatitude: string,
-    @Query('maxLatitude') maxLatitude: string
+    @Query('maxLatitude') maxLatitude: string,
+    @Query('areaId') areaId?: string
   ) {
+    if (areaId) {
+      const geometry = await this.poiAreasService.getGeometry(areaId);
+      this.logger.log(`⚡ Quick count for saved area ${areaId}`);
+      return this.runQuickCount({ geometry }, polygonBoundingBox(geometry));
+    }
+
     try {
       const bounds = {
         minLongitude: parseFloat(minLongitude),
@@ -525,57 +584,119 @@ export class AisDataController {
       this.validateCoordinateBounds(bounds);
 
       this.logger.log(`⚡ Quick count for bounds: ${JSON.stringify(bounds)}`);
-      const startTime = Date.now();
-      const count = await this.aisDataService.getVesselCountInPOIArea(bounds);
-      const queryTime = Date.now() - startTime;
-      
-      return {
-        success: true,
-        count,
-        bounds,
-        // ✅ ENHANCED: Comprehensive estimates
-        estimates: {
-          totalPages: Math.ceil(count / 100),
-          estimatedTime: this.getEstimatedDownloadTime(count),
-          recommendedApproach: this.getRecommendedApproach(count),
-          memoryEstimate: this.getEstimatedMemoryUsage(count),
-          queryTime: `${queryTime}ms`
-        },
-        // ✅ ENHANCED: Detailed area analysis
-        areaInfo: {
-          sizeKm2: this.calculateBoundingBoxSize(bounds),
-          density: count > 0 ? Math.round((count / this.calculateBoundingBoxSize(bounds)) * 100) / 100 : 0,
-          classification: this.classifyAreaDensity(count, this.calculateBoundingBoxSize(bounds)),
-          coordinates: {
-            center: {
-              latitude: (bounds.minLatitude + bounds.maxLatitude) / 2,
-              longitude: (bounds.minLongitude + bounds.maxLongitude) / 2
-            },
-            span: {
-              latitudeDegrees: bounds.maxLatitude - bounds.minLatitude,
-              longitudeDegrees: bounds.maxLongitude - bounds.minLongitude
-            }
-          }
-        },
-        // ✅ NEW: Processing recommendations
-        recommendations: {
-          downloadMethod: this.getRecommendedApproach(count),
-          estimatedFileSize: {
-            csv: this.estimateFileSize(count, 'csv'),
-            pdf: count <= 5000 ? this.estimateFileSize(count, 'pdf') : 'Too large for PDF'
-          },
-          optimization: count > 10000 ? 
-            'Consider using date filters or smaller geographic area' : 
-            'Area size is optimal for processing'
-        },
-        timestamp: new Date()
-      };
+      return await this.runQuickCount(bounds, bounds);
     } catch (error) {
       this.logger.error(`Quick vessel count failed: ${error.message}`);
       throw new BadRequestException(`Failed to get quick vessel count: ${error.message}`);
     }
   }
 
+  // ====================================================================
+  // 🔷 POLYGON POI AREA APIs - GeoJSON Polygon/MultiPolygon via POST body
+  // ====================================================================
+
+  /**
+   * 📊 POLYGON POI AREA COUNT
+   */
+  @Post('poi-area/count')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get total count and metadata for a GeoJSON polygon area' })
+  async getPolygonPOIAreaCount(@Body() body: POIAreaCountDto) {
+    this.requireGeometry(body);
+    return this.getPOIAreaCount(body);
+  }
+
+  /**
+   * 📄 POLYGON POI AREA DATA
+   */
+  @Post('poi-area')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get vessels in a GeoJSON polygon area with pagination (100 per page)' })
+  async getVesselsByPolygonPOIArea(@Body() body: QueryPOIAreaDto) {
+    this.requireGeometry(body);
+    return this.getVesselsByPOIArea(body);
+  }
+
+  /**
+   * 🔄 POLYGON POI AREA - ALL PAGES
+   */
+  @Post('poi-area/all')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Auto-fetch all vessels in a GeoJSON polygon area (all pages)' })
+  async getAllPolygonPOIAreaData(@Body() body: QueryPOIAreaDto) {
+    this.requireGeometry(body);
+    return this.getAllPOIAreaData(body);
+  }
+
+  /**
+   * 🎯 POLYGON QUICK COUNT
+   */
+  @Post('poi-area/quick-count')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Quick vessel count in a GeoJSON polygon area (current vessels only)' })
+  async getPolygonQuickVesselCount(@Body() body: POIAreaCountDto) {
+    this.requireGeometry(body);
+    await this.resolveSavedArea(body);
+
+    try {
+      const geometry = body.geometry as PolygonGeometry;
+      this.validatePolygonGeometry(geometry);
+
+      this.logger.log(`⚡ Quick count for ${geometry.type}`);
+      return await this.runQuickCount({ geometry }, polygonBoundingBox(geometry));
+    } catch (error) {
+      this.logger.error(`Quick vessel count failed: ${error.message}`);
+      throw new BadRequestException(`Failed to get quick vessel count: ${error.message}`);
+    }
+  }
+
+  /**
+   * 📍 RADIUS SEARCH - vessels within a distance of a point
+   */
+  @Get('nearby/radius')
+  @ApiOperation({ summary: 'Vessels within a radius of a point, nearest first (current, or logs with startDate/endDate)' })
+  @ApiQuery({ type: QueryRadiusDto })
+  async getVesselsInRadius(@Query(ValidationPipe) queryDto: QueryRadiusDto) {
+    try {
+      const unit = queryDto.unit || 'nm';
+      const search = this.buildNearbySearch(queryDto, queryDto.limit || 1000);
+      search.maxDistanceMeters = this.toMeters(queryDto.radius, unit);
+
+      this.logger.log(`📍 Radius search: ${queryDto.radius}${unit} around ${queryDto.latitude},${queryDto.longitude}`);
+      const vessels = await this.aisDataService.findVesselsNear(search);
+
+      return this.formatNearbyResponse(queryDto, vessels, unit, { radius: queryDto.radius });
+    } catch (error) {
+      this.logger.error(`Radius search failed: ${error.message}`);
+      throw new BadRequestException(`Failed to search vessels in radius: ${error.message}`);
+    }
+  }
+
+  /**
+   * 🎯 NEAREST SEARCH - k closest vessels to a point
+   */
+  @Get('nearby/nearest')
+  @ApiOperation({ summary: 'k nearest vessels to a point (current, or logs with startDate/endDate)' })
+  @ApiQuery({ type: QueryNearestDto })
+  async getNearestVessels(@Query(ValidationPipe) queryDto: QueryNearestDto) {
+    try {
+      const unit = queryDto.unit || 'nm';
+      const k = queryDto.k || 20;
+      const search = this.buildNearbySearch(queryDto, k);
+      if (queryDto.maxDistance !== undefined) {
+        search.maxDistanceMeters = this.toMeters(queryDto.maxDistance, unit);
+      }
+
+      this.logger.log(`🎯 Nearest ${k} vessels to ${queryDto.latitude},${queryDto.longitude}`);
+      const vessels = await this.aisDataService.findVesselsNear(search);
+
+      return this.formatNearbyResponse(queryDto, vessels, unit, { k, maxDistance: queryDto.maxDistance });
+    } catch (error) {
+      this.logger.error(`Nearest search failed: ${error.message}`);
+      throw new BadRequestException(`Failed to search nearest vessels: ${error.message}`);
+    }
+  }
+
   /**
    * 📊 GET VESSEL COUNTS BY SOURCE - ENHANCED
    */
@@ -713,9 +834,33 @@ export class AisDataController {
    * ✅ Validate POI Area Query
    */
   private validatePOIAreaQuery(query: any): void {
-    // Coordinate validation
-    if (query.minLongitude >= query.maxLongitude) {
-      throw new BadRequestException('minLongitude must be less than maxLongitude');
+    if (query.geometry) {
+      this.validatePolygonGeometry(query.geometry);
+    } else {
+      this.validateBoundingBoxQuery(query);
+    }
+
+    // Date validation
+    const startDate = parseApiDate(query.startDate);
+    const endDate = parseApiDate(query.endDate);
+    if (startDate && endDate && startDate >= endDate) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+
+    // Area size validation (prevent extremely large areas)
+    const areaSize = this.calculateQueryAreaKm2(query);
+    if (areaSize > 1000000) { // > 1M km²
+      throw new BadRequestException(`Search area too large: ${areaSize.toFixed(0)} km². Please use a smaller area (max: 1,000,000 km²).`);
+    }
+  }
+
+  /**
+   * ✅ Validate Bounding Box Query
+   */
+  private validateBoundingBoxQuery(query: any): void {
+    // Coordinate validation - minLongitude > maxLongitude wraps the antimeridian
+    if (query.minLongitude === query.maxLongitude) {
+      throw new BadRequestException('minLongitude and maxLongitude must differ');
     }
     
     if (query.minLatitude >= query.maxLatitude) {
@@ -723,24 +868,185 @@ export class AisDataController {
     }
 
     // Coordinate range validation
-    if (query.minLongitude < -180 || query.maxLongitude > 180) {
+    if ([query.minLongitude, query.maxLongitude].some(longitude => longitude < -180 || longitude > 180)) {
       throw new BadRequestException('Longitude must be between -180 and 180');
     }
     
     if (query.minLatitude < -90 || query.maxLatitude > 90) {
       throw new BadRequestException('Latitude must be between -90 and 90');
     }
+  }
 
-    // Date validation
-    if (query.startDate && query.endDate && new Date(query.startDate) >= new Date(query.endDate)) {
-      throw new BadRequestException('startDate must be before endDate');
+  /**
+   * ✅ Quick count response shared by bounding box and polygon endpoints
+   */
+  private async runQuickCount(area: POIArea, bounds: BoundingBox) {
+    const startTime = Date.now();
+    const count = await this.aisDataService.getVesselCountInPOIArea(area);
+    const queryTime = Date.now() - startTime;
+    
+    return {
+      success: true,
+      count,
+      bounds,
+      // ✅ ENHANCED: Comprehensive estimates
+      estimates: {
+        totalPages: Math.ceil(count / 100),
+        estimatedTime: this.getEstimatedDownloadTime(count),
+        recommendedApproach: this.getRecommendedApproach(count),
+        memoryEstimate: this.getEstimatedMemoryUsage(count),
+        queryTime: `${queryTime}ms`
+      },
+      // ✅ ENHANCED: Detailed area analysis
+      areaInfo: {
+        shape: 'geometry' in area ? area.geometry.type : 'BoundingBox',
+        sizeKm2: this.calculateQueryAreaKm2(area),
+        density: count > 0 ? Math.round((count / this.calculateQueryAreaKm2(area)) * 100) / 100 : 0,
+        classification: this.classifyAreaDensity(count, this.calculateQueryAreaKm2(area)),
+        coordinates: {
+          center: {
+            latitude: (bounds.minLatitude + bounds.maxLatitude) / 2,
+            longitude: longitudeCenter(bounds.minLongitude, bounds.maxLongitude)
+          },
+          span: {
+            latitudeDegrees: bounds.maxLatitude - bounds.minLatitude,
+            longitudeDegrees: longitudeSpan(bounds.minLongitude, bounds.maxLongitude)
+          },
+          crossesAntimeridian: crossesAntimeridian(bounds.minLongitude, bounds.maxLongitude)
+        }
+      },
+      // ✅ NEW: Processing recommendations
+      recommendations: {
+        downloadMethod: this.getRecommendedApproach(count),
+        estimatedFileSize: {
+          csv: this.estimateFileSize(count, 'csv'),
+          pdf: count <= 5000 ? this.estimateFileSize(count, 'pdf') : 'Too large for PDF'
+        },
+        optimization: count > 10000 ? 
+          'Consider using date filters or smaller geographic area' : 
+          'Area size is optimal for processing'
+      },
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * 📍 Radius/nearest query -> NearbySearch, with the optional time window
+   */
+  private buildNearbySearch(queryDto: QueryRadiusDto | QueryNearestDto, limit: number): NearbySearch {
+    const { startDate, endDate } = queryDto;
+    if (Boolean(startDate) !== Boolean(endDate)) {
+      throw new BadRequestException('startDate and endDate must be given together');
     }
 
-    // Area size validation (prevent extremely large areas)
-    const areaSize = this.calculateBoundingBoxSize(query);
-    if (areaSize > 1000000) { // > 1M km²
-      throw new BadRequestException(`Search area too large: ${areaSize.toFixed(0)} km². Please use a smaller area (max: 1,000,000 km²).`);
+    const search: NearbySearch = {
+      latitude: queryDto.latitude,
+      longitude: queryDto.longitude,
+      limit,
+      source: queryDto.source
+    };
+
+    if (startDate && endDate) {
+      const start = parseApiDate(startDate);
+      const end = parseApiDate(endDate);
+      if (!start || !end || start >= end) {
+        throw new BadRequestException('startDate must be before endDate');
+      }
+      search.startDate = start;
+      search.endDate = end;
+    }
+
+    return search;
+  }
+
+  private formatNearbyResponse(
+    queryDto: QueryRadiusDto | QueryNearestDto,
+    vessels: NearbyVessel[],
+    unit: DistanceUnit,
+    criteria: Record<string, number | undefined>
+  ) {
+    return {
+      success: true,
+      data: {
+        center: { latitude: queryDto.latitude, longitude: queryDto.longitude },
+        dataSource: queryDto.startDate ? 'logs' : 'current',
+        unit,
+        ...criteria,
+        count: vessels.length,
+        vessels: vessels.map(vessel => ({
+          ...vessel,
+          distance: Math.round(this.fromMeters(vessel.distanceMeters, unit) * 100) / 100
+        }))
+      },
+      timeRange: queryDto.startDate ? { startDate: queryDto.startDate, endDate: queryDto.endDate } : undefined,
+      timestamp: new Date()
+    };
+  }
+
+  private toMeters(value: number, unit: DistanceUnit): number {
+    if (unit === 'nm') return value * NAUTICAL_MILE_METERS;
+    if (unit === 'km') return value * 1000;
+    return value;
+  }
+
+  private fromMeters(meters: number, unit: DistanceUnit): number {
+    return meters / this.toMeters(1, unit);
+  }
+
+  /**
+   * ✅ Require geometry on POST polygon endpoints
+   */
+  private requireGeometry(body: { geometry?: PolygonGeometry; areaId?: string }): PolygonGeometry {
+    if (!body.geometry && !body.areaId) {
+      throw new BadRequestException('geometry (GeoJSON Polygon or MultiPolygon) or areaId is required');
+    }
+    return body.geometry as PolygonGeometry;
+  }
+
+  /**
+   * ✅ Swap a saved area id for its geometry; 404 when the area does not exist
+   */
+  private async resolveSavedArea(query: { geometry?: PolygonGeometry; areaId?: string }): Promise<void> {
+    if (!query.areaId) return;
+    if (query.geometry) {
+      throw new BadRequestException('Use either areaId or geometry, not both');
     }
+    query.geometry = await this.poiAreasService.getGeometry(query.areaId);
+  }
+
+  /**
+   * ✅ Validate Polygon Geometry - ring closure, ranges, self-intersection
+   */
+  private validatePolygonGeometry(geometry: PolygonGeometry): void {
+    const errors = validatePolygonGeometry(geometry);
+    if (errors.length > 0) {
+      throw new BadRequestException(`Invalid geometry: ${errors.join('; ')}`);
+    }
+  }
+
+  /**
+   * ✅ Bounds of the query - the polygon's bounding box for geometry queries
+   */
+  private getQueryBounds(query: any): BoundingBox {
+    if (query.geometry) {
+      return polygonBoundingBox(query.geometry);
+    }
+    return {
+      minLongitude: query.minLongitude,
+      maxLongitude: query.maxLongitude,
+      minLatitude: query.minLatitude,
+      maxLatitude: query.maxLatitude
+    };
+  }
+
+  /**
+   * ✅ Area in km² - true spherical area for polygons
+   */
+  private calculateQueryAreaKm2(query: any): number {
+    if (query.geometry) {
+      return Math.round(sphericalPolygonAreaKm2(query.geometry) * 100) / 100;
+    }
+    return this.calculateBoundingBoxSize(query);
   }
 
   /**
@@ -753,7 +1059,7 @@ export class AisDataController {
       throw new BadRequestException('All coordinate values must be valid numbers');
     }
 
-    if (minLongitude < -180 || maxLongitude > 180) {
+    if ([minLongitude, maxLongitude].some(longitude => longitude < -180 || longitude > 180)) {
       throw new BadRequestException('Longitude must be between -180 and 180');
     }
     
@@ -761,8 +1067,9 @@ export class AisDataController {
       throw new BadRequestException('Latitude must be between -90 and 90');
     }
 
-    if (minLongitude >= maxLongitude) {
-      throw new BadRequestException('minLongitude must be less than maxLongitude');
+    // ✅ minLongitude > maxLongitude wraps the antimeridian
+    if (minLongitude === maxLongitude) {
+      throw new BadRequestException('minLongitude and maxLongitude must differ');
     }
 
     if (minLatitude >= maxLatitude) {
@@ -816,7 +1123,7 @@ export class AisDataController {
    * ✅ Calculate Bounding Box Size
    */
   private calculateBoundingBoxSize(bounds: any): number {
-    const lonDiff = Math.abs(bounds.maxLongitude - bounds.minLongitude);
+    const lonDiff = longitudeSpan(bounds.minLongitude, bounds.maxLongitude);
     const latDiff = Math.abs(bounds.maxLatitude - bounds.minLatitude);
     
     const lonKm = lonDiff * 111.32 * Math.cos((bounds.minLatitude + bounds.maxLatitude) / 2 * Math.PI / 180);
@@ -868,7 +1175,7 @@ export class AisDataController {
       const curr = trackPoints[i];
       
       if (prev.latitude && prev.longitude && curr.latitude && curr.longitude) {
-        const distance = this.haversineDistance(
+        const distance = haversineDistanceKm(
           prev.latitude, prev.longitude,
           curr.latitude, curr.longitude
         );
@@ -880,20 +1187,6 @@ export class AisDataController {
     return `${totalDistance.toFixed(1)} km`;
   }
 
-  /**
-   * ✅ Haversine Distance Calculation
-   */
-  private haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
   /**
    * ✅ Get Time Ago
    */
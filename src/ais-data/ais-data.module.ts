@@ -3,18 +3,21 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { AisDataService } from './ais-data.service';
 import { AisDataController } from './ais-data.controller';
+import { LocationMigrationService } from './location-migration.service';
 import { CurrentVessel, CurrentVesselSchema } from './schemas/current-vessel.schema';
 import { VesselLog, VesselLogSchema } from './schemas/vessel-log.schema';
+import { PoiAreasModule } from '../poi-areas/poi-areas.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: CurrentVessel.name, schema: CurrentVesselSchema },
       { name: VesselLog.name, schema: VesselLogSchema }
-    ])
+    ]),
+    PoiAreasModule
   ],
   controllers: [AisDataController],
-  providers: [AisDataService], // ✅ Hanya AisDataService
+  providers: [AisDataService, LocationMigrationService],
   exports: [AisDataService]
 })
 export class AisDataModule {}
@@ -1,21 +1,77 @@
 // src/ais-data/ais-data.service.ts - COMPLETE WITH POI AREA
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
 import { Model } from 'mongoose';
 import { CurrentVessel, CurrentVesselDocument } from './schemas/current-vessel.schema';
 import { VesselLog, VesselLogDocument } from './schemas/vessel-log.schema';
 import { CreateVesselDataDto } from './dto/create-vessel-data.dto';
 import { QueryVesselLogDto } from './dto/query-vessel-log.dto';
 import { QueryPOIAreaDto, POIAreaCountDto } from './dto/query-poi-area.dto';
+import { parseApiDate, parseTimestamp } from '../common/time/timezone.util';
+import { parseEta } from '../common/time/eta.util';
+import {
+  BoundingBox,
+  GeoJsonPoint,
+  boundingBoxFilter,
+  initialBearing,
+  longitudeSpan,
+  toGeoJsonPoint,
+} from '../common/geo/geo.util';
+import {
+  PolygonGeometry,
+  polygonBoundingBox,
+  sphericalPolygonAreaKm2,
+} from '../common/geo/polygon.util';
+import {
+  DEFAULT_POSITION_CHANGE_THRESHOLDS,
+  PositionChangeThresholds,
+  isSignificantChange,
+} from './position-change';
+import { PositionIngestEnricher, PositionIngestHook, VesselPositionUpdate } from './ingest-hooks';
+import { bulkWriteWithErrors } from './bulk-write';
 
 export interface ArchiveResult {
-  archivedCount: number;
-  newCurrentCount: number;
+  archivedCount: number; // positions written to vessel_logs
+  newCurrentCount: number; // current_vessels records created or advanced
+  duplicateCount?: number; // same source timestamp seen again, not stored twice
+  unchangedCount?: number; // below movement thresholds, skipped until heartbeat
+  outOfOrderCount?: number; // older than current, history only
   totalProcessed: number;
   duration: number;
   errors: string[];
 }
 
+
+const BULK_WRITE_BATCH_SIZE = 500;
+
+// ✅ POI area: a lat/lon rectangle (GET) or a GeoJSON polygon (POST)
+export type POIArea = BoundingBox | { geometry: PolygonGeometry };
+
+// ✅ Incoming vessel data with timestamps parsed to UTC Dates
+type IngestPosition = Omit<CreateVesselDataDto, 'timestamp' | 'receivedAt' | 'etaAt'> & {
+  timestamp: Date;
+  receivedAt: Date;
+  etaAt?: Date | null;
+  location?: GeoJsonPoint;
+};
+
+// ✅ Radius / nearest search around a point; a time window switches to vessel_logs
+export interface NearbySearch {
+  latitude: number;
+  longitude: number;
+  limit: number;
+  maxDistanceMeters?: number;
+  source?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export type NearbyVessel = Record<string, any> & {
+  distanceMeters: number;
+  bearing: number; // degrees true, from the query point to the vessel
+};
+
 export interface DataStatistics {
   currentVessels: number;
   totalLogs: number;
@@ -27,6 +83,9 @@ export interface DataStatistics {
 @Injectable()
 export class AisDataService {
   private readonly logger = new Logger(AisDataService.name);
+  private readonly changeThresholds: PositionChangeThresholds;
+  private readonly ingestHooks: PositionIngestHook[] = [];
+  private readonly ingestEnrichers: PositionIngestEnricher[] = [];
 
   constructor(
     @InjectModel(CurrentVessel.name)
@@ -34,86 +93,281 @@ export class AisDataService {
     
     @InjectModel(VesselLog.name)
     private vesselLogModel: Model<VesselLogDocument>,
-  ) {}
+
+    private readonly configService: ConfigService,
+  ) {
+    const defaults = DEFAULT_POSITION_CHANGE_THRESHOLDS;
+    this.changeThresholds = {
+      distanceMeters: Number(this.configService.get<string>('AIS_UNCHANGED_DISTANCE_METERS', String(defaults.distanceMeters))),
+      headingDegrees: Number(this.configService.get<string>('AIS_UNCHANGED_HEADING_DEGREES', String(defaults.headingDegrees))),
+      speedKnots: Number(this.configService.get<string>('AIS_UNCHANGED_SPEED_KNOTS', String(defaults.speedKnots))),
+      heartbeatSeconds: Number(this.configService.get<string>('AIS_HISTORY_HEARTBEAT_SECONDS', String(defaults.heartbeatSeconds))),
+    };
+  }
+
+  /**
+   * 🪝 Register an analytics hook (geofences, alerts, ...) on the ingest path
+   */
+  registerIngestHook(hook: PositionIngestHook): void {
+    this.ingestHooks.push(hook);
+    this.logger.log(`🪝 Registered ingest hook: ${hook.name}`);
+  }
+
+  /**
+   * 🧩 Register an enricher (destination normalization, ...) that adds fields before writes
+   */
+  registerIngestEnricher(enricher: PositionIngestEnricher): void {
+    this.ingestEnrichers.push(enricher);
+    this.logger.log(`🧩 Registered ingest enricher: ${enricher.name}`);
+  }
 
   /**
    * 🔄 UPDATE CURRENT VESSEL DATA - WITHOUT TRANSACTIONS
+   * Write-through: every accepted position goes to vessel_logs at ingest,
+   * current_vessels only moves forward to the newest timestamp per MMSI.
+   * Per batch: one bulk read of current state, one bulkWrite for history
+   * and one for current state; failures are reported per vessel.
    */
-  async updateCurrentVesselData(vesselDataArray: CreateVesselDataDto[]): Promise<ArchiveResult> {
+  async updateCurrentVesselData(
+    vesselDataArray: CreateVesselDataDto[],
+    reason: string = 'ingest'
+  ): Promise<ArchiveResult> {
     const startTime = Date.now();
     this.logger.log(`Starting batch update for ${vesselDataArray.length} vessels`);
 
-    let archivedCount = 0;
-    let newCurrentCount = 0;
-    const errors: string[] = [];
+    const result: ArchiveResult = {
+      archivedCount: 0,
+      newCurrentCount: 0,
+      duplicateCount: 0,
+      unchangedCount: 0,
+      outOfOrderCount: 0,
+      totalProcessed: vesselDataArray.length,
+      duration: 0,
+      errors: []
+    };
 
-    // ✅ Process vessels in batches WITHOUT transactions
-    const batchSize = 50; // Process 50 vessels at a time
-    
-    for (let i = 0; i < vesselDataArray.length; i += batchSize) {
-      const batch = vesselDataArray.slice(i, i + batchSize);
-      this.logger.log(`Processing batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(vesselDataArray.length/batchSize)} (${batch.length} vessels)`);
-
-      for (const vesselData of batch) {
-        try {
-          // ✅ Find existing vessel
-          const existingVessel = await this.currentVesselModel.findOne({ mmsi: vesselData.mmsi });
-
-          if (existingVessel) {
-            // ✅ Archive existing data to logs (without session)
-            await this.archiveVesselToLog(existingVessel, 'scheduled_update');
-            archivedCount++;
-          }
-
-          // ✅ Update or create current vessel (upsert)
-          await this.currentVesselModel.findOneAndUpdate(
-            { mmsi: vesselData.mmsi },
-            {
-              ...vesselData,
-              timestamp: new Date(vesselData.timestamp),
-              lastUpdated: new Date(),
-              updateCount: existingVessel ? existingVessel.updateCount + 1 : 1
-            },
-            { 
-              upsert: true, 
-              new: true
-            }
-          );
-          
-          newCurrentCount++;
-
-        } catch (error) {
-          const errorMsg = `Failed to process vessel ${vesselData.mmsi}: ${error.message}`;
-          this.logger.warn(errorMsg);
-          errors.push(errorMsg);
+    for (let i = 0; i < vesselDataArray.length; i += BULK_WRITE_BATCH_SIZE) {
+      const batch = vesselDataArray.slice(i, i + BULK_WRITE_BATCH_SIZE);
+      try {
+        await this.writePositionBatch(batch, reason, result);
+      } catch (error) {
+        // ✅ Batch-level failure (e.g. connection lost) - report every vessel in it
+        batch.forEach(vesselData => {
+          result.errors.push(`Failed to process vessel ${vesselData.mmsi}: ${error.message}`);
+        });
+      }
+    }
+
+    result.duration = Date.now() - startTime;
+    this.logger.log(`Batch update completed: ${JSON.stringify({ ...result, errors: result.errors.length })}`);
+    return result;
+  }
+
+  /**
+   * 📦 WRITE POSITION BATCH - classify against current state, then bulk write
+   */
+  private async writePositionBatch(
+    batch: CreateVesselDataDto[],
+    reason: string,
+    result: ArchiveResult
+  ): Promise<void> {
+    const positions: IngestPosition[] = [];
+    for (const vesselData of batch) {
+      const timestamp = parseTimestamp(vesselData.timestamp);
+      if (!timestamp) {
+        result.errors.push(`Failed to process vessel ${vesselData.mmsi}: invalid timestamp "${vesselData.timestamp}"`);
+        continue;
+      }
+      const { etaAt, ...report } = vesselData;
+      positions.push({
+        ...report,
+        timestamp,
+        receivedAt: parseTimestamp(vesselData.receivedAt) ?? new Date(),
+        // ✅ Reports with static data get etaAt (null clears a stale one); AIS ETAs are UTC
+        ...(vesselData.eta !== undefined
+          ? { etaAt: parseTimestamp(etaAt) ?? parseEta(vesselData.eta, timestamp) }
+          : {}),
+        location: toGeoJsonPoint(vesselData.latitude, vesselData.longitude)
+      });
+    }
+
+    await this.runIngestEnrichers(positions);
+
+    // ✅ Oldest first so several reports for one MMSI apply in order
+    positions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    // ✅ Bulk read of current state
+    const mmsis = [...new Set(positions.map(position => position.mmsi))];
+    const existingVessels = await this.currentVesselModel
+      .find({ mmsi: { $in: mmsis } })
+      .select('mmsi timestamp latitude longitude speed course heading navStatus name source destination destinationLocode eta etaAt loggedAt')
+      .lean();
+    const state = new Map<number, any>(
+      existingVessels.map(vessel => [vessel.mmsi, { ...vessel, timestamp: new Date(vessel.timestamp) }])
+    );
+
+    // ✅ Late arrivals may already be in history from an earlier run
+    const lateCandidates = positions.filter(position =>
+      state.get(position.mmsi)?.timestamp.getTime() > position.timestamp.getTime()
+    );
+    const loggedKeys = new Set<string>();
+    if (lateCandidates.length > 0) {
+      const logged = await this.vesselLogModel
+        .find({ $or: lateCandidates.map(({ mmsi, timestamp }) => ({ mmsi, timestamp })) })
+        .select('mmsi timestamp')
+        .lean();
+      logged.forEach(log => loggedKeys.add(`${log.mmsi}:${new Date(log.timestamp).getTime()}`));
+    }
+
+    const historyPositions: IngestPosition[] = [];
+    const latestByMmsi = new Map<number, IngestPosition>();
+    const updatesByMmsi = new Map<number, number>();
+    const refreshedByMmsi = new Map<number, Date>();
+    const hookUpdates: VesselPositionUpdate[] = [];
+
+    for (const position of positions) {
+      const current = state.get(position.mmsi);
+      const time = position.timestamp.getTime();
+
+      // ✅ Same report polled again - already in history and current
+      if (current && current.timestamp.getTime() === time) {
+        result.duplicateCount!++;
+        continue;
+      }
+
+      // ✅ Late arrival: history only, current keeps the newer position
+      if (current && current.timestamp.getTime() > time) {
+        const key = `${position.mmsi}:${time}`;
+        if (loggedKeys.has(key)) {
+          result.duplicateCount!++;
+        } else {
+          loggedKeys.add(key);
+          historyPositions.push(position);
+          result.outOfOrderCount!++;
         }
+        continue;
       }
 
-      // ✅ Small delay between batches to avoid overwhelming DB
-      if (i + batchSize < vesselDataArray.length) {
-        await new Promise(resolve => setTimeout(resolve, 100)); // 100ms delay
+      // ✅ Moored/idle vessel re-reporting the same state - no history row until heartbeat,
+      // but current_vessels still moves to the latest report time
+      const loggedAt: Date = current?.loggedAt ? new Date(current.loggedAt) : current?.timestamp;
+      if (current && !isSignificantChange({ ...current, timestamp: loggedAt }, position, this.changeThresholds)) {
+        result.unchangedCount!++;
+        state.set(position.mmsi, { ...current, loggedAt, timestamp: position.timestamp });
+        refreshedByMmsi.set(position.mmsi, position.timestamp);
+        continue;
       }
+
+      historyPositions.push(position);
+      hookUpdates.push({ mmsi: position.mmsi, previous: current, current: position });
+      state.set(position.mmsi, position);
+      latestByMmsi.set(position.mmsi, position);
+      updatesByMmsi.set(position.mmsi, (updatesByMmsi.get(position.mmsi) ?? 0) + 1);
     }
 
-    const duration = Date.now() - startTime;
-    const result: ArchiveResult = {
-      archivedCount,
-      newCurrentCount,
-      totalProcessed: vesselDataArray.length,
-      duration,
-      errors
-    };
+    // ✅ One bulkWrite for history
+    const historyFailures = await bulkWriteWithErrors(
+      this.vesselLogModel,
+      historyPositions.map(position => ({
+        insertOne: { document: this.toLogRecord(position, reason) }
+      }))
+    );
+    result.archivedCount += historyPositions.length - historyFailures.size;
 
-    this.logger.log(`Batch update completed: ${JSON.stringify(result)}`);
-    return result;
+    const failedMmsis = new Set<number>();
+    historyFailures.forEach((message, index) => {
+      const mmsi = historyPositions[index].mmsi;
+      failedMmsis.add(mmsi);
+      result.errors.push(`Failed to archive vessel ${mmsi}: ${message}`);
+    });
+
+    // ✅ One bulkWrite for current state - a vessel whose history write failed keeps its old state
+    const currentPositions = [...latestByMmsi.values()].filter(position => !failedMmsis.has(position.mmsi));
+    const currentFailures = await bulkWriteWithErrors(
+      this.currentVesselModel,
+      currentPositions.map(position => ({
+        updateOne: {
+          filter: { mmsi: position.mmsi },
+          update: {
+            $set: { ...position, loggedAt: position.timestamp, lastUpdated: new Date() },
+            $inc: { updateCount: updatesByMmsi.get(position.mmsi) ?? 1 },
+            // ✅ Out-of-range coordinates: no stale point left in the 2dsphere index
+            ...(position.location ? {} : { $unset: { location: '' } })
+          },
+          upsert: true
+        }
+      }))
+    );
+    result.newCurrentCount += currentPositions.length - currentFailures.size;
+
+    currentFailures.forEach((message, index) => {
+      failedMmsis.add(currentPositions[index].mmsi);
+      result.errors.push(`Failed to process vessel ${currentPositions[index].mmsi}: ${message}`);
+    });
+
+    // ✅ Unchanged reports only refresh freshness; the filter keeps a newer write from being rolled back
+    const refreshed = [...refreshedByMmsi].filter(([mmsi]) => !failedMmsis.has(mmsi));
+    const refreshFailures = await bulkWriteWithErrors(
+      this.currentVesselModel,
+      refreshed.map(([mmsi, timestamp]) => ({
+        updateOne: {
+          filter: { mmsi, timestamp: { $lt: timestamp } },
+          update: { $set: { timestamp, lastUpdated: new Date() } }
+        }
+      }))
+    );
+    refreshFailures.forEach((message, index) => {
+      result.errors.push(`Failed to process vessel ${refreshed[index][0]}: ${message}`);
+    });
+
+    await this.runIngestHooks(hookUpdates.filter(update => !failedMmsis.has(update.mmsi)));
+  }
+
+  /**
+   * 🧩 RUN INGEST ENRICHERS - a failing enricher is logged, positions are written as they are
+   */
+  private async runIngestEnrichers(positions: IngestPosition[]): Promise<void> {
+    if (positions.length === 0) {
+      return;
+    }
+
+    for (const enricher of this.ingestEnrichers) {
+      try {
+        await enricher.enrich(positions);
+      } catch (error) {
+        this.logger.error(`Ingest enricher ${enricher.name} failed: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * 🪝 RUN INGEST HOOKS - a failing hook is logged, ingest carries on
+   */
+  private async runIngestHooks(updates: VesselPositionUpdate[]): Promise<void> {
+    if (updates.length === 0 || this.ingestHooks.length === 0) {
+      return;
+    }
+
+    const results = await Promise.allSettled(
+      this.ingestHooks.map(hook => hook.onPositions(updates))
+    );
+    results.forEach((outcome, index) => {
+      if (outcome.status === 'rejected') {
+        this.logger.error(`Ingest hook ${this.ingestHooks[index].name} failed: ${outcome.reason?.message ?? outcome.reason}`);
+      }
+    });
   }
 
   /**
    * 📋 GET CURRENT VESSEL DATA
    */
-  async getCurrentVessels(limit?: number): Promise<CurrentVessel[]> {
+  async getCurrentVessels(limit?: number, destinationLocode?: string): Promise<CurrentVessel[]> {
+    // ✅ Normalized destination (UN/LOCODE), not the raw crew-entered text
+    const filter = destinationLocode
+      ? { destinationLocode: destinationLocode.replace(/[\s-]/g, '').toUpperCase() }
+      : {};
     const query = this.currentVesselModel
-      .find()
+      .find(filter)
       .sort({ lastUpdated: -1 });
 
     if (limit) {
@@ -149,7 +403,8 @@ export class AisDataService {
       limit = 100,
       sortBy = 'timestamp',
       sortOrder = 'desc',
-      source
+      source,
+      destinationLocode
     } = queryDto;
 
     const query: any = { status: 'archived' };
@@ -162,14 +417,18 @@ export class AisDataService {
 
     if (startDate || endDate) {
       query.timestamp = {};
-      if (startDate) query.timestamp.$gte = new Date(startDate);
-      if (endDate) query.timestamp.$lte = new Date(endDate);
+      if (startDate) query.timestamp.$gte = parseApiDate(startDate);
+      if (endDate) query.timestamp.$lte = parseApiDate(endDate);
     }
 
     if (source) {
       query.source = source;
     }
 
+    if (destinationLocode) {
+      query.destinationLocode = destinationLocode.replace(/[\s-]/g, '').toUpperCase();
+    }
+
     const skip = (page - 1) * limit;
     const sortDirection = sortOrder === 'desc' ? -1 : 1;
 
@@ -210,8 +469,8 @@ export class AisDataService {
     const query = {
       mmsi,
       timestamp: {
-        $gte: new Date(startDate),
-        $lte: new Date(endDate)
+        $gte: parseApiDate(startDate),
+        $lte: parseApiDate(endDate)
       },
       status: 'archived'
     };
@@ -273,37 +532,17 @@ export class AisDataService {
   }
 
   /**
-   * 🗃️ ARCHIVE VESSEL TO LOG - WITHOUT SESSION
+   * 🗃️ LOG RECORD
+   * Copies every incoming vessel field (not a fixed subset) so new schema
+   * fields like imo/flag/dimension reach history without touching this method.
    */
-  private async archiveVesselToLog(
-    vessel: CurrentVesselDocument, 
-    reason: string = 'scheduled_update'
-  ): Promise<void> {
-    
-    const logData = {
-      mmsi: vessel.mmsi,
-      latitude: vessel.latitude,
-      longitude: vessel.longitude,
-      course: vessel.course,
-      speed: vessel.speed,
-      heading: vessel.heading,
-      name: vessel.name,
-      callSign: vessel.callSign,
-      vesselType: vessel.vesselType,
-      navStatus: vessel.navStatus,
-      destination: vessel.destination,
-      eta: vessel.eta,
-      timestamp: vessel.timestamp,
-      length: vessel.length,
-      width: vessel.width,
-      source: vessel.source,
+  private toLogRecord(vesselData: Record<string, any>, reason: string): Record<string, any> {
+    return {
+      ...vesselData,
       archivedAt: new Date(),
       archiveReason: reason,
       status: 'archived'
     };
-
-    // ✅ Simple create without session
-    await this.vesselLogModel.create(logData);
   }
 
   /**
@@ -416,50 +655,10 @@ export class AisDataService {
   }
 
   /**
-   * 🔄 BULK UPSERT (Alternative method for better performance)
+   * 🔄 BULK UPSERT - same bulk path as updateCurrentVesselData, including history
    */
   async bulkUpsertVessels(vesselDataArray: CreateVesselDataDto[]): Promise<ArchiveResult> {
-    const startTime = Date.now();
-    this.logger.log(`Starting bulk upsert for ${vesselDataArray.length} vessels`);
-
-    try {
-      // ✅ Prepare bulk operations
-      const bulkOps = vesselDataArray.map(vesselData => ({
-        updateOne: {
-          filter: { mmsi: vesselData.mmsi },
-          update: {
-            $set: {
-              ...vesselData,
-              timestamp: new Date(vesselData.timestamp),
-              lastUpdated: new Date(),
-            },
-            $inc: { updateCount: 1 }
-          },
-          upsert: true
-        }
-      }));
-
-      // ✅ Execute bulk operation
-      const result = await this.currentVesselModel.bulkWrite(bulkOps, { 
-        ordered: false // Continue even if some operations fail
-      });
-
-      const duration = Date.now() - startTime;
-      const archiveResult: ArchiveResult = {
-        archivedCount: 0, // We're not archiving in bulk mode
-        newCurrentCount: result.upsertedCount + result.modifiedCount,
-        totalProcessed: vesselDataArray.length,
-        duration,
-        errors: []
-      };
-
-      this.logger.log(`Bulk upsert completed: ${JSON.stringify(archiveResult)}`);
-      return archiveResult;
-
-    } catch (error) {
-      this.logger.error(`Bulk upsert failed: ${error.message}`);
-      throw error;
-    }
+    return this.updateCurrentVesselData(vesselDataArray, 'bulk_upsert');
   }
 
   // ====================================================================
@@ -752,19 +951,11 @@ export class AisDataService {
   /**
    * 🎯 GET VESSEL COUNT IN POI AREA (Quick count)
    */
-  async getVesselCountInPOIArea(bounds: {
-    minLongitude: number;
-    maxLongitude: number;
-    minLatitude: number;
-    maxLatitude: number;
-  }): Promise<number> {
+  async getVesselCountInPOIArea(area: POIArea): Promise<number> {
     
-    this.logger.log(`⚡ Quick vessel count for bounds: ${JSON.stringify(bounds)}`);
+    this.logger.log(`⚡ Quick vessel count for ${'geometry' in area ? area.geometry.type : `bounds: ${JSON.stringify(area)}`}`);
     
-    const geoQuery = {
-      longitude: { $gte: bounds.minLongitude, $lte: bounds.maxLongitude },
-      latitude: { $gte: bounds.minLatitude, $lte: bounds.maxLatitude }
-    };
+    const geoQuery = this.buildAreaFilter(area);
 
     try {
       const count = await this.currentVesselModel.countDocuments(geoQuery);
@@ -776,6 +967,60 @@ export class AisDataService {
     }
   }
 
+  /**
+   * 📍 FIND VESSELS NEAR A POINT - nearest first
+   * Current positions by default. With a time window, searches vessel_logs
+   * and returns each vessel's closest report in that window.
+   */
+  async findVesselsNear(search: NearbySearch): Promise<NearbyVessel[]> {
+    const { latitude, longitude, limit, maxDistanceMeters, source, startDate, endDate } = search;
+    const historical = Boolean(startDate && endDate);
+
+    const query: any = {};
+    if (source) query.source = source;
+    if (historical) {
+      query.status = 'archived';
+      query.timestamp = { $gte: startDate, $lte: endDate };
+    }
+
+    const pipeline: any[] = [
+      {
+        $geoNear: {
+          near: toGeoJsonPoint(latitude, longitude),
+          key: 'location',
+          distanceField: 'distanceMeters',
+          spherical: true,
+          query,
+          ...(maxDistanceMeters !== undefined ? { maxDistance: maxDistanceMeters } : {})
+        }
+      }
+    ];
+
+    if (historical) {
+      // ✅ $geoNear output is distance-sorted, so $first is the closest approach
+      pipeline.push(
+        { $group: { _id: '$mmsi', closest: { $first: '$$ROOT' } } },
+        { $replaceRoot: { newRoot: '$closest' } },
+        { $sort: { distanceMeters: 1 } }
+      );
+    }
+    pipeline.push({ $limit: limit });
+
+    try {
+      const model: Model<any> = historical ? this.vesselLogModel : this.currentVesselModel;
+      const vessels = await model.aggregate(pipeline).allowDiskUse(true).exec();
+
+      return vessels.map(vessel => ({
+        ...vessel,
+        distanceMeters: Math.round(vessel.distanceMeters),
+        bearing: Math.round(initialBearing(latitude, longitude, vessel.latitude, vessel.longitude) * 10) / 10
+      }));
+    } catch (error) {
+      this.logger.error(`Nearby vessel search failed: ${error.message}`);
+      throw error;
+    }
+  }
+
   /**
    * 🔍 GET UNIQUE MMSIs IN AREA
    */
@@ -817,18 +1062,24 @@ export class AisDataService {
    * 📊 CALCULATE AREA STATISTICS
    */
   private async calculateAreaStatistics(queryDto: any, totalCount: number, dataType: string = 'vessel') {
-    const areaKm2 = this.calculateAreaSize(
-      queryDto.minLongitude,
-      queryDto.maxLongitude,
-      queryDto.minLatitude,
-      queryDto.maxLatitude
-    );
+    const geometry: PolygonGeometry | undefined = queryDto.geometry;
+
+    // ✅ Polygons use their true spherical area, rectangles the bounding box approximation
+    const areaKm2 = geometry
+      ? Math.round(sphericalPolygonAreaKm2(geometry) * 100) / 100
+      : this.calculateAreaSize(
+          queryDto.minLongitude,
+          queryDto.maxLongitude,
+          queryDto.minLatitude,
+          queryDto.maxLatitude
+        );
 
     return {
       totalVessels: totalCount,
       areaSize: `${areaKm2} km²`, 
-      density: totalCount > 0 ? Math.round((totalCount / areaKm2) * 100) / 100 : 0,
-      bounds: {
+      density: totalCount > 0 && areaKm2 > 0 ? Math.round((totalCount / areaKm2) * 100) / 100 : 0,
+      shape: geometry ? geometry.type : 'BoundingBox',
+      bounds: geometry ? polygonBoundingBox(geometry) : {
         minLongitude: queryDto.minLongitude,
         maxLongitude: queryDto.maxLongitude,
         minLatitude: queryDto.minLatitude,
@@ -846,34 +1097,19 @@ export class AisDataService {
    * 🏗️ BUILD GEO QUERY HELPER
    */
   private buildGeoQuery(queryDto: any): any {
-    const { 
-      minLongitude, 
-      maxLongitude, 
-      minLatitude, 
-      maxLatitude, 
-      startDate, 
-      endDate 
-    } = queryDto;
-    
-    // ✅ Validate coordinates
-    if (!minLongitude || !maxLongitude || !minLatitude || !maxLatitude) {
-      throw new Error('All coordinate bounds are required');
-    }
+    const { startDate, endDate } = queryDto;
 
-    const geoQuery: any = {
-      longitude: { $gte: Number(minLongitude), $lte: Number(maxLongitude) },
-      latitude: { $gte: Number(minLatitude), $lte: Number(maxLatitude) }
-    };
+    const geoQuery: any = this.buildAreaFilter(queryDto);
 
     // ✅ Add date filter if provided
     if (startDate || endDate) {
       geoQuery.timestamp = {};
       if (startDate) {
-        const startDateObj = typeof startDate === 'string' ? new Date(startDate) : startDate;
+        const startDateObj = parseApiDate(startDate);
         geoQuery.timestamp.$gte = startDateObj;
       }
       if (endDate) {
-        const endDateObj = typeof endDate === 'string' ? new Date(endDate) : endDate;
+        const endDateObj = parseApiDate(endDate);
         geoQuery.timestamp.$lte = endDateObj;
       }
     }
@@ -881,6 +1117,29 @@ export class AisDataService {
     return geoQuery;
   }
 
+  /**
+   * 🗺️ AREA FILTER - polygon geometry or bounding box
+   */
+  private buildAreaFilter(area: any): any {
+    if (area.geometry) {
+      return { location: { $geoWithin: { $geometry: area.geometry } } };
+    }
+
+    const { minLongitude, maxLongitude, minLatitude, maxLatitude } = area;
+
+    // ✅ Validate coordinates (0 is a valid coordinate)
+    if ([minLongitude, maxLongitude, minLatitude, maxLatitude].some(value => value === undefined || value === null || isNaN(Number(value)))) {
+      throw new Error('All coordinate bounds are required');
+    }
+
+    return boundingBoxFilter({
+      minLongitude: Number(minLongitude),
+      maxLongitude: Number(maxLongitude),
+      minLatitude: Number(minLatitude),
+      maxLatitude: Number(maxLatitude)
+    });
+  }
+
   /**
    * 🔄 TRANSFORM VESSEL LOG FOR EXPORT
    */
@@ -910,11 +1169,24 @@ export class AisDataService {
       navStatusCode: vessel.navStatus || 0,
       
       callSign: vessel.callSign || '',
+      imo: vessel.imo || '',
+      flag: vessel.flag || '',
+      vesselClass: vessel.vesselClass || '',
       destination: vessel.destination || '',
       eta: vessel.eta || '',
       length: typeof vessel.length === 'number' ? vessel.length : 0,
       width: typeof vessel.width === 'number' ? vessel.width : 0,
       
+      // ✅ Full dimension incl. antenna offsets (a = bow, b = stern, c = port, d = starboard)
+      dimension: vessel.dimension ? {
+        a: vessel.dimension.a ?? null,
+        b: vessel.dimension.b ?? null,
+        c: vessel.dimension.c ?? null,
+        d: vessel.dimension.d ?? null,
+        length: vessel.dimension.length ?? null,
+        width: vessel.dimension.width ?? null
+      } : null,
+      
       // ✅ Handle timestamps based on data source
       timestamp: vessel.timestamp || new Date(),
       lastUpdated: vessel.lastUpdated || vessel.timestamp || new Date(),
@@ -950,8 +1222,8 @@ export class AisDataService {
       headers: [
         'MMSI', 'Vessel Name', 'Latitude', 'Longitude', 'Speed (knots)',
         'Course (°)', 'Heading (°)', 'Vessel Type', 'Navigation Status', 
-        'Call Sign', 'Destination', 'ETA', 'Length (m)', 'Width (m)', 
-        'Timestamp', 'Source', 'Data Source'
+        'Call Sign', 'IMO', 'Flag', 'Class', 'Destination', 'ETA', 'Length (m)', 'Width (m)', 
+        'Antenna A/B/C/D (m)', 'Timestamp', 'Source', 'Data Source'
       ],
       records: validVessels
     };
@@ -961,12 +1233,13 @@ export class AisDataService {
    * 📐 CALCULATE AREA SIZE
    */
   private calculateAreaSize(minLon: number, maxLon: number, minLat: number, maxLat: number): number {
-    // ✅ Validate inputs
-    if (!minLon || !maxLon || !minLat || !maxLat) {
+    // ✅ Validate inputs (0 is a valid coordinate)
+    if ([minLon, maxLon, minLat, maxLat].some(value => typeof value !== 'number' || isNaN(value))) {
       return 0;
     }
 
-    const lonDiff = Math.abs(maxLon - minLon);
+    // ✅ minLon > maxLon wraps the antimeridian
+    const lonDiff = longitudeSpan(minLon, maxLon);
     const latDiff = Math.abs(maxLat - minLat);
     
     const lonKm = lonDiff * 111.32 * Math.cos((minLat + maxLat) / 2 * Math.PI / 180);
@@ -0,0 +1,103 @@
+import mongoose, { Schema } from 'mongoose';
+import { bulkWriteWithErrors } from './bulk-write';
+
+describe('bulkWriteWithErrors', () => {
+  // ✅ Real model so Mongoose shapes the errors; only the collection is stubbed
+  const model = mongoose.model(
+    'BulkWriteSpec',
+    new Schema({ mmsi: { type: Number, required: true }, name: String }),
+  );
+  const collectionBulkWrite = jest.spyOn(model.collection, 'bulkWrite');
+
+  const insert = (document: Record<string, unknown>) => ({
+    insertOne: { document },
+  });
+  // ✅ Driver WriteError: index into the ops it was sent
+  const writeError = (index: number, errmsg: string) => ({
+    index,
+    code: 11000,
+    errmsg,
+    err: { index, code: 11000, errmsg },
+  });
+  const driverError = (...writeErrors: ReturnType<typeof writeError>[]) =>
+    new mongoose.mongo.MongoBulkWriteError(
+      { message: writeErrors[0].errmsg, code: 11000, writeErrors } as never,
+      { insertedCount: 0 } as never,
+    );
+
+  afterEach(() => {
+    collectionBulkWrite.mockReset();
+  });
+
+  afterAll(() => {
+    mongoose.deleteModel('BulkWriteSpec');
+  });
+
+  it('should report nothing when every op succeeds', async () => {
+    collectionBulkWrite.mockResolvedValue({} as never);
+
+    const failures = await bulkWriteWithErrors(model, [
+      insert({ mmsi: 1 }),
+      insert({ mmsi: 2 }),
+    ]);
+
+    expect(failures.size).toBe(0);
+  });
+
+  it('should key validation failures by input index', async () => {
+    collectionBulkWrite.mockResolvedValue({} as never);
+
+    const failures = await bulkWriteWithErrors(model, [
+      insert({ mmsi: 1 }),
+      insert({ name: 'NO MMSI' }),
+      insert({ mmsi: 3 }),
+    ]);
+
+    expect([...failures.keys()]).toEqual([1]);
+    expect(failures.get(1)).toMatch(/mmsi/);
+    expect(collectionBulkWrite.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  it('should map server write errors back to input order past invalid ops', async () => {
+    // ✅ Ops 0, 2, 3 are sent; the server rejects the second one sent (input 2)
+    collectionBulkWrite.mockRejectedValue(driverError(writeError(1, 'E11000')));
+
+    const failures = await bulkWriteWithErrors(model, [
+      insert({ mmsi: 1 }),
+      insert({ name: 'NO MMSI' }),
+      insert({ mmsi: 3 }),
+      insert({ mmsi: 4 }),
+    ]);
+
+    expect([...failures.keys()].sort()).toEqual([1, 2]);
+    expect(failures.get(1)).toMatch(/mmsi/);
+    expect(failures.get(2)).toBe('E11000');
+  });
+
+  it('should take server write errors as-is when every op is valid', async () => {
+    collectionBulkWrite.mockRejectedValue(
+      driverError(writeError(0, 'E11000 first'), writeError(2, 'E11000 third')),
+    );
+
+    const failures = await bulkWriteWithErrors(model, [
+      insert({ mmsi: 1 }),
+      insert({ mmsi: 2 }),
+      insert({ mmsi: 3 }),
+    ]);
+
+    expect(failures).toEqual(
+      new Map([
+        [0, 'E11000 first'],
+        [2, 'E11000 third'],
+      ]),
+    );
+  });
+
+  it('should rethrow errors that are not per operation', async () => {
+    collectionBulkWrite.mockRejectedValue(new Error('connection lost'));
+
+    await expect(
+      bulkWriteWithErrors(model, [insert({ mmsi: 1 })]),
+    ).rejects.toThrow('connection lost');
+  });
+});
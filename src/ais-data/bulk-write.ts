@@ -0,0 +1,56 @@
+// src/ais-data/bulk-write.ts
+import { Model } from 'mongoose';
+
+type BulkWriteOps = Parameters<Model<any>['bulkWrite']>[0];
+
+// ✅ Shapes an unordered bulkWrite can throw with:
+// - MongooseBulkWriteError (validation only): `results`, one entry per op
+// - driver error after validation errors: `mongoose.results`, same layout
+// - driver error, all ops valid: `writeErrors[].index` in op order
+interface BulkWriteFailure {
+  message: string;
+  results?: unknown[];
+  mongoose?: { results?: unknown[] };
+  writeErrors?: Array<{ index: number; errmsg?: string }>;
+}
+
+/**
+ * 🧾 UNORDERED BULK WRITE - failure messages keyed by operation index.
+ * Errors that do not report per operation (connection lost) are rethrown.
+ */
+export async function bulkWriteWithErrors(
+  model: Pick<Model<any>, 'bulkWrite'>,
+  ops: BulkWriteOps,
+): Promise<Map<number, string>> {
+  const failures = new Map<number, string>();
+  if (ops.length === 0) {
+    return failures;
+  }
+
+  try {
+    await model.bulkWrite(ops, {
+      ordered: false,
+      throwOnValidationError: true,
+    });
+  } catch (caught) {
+    const error = caught as BulkWriteFailure;
+    const results = error.results ?? error.mongoose?.results;
+    if (Array.isArray(results)) {
+      results.forEach((item, index) => {
+        if (item instanceof Error) {
+          failures.set(index, item.message);
+        } else if ((item as { errmsg?: string } | null)?.errmsg) {
+          failures.set(index, (item as { errmsg: string }).errmsg);
+        }
+      });
+    } else if (Array.isArray(error.writeErrors)) {
+      error.writeErrors.forEach((writeError) => {
+        failures.set(writeError.index, writeError.errmsg ?? error.message);
+      });
+    } else {
+      throw caught;
+    }
+  }
+
+  return failures;
+}
@@ -1,7 +1,40 @@
 // src/ais-data/dto/create-vessel-data.dto.ts
-import { IsNumber, IsString, IsOptional, IsDateString, Min, Max } from 'class-validator';
+import { IsNumber, IsString, IsOptional, IsDateString, Min, Max, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 
+export class VesselDimensionDto {
+  // ✅ Antenna offsets in meters: a = bow, b = stern, c = port, d = starboard
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  a?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  b?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  c?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  d?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  length?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  width?: number;
+}
+
 export class CreateVesselDataDto {
   @IsNumber()
   @Min(100000000)
@@ -41,6 +74,18 @@ export class CreateVesselDataDto {
   @IsString()
   callSign?: string;
 
+  @IsOptional()
+  @IsString()
+  imo?: string;
+
+  @IsOptional()
+  @IsString()
+  flag?: string;
+
+  @IsOptional()
+  @IsString()
+  vesselClass?: string;
+
   @IsNumber()
   vesselType: number;
 
@@ -55,8 +100,16 @@ export class CreateVesselDataDto {
   @IsString()
   eta?: string;
 
+  @IsOptional()
+  @IsDateString()
+  etaAt?: string; // eta parsed to UTC by a source that knows its zone; derived from eta otherwise
+
   @IsDateString()
-  timestamp: string;
+  timestamp: string; // ISO-8601; values without an offset are taken as UTC
+
+  @IsOptional()
+  @IsDateString()
+  receivedAt?: string; // ingest time, defaults to now
 
   @IsOptional()
   @IsNumber()
@@ -66,6 +119,11 @@ export class CreateVesselDataDto {
   @IsNumber()
   width?: number;
 
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => VesselDimensionDto)
+  dimension?: VesselDimensionDto;
+
   @IsOptional()
   @IsString()
   source?: string = 'telkomsat';
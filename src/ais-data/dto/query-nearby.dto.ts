@@ -0,0 +1,74 @@
+// src/ais-data/dto/query-nearby.dto.ts
+import {
+  IsNumber,
+  IsOptional,
+  IsDateString,
+  IsEnum,
+  IsString,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export type DistanceUnit = 'nm' | 'km' | 'm';
+
+class NearbyPointDto {
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  @Type(() => Number)
+  latitude: number;
+
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  @Type(() => Number)
+  longitude: number;
+
+  @IsOptional()
+  @IsEnum(['nm', 'km', 'm'])
+  unit?: DistanceUnit = 'nm';
+
+  @IsOptional()
+  @IsString()
+  source?: string;
+
+  // ✅ Both set = search vessel_logs in the window, neither = current positions
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+export class QueryRadiusDto extends NearbyPointDto {
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  radius: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(5000)
+  limit?: number = 1000;
+}
+
+export class QueryNearestDto extends NearbyPointDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  k?: number = 20;
+
+  // ✅ Optional cap, in `unit`
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxDistance?: number;
+}
@@ -1,32 +1,51 @@
 // src/ais-data/dto/query-poi-area.dto.ts
-import { IsNumber, IsOptional, IsDateString, IsEnum, Min, Max, IsBoolean } from 'class-validator';
+import { IsNumber, IsOptional, IsDateString, IsEnum, Min, Max, IsBoolean, IsObject, IsMongoId, ValidateIf } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
+import type { PolygonGeometry } from '../../common/geo/polygon.util';
+
+// ✅ Bounding box is required unless a polygon geometry (POST body) or saved area is given
+const withoutGeometry = (dto: { geometry?: PolygonGeometry; areaId?: string }) => !dto.geometry && !dto.areaId;
 
 export class QueryPOIAreaDto {
+  // ✅ West edge; minLongitude > maxLongitude means the box crosses 180°
+  @ValidateIf(withoutGeometry)
   @IsNumber()
   @Min(-180)
   @Max(180)
   @Transform(({ value }) => parseFloat(value))
   minLongitude: number;
 
+  @ValidateIf(withoutGeometry)
   @IsNumber()
   @Min(-180)
   @Max(180)
   @Transform(({ value }) => parseFloat(value))
   maxLongitude: number;
 
+  @ValidateIf(withoutGeometry)
   @IsNumber()
   @Min(-90)
   @Max(90)
   @Transform(({ value }) => parseFloat(value))
   minLatitude: number;
 
+  @ValidateIf(withoutGeometry)
   @IsNumber()
   @Min(-90)
   @Max(90)
   @Transform(({ value }) => parseFloat(value))
   maxLatitude: number;
 
+  // ✅ GeoJSON Polygon/MultiPolygon; shape checked by validatePolygonGeometry
+  @IsOptional()
+  @IsObject()
+  geometry?: PolygonGeometry;
+
+  // ✅ Saved POI area (poi_areas) instead of inline bounds/geometry
+  @IsOptional()
+  @IsMongoId()
+  areaId?: string;
+
   @IsOptional()
   @IsDateString()
   startDate?: string;
@@ -53,28 +72,42 @@ export class QueryPOIAreaDto {
   pageSize?: number = 100; // ✅ Fixed 100 per page
 
   @IsOptional()
-  @Transform(({ value }) => value === 'true')
+  @Transform(({ value }) => value === true || value === 'true') // query string or JSON body
   @IsBoolean()
   autoFetch?: boolean = false; // ✅ Flag untuk otomatisasi
 }
 
 export class POIAreaCountDto {
+  @ValidateIf(withoutGeometry)
   @IsNumber()
   @Transform(({ value }) => parseFloat(value))
   minLongitude: number;
 
+  @ValidateIf(withoutGeometry)
   @IsNumber()
   @Transform(({ value }) => parseFloat(value))
   maxLongitude: number;
 
+  @ValidateIf(withoutGeometry)
   @IsNumber()
   @Transform(({ value }) => parseFloat(value))
   minLatitude: number;
 
+  @ValidateIf(withoutGeometry)
   @IsNumber()
   @Transform(({ value }) => parseFloat(value))
   maxLatitude: number;
 
+  // ✅ GeoJSON Polygon/MultiPolygon; shape checked by validatePolygonGeometry
+  @IsOptional()
+  @IsObject()
+  geometry?: PolygonGeometry;
+
+  // ✅ Saved POI area (poi_areas) instead of inline bounds/geometry
+  @IsOptional()
+  @IsMongoId()
+  areaId?: string;
+
   @IsOptional()
   @IsDateString()
   startDate?: string;
@@ -13,6 +13,7 @@ export class QueryVesselLogDto {
   @Transform(({ value }) => Array.isArray(value) ? value.map(Number) : [Number(value)])
   mmsis?: number[];
 
+  // ISO-8601, offset honoured (e.g. 2024-05-01T13:45:00+07:00); none = UTC
   @IsOptional()
   @IsDateString()
   startDate?: string;
@@ -42,4 +43,9 @@ export class QueryVesselLogDto {
   @IsOptional()
   @IsString()
   source?: string;
+
+  // Normalized destination UN/LOCODE, e.g. SGSIN
+  @IsOptional()
+  @IsString()
+  destinationLocode?: string;
 }
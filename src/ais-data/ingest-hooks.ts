@@ -0,0 +1,46 @@
+// src/ais-data/ingest-hooks.ts
+
+export interface TrackedPosition {
+  mmsi: number;
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  speed?: number;
+  course?: number;
+  heading?: number;
+  navStatus?: number;
+  name?: string;
+  source?: string;
+  [field: string]: any;
+}
+
+/**
+ * One accepted position and the vessel state it replaced.
+ * `previous` is undefined for a vessel seen for the first time.
+ */
+export interface VesselPositionUpdate {
+  mmsi: number;
+  previous?: TrackedPosition;
+  current: TrackedPosition;
+}
+
+/**
+ * 🪝 INGEST HOOK - runs after each ingest batch is written
+ * Receives positions that advanced current_vessels, oldest first.
+ * Register from onModuleInit via AisDataService.registerIngestHook(this).
+ */
+export interface PositionIngestHook {
+  readonly name: string;
+  onPositions(updates: VesselPositionUpdate[]): Promise<void>;
+}
+
+/**
+ * 🧩 INGEST ENRICHER - runs before each ingest batch is written
+ * May add derived fields to the incoming positions in place; they are
+ * stored in vessel_logs and current_vessels with the rest of the record.
+ * Register from onModuleInit via AisDataService.registerIngestEnricher(this).
+ */
+export interface PositionIngestEnricher {
+  readonly name: string;
+  enrich(positions: TrackedPosition[]): Promise<void>;
+}
@@ -0,0 +1,165 @@
+// src/ais-data/location-migration.service.ts
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import {
+  CurrentVessel,
+  CurrentVesselDocument,
+} from './schemas/current-vessel.schema';
+import { VesselLog, VesselLogDocument } from './schemas/vessel-log.schema';
+
+// ✅ B-tree lat/lon indexes replaced by the 2dsphere `location` indexes
+const LEGACY_INDEXES = {
+  current: ['geo_location_index'],
+  logs: ['geo_temporal_index'],
+};
+
+const BACKFILL_BATCH_SIZE = 5000;
+
+export interface LocationMigrationResult {
+  currentVessels: number; // documents backfilled
+  vesselLogs: number;
+  droppedIndexes: string[];
+  duration: number;
+}
+
+/**
+ * 🌐 LOCATION MIGRATION
+ * Backfills the GeoJSON `location` field on documents written before it
+ * existed and drops the legacy lat/lon indexes. Idempotent - only touches
+ * documents without `location`, so it is safe to run on every start.
+ */
+@Injectable()
+export class LocationMigrationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(LocationMigrationService.name);
+  private isRunning = false;
+  private lastResult: LocationMigrationResult | null = null;
+
+  constructor(
+    @InjectModel(CurrentVessel.name)
+    private readonly currentVesselModel: Model<CurrentVesselDocument>,
+
+    @InjectModel(VesselLog.name)
+    private readonly vesselLogModel: Model<VesselLogDocument>,
+
+    private readonly configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const runOnStart =
+      this.configService.get<string>(
+        'AIS_LOCATION_MIGRATION_ON_START',
+        'true',
+      ) !== 'false';
+    if (!runOnStart) return;
+
+    // ✅ Runs in the background, startup does not wait for large collections
+    this.run().catch((error) => {
+      this.logger.error(`Location migration failed: ${error.message}`);
+    });
+  }
+
+  async run(): Promise<LocationMigrationResult> {
+    if (this.isRunning) {
+      throw new Error('Location migration already in progress');
+    }
+
+    this.isRunning = true;
+    const startTime = Date.now();
+
+    try {
+      const currentVessels = await this.backfill(this.currentVesselModel);
+      const vesselLogs = await this.backfill(this.vesselLogModel);
+      const droppedIndexes = [
+        ...(await this.dropIndexes(
+          this.currentVesselModel,
+          LEGACY_INDEXES.current,
+        )),
+        ...(await this.dropIndexes(this.vesselLogModel, LEGACY_INDEXES.logs)),
+      ];
+
+      this.lastResult = {
+        currentVessels,
+        vesselLogs,
+        droppedIndexes,
+        duration: Date.now() - startTime,
+      };
+
+      if (currentVessels > 0 || vesselLogs > 0 || droppedIndexes.length > 0) {
+        this.logger.log(
+          `🌐 Location migration: ${currentVessels} current, ${vesselLogs} logs backfilled, dropped [${droppedIndexes.join(', ')}]`,
+        );
+      }
+      return this.lastResult;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  getStatus(): {
+    isRunning: boolean;
+    lastResult: LocationMigrationResult | null;
+  } {
+    return { isRunning: this.isRunning, lastResult: this.lastResult };
+  }
+
+  private async backfill(model: Model<any>): Promise<number> {
+    const filter = {
+      location: { $exists: false },
+      latitude: { $gte: -90, $lte: 90 },
+      longitude: { $gte: -180, $lte: 180 },
+    };
+    let total = 0;
+
+    // ✅ Batches by _id so a large vessel_logs does not hold one long write
+    for (;;) {
+      const ids = await model
+        .find(filter)
+        .select('_id')
+        .limit(BACKFILL_BATCH_SIZE)
+        .lean();
+      if (ids.length === 0) break;
+
+      const result = await model.updateMany(
+        { _id: { $in: ids.map((doc) => doc._id) } },
+        [
+          {
+            $set: {
+              location: {
+                type: 'Point',
+                coordinates: ['$longitude', '$latitude'],
+              },
+            },
+          },
+        ],
+        { timestamps: false },
+      );
+      total += result.modifiedCount;
+
+      if (ids.length < BACKFILL_BATCH_SIZE) break;
+    }
+
+    return total;
+  }
+
+  private async dropIndexes(
+    model: Model<any>,
+    names: string[],
+  ): Promise<string[]> {
+    const dropped: string[] = [];
+
+    for (const name of names) {
+      try {
+        if (await model.collection.indexExists(name)) {
+          await model.collection.dropIndex(name);
+          dropped.push(name);
+        }
+      } catch (error) {
+        this.logger.warn(`Could not drop index ${name}: ${error.message}`);
+      }
+    }
+
+    return dropped;
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  DEFAULT_POSITION_CHANGE_THRESHOLDS,
+  PositionSnapshot,
+  isSignificantChange,
+} from './position-change';
+
+describe('isSignificantChange', () => {
+  const previous = {
+    latitude: -6.1,
+    longitude: 106.8,
+    speed: 0.1,
+    course: 120,
+    heading: 118,
+    navStatus: 5,
+    name: 'KM BAHARI',
+    destination: 'ID TPP',
+    destinationLocode: 'IDTPP',
+    eta: '05-03 13:45',
+    timestamp: new Date('2024-05-01T00:00:00Z'),
+  };
+  const next = (
+    changes: Partial<PositionSnapshot> = {},
+    secondsLater = 60,
+  ) => ({
+    ...previous,
+    timestamp: new Date(previous.timestamp.getTime() + secondsLater * 1000),
+    ...changes,
+  });
+
+  it('should skip a report that repeats the stored state', () => {
+    expect(isSignificantChange(previous, next())).toBe(false);
+    expect(
+      isSignificantChange(previous, next({ speed: 0.4, course: 123 })),
+    ).toBe(false);
+  });
+
+  it('should store once the heartbeat interval has elapsed', () => {
+    const { heartbeatSeconds } = DEFAULT_POSITION_CHANGE_THRESHOLDS;
+
+    expect(isSignificantChange(previous, next({}, heartbeatSeconds - 1))).toBe(
+      false,
+    );
+    expect(isSignificantChange(previous, next({}, heartbeatSeconds))).toBe(
+      true,
+    );
+  });
+
+  it('should store movement beyond the distance threshold', () => {
+    // ✅ 0.0002° of latitude is ~22 m, 0.0003° ~33 m
+    expect(isSignificantChange(previous, next({ latitude: -6.1002 }))).toBe(
+      false,
+    );
+    expect(isSignificantChange(previous, next({ latitude: -6.1003 }))).toBe(
+      true,
+    );
+  });
+
+  it('should store speed, status and heading changes', () => {
+    expect(isSignificantChange(previous, next({ speed: 0.6 }))).toBe(true);
+    expect(isSignificantChange(previous, next({ navStatus: 0 }))).toBe(true);
+    expect(isSignificantChange(previous, next({ heading: 125 }))).toBe(true);
+  });
+
+  it('should compare bearings across north and treat 511 as not available', () => {
+    const northbound = { ...previous, course: 358 };
+
+    expect(isSignificantChange(northbound, next({ course: 2 }))).toBe(false);
+    expect(isSignificantChange(previous, next({ heading: 511 }))).toBe(true);
+  });
+
+  it('should store new voyage data of a stationary vessel', () => {
+    expect(isSignificantChange(previous, next({ destination: 'SGSIN' }))).toBe(
+      true,
+    );
+    expect(isSignificantChange(previous, next({ eta: '05-04 08:00' }))).toBe(
+      true,
+    );
+    expect(isSignificantChange(previous, next({ name: 'KM BAHARI 2' }))).toBe(
+      true,
+    );
+    expect(
+      isSignificantChange(previous, next({ destinationLocode: null })),
+    ).toBe(true);
+  });
+
+  it('should keep voyage data a position-only report does not carry', () => {
+    expect(
+      isSignificantChange(
+        previous,
+        next({ name: undefined, destination: undefined, eta: undefined }),
+      ),
+    ).toBe(false);
+  });
+});
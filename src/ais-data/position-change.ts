@@ -0,0 +1,108 @@
+// src/ais-data/position-change.ts
+import {
+  bearingDifference,
+  haversineDistanceMeters,
+} from '../common/geo/geo.util';
+
+export interface PositionChangeThresholds {
+  distanceMeters: number; // movement below this counts as unchanged
+  headingDegrees: number; // course/heading delta below this counts as unchanged
+  speedKnots: number; // SOG delta below this counts as unchanged
+  heartbeatSeconds: number; // store anyway once the last stored report is this old
+}
+
+export const DEFAULT_POSITION_CHANGE_THRESHOLDS: PositionChangeThresholds = {
+  distanceMeters: 25,
+  headingDegrees: 5,
+  speedKnots: 0.5,
+  heartbeatSeconds: 600,
+};
+
+export interface PositionSnapshot {
+  latitude: number;
+  longitude: number;
+  speed?: number;
+  course?: number;
+  heading?: number;
+  navStatus?: number;
+  name?: string;
+  destination?: string;
+  destinationLocode?: string | null;
+  eta?: string;
+}
+
+// ✅ Static/voyage data: a new value is stored at once, a report without
+// the field (position-only message) leaves it as it was
+const VOYAGE_FIELDS = [
+  'name',
+  'destination',
+  'destinationLocode',
+  'eta',
+] as const;
+
+// ✅ AIS "not available" sentinels: course 360, heading 511
+function validBearing(value: number | undefined): value is number {
+  return typeof value === 'number' && value >= 0 && value < 360;
+}
+
+/**
+ * True when `next` is worth storing over `previous` - moved, turned,
+ * changed speed, status or voyage data, or the heartbeat interval has elapsed.
+ */
+export function isSignificantChange(
+  previous: PositionSnapshot & { timestamp: Date },
+  next: PositionSnapshot & { timestamp: Date },
+  thresholds: PositionChangeThresholds = DEFAULT_POSITION_CHANGE_THRESHOLDS,
+): boolean {
+  const elapsedMs = next.timestamp.getTime() - previous.timestamp.getTime();
+  if (elapsedMs >= thresholds.heartbeatSeconds * 1000) {
+    return true;
+  }
+
+  if ((previous.navStatus ?? 15) !== (next.navStatus ?? 15)) {
+    return true;
+  }
+
+  if (
+    VOYAGE_FIELDS.some(
+      (field) =>
+        next[field] !== undefined &&
+        (next[field] ?? null) !== (previous[field] ?? null),
+    )
+  ) {
+    return true;
+  }
+
+  const distance = haversineDistanceMeters(
+    previous.latitude,
+    previous.longitude,
+    next.latitude,
+    next.longitude,
+  );
+  if (distance >= thresholds.distanceMeters) {
+    return true;
+  }
+
+  if (
+    Math.abs((next.speed ?? 0) - (previous.speed ?? 0)) >= thresholds.speedKnots
+  ) {
+    return true;
+  }
+
+  for (const field of ['course', 'heading'] as const) {
+    const before = previous[field];
+    const after = next[field];
+    if (validBearing(before) !== validBearing(after)) {
+      return true;
+    }
+    if (
+      validBearing(before) &&
+      validBearing(after) &&
+      bearingDifference(before, after) >= thresholds.headingDegrees
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
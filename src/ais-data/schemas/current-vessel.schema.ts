@@ -1,6 +1,9 @@
 // src/ais-data/schemas/current-vessel.schema.ts
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import { VesselDimension, VesselDimensionSchema } from './vessel-dimension.schema';
+import { GeoPoint, GeoPointSchema } from './geo-point.schema';
+import { toGeoJsonPoint } from '../../common/geo/geo.util';
 
 export type CurrentVesselDocument = CurrentVessel & Document;
 
@@ -18,6 +21,9 @@ export class CurrentVessel {
   @Prop({ required: true })
   longitude: number;
 
+  @Prop({ type: GeoPointSchema })
+  location?: GeoPoint; // ✅ Derived from latitude/longitude, kept in sync on write
+
   @Prop({ required: true })
   course: number;
 
@@ -33,6 +39,15 @@ export class CurrentVessel {
   @Prop()
   callSign?: string;
 
+  @Prop()
+  imo?: string;
+
+  @Prop()
+  flag?: string;
+
+  @Prop()
+  vesselClass?: string; // AIS class, 'A' or 'B'
+
   @Prop({ required: true })
   vesselType: number;
 
@@ -43,10 +58,25 @@ export class CurrentVessel {
   destination?: string;
 
   @Prop()
-  eta?: string;
+  destinationLocode?: string; // ✅ UN/LOCODE matched from destination, null when unmatched
+
+  @Prop()
+  destinationConfidence?: number; // 0..1, how sure the match is
+
+  @Prop()
+  eta?: string; // as reported
+
+  @Prop()
+  etaAt?: Date; // ✅ eta parsed to UTC, year inferred for AIS month/day ETAs
 
   @Prop({ required: true })
-  timestamp: Date;
+  timestamp: Date; // ✅ Position time, always UTC
+
+  @Prop()
+  receivedAt?: Date; // ✅ When we ingested it (timestamp is when the position was reported)
+
+  @Prop()
+  loggedAt?: Date; // ✅ Time of the last vessel_logs row; timestamp also moves on unchanged reports
 
   @Prop()
   length?: number;
@@ -54,6 +84,9 @@ export class CurrentVessel {
   @Prop()
   width?: number;
 
+  @Prop({ type: VesselDimensionSchema })
+  dimension?: VesselDimension; // ✅ Includes antenna offsets a/b/c/d
+
   @Prop({ required: true, default: 'telkomsat' })
   source: string;
 
@@ -75,9 +108,10 @@ export const CurrentVesselSchema = SchemaFactory.createForClass(CurrentVessel);
 // ✅ Hanya buat index yang diperlukan tanpa duplikasi
 CurrentVesselSchema.index({ timestamp: -1 });
 CurrentVesselSchema.index({ lastUpdated: -1 });
-CurrentVesselSchema.index({ 
-  latitude: 1, 
-  longitude: 1 
-}, { 
-  name: 'geo_location_index' 
+CurrentVesselSchema.index({ location: '2dsphere' }, { name: 'location_2dsphere' });
+CurrentVesselSchema.index({ destinationLocode: 1 });
+
+// ✅ Keep location in sync for document writes (bulk writes set it explicitly)
+CurrentVesselSchema.pre('validate', function () {
+  this.location = toGeoJsonPoint(this.latitude, this.longitude);
 });
@@ -0,0 +1,17 @@
+// src/ais-data/schemas/geo-point.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+/**
+ * 🌐 GeoJSON Point - coordinates are [longitude, latitude]
+ * Mirrors the plain latitude/longitude fields for 2dsphere queries.
+ */
+@Schema({ _id: false })
+export class GeoPoint {
+  @Prop({ type: String, enum: ['Point'], required: true })
+  type: 'Point';
+
+  @Prop({ type: [Number], required: true })
+  coordinates: [number, number];
+}
+
+export const GeoPointSchema = SchemaFactory.createForClass(GeoPoint);
@@ -0,0 +1,31 @@
+// src/ais-data/schemas/vessel-dimension.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+/**
+ * 📐 Vessel dimension as reported in AIS (meters)
+ * a/b/c/d are the antenna offsets: a = to bow, b = to stern,
+ * c = to port, d = to starboard. length = a + b, width = c + d.
+ */
+@Schema({ _id: false })
+export class VesselDimension {
+  @Prop()
+  a?: number;
+
+  @Prop()
+  b?: number;
+
+  @Prop()
+  c?: number;
+
+  @Prop()
+  d?: number;
+
+  @Prop()
+  length?: number;
+
+  @Prop()
+  width?: number;
+}
+
+export const VesselDimensionSchema =
+  SchemaFactory.createForClass(VesselDimension);
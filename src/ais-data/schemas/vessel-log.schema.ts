@@ -1,6 +1,9 @@
 // src/ais-data/schemas/vessel-log.schema.ts
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import { VesselDimension, VesselDimensionSchema } from './vessel-dimension.schema';
+import { GeoPoint, GeoPointSchema } from './geo-point.schema';
+import { toGeoJsonPoint } from '../../common/geo/geo.util';
 
 export type VesselLogDocument = VesselLog & Document;
 
@@ -18,6 +21,9 @@ export class VesselLog {
   @Prop({ required: true })
   longitude: number;
 
+  @Prop({ type: GeoPointSchema })
+  location?: GeoPoint; // ✅ Derived from latitude/longitude, kept in sync on write
+
   @Prop({ required: true })
   course: number;
 
@@ -33,6 +39,15 @@ export class VesselLog {
   @Prop()
   callSign?: string;
 
+  @Prop()
+  imo?: string;
+
+  @Prop()
+  flag?: string;
+
+  @Prop()
+  vesselClass?: string; // AIS class, 'A' or 'B'
+
   @Prop({ required: true })
   vesselType: number;
 
@@ -43,10 +58,22 @@ export class VesselLog {
   destination?: string;
 
   @Prop()
-  eta?: string;
+  destinationLocode?: string; // ✅ UN/LOCODE matched from destination, null when unmatched
+
+  @Prop()
+  destinationConfidence?: number; // 0..1, how sure the match is
+
+  @Prop()
+  eta?: string; // as reported
+
+  @Prop()
+  etaAt?: Date; // ✅ eta parsed to UTC, year inferred for AIS month/day ETAs
 
   @Prop({ required: true, index: true })
-  timestamp: Date;
+  timestamp: Date; // ✅ Position time, always UTC
+
+  @Prop()
+  receivedAt?: Date; // ✅ When we ingested it (timestamp is when the position was reported)
 
   @Prop()
   length?: number;
@@ -54,6 +81,9 @@ export class VesselLog {
   @Prop()
   width?: number;
 
+  @Prop({ type: VesselDimensionSchema })
+  dimension?: VesselDimension; // ✅ Includes antenna offsets a/b/c/d
+
   @Prop({ required: true, default: 'telkomsat' })
   source: string;
 
@@ -62,7 +92,7 @@ export class VesselLog {
   archivedAt: Date;
 
   @Prop({ required: true })
-  archiveReason: string; // 'scheduled_update', 'manual_archive', etc.
+  archiveReason: string; // 'ingest', 'bulk_upsert', 'manual_archive', etc.
 
   @Prop({ 
     type: String, 
@@ -79,6 +109,7 @@ VesselLogSchema.index({ mmsi: 1, timestamp: -1 });
 VesselLogSchema.index({ timestamp: -1 });
 VesselLogSchema.index({ archivedAt: -1 });
 VesselLogSchema.index({ status: 1 });
+VesselLogSchema.index({ destinationLocode: 1, timestamp: -1 });
 
 // Compound index untuk range queries
 VesselLogSchema.index({ 
@@ -91,9 +122,13 @@ VesselLogSchema.index({
 
 // Geospatial index untuk location-based queries
 VesselLogSchema.index({ 
-  latitude: 1, 
-  longitude: 1, 
+  location: '2dsphere', 
   timestamp: -1 
 }, { 
-  name: 'geo_temporal_index' 
+  name: 'location_2dsphere_timestamp' 
+});
+
+// ✅ Keep location in sync for document writes (bulk writes set it explicitly)
+VesselLogSchema.pre('validate', function () {
+  this.location = toGeoJsonPoint(this.latitude, this.longitude);
 });
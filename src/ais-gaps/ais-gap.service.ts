@@ -0,0 +1,512 @@
+// src/ais-gaps/ais-gap.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AnyBulkWriteOperation, Model, Types } from 'mongoose';
+import { AisGap, AisGapDocument, GapPosition } from './schemas/ais-gap.schema';
+import { GapReportQueryDto } from './dto/query-ais-gaps.dto';
+import {
+  classifyGap,
+  gapThresholdSeconds,
+  isUnderway,
+  reportingCadenceSeconds,
+} from './gap-analysis';
+import {
+  CurrentVessel,
+  CurrentVesselDocument,
+} from '../ais-data/schemas/current-vessel.schema';
+import {
+  VesselLog,
+  VesselLogDocument,
+} from '../ais-data/schemas/vessel-log.schema';
+import { PoiAreasService } from '../poi-areas/poi-areas.service';
+import {
+  EARTH_RADIUS_KM,
+  NAUTICAL_MILE_METERS,
+  toGeoJsonPoint,
+} from '../common/geo/geo.util';
+import { PolygonGeometry } from '../common/geo/polygon.util';
+import { parseApiDate } from '../common/time/timezone.util';
+import { isInsideArea } from '../geofences/geofence-transitions';
+
+// ✅ Neighbour counting stops here; enough to tell silence from a coverage hole
+const MAX_COUNTED_NEIGHBOURS = 100;
+
+export interface GapDetectionResult {
+  opened: number;
+  closed: number;
+  expired: number;
+}
+
+export interface GapReportFilter extends GapReportQueryDto {
+  mmsi?: number;
+  geometry?: PolygonGeometry; // gaps whose last position lies inside
+}
+
+/**
+ * 🕳️ AIS GAP DETECTION
+ * Scheduled scan for vessels that stopped transmitting for longer than
+ * their own vessel_logs reporting cadence allows. A gap opens at the last
+ * report and closes at the first report after it. Other vessels heard
+ * nearby during the gap mark it as genuine silence, none as a coverage hole.
+ */
+@Injectable()
+export class AisGapService {
+  private readonly logger = new Logger(AisGapService.name);
+  private readonly enabled: boolean;
+  private readonly minGapSeconds: number;
+  private readonly cadenceFactor: number;
+  private readonly cadenceSamples: number;
+  private readonly lookbackMs: number;
+  private readonly coverageRadiusMeters: number;
+  private readonly coverageMinVessels: number;
+  private readonly maxCandidates: number;
+  private readonly maxReclassify: number;
+  private running = false;
+
+  constructor(
+    @InjectModel(AisGap.name)
+    private readonly aisGapModel: Model<AisGapDocument>,
+    @InjectModel(CurrentVessel.name)
+    private readonly currentVesselModel: Model<CurrentVesselDocument>,
+    @InjectModel(VesselLog.name)
+    private readonly vesselLogModel: Model<VesselLogDocument>,
+    private readonly poiAreasService: PoiAreasService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>('AIS_GAP_ENABLED', 'true') !== 'false';
+    this.minGapSeconds =
+      Number(this.configService.get<string>('AIS_GAP_MIN_MINUTES', '30')) * 60;
+    this.cadenceFactor = Number(
+      this.configService.get<string>('AIS_GAP_CADENCE_FACTOR', '6'),
+    );
+    this.cadenceSamples = Number(
+      this.configService.get<string>('AIS_GAP_CADENCE_SAMPLES', '20'),
+    );
+    // ✅ Vessels silent for longer than this are left alone (long gone, not dark)
+    this.lookbackMs =
+      Number(this.configService.get<string>('AIS_GAP_LOOKBACK_HOURS', '72')) *
+      3600 *
+      1000;
+    this.coverageRadiusMeters =
+      Number(
+        this.configService.get<string>('AIS_GAP_COVERAGE_RADIUS_NM', '25'),
+      ) * NAUTICAL_MILE_METERS;
+    this.coverageMinVessels = Number(
+      this.configService.get<string>('AIS_GAP_COVERAGE_MIN_VESSELS', '2'),
+    );
+    this.maxCandidates = Number(
+      this.configService.get<string>('AIS_GAP_MAX_CANDIDATES', '500'),
+    );
+    // ✅ Open gaps re-counted per run, least recently checked first
+    this.maxReclassify = Number(
+      this.configService.get<string>('AIS_GAP_MAX_RECLASSIFY', '100'),
+    );
+  }
+
+  /**
+   * 🕐 SCHEDULED GAP DETECTION - every 10 minutes
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'ais-gap-detection' })
+  async handleGapDetection(): Promise<void> {
+    if (!this.enabled) return;
+
+    try {
+      await this.detectGaps();
+    } catch (error) {
+      this.logger.error('AIS gap detection failed', (error as Error).stack);
+    }
+  }
+
+  /**
+   * Expire gaps older than the lookback, close gaps of vessels that
+   * reported again, then open gaps for vessels silent beyond their
+   * threshold. Overlapping runs are skipped.
+   */
+  async detectGaps(): Promise<GapDetectionResult> {
+    if (this.running) {
+      this.logger.warn('AIS gap detection already running, skipped');
+      return { opened: 0, closed: 0, expired: 0 };
+    }
+
+    this.running = true;
+    try {
+      const now = new Date();
+      const expired = await this.expireStaleGaps(now);
+      const closed = await this.closeResumedGaps();
+      await this.reclassifyOpenGaps(now);
+      const opened = await this.openNewGaps(now);
+      if (opened > 0 || closed > 0 || expired > 0) {
+        this.logger.log(
+          `🕳️ AIS gaps: ${opened} opened, ${closed} closed, ${expired} expired`,
+        );
+      }
+      return { opened, closed, expired };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * 📚 GAP REPORT - gaps newest first, with a summary over all matches
+   */
+  async getGapReport(filter: GapReportFilter) {
+    const {
+      mmsi,
+      geometry,
+      status,
+      classification,
+      underway,
+      startDate,
+      endDate,
+      page = 1,
+      limit = 100,
+    } = filter;
+
+    const query: Record<string, any> = {};
+    if (mmsi) query.mmsi = mmsi;
+    if (geometry) query.location = { $geoWithin: { $geometry: geometry } };
+    if (status) query.status = status;
+    if (classification) query.classification = classification;
+    if (underway !== undefined) query.underway = underway;
+    if (startDate || endDate) {
+      const startedAt: Record<string, Date | null> = {};
+      if (startDate) startedAt.$gte = parseApiDate(startDate);
+      if (endDate) startedAt.$lte = parseApiDate(endDate);
+      query.startedAt = startedAt;
+    }
+
+    const [gaps, total, summary] = await Promise.all([
+      this.aisGapModel
+        .find(query)
+        .sort({ startedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.aisGapModel.countDocuments(query),
+      this.summarize(query),
+    ]);
+
+    return {
+      summary,
+      data: gaps,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Vessels silent beyond the lookback are long gone, not dark; their gaps
+   * stop being followed so open gaps do not pile up
+   */
+  private async expireStaleGaps(now: Date): Promise<number> {
+    const result = await this.aisGapModel.updateMany(
+      {
+        status: 'open',
+        startedAt: { $lt: new Date(now.getTime() - this.lookbackMs) },
+      },
+      { $set: { status: 'expired' } },
+    );
+    return result.modifiedCount;
+  }
+
+  private async closeResumedGaps(): Promise<number> {
+    const openGaps = await this.aisGapModel
+      .find({ status: 'open' })
+      .select('mmsi startedAt')
+      .lean<Pick<AisGap, 'mmsi' | 'startedAt'>[]>();
+    if (openGaps.length === 0) return 0;
+
+    const vessels = await this.currentVesselModel
+      .find({ mmsi: { $in: openGaps.map((gap) => gap.mmsi) } })
+      .select('mmsi timestamp')
+      .lean<Pick<CurrentVessel, 'mmsi' | 'timestamp'>[]>();
+    const lastSeen = new Map(
+      vessels.map((vessel) => [vessel.mmsi, vessel.timestamp.getTime()]),
+    );
+    const resumedGaps = openGaps.filter(
+      (gap) => (lastSeen.get(gap.mmsi) ?? 0) > gap.startedAt.getTime(),
+    );
+    if (resumedGaps.length === 0) return 0;
+
+    // ✅ First report after each gap, not the latest one - one query for all
+    const firstReports = await this.vesselLogModel.aggregate<VesselLog>([
+      {
+        $match: {
+          status: 'archived',
+          $or: resumedGaps.map((gap) => ({
+            mmsi: gap.mmsi,
+            timestamp: { $gt: gap.startedAt },
+          })),
+        },
+      },
+      { $sort: { timestamp: 1 } },
+      { $group: { _id: '$mmsi', report: { $first: '$$ROOT' } } },
+      { $replaceRoot: { newRoot: '$report' } },
+    ]);
+    const firstAfter = new Map(
+      firstReports.map((report) => [report.mmsi, report]),
+    );
+
+    let closed = 0;
+    for (const { mmsi } of resumedGaps) {
+      const gap = await this.aisGapModel.findOne({ mmsi, status: 'open' });
+      const resumed =
+        firstAfter.get(mmsi) ??
+        (await this.currentVesselModel.findOne({ mmsi }).lean<CurrentVessel>());
+      if (!gap || !resumed) continue;
+
+      const neighbours = await this.countNeighbourVessels(
+        gap.lastPosition,
+        gap.mmsi,
+        gap.source,
+        gap.startedAt,
+        resumed.timestamp,
+      );
+      gap.set({
+        status: 'closed',
+        endedAt: resumed.timestamp,
+        durationSeconds: Math.round(
+          (resumed.timestamp.getTime() - gap.startedAt.getTime()) / 1000,
+        ),
+        firstPosition: this.toGapPosition(resumed),
+        neighbourVessels: neighbours,
+        classification: classifyGap(neighbours, this.coverageMinVessels),
+      });
+      await gap.save();
+      closed++;
+    }
+
+    return closed;
+  }
+
+  /**
+   * Still-open gaps keep their classification current, a capped batch per
+   * run so the neighbour counts stay bounded
+   */
+  private async reclassifyOpenGaps(now: Date): Promise<void> {
+    const gaps = await this.aisGapModel
+      .find({ status: 'open' })
+      .sort({ checkedAt: 1 })
+      .limit(this.maxReclassify)
+      .select('mmsi source startedAt lastPosition neighbourVessels')
+      .lean<(AisGap & { _id: Types.ObjectId })[]>();
+
+    const updates: AnyBulkWriteOperation<AisGap>[] = [];
+    for (const gap of gaps) {
+      const neighbours = await this.countNeighbourVessels(
+        gap.lastPosition,
+        gap.mmsi,
+        gap.source,
+        gap.startedAt,
+        now,
+      );
+      updates.push({
+        updateOne: {
+          filter: { _id: gap._id },
+          update: {
+            $set: {
+              checkedAt: now,
+              neighbourVessels: neighbours,
+              classification: classifyGap(neighbours, this.coverageMinVessels),
+            },
+          },
+        },
+      });
+    }
+
+    if (updates.length > 0) {
+      await this.aisGapModel.bulkWrite(updates, { ordered: false });
+    }
+  }
+
+  private async openNewGaps(now: Date): Promise<number> {
+    const openMmsis = await this.aisGapModel.distinct('mmsi', {
+      status: 'open',
+    });
+    const candidates = await this.currentVesselModel
+      .find({
+        mmsi: { $nin: openMmsis },
+        timestamp: {
+          $gte: new Date(now.getTime() - this.lookbackMs),
+          $lte: new Date(now.getTime() - this.minGapSeconds * 1000),
+        },
+      })
+      .sort({ timestamp: -1 })
+      .limit(this.maxCandidates)
+      .lean<CurrentVessel[]>();
+    if (candidates.length === 0) return 0;
+
+    const areas = await this.poiAreasService.findWatchedAreas();
+
+    const gaps: AisGap[] = [];
+    for (const vessel of candidates) {
+      const cadence = await this.loadCadence(vessel.mmsi, vessel.timestamp);
+      const threshold = gapThresholdSeconds(cadence, {
+        minGapSeconds: this.minGapSeconds,
+        cadenceFactor: this.cadenceFactor,
+      });
+      const silentSeconds = (now.getTime() - vessel.timestamp.getTime()) / 1000;
+      if (silentSeconds < threshold) continue;
+
+      // ✅ A closed gap starting here means the vessel resumed and went quiet again
+      const known = await this.aisGapModel.exists({
+        mmsi: vessel.mmsi,
+        startedAt: vessel.timestamp,
+      });
+      if (known) continue;
+
+      const neighbours = await this.countNeighbourVessels(
+        vessel,
+        vessel.mmsi,
+        vessel.source,
+        vessel.timestamp,
+        now,
+      );
+      const inside = areas.filter((area) => isInsideArea(vessel, area));
+
+      gaps.push({
+        mmsi: vessel.mmsi,
+        vesselName: vessel.name,
+        status: 'open',
+        classification: classifyGap(neighbours, this.coverageMinVessels),
+        startedAt: vessel.timestamp,
+        expectedIntervalSeconds: Math.round(threshold),
+        cadenceSeconds: cadence ?? undefined,
+        lastPosition: this.toGapPosition(vessel),
+        location: toGeoJsonPoint(vessel.latitude, vessel.longitude),
+        underway: isUnderway(vessel),
+        areaIds: inside.map((area) => area.id),
+        areaNames: inside.map((area) => area.name),
+        neighbourVessels: neighbours,
+        source: vessel.source,
+      });
+    }
+
+    if (gaps.length > 0) {
+      await this.aisGapModel.insertMany(gaps, { ordered: false });
+    }
+    return gaps.length;
+  }
+
+  /**
+   * Reporting cadence over the vessel's latest reports up to `until`
+   */
+  private async loadCadence(mmsi: number, until: Date): Promise<number | null> {
+    const reports = await this.vesselLogModel
+      .find({ mmsi, status: 'archived', timestamp: { $lte: until } })
+      .sort({ timestamp: -1 })
+      .limit(this.cadenceSamples)
+      .select('timestamp')
+      .lean<Pick<VesselLog, 'timestamp'>[]>();
+    return reportingCadenceSeconds(reports.map((report) => report.timestamp));
+  }
+
+  /**
+   * Other vessels reported near `position` from the same source in the window
+   */
+  private async countNeighbourVessels(
+    position: { latitude: number; longitude: number },
+    mmsi: number,
+    source: string | undefined,
+    from: Date,
+    to: Date,
+  ): Promise<number> {
+    const query: Record<string, any> = {
+      mmsi: { $ne: mmsi },
+      status: 'archived',
+      timestamp: { $gt: from, $lt: to },
+      location: {
+        $geoWithin: {
+          $centerSphere: [
+            [position.longitude, position.latitude],
+            this.coverageRadiusMeters / (EARTH_RADIUS_KM * 1000),
+          ],
+        },
+      },
+    };
+    if (source) query.source = source;
+
+    const [result] = await this.vesselLogModel.aggregate<{ count: number }>([
+      { $match: query },
+      { $group: { _id: '$mmsi' } },
+      { $limit: MAX_COUNTED_NEIGHBOURS },
+      { $count: 'count' },
+    ]);
+    return result?.count ?? 0;
+  }
+
+  private async summarize(query: Record<string, any>) {
+    const [summary] = await this.aisGapModel.aggregate<{
+      total: number;
+      open: number;
+      silence: number;
+      coverage: number;
+      underway: number;
+      vessels: number[];
+      totalDurationSeconds: number;
+      longestDurationSeconds: number | null;
+    }>([
+      { $match: query },
+      {
+        $group: {
+          _id: null,
+          total: { $sum: 1 },
+          open: { $sum: { $cond: [{ $eq: ['$status', 'open'] }, 1, 0] } },
+          silence: {
+            $sum: { $cond: [{ $eq: ['$classification', 'silence'] }, 1, 0] },
+          },
+          coverage: {
+            $sum: { $cond: [{ $eq: ['$classification', 'coverage'] }, 1, 0] },
+          },
+          underway: { $sum: { $cond: ['$underway', 1, 0] } },
+          vessels: { $addToSet: '$mmsi' },
+          totalDurationSeconds: { $sum: '$durationSeconds' },
+          longestDurationSeconds: { $max: '$durationSeconds' },
+        },
+      },
+      { $project: { _id: 0 } },
+    ]);
+
+    if (!summary) {
+      return {
+        total: 0,
+        open: 0,
+        silence: 0,
+        coverage: 0,
+        underway: 0,
+        vessels: 0,
+        totalDurationSeconds: 0,
+        longestDurationSeconds: null,
+      };
+    }
+    return { ...summary, vessels: summary.vessels.length };
+  }
+
+  private toGapPosition(position: {
+    latitude: number;
+    longitude: number;
+    timestamp: Date;
+    speed?: number;
+    course?: number;
+    navStatus?: number;
+  }): GapPosition {
+    return {
+      latitude: position.latitude,
+      longitude: position.longitude,
+      timestamp: position.timestamp,
+      speed: position.speed,
+      course: position.course,
+      navStatus: position.navStatus,
+    };
+  }
+}
@@ -0,0 +1,104 @@
+// src/ais-gaps/ais-gaps.controller.ts
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { AisGapService } from './ais-gap.service';
+import { GapReportQueryDto, QueryAisGapsDto } from './dto/query-ais-gaps.dto';
+import { PoiAreasService } from '../poi-areas/poi-areas.service';
+
+@ApiTags('AIS Gaps')
+@Controller('ais-gaps')
+export class AisGapsController {
+  constructor(
+    private readonly aisGapService: AisGapService,
+    private readonly poiAreasService: PoiAreasService,
+  ) {}
+
+  /**
+   * 🕳️ QUERY GAPS
+   * GET /api/ais-gaps?mmsi=&status=open&classification=silence&underway=true
+   */
+  @Get()
+  @ApiOperation({ summary: 'Query detected AIS transmission gaps' })
+  @ApiQuery({ type: QueryAisGapsDto })
+  async queryGaps(@Query() queryDto: QueryAisGapsDto) {
+    const report = await this.aisGapService.getGapReport(queryDto);
+    return {
+      success: true,
+      ...report,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🚢 GAP REPORT PER VESSEL
+   * GET /api/ais-gaps/vessel/:mmsi
+   */
+  @Get('vessel/:mmsi')
+  @ApiOperation({ summary: 'AIS gap report for one vessel' })
+  @ApiQuery({ type: GapReportQueryDto })
+  async getVesselReport(
+    @Param('mmsi', ParseIntPipe) mmsi: number,
+    @Query() queryDto: GapReportQueryDto,
+  ) {
+    const report = await this.aisGapService.getGapReport({
+      ...queryDto,
+      mmsi,
+    });
+    return {
+      success: true,
+      mmsi,
+      ...report,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🗺️ GAP REPORT PER AREA - gaps that started inside a saved POI area
+   * GET /api/ais-gaps/area/:areaId
+   */
+  @Get('area/:areaId')
+  @ApiOperation({
+    summary: 'AIS gap report for gaps starting inside a saved POI area',
+  })
+  @ApiQuery({ type: GapReportQueryDto })
+  async getAreaReport(
+    @Param('areaId') areaId: string,
+    @Query() queryDto: GapReportQueryDto,
+  ) {
+    const geometry = await this.poiAreasService.getGeometry(areaId);
+    const report = await this.aisGapService.getGapReport({
+      ...queryDto,
+      geometry,
+    });
+    return {
+      success: true,
+      areaId,
+      ...report,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * ▶️ RUN DETECTION NOW (normally every 10 minutes)
+   * POST /api/ais-gaps/detect
+   */
+  @Post('detect')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Run AIS gap detection now' })
+  async detect() {
+    return {
+      success: true,
+      data: await this.aisGapService.detectGaps(),
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,30 @@
+// src/ais-gaps/ais-gaps.module.ts
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AisGap, AisGapSchema } from './schemas/ais-gap.schema';
+import { AisGapService } from './ais-gap.service';
+import { AisGapsController } from './ais-gaps.controller';
+import {
+  CurrentVessel,
+  CurrentVesselSchema,
+} from '../ais-data/schemas/current-vessel.schema';
+import {
+  VesselLog,
+  VesselLogSchema,
+} from '../ais-data/schemas/vessel-log.schema';
+import { PoiAreasModule } from '../poi-areas/poi-areas.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AisGap.name, schema: AisGapSchema },
+      { name: CurrentVessel.name, schema: CurrentVesselSchema },
+      { name: VesselLog.name, schema: VesselLogSchema },
+    ]),
+    PoiAreasModule,
+  ],
+  controllers: [AisGapsController],
+  providers: [AisGapService],
+  exports: [AisGapService],
+})
+export class AisGapsModule {}
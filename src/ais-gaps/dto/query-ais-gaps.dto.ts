@@ -0,0 +1,57 @@
+// src/ais-gaps/dto/query-ais-gaps.dto.ts
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import type { GapClassification } from '../gap-analysis';
+
+export class GapReportQueryDto {
+  @IsOptional()
+  @IsEnum(['open', 'closed', 'expired'])
+  status?: 'open' | 'closed' | 'expired';
+
+  // silence = vessel stopped transmitting, coverage = nobody was received there
+  @IsOptional()
+  @IsEnum(['silence', 'coverage'])
+  classification?: GapClassification;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  underway?: boolean;
+
+  // ISO-8601, offset honoured; none = UTC. Matches the gap start.
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
+
+export class QueryAisGapsDto extends GapReportQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  mmsi?: number;
+}
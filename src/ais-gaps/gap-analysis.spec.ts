@@ -0,0 +1,55 @@
+import {
+  classifyGap,
+  gapThresholdSeconds,
+  isUnderway,
+  reportingCadenceSeconds,
+} from './gap-analysis';
+
+describe('gap-analysis', () => {
+  const at = (seconds: number) =>
+    new Date(Date.UTC(2024, 0, 1) + seconds * 1000);
+
+  describe('reportingCadenceSeconds', () => {
+    it('should take the median interval regardless of order', () => {
+      expect(
+        reportingCadenceSeconds([at(60), at(0), at(10), at(20), at(3600)]),
+      ).toBe(25);
+      expect(reportingCadenceSeconds([at(0), at(10), at(20), at(400)])).toBe(
+        10,
+      );
+    });
+
+    it('should ignore duplicate timestamps and need two distinct reports', () => {
+      expect(reportingCadenceSeconds([at(0), at(0), at(30)])).toBe(30);
+      expect(reportingCadenceSeconds([at(0), at(0)])).toBeNull();
+      expect(reportingCadenceSeconds([])).toBeNull();
+    });
+  });
+
+  describe('gapThresholdSeconds', () => {
+    const options = { minGapSeconds: 1800, cadenceFactor: 6 };
+
+    it('should scale the cadence but never go below the minimum', () => {
+      expect(gapThresholdSeconds(600, options)).toBe(3600);
+      expect(gapThresholdSeconds(10, options)).toBe(1800);
+      expect(gapThresholdSeconds(null, options)).toBe(1800);
+    });
+  });
+
+  describe('isUnderway', () => {
+    it('should need speed and a non-stationary status', () => {
+      expect(isUnderway({ speed: 12, navStatus: 0 })).toBe(true);
+      expect(isUnderway({ speed: 0.2, navStatus: 0 })).toBe(false);
+      expect(isUnderway({ speed: 3, navStatus: 5 })).toBe(false);
+      expect(isUnderway({ speed: 3 })).toBe(true);
+    });
+  });
+
+  describe('classifyGap', () => {
+    it('should call it silence only when enough others were heard', () => {
+      expect(classifyGap(5, 2)).toBe('silence');
+      expect(classifyGap(1, 2)).toBe('coverage');
+      expect(classifyGap(0, 1)).toBe('coverage');
+    });
+  });
+});
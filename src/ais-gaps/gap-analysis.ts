@@ -0,0 +1,72 @@
+// src/ais-gaps/gap-analysis.ts
+
+export type GapClassification = 'silence' | 'coverage';
+
+export interface GapThresholdOptions {
+  minGapSeconds: number; // never flag a gap shorter than this
+  cadenceFactor: number; // gap = this many missed reports at the usual cadence
+}
+
+// ✅ AIS nav statuses of a vessel that is not making way
+const STATIONARY_NAV_STATUSES = [1, 5, 6]; // at anchor, moored, aground
+export const UNDERWAY_MIN_SPEED_KNOTS = 0.5;
+
+/**
+ * Typical reporting interval: median of the positive intervals between
+ * consecutive reports (order does not matter). Null with fewer than two.
+ */
+export function reportingCadenceSeconds(timestamps: Date[]): number | null {
+  const times = timestamps.map((time) => time.getTime()).sort((a, b) => a - b);
+  const intervals: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const interval = (times[i] - times[i - 1]) / 1000;
+    if (interval > 0) intervals.push(interval);
+  }
+  if (intervals.length === 0) return null;
+
+  intervals.sort((a, b) => a - b);
+  const middle = Math.floor(intervals.length / 2);
+  return intervals.length % 2 === 1
+    ? intervals[middle]
+    : (intervals[middle - 1] + intervals[middle]) / 2;
+}
+
+/**
+ * Silence after which a vessel counts as gone dark: several missed reports
+ * at its own cadence, but never less than the configured minimum
+ */
+export function gapThresholdSeconds(
+  cadenceSeconds: number | null,
+  options: GapThresholdOptions,
+): number {
+  if (cadenceSeconds === null) return options.minGapSeconds;
+  return Math.max(
+    options.minGapSeconds,
+    cadenceSeconds * options.cadenceFactor,
+  );
+}
+
+export function isUnderway(position: {
+  speed?: number;
+  navStatus?: number;
+}): boolean {
+  if (
+    position.navStatus !== undefined &&
+    STATIONARY_NAV_STATUSES.includes(position.navStatus)
+  ) {
+    return false;
+  }
+  return Number(position.speed) >= UNDERWAY_MIN_SPEED_KNOTS;
+}
+
+/**
+ * Other vessels kept reporting around the last position during the gap:
+ * the receivers were covering it, so the silence is the vessel's own.
+ * Nobody reporting nearby points at a coverage hole instead.
+ */
+export function classifyGap(
+  neighbourVessels: number,
+  minNeighbourVessels: number,
+): GapClassification {
+  return neighbourVessels >= minNeighbourVessels ? 'silence' : 'coverage';
+}
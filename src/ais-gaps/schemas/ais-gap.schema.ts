@@ -0,0 +1,90 @@
+// src/ais-gaps/schemas/ais-gap.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import {
+  GeoPoint,
+  GeoPointSchema,
+} from '../../ais-data/schemas/geo-point.schema';
+
+export type AisGapDocument = AisGap & Document;
+
+export class GapPosition {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  speed?: number;
+  course?: number;
+  navStatus?: number;
+}
+
+@Schema({
+  timestamps: true,
+  collection: 'ais_gaps',
+})
+export class AisGap {
+  @Prop({ required: true })
+  mmsi: number;
+
+  @Prop()
+  vesselName?: string;
+
+  // expired = still silent after the lookback, no longer followed
+  @Prop({
+    required: true,
+    enum: ['open', 'closed', 'expired'],
+    default: 'open',
+  })
+  status: 'open' | 'closed' | 'expired';
+
+  @Prop({ required: true, enum: ['silence', 'coverage'] })
+  classification: 'silence' | 'coverage';
+
+  @Prop({ required: true })
+  startedAt: Date; // last report before the gap
+
+  @Prop()
+  endedAt?: Date; // first report after the gap, unset while open
+
+  @Prop()
+  durationSeconds?: number;
+
+  @Prop({ required: true })
+  expectedIntervalSeconds: number; // threshold the silence exceeded
+
+  @Prop()
+  cadenceSeconds?: number; // vessel's usual reporting interval
+
+  @Prop({ type: Object, required: true })
+  lastPosition: GapPosition;
+
+  @Prop({ type: Object })
+  firstPosition?: GapPosition;
+
+  @Prop({ type: GeoPointSchema })
+  location?: GeoPoint; // ✅ lastPosition as GeoJSON, for per-area reports
+
+  @Prop({ required: true })
+  underway: boolean; // making way when it went silent
+
+  @Prop({ type: [String], default: [] })
+  areaIds: string[]; // geofence areas holding the last position
+
+  @Prop({ type: [String], default: [] })
+  areaNames: string[];
+
+  @Prop({ required: true, default: 0 })
+  neighbourVessels: number; // others reporting nearby during the gap
+
+  @Prop()
+  checkedAt?: Date; // last neighbour re-count while open
+
+  @Prop()
+  source?: string;
+}
+
+export const AisGapSchema = SchemaFactory.createForClass(AisGap);
+
+AisGapSchema.index({ mmsi: 1, startedAt: -1 });
+AisGapSchema.index({ status: 1, startedAt: -1 });
+AisGapSchema.index({ location: '2dsphere' }, { name: 'location_2dsphere' });
+AisGapSchema.index({ status: 1, checkedAt: 1 });
@@ -0,0 +1,124 @@
+import { EvaluableRule, evaluateRule, validateAlertRule } from './alert-rules';
+import type {
+  TrackedPosition,
+  VesselPositionUpdate,
+} from '../ais-data/ingest-hooks';
+import type { WatchedArea } from '../geofences/geofence-transitions';
+
+describe('alert-rules', () => {
+  const zone: WatchedArea = {
+    id: 'zone',
+    name: 'Naval Zone',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+          [0, 1],
+          [0, 0],
+        ],
+      ],
+    },
+    bounds: {
+      minLongitude: 0,
+      maxLongitude: 1,
+      minLatitude: 0,
+      maxLatitude: 1,
+    },
+  };
+
+  const position = (fields: Partial<TrackedPosition>): TrackedPosition => ({
+    mmsi: 525000001,
+    latitude: 0.5,
+    longitude: 0.5,
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    speed: 10,
+    navStatus: 0,
+    vesselType: 80,
+    ...fields,
+  });
+
+  const update = (
+    previous: Partial<TrackedPosition> | undefined,
+    current: Partial<TrackedPosition>,
+  ): VesselPositionUpdate => ({
+    mmsi: 525000001,
+    previous: previous ? position(previous) : undefined,
+    current: position(current),
+  });
+
+  const rule = (fields: Partial<EvaluableRule>): EvaluableRule => ({
+    id: 'rule',
+    name: 'Rule',
+    type: 'speed',
+    severity: 'warning',
+    cooldownSeconds: 3600,
+    ...fields,
+  });
+
+  it('should fire speed rules above the limit, scoped to the area', () => {
+    const speeding = rule({ type: 'speed', speedKnots: 12, area: zone });
+
+    expect(evaluateRule(speeding, update({}, { speed: 15 }))).toBe(
+      'Speed 15 kn exceeds 12 kn in Naval Zone',
+    );
+    expect(evaluateRule(speeding, update({}, { speed: 11 }))).toBeNull();
+    expect(
+      evaluateRule(speeding, update({}, { speed: 15, latitude: 5 })),
+    ).toBeNull();
+  });
+
+  it('should fire nav_status rules only on a change into a listed status', () => {
+    const aground = rule({ type: 'nav_status', navStatuses: [6, 14] });
+
+    expect(
+      evaluateRule(aground, update({ navStatus: 0 }, { navStatus: 6 })),
+    ).toBe('Navigational status changed to 6 (was 0)');
+    expect(
+      evaluateRule(aground, update({ navStatus: 6 }, { navStatus: 6 })),
+    ).toBeNull();
+  });
+
+  it('should fire restricted_zone rules on entry by a listed vessel type', () => {
+    const tankers = rule({
+      type: 'restricted_zone',
+      vesselTypes: [80, 81],
+      area: zone,
+    });
+
+    expect(
+      evaluateRule(tankers, update({ latitude: 2, longitude: 2 }, {})),
+    ).toBe('Vessel type 80 entered restricted zone Naval Zone');
+    expect(evaluateRule(tankers, update({}, {}))).toBeNull();
+    expect(
+      evaluateRule(
+        tankers,
+        update({ latitude: 2, longitude: 2 }, { vesselType: 30 }),
+      ),
+    ).toBeNull();
+  });
+
+  it('should fire watchlist rules for listed MMSIs', () => {
+    expect(
+      evaluateRule(
+        rule({ type: 'watchlist', mmsis: [525000001] }),
+        update({}, {}),
+      ),
+    ).toBe('Watchlisted vessel reported');
+    expect(
+      evaluateRule(rule({ type: 'watchlist', mmsis: [1] }), update({}, {})),
+    ).toBeNull();
+  });
+
+  it('should require the fields of each rule type', () => {
+    expect(validateAlertRule({ type: 'speed' })).toEqual([
+      'speed rules need speedKnots',
+    ]);
+    expect(validateAlertRule({ type: 'restricted_zone' })).toEqual([
+      'restricted_zone rules need an areaId',
+    ]);
+    expect(validateAlertRule({ type: 'watchlist', mmsis: [1] })).toEqual([]);
+  });
+});
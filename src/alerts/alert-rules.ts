@@ -0,0 +1,125 @@
+// src/alerts/alert-rules.ts
+import type { VesselPositionUpdate } from '../ais-data/ingest-hooks';
+import { WatchedArea, isInsideArea } from '../geofences/geofence-transitions';
+
+export type AlertRuleType =
+  | 'speed'
+  | 'nav_status'
+  | 'restricted_zone'
+  | 'watchlist';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = [
+  'speed',
+  'nav_status',
+  'restricted_zone',
+  'watchlist',
+];
+
+/**
+ * Rule as evaluated on the ingest path, with its area geometry resolved
+ */
+export interface EvaluableRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  severity: AlertSeverity;
+  cooldownSeconds: number;
+  speedKnots?: number; // speed: alert above this SOG
+  navStatuses?: number[]; // nav_status: alert on a change to one of these
+  vesselTypes?: number[]; // restricted_zone: AIS ship types, empty = any
+  mmsis?: number[]; // watchlist
+  area?: WatchedArea; // restricted_zone: the zone, others: optional scope
+}
+
+/**
+ * Required fields per rule type; returns a list of problems, empty if valid
+ */
+export function validateAlertRule(rule: {
+  type: AlertRuleType;
+  speedKnots?: number;
+  navStatuses?: number[];
+  mmsis?: number[];
+  areaId?: string;
+}): string[] {
+  switch (rule.type) {
+    case 'speed':
+      return rule.speedKnots === undefined
+        ? ['speed rules need speedKnots']
+        : [];
+    case 'nav_status':
+      return rule.navStatuses?.length
+        ? []
+        : ['nav_status rules need at least one navStatuses entry'];
+    case 'restricted_zone':
+      return rule.areaId ? [] : ['restricted_zone rules need an areaId'];
+    case 'watchlist':
+      return rule.mmsis?.length
+        ? []
+        : ['watchlist rules need at least one mmsis entry'];
+    default:
+      return [`unknown rule type ${String(rule.type)}`];
+  }
+}
+
+/**
+ * Evaluate one rule against one position update; returns the alert
+ * message when it fires. Cool-down is applied by the caller.
+ * - speed: SOG above speedKnots (inside the area, if scoped)
+ * - nav_status: navStatus changed to one of navStatuses
+ * - restricted_zone: a vessel of a listed type moved into the area
+ * - watchlist: a listed MMSI reported (inside the area, if scoped)
+ */
+export function evaluateRule(
+  rule: EvaluableRule,
+  update: VesselPositionUpdate,
+): string | null {
+  const { previous, current } = update;
+  const areaSuffix = rule.area ? ` in ${rule.area.name}` : '';
+
+  if (rule.type === 'restricted_zone') {
+    if (!rule.area) return null;
+    const typeMatches =
+      !rule.vesselTypes?.length ||
+      rule.vesselTypes.includes(Number(current.vesselType));
+    const entered =
+      isInsideArea(current, rule.area) &&
+      (!previous || !isInsideArea(previous, rule.area));
+    return typeMatches && entered
+      ? `Vessel type ${current.vesselType ?? 'unknown'} entered restricted zone ${rule.area.name}`
+      : null;
+  }
+
+  // ✅ Optional area scope for the other rule types
+  if (rule.area && !isInsideArea(current, rule.area)) {
+    return null;
+  }
+
+  switch (rule.type) {
+    case 'speed': {
+      const speed = Number(current.speed);
+      return rule.speedKnots !== undefined && speed > rule.speedKnots
+        ? `Speed ${speed} kn exceeds ${rule.speedKnots} kn${areaSuffix}`
+        : null;
+    }
+
+    case 'nav_status': {
+      const status = current.navStatus;
+      const changed = !previous || previous.navStatus !== status;
+      return status !== undefined &&
+        changed &&
+        rule.navStatuses?.includes(status)
+        ? `Navigational status changed to ${status}${previous?.navStatus !== undefined ? ` (was ${previous.navStatus})` : ''}${areaSuffix}`
+        : null;
+    }
+
+    case 'watchlist':
+      return rule.mmsis?.includes(update.mmsi)
+        ? `Watchlisted vessel reported${areaSuffix}`
+        : null;
+
+    default:
+      return null;
+  }
+}
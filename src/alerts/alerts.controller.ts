@@ -0,0 +1,121 @@
+// src/alerts/alerts.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { AlertsService } from './alerts.service';
+import {
+  AcknowledgeAlertDto,
+  CreateAlertRuleDto,
+  QueryAlertsDto,
+  UpdateAlertRuleDto,
+} from './dto/alert.dto';
+
+@ApiTags('Alerts')
+@Controller('alerts')
+export class AlertsController {
+  constructor(private readonly alertsService: AlertsService) {}
+
+  /**
+   * 🔔 QUERY ALERTS
+   * GET /api/alerts?status=open&severity=&ruleId=&mmsi=
+   */
+  @Get()
+  @ApiOperation({ summary: 'Query fired alerts, newest first' })
+  @ApiQuery({ type: QueryAlertsDto })
+  async queryAlerts(@Query() queryDto: QueryAlertsDto) {
+    const result = await this.alertsService.queryAlerts(queryDto);
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * ✅ ACKNOWLEDGE
+   * POST /api/alerts/:id/acknowledge
+   */
+  @Post(':id/acknowledge')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Acknowledge an open alert' })
+  async acknowledge(@Param('id') id: string, @Body() dto: AcknowledgeAlertDto) {
+    return {
+      success: true,
+      data: await this.alertsService.acknowledge(id, dto),
+      timestamp: new Date(),
+    };
+  }
+}
+
+@ApiTags('Alerts')
+@Controller('alert-rules')
+export class AlertRulesController {
+  constructor(private readonly alertsService: AlertsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List alert rules' })
+  async findAll() {
+    const rules = await this.alertsService.findRules();
+    return {
+      success: true,
+      count: rules.length,
+      data: rules,
+      timestamp: new Date(),
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an alert rule' })
+  async findOne(@Param('id') id: string) {
+    return {
+      success: true,
+      data: await this.alertsService.findRule(id),
+      timestamp: new Date(),
+    };
+  }
+
+  @Post()
+  @ApiOperation({
+    summary:
+      'Create an alert rule (speed, nav_status, restricted_zone, watchlist)',
+  })
+  async create(@Body() dto: CreateAlertRuleDto) {
+    return {
+      success: true,
+      data: await this.alertsService.createRule(dto),
+      timestamp: new Date(),
+    };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update or enable/disable an alert rule' })
+  async update(@Param('id') id: string, @Body() dto: UpdateAlertRuleDto) {
+    return {
+      success: true,
+      data: await this.alertsService.updateRule(id, dto),
+      timestamp: new Date(),
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete an alert rule' })
+  async remove(@Param('id') id: string) {
+    await this.alertsService.removeRule(id);
+    return {
+      success: true,
+      message: `Alert rule ${id} deleted`,
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,26 @@
+// src/alerts/alerts.module.ts
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AlertRule, AlertRuleSchema } from './schemas/alert-rule.schema';
+import { Alert, AlertSchema } from './schemas/alert.schema';
+import { AlertsService } from './alerts.service';
+import { AlertRulesController, AlertsController } from './alerts.controller';
+import { AisDataModule } from '../ais-data/ais-data.module';
+import { PoiAreasModule } from '../poi-areas/poi-areas.module';
+import { WebSocketModule } from '../websocket/websocket.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AlertRule.name, schema: AlertRuleSchema },
+      { name: Alert.name, schema: AlertSchema },
+    ]),
+    AisDataModule,
+    PoiAreasModule,
+    WebSocketModule,
+  ],
+  controllers: [AlertsController, AlertRulesController],
+  providers: [AlertsService],
+  exports: [AlertsService],
+})
+export class AlertsModule {}
@@ -0,0 +1,343 @@
+// src/alerts/alerts.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, isValidObjectId } from 'mongoose';
+import { AlertRule, AlertRuleDocument } from './schemas/alert-rule.schema';
+import { Alert, AlertDocument } from './schemas/alert.schema';
+import {
+  AcknowledgeAlertDto,
+  CreateAlertRuleDto,
+  QueryAlertsDto,
+  UpdateAlertRuleDto,
+} from './dto/alert.dto';
+import { EvaluableRule, evaluateRule, validateAlertRule } from './alert-rules';
+import { AisDataService } from '../ais-data/ais-data.service';
+import {
+  PositionIngestHook,
+  VesselPositionUpdate,
+} from '../ais-data/ingest-hooks';
+import { PoiAreasService } from '../poi-areas/poi-areas.service';
+import { parseApiDate } from '../common/time/timezone.util';
+import { VesselTrackingGateway } from '../websocket/vessel-tracking.gateway';
+
+/**
+ * 🚨 ALERTS
+ * Rules stored in alert_rules are evaluated on every ingest batch
+ * (ingest hook). Fired alerts go to `alerts`, per rule and vessel at
+ * most once per cool-down, and are pushed on the `alert` WS event.
+ */
+@Injectable()
+export class AlertsService implements PositionIngestHook, OnModuleInit {
+  readonly name = 'alerts';
+  private readonly logger = new Logger(AlertsService.name);
+  private readonly enabled: boolean;
+  private readonly ruleCacheMs: number;
+  private ruleCache: { rules: EvaluableRule[]; loadedAt: number } | null = null;
+
+  constructor(
+    @InjectModel(AlertRule.name)
+    private readonly alertRuleModel: Model<AlertRuleDocument>,
+    @InjectModel(Alert.name)
+    private readonly alertModel: Model<AlertDocument>,
+    private readonly aisDataService: AisDataService,
+    private readonly poiAreasService: PoiAreasService,
+    private readonly configService: ConfigService,
+    private readonly vesselTrackingGateway?: VesselTrackingGateway, // Optional injection
+  ) {
+    this.enabled =
+      this.configService.get<string>('ALERTS_ENABLED', 'true') !== 'false';
+    // ✅ Rule edits through this instance apply at once, other instances within this window
+    this.ruleCacheMs =
+      Number(this.configService.get<string>('ALERT_RULE_CACHE_SECONDS', '60')) *
+      1000;
+  }
+
+  onModuleInit(): void {
+    if (this.enabled) {
+      this.aisDataService.registerIngestHook(this);
+    }
+  }
+
+  // ====================================================================
+  // 📋 RULES
+  // ====================================================================
+
+  async findRules(): Promise<AlertRule[]> {
+    return this.alertRuleModel.find().sort({ name: 1 }).lean<AlertRule[]>();
+  }
+
+  async findRule(id: string): Promise<AlertRuleDocument> {
+    const rule = isValidObjectId(id)
+      ? await this.alertRuleModel.findById(id).exec()
+      : null;
+    if (!rule) {
+      throw new NotFoundException(`Alert rule ${id} not found`);
+    }
+    return rule;
+  }
+
+  async createRule(dto: CreateAlertRuleDto): Promise<AlertRule> {
+    await this.assertValidRule(dto);
+    const rule = await this.alertRuleModel.create(dto);
+    this.ruleCache = null;
+    this.logger.log(`🚨 Created alert rule "${rule.name}" (${rule.type})`);
+    return rule;
+  }
+
+  async updateRule(id: string, dto: UpdateAlertRuleDto): Promise<AlertRule> {
+    const rule = await this.findRule(id);
+    const merged = { ...rule.toObject(), ...dto } as CreateAlertRuleDto;
+    await this.assertValidRule(merged);
+
+    rule.set(dto);
+    await rule.save();
+    this.ruleCache = null;
+    this.logger.log(`🚨 Updated alert rule "${rule.name}" (${id})`);
+    return rule;
+  }
+
+  async removeRule(id: string): Promise<void> {
+    const rule = await this.findRule(id);
+    await rule.deleteOne();
+    this.ruleCache = null;
+    this.logger.log(`🗑️ Deleted alert rule "${rule.name}" (${id})`);
+  }
+
+  // ====================================================================
+  // 🔔 ALERTS
+  // ====================================================================
+
+  async queryAlerts(queryDto: QueryAlertsDto) {
+    const {
+      status,
+      severity,
+      ruleId,
+      mmsi,
+      startDate,
+      endDate,
+      page = 1,
+      limit = 100,
+    } = queryDto;
+
+    const query: Record<string, any> = {};
+    if (status) query.status = status;
+    if (severity) query.severity = severity;
+    if (ruleId) query.ruleId = ruleId;
+    if (mmsi) query.mmsi = mmsi;
+    if (startDate || endDate) {
+      const timestamp: Record<string, Date | null> = {};
+      if (startDate) timestamp.$gte = parseApiDate(startDate);
+      if (endDate) timestamp.$lte = parseApiDate(endDate);
+      query.timestamp = timestamp;
+    }
+
+    const [alerts, total] = await Promise.all([
+      this.alertModel
+        .find(query)
+        .sort({ timestamp: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.alertModel.countDocuments(query),
+    ]);
+
+    return {
+      data: alerts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async acknowledge(id: string, dto: AcknowledgeAlertDto): Promise<Alert> {
+    const alert = isValidObjectId(id)
+      ? await this.alertModel.findById(id).exec()
+      : null;
+    if (!alert) {
+      throw new NotFoundException(`Alert ${id} not found`);
+    }
+    if (alert.status === 'acknowledged') {
+      throw new BadRequestException(
+        `Alert ${id} was already acknowledged by ${alert.acknowledgedBy}`,
+      );
+    }
+
+    alert.set({
+      status: 'acknowledged',
+      acknowledgedBy: dto.acknowledgedBy,
+      acknowledgedAt: new Date(),
+      note: dto.note,
+    });
+    await alert.save();
+
+    this.vesselTrackingGateway?.broadcastAlertAcknowledged(alert.toObject());
+    this.logger.log(`✅ Alert ${id} acknowledged by ${dto.acknowledgedBy}`);
+    return alert;
+  }
+
+  // ====================================================================
+  // 🪝 INGEST HOOK
+  // ====================================================================
+
+  async onPositions(updates: VesselPositionUpdate[]): Promise<void> {
+    const rules = await this.getActiveRules();
+    if (rules.length === 0) return;
+
+    const fired: {
+      rule: EvaluableRule;
+      update: VesselPositionUpdate;
+      message: string;
+    }[] = [];
+    for (const update of updates) {
+      for (const rule of rules) {
+        const message = evaluateRule(rule, update);
+        if (message) fired.push({ rule, update, message });
+      }
+    }
+    if (fired.length === 0) return;
+
+    // ✅ Cool-down: last alert per rule/vessel, then in-batch repeats
+    const lastAlerts = await this.loadLastAlertTimes(
+      fired.map(({ rule, update }) => ({ ruleId: rule.id, mmsi: update.mmsi })),
+    );
+    const records: Alert[] = [];
+    for (const { rule, update, message } of fired) {
+      const key = `${rule.id}:${update.mmsi}`;
+      const time = update.current.timestamp.getTime();
+      const last = lastAlerts.get(key);
+      if (last !== undefined && time - last < rule.cooldownSeconds * 1000) {
+        continue;
+      }
+
+      lastAlerts.set(key, time);
+      records.push(this.toAlert(rule, update, message));
+    }
+    if (records.length === 0) return;
+
+    const saved = await this.alertModel.insertMany(records, { ordered: false });
+    this.vesselTrackingGateway?.broadcastAlerts(
+      saved.map((alert) => alert.toObject()),
+    );
+    this.logger.log(`🚨 ${saved.length} alerts fired`);
+  }
+
+  private async getActiveRules(): Promise<EvaluableRule[]> {
+    if (
+      this.ruleCache &&
+      Date.now() - this.ruleCache.loadedAt < this.ruleCacheMs
+    ) {
+      return this.ruleCache.rules;
+    }
+
+    const rules = await this.alertRuleModel
+      .find({ enabled: true })
+      .lean<(AlertRule & { _id: { toHexString(): string } })[]>();
+    const evaluable: EvaluableRule[] = [];
+
+    for (const rule of rules) {
+      const id = rule._id.toHexString();
+      let area: EvaluableRule['area'];
+      if (rule.areaId) {
+        try {
+          area = await this.poiAreasService.getWatchedArea(rule.areaId);
+        } catch (error) {
+          // ✅ Area deleted under the rule - skip it rather than alert everywhere
+          this.logger.warn(
+            `Alert rule "${rule.name}" skipped: ${(error as Error).message}`,
+          );
+          continue;
+        }
+      }
+
+      evaluable.push({
+        id,
+        name: rule.name,
+        type: rule.type,
+        severity: rule.severity,
+        cooldownSeconds: rule.cooldownSeconds,
+        speedKnots: rule.speedKnots,
+        navStatuses: rule.navStatuses,
+        vesselTypes: rule.vesselTypes,
+        mmsis: rule.mmsis,
+        area,
+      });
+    }
+
+    this.ruleCache = { rules: evaluable, loadedAt: Date.now() };
+    return evaluable;
+  }
+
+  private async loadLastAlertTimes(
+    pairs: { ruleId: string; mmsi: number }[],
+  ): Promise<Map<string, number>> {
+    const unique = new Map(
+      pairs.map((pair) => [`${pair.ruleId}:${pair.mmsi}`, pair]),
+    );
+    const latest = await this.alertModel.aggregate<{
+      _id: { ruleId: string; mmsi: number };
+      timestamp: Date;
+    }>([
+      { $match: { $or: [...unique.values()] } },
+      {
+        $group: {
+          _id: { ruleId: '$ruleId', mmsi: '$mmsi' },
+          timestamp: { $max: '$timestamp' },
+        },
+      },
+    ]);
+
+    return new Map(
+      latest.map(({ _id, timestamp }) => [
+        `${_id.ruleId}:${_id.mmsi}`,
+        new Date(timestamp).getTime(),
+      ]),
+    );
+  }
+
+  private async assertValidRule(rule: CreateAlertRuleDto): Promise<void> {
+    const errors = validateAlertRule(rule);
+    if (errors.length > 0) {
+      throw new BadRequestException(`Invalid alert rule: ${errors.join('; ')}`);
+    }
+    if (rule.areaId) {
+      await this.poiAreasService.findOne(rule.areaId);
+    }
+  }
+
+  private toAlert(
+    rule: EvaluableRule,
+    update: VesselPositionUpdate,
+    message: string,
+  ): Alert {
+    const { current } = update;
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      ruleType: rule.type,
+      severity: rule.severity,
+      message,
+      mmsi: update.mmsi,
+      vesselName: current.name,
+      timestamp: current.timestamp,
+      latitude: current.latitude,
+      longitude: current.longitude,
+      speed: current.speed,
+      navStatus: current.navStatus,
+      areaId: rule.area?.id,
+      status: 'open',
+    };
+  }
+}
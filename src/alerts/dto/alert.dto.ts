@@ -0,0 +1,134 @@
+// src/alerts/dto/alert.dto.ts
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PartialType } from '@nestjs/swagger';
+import type { AlertRuleType, AlertSeverity } from '../alert-rules';
+
+export class CreateAlertRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @IsEnum(['speed', 'nav_status', 'restricted_zone', 'watchlist'])
+  type: AlertRuleType;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @IsOptional()
+  @IsEnum(['info', 'warning', 'critical'])
+  severity?: AlertSeverity;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(7 * 24 * 3600)
+  cooldownSeconds?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  speedKnots?: number;
+
+  // ✅ AIS navigational status codes, e.g. 6 Aground, 14 AIS-SART active
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(15, { each: true })
+  navStatuses?: number[];
+
+  // ✅ AIS ship type codes (e.g. 80-89 tankers)
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(99, { each: true })
+  vesselTypes?: number[];
+
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  mmsis?: number[];
+
+  // ✅ Saved POI area: the zone for restricted_zone, a scope for the others
+  @IsOptional()
+  @IsMongoId()
+  areaId?: string;
+}
+
+export class UpdateAlertRuleDto extends PartialType(CreateAlertRuleDto) {}
+
+export class QueryAlertsDto {
+  @IsOptional()
+  @IsEnum(['open', 'acknowledged'])
+  status?: 'open' | 'acknowledged';
+
+  @IsOptional()
+  @IsEnum(['info', 'warning', 'critical'])
+  severity?: AlertSeverity;
+
+  @IsOptional()
+  @IsMongoId()
+  ruleId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  mmsi?: number;
+
+  // ISO-8601, offset honoured; none = UTC
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
+
+export class AcknowledgeAlertDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  acknowledgedBy: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
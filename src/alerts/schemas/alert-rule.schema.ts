@@ -0,0 +1,52 @@
+// src/alerts/schemas/alert-rule.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { AlertRuleType, AlertSeverity } from '../alert-rules';
+
+export type AlertRuleDocument = AlertRule & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'alert_rules',
+})
+export class AlertRule {
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({
+    required: true,
+    enum: ['speed', 'nav_status', 'restricted_zone', 'watchlist'],
+  })
+  type: AlertRuleType;
+
+  @Prop({ default: true })
+  enabled: boolean;
+
+  @Prop({ default: 'warning', enum: ['info', 'warning', 'critical'] })
+  severity: AlertSeverity;
+
+  @Prop({ default: 3600 })
+  cooldownSeconds: number; // per vessel, no repeat alert within this window
+
+  @Prop()
+  speedKnots?: number;
+
+  @Prop({ type: [Number], default: undefined })
+  navStatuses?: number[];
+
+  @Prop({ type: [Number], default: undefined })
+  vesselTypes?: number[];
+
+  @Prop({ type: [Number], default: undefined })
+  mmsis?: number[];
+
+  @Prop()
+  areaId?: string; // poi_areas _id
+}
+
+export const AlertRuleSchema = SchemaFactory.createForClass(AlertRule);
+
+AlertRuleSchema.index({ enabled: 1 });
@@ -0,0 +1,69 @@
+// src/alerts/schemas/alert.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { AlertRuleType, AlertSeverity } from '../alert-rules';
+
+export type AlertDocument = Alert & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'alerts',
+})
+export class Alert {
+  @Prop({ required: true })
+  ruleId: string;
+
+  @Prop({ required: true })
+  ruleName: string;
+
+  @Prop({ required: true })
+  ruleType: AlertRuleType;
+
+  @Prop({ required: true })
+  severity: AlertSeverity;
+
+  @Prop({ required: true })
+  message: string;
+
+  @Prop({ required: true })
+  mmsi: number;
+
+  @Prop()
+  vesselName?: string;
+
+  @Prop({ required: true })
+  timestamp: Date; // position report that fired the rule
+
+  @Prop({ required: true })
+  latitude: number;
+
+  @Prop({ required: true })
+  longitude: number;
+
+  @Prop()
+  speed?: number;
+
+  @Prop()
+  navStatus?: number;
+
+  @Prop()
+  areaId?: string;
+
+  @Prop({ default: 'open', enum: ['open', 'acknowledged'] })
+  status: 'open' | 'acknowledged';
+
+  @Prop()
+  acknowledgedBy?: string;
+
+  @Prop()
+  acknowledgedAt?: Date;
+
+  @Prop()
+  note?: string;
+}
+
+export const AlertSchema = SchemaFactory.createForClass(Alert);
+
+AlertSchema.index({ ruleId: 1, mmsi: 1, timestamp: -1 }); // cool-down lookup
+AlertSchema.index({ status: 1, timestamp: -1 });
+AlertSchema.index({ mmsi: 1, timestamp: -1 });
@@ -6,6 +6,19 @@ import { AisDataModule } from './ais-data/ais-data.module';
 import { SchedulerModule } from './scheduler/scheduler.module';
 import { TelkomsatModule } from './telkomsat/telkomsat.module';
 import { WebSocketModule } from './websocket/websocket.module'; // ✅ Add this
+import { NmeaModule } from './nmea/nmea.module';
+import { NmeaFeedsModule } from './nmea-feeds/nmea-feeds.module';
+import { DataSourcesModule } from './data-sources/data-sources.module';
+import { PoiAreasModule } from './poi-areas/poi-areas.module';
+import { GeofencesModule } from './geofences/geofences.module';
+import { AlertsModule } from './alerts/alerts.module';
+import { AisGapsModule } from './ais-gaps/ais-gaps.module';
+import { LoiteringModule } from './loitering/loitering.module';
+import { EncountersModule } from './encounters/encounters.module';
+import { PortsModule } from './ports/ports.module';
+import { VoyagesModule } from './voyages/voyages.module';
+import { DestinationsModule } from './destinations/destinations.module';
+import { EtaModule } from './eta/eta.module';
 
 @Module({
   imports: [
@@ -24,7 +37,20 @@ import { WebSocketModule } from './websocket/websocket.module'; // ✅ Add this
     AisDataModule,
     SchedulerModule,
     TelkomsatModule,
-    WebSocketModule // ✅ Add this
+    WebSocketModule, // ✅ Add this
+    NmeaModule,
+    NmeaFeedsModule,
+    DataSourcesModule,
+    PoiAreasModule,
+    GeofencesModule,
+    AlertsModule,
+    AisGapsModule,
+    LoiteringModule,
+    EncountersModule,
+    PortsModule,
+    VoyagesModule,
+    DestinationsModule,
+    EtaModule
   ],
 })
 export class AppModule {}
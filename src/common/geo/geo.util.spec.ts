@@ -0,0 +1,113 @@
+import {
+  BoundingBox,
+  boundingBoxFilter,
+  boundingBoxToPolygon,
+  initialBearing,
+  isWithinBoundingBox,
+  longitudeCenter,
+  longitudeSpan,
+} from './geo.util';
+
+describe('geo.util antimeridian handling', () => {
+  const pacific: BoundingBox = {
+    minLongitude: 170,
+    maxLongitude: -170,
+    minLatitude: -10,
+    maxLatitude: 10,
+  };
+
+  it('should measure span and center across 180°', () => {
+    expect(longitudeSpan(170, -170)).toBe(20);
+    expect(longitudeCenter(170, -170)).toBe(180);
+    expect(longitudeSpan(-10, 10)).toBe(20);
+  });
+
+  it('should match points on both sides of the antimeridian', () => {
+    expect(isWithinBoundingBox(0, 179, pacific)).toBe(true);
+    expect(isWithinBoundingBox(0, -175, pacific)).toBe(true);
+    expect(isWithinBoundingBox(0, 0, pacific)).toBe(false);
+  });
+
+  it('should build a closed polygon going east through 180°', () => {
+    const ring = boundingBoxToPolygon(170, -10, -170, 10).coordinates[0];
+
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+    expect(ring.every(([longitude]) => Math.abs(longitude) <= 180)).toBe(true);
+    expect(ring).toContainEqual([-170, -10]);
+    expect(ring).not.toContainEqual([0, -10]);
+  });
+});
+
+describe('boundingBoxFilter', () => {
+  const box = (
+    minLongitude: number,
+    maxLongitude: number,
+    minLatitude: number,
+    maxLatitude: number,
+  ): BoundingBox => ({ minLongitude, maxLongitude, minLatitude, maxLatitude });
+
+  it('should use a $geoWithin polygon for boxes narrower than 180°', () => {
+    expect(boundingBoxFilter(box(100, 120, -10, 10))).toHaveProperty(
+      'location.$geoWithin.$geometry.type',
+      'Polygon',
+    );
+    expect(boundingBoxFilter(box(170, -170, -10, 10))).toHaveProperty(
+      'location.$geoWithin',
+    );
+  });
+
+  it('should use a coordinate range for a whole-world box', () => {
+    expect(boundingBoxFilter(box(-180, 180, -90, 90))).toEqual({
+      latitude: { $gte: -90, $lte: 90 },
+      longitude: { $gte: -180, $lte: 180 },
+    });
+  });
+
+  it('should use a coordinate range for a box larger than a hemisphere', () => {
+    expect(boundingBoxFilter(box(-180, 180, -60, 60))).toEqual({
+      latitude: { $gte: -60, $lte: 60 },
+      longitude: { $gte: -180, $lte: 180 },
+    });
+    expect(boundingBoxFilter(box(-100, 100, -80, 80))).toEqual({
+      latitude: { $gte: -80, $lte: 80 },
+      longitude: { $gte: -100, $lte: 100 },
+    });
+  });
+
+  it('should use a coordinate range for a box with an edge on a pole', () => {
+    expect(boundingBoxFilter(box(100, 120, 60, 90))).toEqual({
+      latitude: { $gte: 60, $lte: 90 },
+      longitude: { $gte: 100, $lte: 120 },
+    });
+    expect(boundingBoxFilter(box(170, -170, -90, -60))).toEqual({
+      latitude: { $gte: -90, $lte: -60 },
+      $or: [
+        { longitude: { $gte: 170, $lte: 180 } },
+        { longitude: { $gte: -180, $lte: -170 } },
+      ],
+    });
+  });
+
+  it('should split a wide box across the antimeridian into two ranges', () => {
+    expect(boundingBoxFilter(box(30, -30, -45, 45))).toEqual({
+      latitude: { $gte: -45, $lte: 45 },
+      $or: [
+        { longitude: { $gte: 30, $lte: 180 } },
+        { longitude: { $gte: -180, $lte: -30 } },
+      ],
+    });
+  });
+});
+
+describe('initialBearing', () => {
+  it('should point along the cardinal directions', () => {
+    expect(initialBearing(0, 0, 1, 0)).toBeCloseTo(0);
+    expect(initialBearing(0, 0, 0, 1)).toBeCloseTo(90);
+    expect(initialBearing(0, 0, -1, 0)).toBeCloseTo(180);
+    expect(initialBearing(0, 0, 0, -1)).toBeCloseTo(270);
+  });
+
+  it('should take the short way across the antimeridian', () => {
+    expect(initialBearing(0, 179, 0, -179)).toBeCloseTo(90);
+  });
+});
@@ -0,0 +1,249 @@
+// src/common/geo/geo.util.ts
+// Spherical earth helpers shared by ingest, analytics and the REST layer.
+
+export const EARTH_RADIUS_KM = 6371;
+export const NAUTICAL_MILE_METERS = 1852;
+
+export function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two WGS84 points, in kilometres
+ */
+export function haversineDistanceKm(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+export function haversineDistanceMeters(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  return haversineDistanceKm(lat1, lon1, lat2, lon2) * 1000;
+}
+
+/**
+ * Initial great-circle bearing from point 1 to point 2, 0..360 degrees true
+ */
+export function initialBearing(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLon = toRadians(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x =
+    Math.cos(phi1) * Math.sin(phi2) -
+    Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  const degrees = (Math.atan2(y, x) * 180) / Math.PI;
+  return (degrees + 360) % 360;
+}
+
+/**
+ * Smallest difference between two bearings, 0..180 degrees (350 vs 10 = 20)
+ */
+export function bearingDifference(a: number, b: number): number {
+  const diff = Math.abs((((a - b) % 360) + 360) % 360);
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Lat/lon rectangle. minLongitude > maxLongitude means the box wraps
+ * the antimeridian (e.g. 170 -> -170 is a 20° wide box across 180°).
+ */
+export interface BoundingBox {
+  minLongitude: number;
+  maxLongitude: number;
+  minLatitude: number;
+  maxLatitude: number;
+}
+
+/**
+ * Wrap a longitude into [-180, 180)
+ */
+export function normalizeLongitude(longitude: number): number {
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+export function crossesAntimeridian(
+  minLongitude: number,
+  maxLongitude: number,
+): boolean {
+  return minLongitude > maxLongitude;
+}
+
+/**
+ * Eastward width of a box in degrees, wrap-aware (170 -> -170 = 20)
+ */
+export function longitudeSpan(
+  minLongitude: number,
+  maxLongitude: number,
+): number {
+  return crossesAntimeridian(minLongitude, maxLongitude)
+    ? maxLongitude - minLongitude + 360
+    : maxLongitude - minLongitude;
+}
+
+/**
+ * Centre longitude of a box, wrap-aware
+ */
+export function longitudeCenter(
+  minLongitude: number,
+  maxLongitude: number,
+): number {
+  const center = minLongitude + longitudeSpan(minLongitude, maxLongitude) / 2;
+  return center > 180 ? center - 360 : center;
+}
+
+export function isWithinBoundingBox(
+  latitude: number,
+  longitude: number,
+  box: BoundingBox,
+): boolean {
+  if (latitude < box.minLatitude || latitude > box.maxLatitude) return false;
+
+  return crossesAntimeridian(box.minLongitude, box.maxLongitude)
+    ? longitude >= box.minLongitude || longitude <= box.maxLongitude
+    : longitude >= box.minLongitude && longitude <= box.maxLongitude;
+}
+
+export interface GeoJsonPoint {
+  type: 'Point';
+  coordinates: [number, number]; // [longitude, latitude]
+}
+
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: [number, number][][];
+}
+
+export function isValidCoordinate(
+  latitude: number,
+  longitude: number,
+): boolean {
+  return (
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    latitude >= -90 &&
+    latitude <= 90 &&
+    longitude >= -180 &&
+    longitude <= 180
+  );
+}
+
+/**
+ * GeoJSON Point for a lat/lon pair, or undefined when out of range
+ * (a 2dsphere index rejects documents with invalid coordinates)
+ */
+export function toGeoJsonPoint(
+  latitude: number,
+  longitude: number,
+): GeoJsonPoint | undefined {
+  if (!isValidCoordinate(latitude, longitude)) return undefined;
+  return { type: 'Point', coordinates: [longitude, latitude] };
+}
+
+/**
+ * Bounding box as a GeoJSON polygon for $geoWithin.
+ * 2dsphere edges are great circles, so the east-west edges are densified
+ * (one vertex per `stepDegrees`) to stay close to the parallels; that also
+ * lets a box wrapping the antimeridian walk east across 180°.
+ */
+export function boundingBoxToPolygon(
+  minLongitude: number,
+  minLatitude: number,
+  maxLongitude: number,
+  maxLatitude: number,
+  stepDegrees: number = 0.5,
+): GeoJsonPolygon {
+  const span = longitudeSpan(minLongitude, maxLongitude);
+  const steps = Math.max(1, Math.ceil(span / stepDegrees));
+  const south: [number, number][] = [];
+  const north: [number, number][] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const longitude =
+      i === steps
+        ? maxLongitude
+        : normalizeLongitude(minLongitude + (span * i) / steps);
+    south.push([longitude, minLatitude]);
+    north.push([longitude, maxLatitude]);
+  }
+
+  const ring = [...south, ...north.reverse()];
+  ring.push(ring[0]); // closed, counter-clockwise
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+export interface CoordinateRange {
+  $gte: number;
+  $lte: number;
+}
+
+/**
+ * MongoDB filter for documents with `latitude`/`longitude` and a 2dsphere
+ * `location`: either a $geoWithin polygon or a plain coordinate range
+ */
+export type BoundingBoxFilter =
+  | { location: { $geoWithin: { $geometry: GeoJsonPolygon } } }
+  | { latitude: CoordinateRange; longitude: CoordinateRange }
+  | { latitude: CoordinateRange; $or: { longitude: CoordinateRange }[] };
+
+/**
+ * Filter for a bounding box. Boxes 180° wide or more fall back to the
+ * coordinate range: a default-CRS polygon that large has duplicate ±180°
+ * edges (rejected by MongoDB) or is read as its smaller complement. Any
+ * box narrower than 180° is smaller than a hemisphere, so the polygon
+ * is safe there - unless an edge lies on a pole, where every vertex of
+ * that edge is the same point (also rejected as duplicate vertices).
+ */
+export function boundingBoxFilter(box: BoundingBox): BoundingBoxFilter {
+  const { minLongitude, maxLongitude, minLatitude, maxLatitude } = box;
+  const touchesPole = minLatitude <= -90 || maxLatitude >= 90;
+
+  if (longitudeSpan(minLongitude, maxLongitude) < 180 && !touchesPole) {
+    return {
+      location: {
+        $geoWithin: {
+          $geometry: boundingBoxToPolygon(
+            minLongitude,
+            minLatitude,
+            maxLongitude,
+            maxLatitude,
+          ),
+        },
+      },
+    };
+  }
+
+  const latitude = { $gte: minLatitude, $lte: maxLatitude };
+  if (!crossesAntimeridian(minLongitude, maxLongitude)) {
+    return { latitude, longitude: { $gte: minLongitude, $lte: maxLongitude } };
+  }
+  return {
+    latitude,
+    $or: [
+      { longitude: { $gte: minLongitude, $lte: 180 } },
+      { longitude: { $gte: -180, $lte: maxLongitude } },
+    ],
+  };
+}
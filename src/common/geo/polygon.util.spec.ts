@@ -0,0 +1,187 @@
+import {
+  PolygonGeometry,
+  isPointInPolygon,
+  polygonBoundingBox,
+  sphericalPolygonAreaKm2,
+  validatePolygonGeometry,
+} from './polygon.util';
+
+describe('polygon.util', () => {
+  const square: PolygonGeometry = {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [0, 1],
+        [0, 0],
+      ],
+    ],
+  };
+
+  describe('validatePolygonGeometry', () => {
+    it('should accept a closed simple polygon', () => {
+      expect(validatePolygonGeometry(square)).toEqual([]);
+    });
+
+    it('should reject an unclosed ring', () => {
+      const errors = validatePolygonGeometry({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [0, 0],
+            [1, 0],
+            [1, 1],
+            [0, 1],
+          ],
+        ],
+      });
+
+      expect(errors).toEqual([
+        'polygon ring 0 is not closed, first and last positions must be equal',
+      ]);
+    });
+
+    it('should reject a self-intersecting bow tie', () => {
+      const errors = validatePolygonGeometry({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [0, 0],
+            [1, 1],
+            [1, 0],
+            [0, 1],
+            [0, 0],
+          ],
+        ],
+      });
+
+      expect(errors).toEqual([
+        'polygon has self-intersecting or crossing rings',
+      ]);
+    });
+
+    it('should reject a hole crossing the outer ring', () => {
+      const errors = validatePolygonGeometry({
+        type: 'Polygon',
+        coordinates: [
+          square.coordinates[0],
+          [
+            [0.5, 0.5],
+            [1.5, 0.5],
+            [1.5, 0.8],
+            [0.5, 0.8],
+            [0.5, 0.5],
+          ],
+        ],
+      });
+
+      expect(errors).toHaveLength(1);
+    });
+
+    it('should validate each polygon of a MultiPolygon', () => {
+      const errors = validatePolygonGeometry({
+        type: 'MultiPolygon',
+        coordinates: [
+          square.coordinates,
+          [
+            [
+              [10, 10],
+              [11, 10],
+              [200, 11],
+              [10, 10],
+            ],
+          ],
+        ],
+      });
+
+      expect(errors).toEqual([
+        'polygon 1 ring 0 position 2 must be [longitude, latitude] within range',
+      ]);
+    });
+
+    it('should reject other geometry types', () => {
+      expect(
+        validatePolygonGeometry({ type: 'Point', coordinates: [0, 0] }),
+      ).toEqual(['geometry.type must be Polygon or MultiPolygon, got Point']);
+    });
+  });
+
+  describe('sphericalPolygonAreaKm2', () => {
+    it('should match the spherical area of a 1° cell at the equator', () => {
+      // R² · Δλ · (sin φ2 - sin φ1) with R = 6371 km
+      expect(sphericalPolygonAreaKm2(square)).toBeCloseTo(12364, -1);
+    });
+
+    it('should shrink towards the poles', () => {
+      const northern: PolygonGeometry = {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [0, 60],
+            [1, 60],
+            [1, 61],
+            [0, 61],
+            [0, 60],
+          ],
+        ],
+      };
+
+      expect(sphericalPolygonAreaKm2(northern)).toBeCloseTo(6088, -1);
+    });
+
+    it('should subtract holes and sum MultiPolygon parts', () => {
+      const withHole: PolygonGeometry = {
+        type: 'MultiPolygon',
+        coordinates: [
+          [
+            square.coordinates[0],
+            [
+              [0.25, 0.25],
+              [0.75, 0.25],
+              [0.75, 0.75],
+              [0.25, 0.75],
+              [0.25, 0.25],
+            ],
+          ],
+          square.coordinates,
+        ],
+      };
+
+      expect(sphericalPolygonAreaKm2(withHole)).toBeCloseTo(
+        12364 * 2 - 12364 / 4,
+        -1,
+      );
+    });
+  });
+
+  it('should compute the bounding box of the outer rings', () => {
+    expect(polygonBoundingBox(square)).toEqual({
+      minLongitude: 0,
+      maxLongitude: 1,
+      minLatitude: 0,
+      maxLatitude: 1,
+    });
+  });
+
+  it('should locate points inside outer rings and outside holes', () => {
+    const withHole: PolygonGeometry = {
+      type: 'Polygon',
+      coordinates: [
+        square.coordinates[0],
+        [
+          [0.25, 0.25],
+          [0.75, 0.25],
+          [0.75, 0.75],
+          [0.25, 0.75],
+          [0.25, 0.25],
+        ],
+      ],
+    };
+
+    expect(isPointInPolygon(0.1, 0.1, withHole)).toBe(true);
+    expect(isPointInPolygon(0.5, 0.5, withHole)).toBe(false);
+    expect(isPointInPolygon(0.5, 1.5, withHole)).toBe(false);
+  });
+});
@@ -0,0 +1,336 @@
+// src/common/geo/polygon.util.ts
+// GeoJSON Polygon/MultiPolygon validation and spherical area.
+
+import {
+  BoundingBox,
+  EARTH_RADIUS_KM,
+  GeoJsonPolygon,
+  toRadians,
+} from './geo.util';
+
+type Position = [number, number]; // [longitude, latitude]
+
+export interface GeoJsonMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: Position[][][];
+}
+
+export type PolygonGeometry = GeoJsonPolygon | GeoJsonMultiPolygon;
+
+// ✅ Self-intersection check is O(n²) per polygon
+export const MAX_POLYGON_VERTICES = 5000;
+
+/**
+ * Validate a Polygon/MultiPolygon; returns a list of problems, empty if valid
+ */
+export function validatePolygonGeometry(geometry: unknown): string[] {
+  if (!geometry || typeof geometry !== 'object') {
+    return ['geometry must be a GeoJSON Polygon or MultiPolygon object'];
+  }
+
+  const { type, coordinates } = geometry as {
+    type?: unknown;
+    coordinates?: unknown;
+  };
+  if (type !== 'Polygon' && type !== 'MultiPolygon') {
+    return [
+      `geometry.type must be Polygon or MultiPolygon, got ${String(type)}`,
+    ];
+  }
+  if (!Array.isArray(coordinates) || coordinates.length === 0) {
+    return ['geometry.coordinates must be a non-empty array'];
+  }
+
+  const polygons = (
+    type === 'Polygon' ? [coordinates] : coordinates
+  ) as unknown[];
+  const errors: string[] = [];
+  let vertexCount = 0;
+
+  polygons.forEach((polygon, polygonIndex) => {
+    const label = type === 'Polygon' ? 'polygon' : `polygon ${polygonIndex}`;
+    if (!Array.isArray(polygon) || polygon.length === 0) {
+      errors.push(`${label} must be an array of linear rings`);
+      return;
+    }
+
+    const rings: Position[][] = [];
+    polygon.forEach((ring, ringIndex) => {
+      const ringLabel = `${label} ring ${ringIndex}`;
+      const ringErrors = validateRing(ring, ringLabel);
+      if (ringErrors.length > 0) {
+        errors.push(...ringErrors);
+      } else {
+        rings.push(ring as Position[]);
+        vertexCount += (ring as Position[]).length;
+      }
+    });
+
+    if (
+      rings.length === polygon.length &&
+      vertexCount <= MAX_POLYGON_VERTICES
+    ) {
+      if (hasSelfIntersection(rings)) {
+        errors.push(`${label} has self-intersecting or crossing rings`);
+      }
+    }
+  });
+
+  if (vertexCount > MAX_POLYGON_VERTICES) {
+    errors.push(
+      `geometry has ${vertexCount} vertices, maximum is ${MAX_POLYGON_VERTICES}`,
+    );
+  }
+
+  return errors;
+}
+
+function isPosition(value: unknown): value is Position {
+  if (!Array.isArray(value) || value.length < 2) return false;
+  const [longitude, latitude] = value as unknown[];
+  return (
+    typeof longitude === 'number' &&
+    typeof latitude === 'number' &&
+    Number.isFinite(longitude) &&
+    Number.isFinite(latitude) &&
+    Math.abs(longitude) <= 180 &&
+    Math.abs(latitude) <= 90
+  );
+}
+
+function validateRing(ring: unknown, label: string): string[] {
+  if (!Array.isArray(ring)) {
+    return [`${label} must be an array of positions`];
+  }
+
+  const invalid = (ring as unknown[]).findIndex(
+    (position) => !isPosition(position),
+  );
+  if (invalid !== -1) {
+    return [
+      `${label} position ${invalid} must be [longitude, latitude] within range`,
+    ];
+  }
+
+  const positions = ring as Position[];
+  if (positions.length < 4) {
+    return [`${label} needs at least 4 positions (3 vertices plus closing)`];
+  }
+
+  const first = positions[0];
+  const last = positions[positions.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    return [`${label} is not closed, first and last positions must be equal`];
+  }
+
+  if (uniqueVertices(positions).length < 3) {
+    return [`${label} needs at least 3 distinct vertices`];
+  }
+
+  return [];
+}
+
+// ✅ Drops the closing position and consecutive duplicates
+function uniqueVertices(ring: Position[]): Position[] {
+  const vertices: Position[] = [];
+  for (const position of ring.slice(0, -1)) {
+    const previous = vertices[vertices.length - 1];
+    if (
+      !previous ||
+      previous[0] !== position[0] ||
+      previous[1] !== position[1]
+    ) {
+      vertices.push(position);
+    }
+  }
+  const head = vertices[0];
+  const tail = vertices[vertices.length - 1];
+  if (vertices.length > 1 && head[0] === tail[0] && head[1] === tail[1]) {
+    vertices.pop();
+  }
+  return vertices;
+}
+
+interface Segment {
+  ring: number;
+  index: number;
+  ringSize: number;
+  a: Position;
+  b: Position;
+}
+
+/**
+ * True when any two edges of the polygon (outer ring and holes) cross,
+ * touch outside a shared vertex or overlap. Planar test on lon/lat.
+ */
+export function hasSelfIntersection(rings: Position[][]): boolean {
+  const segments: Segment[] = [];
+  rings.forEach((ring, ringIndex) => {
+    const vertices = uniqueVertices(ring);
+    vertices.forEach((a, index) => {
+      segments.push({
+        ring: ringIndex,
+        index,
+        ringSize: vertices.length,
+        a,
+        b: vertices[(index + 1) % vertices.length],
+      });
+    });
+  });
+
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      const s1 = segments[i];
+      const s2 = segments[j];
+
+      if (s1.ring === s2.ring && areAdjacent(s1, s2)) {
+        // ✅ Neighbours share a vertex; only a backtracking spike is invalid
+        if (isCollinearOverlap(s1, s2)) return true;
+        continue;
+      }
+
+      if (segmentsIntersect(s1.a, s1.b, s2.a, s2.b)) return true;
+    }
+  }
+
+  return false;
+}
+
+function areAdjacent(s1: Segment, s2: Segment): boolean {
+  const diff = Math.abs(s1.index - s2.index);
+  return diff === 1 || diff === s1.ringSize - 1;
+}
+
+function orientation(p: Position, q: Position, r: Position): number {
+  const value = (q[1] - p[1]) * (r[0] - q[0]) - (q[0] - p[0]) * (r[1] - q[1]);
+  if (Math.abs(value) < 1e-12) return 0;
+  return value > 0 ? 1 : 2;
+}
+
+function onSegment(p: Position, q: Position, r: Position): boolean {
+  return (
+    q[0] <= Math.max(p[0], r[0]) &&
+    q[0] >= Math.min(p[0], r[0]) &&
+    q[1] <= Math.max(p[1], r[1]) &&
+    q[1] >= Math.min(p[1], r[1])
+  );
+}
+
+function segmentsIntersect(
+  p1: Position,
+  q1: Position,
+  p2: Position,
+  q2: Position,
+): boolean {
+  const o1 = orientation(p1, q1, p2);
+  const o2 = orientation(p1, q1, q2);
+  const o3 = orientation(p2, q2, p1);
+  const o4 = orientation(p2, q2, q1);
+
+  if (o1 !== o2 && o3 !== o4) return true;
+  if (o1 === 0 && onSegment(p1, p2, q1)) return true;
+  if (o2 === 0 && onSegment(p1, q2, q1)) return true;
+  if (o3 === 0 && onSegment(p2, p1, q2)) return true;
+  if (o4 === 0 && onSegment(p2, q1, q2)) return true;
+  return false;
+}
+
+function isCollinearOverlap(s1: Segment, s2: Segment): boolean {
+  // ✅ Adjacent: s1.b === s2.a (or wrap-around s2.b === s1.a)
+  const [shared, end1, end2] =
+    s1.b === s2.a ? [s1.b, s1.a, s2.b] : [s1.a, s1.b, s2.a];
+  if (orientation(end1, shared, end2) !== 0) return false;
+
+  // ✅ Collinear: overlap when both far ends sit on the same side of the shared vertex
+  const d1: Position = [end1[0] - shared[0], end1[1] - shared[1]];
+  const d2: Position = [end2[0] - shared[0], end2[1] - shared[1]];
+  return d1[0] * d2[0] + d1[1] * d2[1] > 0;
+}
+
+/**
+ * Area of a ring on the sphere in km² (same approach as d3-geo/turf)
+ */
+function ringAreaKm2(ring: Position[]): number {
+  const vertices = uniqueVertices(ring);
+  const count = vertices.length;
+  if (count < 3) return 0;
+
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    const lower = vertices[i];
+    const middle = vertices[(i + 1) % count];
+    const upper = vertices[(i + 2) % count];
+    total +=
+      (toRadians(upper[0]) - toRadians(lower[0])) *
+      Math.sin(toRadians(middle[1]));
+  }
+
+  return Math.abs((total * EARTH_RADIUS_KM * EARTH_RADIUS_KM) / 2);
+}
+
+/**
+ * True spherical area in km²: outer rings minus holes
+ */
+export function sphericalPolygonAreaKm2(geometry: PolygonGeometry): number {
+  const polygons =
+    geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+  return polygons.reduce((sum, rings) => {
+    const [outer, ...holes] = rings;
+    const holeArea = holes.reduce((acc, hole) => acc + ringAreaKm2(hole), 0);
+    return sum + Math.max(0, ringAreaKm2(outer) - holeArea);
+  }, 0);
+}
+
+export function polygonBoundingBox(geometry: PolygonGeometry): BoundingBox {
+  const polygons =
+    geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const box: BoundingBox = {
+    minLongitude: Infinity,
+    maxLongitude: -Infinity,
+    minLatitude: Infinity,
+    maxLatitude: -Infinity,
+  };
+
+  polygons.forEach((rings) =>
+    rings[0].forEach(([longitude, latitude]) => {
+      box.minLongitude = Math.min(box.minLongitude, longitude);
+      box.maxLongitude = Math.max(box.maxLongitude, longitude);
+      box.minLatitude = Math.min(box.minLatitude, latitude);
+      box.maxLatitude = Math.max(box.maxLatitude, latitude);
+    }),
+  );
+
+  return box;
+}
+
+/**
+ * Point-in-polygon on lon/lat (ray casting); inside an outer ring and
+ * outside its holes. Planar, like hasSelfIntersection.
+ */
+export function isPointInPolygon(
+  latitude: number,
+  longitude: number,
+  geometry: PolygonGeometry,
+): boolean {
+  const polygons =
+    geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+  return polygons.some(
+    ([outer, ...holes]) =>
+      isPointInRing(longitude, latitude, outer) &&
+      !holes.some((hole) => isPointInRing(longitude, latitude, hole)),
+  );
+}
+
+function isPointInRing(x: number, y: number, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
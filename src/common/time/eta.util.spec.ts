@@ -0,0 +1,52 @@
+import { parseEta } from './eta.util';
+
+describe('eta.util', () => {
+  const reportedAt = new Date('2024-05-01T06:00:00Z');
+
+  it('should infer the year of an AIS month/day ETA', () => {
+    expect(parseEta('05-03 13:45', reportedAt)).toEqual(
+      new Date('2024-05-03T13:45:00Z'),
+    );
+    expect(parseEta('4/30 22:00', reportedAt)).toEqual(
+      new Date('2024-04-30T22:00:00Z'),
+    );
+  });
+
+  it('should roll over the year end in both directions', () => {
+    expect(parseEta('01-03 08:00', new Date('2024-12-28T00:00:00Z'))).toEqual(
+      new Date('2025-01-03T08:00:00Z'),
+    );
+    expect(parseEta('12-30 08:00', new Date('2025-01-02T00:00:00Z'))).toEqual(
+      new Date('2024-12-30T08:00:00Z'),
+    );
+  });
+
+  it('should only place 29 February in a leap year', () => {
+    expect(parseEta('02-29 00:00', new Date('2025-03-01T00:00:00Z'))).toEqual(
+      new Date('2024-02-29T00:00:00Z'),
+    );
+  });
+
+  it('should read ETAs that carry a year in the source zone', () => {
+    expect(parseEta('2024-05-02 19:00', reportedAt, 'Asia/Jakarta')).toEqual(
+      new Date('2024-05-02T12:00:00Z'),
+    );
+    expect(parseEta('2024-05-02T19:00:00+08:00', reportedAt)).toEqual(
+      new Date('2024-05-02T11:00:00Z'),
+    );
+  });
+
+  it('should treat AIS month/day ETAs as wall times in the source zone', () => {
+    expect(parseEta('05-03 07:00', reportedAt, 'Asia/Jakarta')).toEqual(
+      new Date('2024-05-03T00:00:00Z'),
+    );
+  });
+
+  it('should return null for missing or not available ETAs', () => {
+    expect(parseEta(undefined, reportedAt)).toBeNull();
+    expect(parseEta('  ', reportedAt)).toBeNull();
+    expect(parseEta('00-00 24:60', reportedAt)).toBeNull();
+    expect(parseEta('13-01 10:00', reportedAt)).toBeNull();
+    expect(parseEta('ASAP', reportedAt)).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+// src/common/time/eta.util.ts
+// Reported ETA strings to UTC instants.
+
+import { parseTimestamp, zonedTimeToUtc } from './timezone.util';
+
+// ✅ AIS static data: month, day, hour, minute - no year ("05-01 13:45")
+const MONTH_DAY_TIME = /^(\d{1,2})[-/](\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?$/;
+
+/**
+ * Parse a reported ETA into a UTC Date, or null when it is missing,
+ * "not available" (month/day 0) or not a date at all.
+ * - with a year ("2024-05-01 13:45", ISO): as parseTimestamp, offset-less
+ *   values being wall times in `timeZone`
+ * - AIS "MM-DD HH:mm" without a year: the year that puts the ETA nearest
+ *   to `reportedAt`, so a December report of "01-03" lands in January of
+ *   the next year and a stale ETA stays in the past
+ * AIS ETAs are UTC; pass the source zone for providers that localize them.
+ */
+export function parseEta(
+  value: string | null | undefined,
+  reportedAt: Date,
+  timeZone: string = 'UTC',
+): Date | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+
+  const match = MONTH_DAY_TIME.exec(trimmed);
+  if (!match) {
+    return /^\d{4}-\d{2}-\d{2}/.test(trimmed)
+      ? parseTimestamp(trimmed, timeZone)
+      : null;
+  }
+
+  const [month, day, hour, minute] = match
+    .slice(1)
+    .map((part) => Number(part ?? 0));
+  if (month < 1 || month > 12 || day < 1 || hour > 23 || minute > 59) {
+    return null;
+  }
+
+  const pad = (part: number) => part.toString().padStart(2, '0');
+  const reportedYear = reportedAt.getUTCFullYear();
+  let best: Date | null = null;
+  for (const year of [reportedYear - 1, reportedYear, reportedYear + 1]) {
+    // ✅ Skip dates that do not exist that year (29 February)
+    if (new Date(Date.UTC(year, month - 1, day)).getUTCDate() !== day) {
+      continue;
+    }
+    const eta = zonedTimeToUtc(
+      `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}`,
+      timeZone,
+    );
+    if (
+      eta &&
+      (!best ||
+        Math.abs(eta.getTime() - reportedAt.getTime()) <
+          Math.abs(best.getTime() - reportedAt.getTime()))
+    ) {
+      best = eta;
+    }
+  }
+  return best;
+}
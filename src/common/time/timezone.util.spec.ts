@@ -0,0 +1,75 @@
+import {
+  hasExplicitOffset,
+  parseTimestamp,
+  zonedTimeToUtc,
+} from './timezone.util';
+
+describe('timezone.util', () => {
+  describe('zonedTimeToUtc', () => {
+    it('should apply the zone offset on either side of a DST switch', () => {
+      expect(zonedTimeToUtc('2024-03-31 01:30:00', 'Europe/Berlin')).toEqual(
+        new Date('2024-03-31T00:30:00Z'),
+      );
+      expect(zonedTimeToUtc('2024-03-31 03:30:00', 'Europe/Berlin')).toEqual(
+        new Date('2024-03-31T01:30:00Z'),
+      );
+    });
+
+    it('should move a wall time inside a DST gap forward by the gap', () => {
+      // 02:30 does not exist in Berlin on 31 March 2024 (02:00 -> 03:00)
+      expect(zonedTimeToUtc('2024-03-31 02:30:00', 'Europe/Berlin')).toEqual(
+        new Date('2024-03-31T01:30:00Z'),
+      );
+    });
+
+    it('should resolve a wall time inside a DST overlap to standard time', () => {
+      // 02:30 happens twice in Berlin on 27 October 2024 (03:00 -> 02:00)
+      expect(zonedTimeToUtc('2024-10-27 02:30:00', 'Europe/Berlin')).toEqual(
+        new Date('2024-10-27T01:30:00Z'),
+      );
+      expect(zonedTimeToUtc('2024-10-27 01:30:00', 'Europe/Berlin')).toEqual(
+        new Date('2024-10-26T23:30:00Z'),
+      );
+    });
+
+    it('should return null for strings that are not wall times', () => {
+      expect(zonedTimeToUtc('yesterday', 'UTC')).toBeNull();
+    });
+  });
+
+  describe('parseTimestamp', () => {
+    it('should read a date-only value as midnight in the source zone', () => {
+      // "-01" looks like an offset suffix but is the day of month
+      expect(hasExplicitOffset('2024-05-01')).toBe(false);
+      expect(parseTimestamp('2024-05-01', 'Asia/Jakarta')).toEqual(
+        new Date('2024-04-30T17:00:00Z'),
+      );
+      expect(parseTimestamp('2024-05-01')).toEqual(
+        new Date('2024-05-01T00:00:00Z'),
+      );
+    });
+
+    it('should honour an explicit offset over the source zone', () => {
+      expect(hasExplicitOffset('2024-05-01T13:45:00+07:00')).toBe(true);
+      expect(
+        parseTimestamp('2024-05-01T13:45:00+07:00', 'America/New_York'),
+      ).toEqual(new Date('2024-05-01T06:45:00Z'));
+      expect(parseTimestamp('2024-05-01T13:45:00Z', 'Asia/Jakarta')).toEqual(
+        new Date('2024-05-01T13:45:00Z'),
+      );
+    });
+
+    it('should treat an offset-less wall time as the source zone', () => {
+      expect(parseTimestamp('2024-05-01 13:45:00', 'Asia/Jakarta')).toEqual(
+        new Date('2024-05-01T06:45:00Z'),
+      );
+    });
+
+    it('should return null for empty and unparsable values', () => {
+      expect(parseTimestamp('')).toBeNull();
+      expect(parseTimestamp(undefined)).toBeNull();
+      expect(parseTimestamp('not a date')).toBeNull();
+      expect(parseTimestamp(new Date(NaN))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+// src/common/time/timezone.util.ts
+// IANA timezone helpers built on Intl - no external tz database needed.
+
+const OFFSET_SUFFIX = /(Z|[+-]\d{2}(:?\d{2})?)$/i;
+const WALL_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * True when the string carries its own zone designator (Z or ±hh:mm)
+ */
+export function hasExplicitOffset(value: string): boolean {
+  return OFFSET_SUFFIX.test(value.trim()) && /\d[T ]\d/.test(value);
+}
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in ms (WIB = +7h)
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Interpret a wall-clock string ("2024-05-01 13:45:00") in `timeZone`
+ * and return the UTC instant, or null if the string is not a wall time.
+ */
+export function zonedTimeToUtc(
+  wallTime: string,
+  timeZone: string,
+): Date | null {
+  const match = WALL_TIME.exec(wallTime.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', ms = '0'] =
+    match;
+  const wallAsUtc = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+    Number(ms.padEnd(3, '0')),
+  );
+
+  // ✅ Two passes so times next to a DST switch resolve to the right offset
+  const firstOffset = getTimeZoneOffsetMs(new Date(wallAsUtc), timeZone);
+  let utc = wallAsUtc - firstOffset;
+  const secondOffset = getTimeZoneOffsetMs(new Date(utc), timeZone);
+  if (secondOffset !== firstOffset) {
+    utc = wallAsUtc - secondOffset;
+  }
+
+  return new Date(utc);
+}
+
+/**
+ * Parse a timestamp from any source into a UTC Date.
+ * Strings with an offset are taken as-is; offset-less strings are wall
+ * times in `timeZone` (default UTC, never the server's local zone).
+ */
+export function parseTimestamp(
+  value: string | Date | number | null | undefined,
+  timeZone: string = 'UTC',
+): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const trimmed = value.trim();
+  if (hasExplicitOffset(trimmed)) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return zonedTimeToUtc(trimmed, timeZone);
+}
+
+/**
+ * Parse an API date parameter; offset-less values are treated as UTC
+ */
+export function parseApiDate(
+  value: string | Date | null | undefined,
+): Date | null {
+  return parseTimestamp(value, 'UTC');
+}
+
+/**
+ * ISO-8601 in a given zone with its offset, e.g. 2024-05-01T13:45:00+07:00
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const offsetMs = getTimeZoneOffsetMs(date, timeZone);
+  const local = new Date(date.getTime() + offsetMs).toISOString().slice(0, 19);
+
+  const sign = offsetMs < 0 ? '-' : '+';
+  const totalMinutes = Math.abs(offsetMs) / 60000;
+  const hours = String(Math.floor(totalMinutes / 60)).padStart(2, '0');
+  const minutes = String(totalMinutes % 60).padStart(2, '0');
+
+  return `${local}${sign}${hours}:${minutes}`;
+}
@@ -0,0 +1,144 @@
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  backoffDelay,
+} from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const fail = () => Promise.reject(new Error('upstream down'));
+  const succeed = () => Promise.resolve('ok');
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-05-01T00:00:00Z') });
+    breaker = new CircuitBreaker('test', {
+      failureThreshold: 3,
+      resetTimeoutMs: 60000,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open after the threshold of consecutive failures', async () => {
+    for (let i = 0; i < 2; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    }
+    expect(breaker.getState()).toBe('closed');
+
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      totalOpens: 1,
+      nextAttemptAt: new Date('2024-05-01T00:01:00Z'),
+    });
+  });
+
+  it('should reset the failure count on success while closed', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 1,
+    });
+  });
+
+  it('should reject without calling upstream while open', async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+    }
+    const fn = jest.fn(succeed);
+
+    await expect(breaker.execute(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+    expect(breaker.getSnapshot().rejectedRequests).toBe(1);
+  });
+
+  it('should go half-open after the timeout and close on a successful trial', async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+    }
+    jest.advanceTimersByTime(59999);
+    expect(breaker.getState()).toBe('open');
+    jest.advanceTimersByTime(1);
+    expect(breaker.getState()).toBe('half_open');
+
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 0,
+      openedAt: null,
+    });
+  });
+
+  it('should reopen when the half-open trial fails', async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+    }
+    jest.advanceTimersByTime(60000);
+
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: 'open',
+      totalOpens: 2,
+      openedAt: new Date('2024-05-01T00:01:00Z'),
+    });
+  });
+
+  it('should allow a single trial request while half-open', async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+    }
+    jest.advanceTimersByTime(60000);
+
+    let finishTrial: (value: string) => void = () => undefined;
+    const trial = breaker.execute(
+      () => new Promise<string>((resolve) => (finishTrial = resolve)),
+    );
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(
+      CircuitOpenError,
+    );
+
+    finishTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should close immediately on reset', async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+    }
+    breaker.reset();
+
+    expect(breaker.getState()).toBe('closed');
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+  });
+});
+
+describe('backoffDelay', () => {
+  it('should stay between half and all of the exponential delay', () => {
+    expect(backoffDelay(0, 500, 10000, () => 0)).toBe(250);
+    expect(backoffDelay(0, 500, 10000, () => 1)).toBe(500);
+    expect(backoffDelay(2, 500, 10000, () => 0)).toBe(1000);
+    expect(backoffDelay(2, 500, 10000, () => 1)).toBe(2000);
+  });
+
+  it('should cap the exponential delay at the maximum', () => {
+    expect(backoffDelay(10, 500, 10000, () => 0)).toBe(5000);
+    expect(backoffDelay(10, 500, 10000, () => 1)).toBe(10000);
+  });
+
+  it('should stay within bounds with real jitter', () => {
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const exponential = Math.min(10000, 500 * 2 ** attempt);
+      const delay = backoffDelay(attempt, 500, 10000);
+      expect(delay).toBeGreaterThanOrEqual(exponential / 2);
+      expect(delay).toBeLessThanOrEqual(exponential);
+    }
+  });
+});
@@ -0,0 +1,175 @@
+// src/data-sources/circuit-breaker.ts
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures before opening
+  resetTimeoutMs: number; // how long to stay open before a trial request
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  openedAt: Date | null;
+  nextAttemptAt: Date | null;
+  totalOpens: number;
+  rejectedRequests: number;
+  lastFailure?: string;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly breakerName: string,
+    readonly retryAt: Date,
+  ) {
+    super(
+      `Circuit "${breakerName}" is open, requests paused until ${retryAt.toISOString()}`,
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Retry delay with exponential backoff and "equal jitter": half of the
+ * capped exponential delay is fixed, the other half random
+ */
+export function backoffDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random,
+): number {
+  const exponential = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * 🔌 CIRCUIT BREAKER
+ * closed -> (threshold consecutive failures) -> open
+ * open -> (resetTimeoutMs elapsed) -> half_open, one trial request
+ * half_open -> success: closed | failure: open again
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private totalOpens = 0;
+  private rejectedRequests = 0;
+  private lastFailure?: string;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions,
+  ) {}
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.beforeRequest();
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    }
+  }
+
+  getState(): CircuitState {
+    this.refreshState();
+    return this.state;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    this.refreshState();
+
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.options.failureThreshold,
+      resetTimeoutMs: this.options.resetTimeoutMs,
+      openedAt: this.openedAt ? new Date(this.openedAt) : null,
+      nextAttemptAt:
+        this.state === 'open' && this.openedAt
+          ? new Date(this.openedAt + this.options.resetTimeoutMs)
+          : null,
+      totalOpens: this.totalOpens,
+      rejectedRequests: this.rejectedRequests,
+      lastFailure: this.lastFailure,
+    };
+  }
+
+  reset(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+    this.lastFailure = undefined;
+  }
+
+  private beforeRequest(): void {
+    this.refreshState();
+
+    if (this.state === 'open') {
+      this.rejectedRequests++;
+      throw new CircuitOpenError(
+        this.name,
+        new Date((this.openedAt ?? Date.now()) + this.options.resetTimeoutMs),
+      );
+    }
+
+    if (this.state === 'half_open') {
+      // ✅ Only one trial request at a time while half-open
+      if (this.trialInFlight) {
+        this.rejectedRequests++;
+        throw new CircuitOpenError(this.name, new Date());
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  private recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  private recordFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.lastFailure = error instanceof Error ? error.message : String(error);
+
+    if (
+      this.state === 'half_open' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.open();
+    }
+    this.trialInFlight = false;
+  }
+
+  private open(): void {
+    if (this.state !== 'open') {
+      this.totalOpens++;
+    }
+    this.state = 'open';
+    this.openedAt = Date.now();
+  }
+
+  // ✅ Timer-based half-open, evaluated lazily on access
+  private refreshState(): void {
+    if (
+      this.state === 'open' &&
+      this.openedAt !== null &&
+      Date.now() - this.openedAt >= this.options.resetTimeoutMs
+    ) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+  }
+}
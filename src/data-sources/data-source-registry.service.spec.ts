@@ -0,0 +1,161 @@
+import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import {
+  DataSourceRegistryService,
+  MIN_INTERVAL_SECONDS,
+} from './data-source-registry.service';
+import { VesselIngestPipelineService } from './vessel-ingest-pipeline.service';
+import {
+  ProcessedVessel,
+  ProviderFetchResult,
+  VesselDataProvider,
+} from './vessel-data-provider.interface';
+
+function createProvider(
+  overrides: Partial<Omit<VesselDataProvider, 'fetchVessels'>> = {},
+) {
+  const fetchVessels = jest.fn<Promise<ProviderFetchResult>, []>(() =>
+    Promise.resolve({ vessels: [], errors: ['page 3 failed'] }),
+  );
+  return {
+    name: 'test-source',
+    source: 'test',
+    defaultIntervalSeconds: 60,
+    sourceTimezone: 'Asia/Jakarta',
+    ...overrides,
+    fetchVessels,
+  };
+}
+
+describe('DataSourceRegistryService', () => {
+  let registry: DataSourceRegistryService;
+  let schedulerRegistry: SchedulerRegistry;
+  let ingest: jest.Mock;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-05-01T00:00:00Z') });
+    schedulerRegistry = new SchedulerRegistry();
+    ingest = jest.fn((vessels: ProcessedVessel[]) =>
+      Promise.resolve({
+        collected: vessels.length,
+        stored: vessels.length,
+        duration: 0,
+      }),
+    );
+    registry = new DataSourceRegistryService(schedulerRegistry, {
+      ingest,
+    } as unknown as VesselIngestPipelineService);
+  });
+
+  afterEach(() => {
+    registry.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  describe('register', () => {
+    it('should schedule an enabled provider at its default interval', () => {
+      registry.register(createProvider());
+
+      expect(
+        schedulerRegistry.doesExist('interval', 'data-source:test-source'),
+      ).toBe(true);
+      expect(registry.getStatus('test-source')).toMatchObject({
+        enabled: true,
+        intervalSeconds: 60,
+        sourceTimezone: 'Asia/Jakarta',
+        nextRun: new Date('2024-05-01T00:01:00Z'),
+      });
+    });
+
+    it('should apply overrides and the minimum interval', () => {
+      registry.register(createProvider(), { intervalSeconds: 1 });
+      registry.register(createProvider({ name: 'off' }), { enabled: false });
+
+      expect(registry.getStatus('test-source').intervalSeconds).toBe(
+        MIN_INTERVAL_SECONDS,
+      );
+      expect(registry.getStatus('off')).toMatchObject({
+        enabled: false,
+        nextRun: null,
+      });
+      expect(schedulerRegistry.doesExist('interval', 'data-source:off')).toBe(
+        false,
+      );
+    });
+
+    it('should reject a second provider with the same name', () => {
+      registry.register(createProvider());
+      expect(() => registry.register(createProvider())).toThrow(
+        'already registered',
+      );
+    });
+
+    it('should run the provider on each interval tick', async () => {
+      const provider = createProvider();
+      registry.register(provider, { intervalSeconds: 30 });
+
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(provider.fetchVessels).toHaveBeenCalledTimes(2);
+      expect(ingest).toHaveBeenCalledWith([], {
+        source: 'test',
+        broadcast: undefined,
+        sourceTimezone: 'Asia/Jakarta',
+      });
+      expect(registry.getStatus('test-source')).toMatchObject({
+        totalRuns: 2,
+        successfulRuns: 2,
+        lastResult: { errors: ['page 3 failed'] },
+      });
+    });
+  });
+
+  describe('updateInterval', () => {
+    it('should reschedule from now', async () => {
+      const provider = createProvider();
+      registry.register(provider);
+      await jest.advanceTimersByTimeAsync(45000);
+
+      const status = registry.updateInterval('test-source', 20);
+
+      expect(status).toMatchObject({
+        intervalSeconds: 20,
+        nextRun: new Date('2024-05-01T00:01:05Z'),
+      });
+      await jest.advanceTimersByTimeAsync(20000);
+      expect(provider.fetchVessels).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject intervals below the minimum', () => {
+      registry.register(createProvider());
+
+      expect(() => registry.updateInterval('test-source', 5)).toThrow(
+        BadRequestException,
+      );
+      expect(() => registry.updateInterval('test-source', NaN)).toThrow(
+        BadRequestException,
+      );
+      expect(registry.getStatus('test-source').intervalSeconds).toBe(60);
+    });
+
+    it('should not schedule a disabled provider', () => {
+      registry.register(createProvider(), { enabled: false });
+
+      registry.updateInterval('test-source', 20);
+
+      expect(
+        schedulerRegistry.doesExist('interval', 'data-source:test-source'),
+      ).toBe(false);
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => registry.updateInterval('missing', 20)).toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
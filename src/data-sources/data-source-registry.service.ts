@@ -0,0 +1,317 @@
+// src/data-sources/data-source-registry.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import {
+  CollectionResult,
+  DataSourceStatus,
+  ProviderFetchResult,
+  VesselDataProvider,
+} from './vessel-data-provider.interface';
+import { VesselIngestPipelineService } from './vessel-ingest-pipeline.service';
+import { CircuitOpenError } from './circuit-breaker';
+
+export const MIN_INTERVAL_SECONDS = 10;
+
+export interface RunOptions {
+  broadcast?: boolean; // default true
+  fetch?: () => Promise<ProviderFetchResult>; // override provider.fetchVessels()
+}
+
+interface ProviderEntry {
+  provider: VesselDataProvider;
+  enabled: boolean;
+  intervalSeconds: number;
+  isRunning: boolean;
+  lastRun: Date | null;
+  lastSuccess: Date | null;
+  totalRuns: number;
+  successfulRuns: number;
+  durations: number[];
+  scheduledAt?: number;
+  lastResult?: CollectionResult;
+  lastError?: string;
+}
+
+/**
+ * 🗂️ DATA SOURCE REGISTRY
+ * Providers register themselves on module init; each gets its own
+ * interval in the SchedulerRegistry and its own runtime statistics.
+ */
+@Injectable()
+export class DataSourceRegistryService implements OnModuleDestroy {
+  private readonly logger = new Logger(DataSourceRegistryService.name);
+  private readonly providers = new Map<string, ProviderEntry>();
+
+  constructor(
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly ingestPipeline: VesselIngestPipelineService,
+  ) {}
+
+  onModuleDestroy(): void {
+    this.providers.forEach((entry) => this.unschedule(entry));
+  }
+
+  /**
+   * ➕ REGISTER PROVIDER
+   */
+  register(
+    provider: VesselDataProvider,
+    overrides: { enabled?: boolean; intervalSeconds?: number } = {},
+  ): void {
+    if (this.providers.has(provider.name)) {
+      throw new Error(`Data source "${provider.name}" is already registered`);
+    }
+
+    const entry: ProviderEntry = {
+      provider,
+      enabled: overrides.enabled ?? provider.enabledByDefault !== false,
+      intervalSeconds: Math.max(
+        MIN_INTERVAL_SECONDS,
+        overrides.intervalSeconds || provider.defaultIntervalSeconds,
+      ),
+      isRunning: false,
+      lastRun: null,
+      lastSuccess: null,
+      totalRuns: 0,
+      successfulRuns: 0,
+      durations: [],
+    };
+
+    this.providers.set(provider.name, entry);
+    if (entry.enabled) {
+      this.schedule(entry);
+    }
+
+    this.logger.log(
+      `🔌 Registered data source "${provider.name}" (${entry.enabled ? `every ${entry.intervalSeconds}s` : 'disabled'})`,
+    );
+  }
+
+  /**
+   * 🚀 RUN PROVIDER - fetch -> ingest pipeline, with a per-provider run guard
+   */
+  async runProvider(
+    name: string,
+    options: RunOptions = {},
+  ): Promise<CollectionResult> {
+    const entry = this.getEntry(name);
+
+    if (entry.isRunning) {
+      throw new Error(`Collection already in progress for "${name}"`);
+    }
+
+    entry.isRunning = true;
+    entry.lastRun = new Date();
+    entry.totalRuns++;
+    const startTime = Date.now();
+
+    try {
+      const fetched = options.fetch
+        ? await options.fetch()
+        : await entry.provider.fetchVessels();
+
+      const result = await this.ingestPipeline.ingest(fetched.vessels, {
+        source: entry.provider.source,
+        broadcast: options.broadcast,
+        sourceTimezone: entry.provider.sourceTimezone,
+      });
+
+      result.duration = Date.now() - startTime;
+      result.errors = [...(fetched.errors || []), ...(result.errors || [])];
+      if (fetched.coverage) {
+        result.coverage = fetched.coverage;
+      }
+
+      entry.successfulRuns++;
+      entry.lastSuccess = new Date();
+      entry.lastResult = result;
+      entry.lastError = undefined;
+      this.trackDuration(entry, result.duration);
+
+      this.logger.log(
+        `✅ ${name}: ${result.collected} collected, ${result.stored} stored, ${result.archived ?? 0} archived, ${result.skipped ?? 0} skipped (${result.duration}ms)`,
+      );
+
+      return result;
+    } catch (error) {
+      entry.lastError = error.message;
+      this.trackDuration(entry, Date.now() - startTime);
+      throw error;
+    } finally {
+      entry.isRunning = false;
+    }
+  }
+
+  /**
+   * ⏯️ ENABLE / DISABLE
+   */
+  setEnabled(name: string, enabled: boolean): DataSourceStatus {
+    const entry = this.getEntry(name);
+
+    if (entry.enabled !== enabled) {
+      entry.enabled = enabled;
+      if (enabled) {
+        this.schedule(entry);
+      } else {
+        this.unschedule(entry);
+      }
+      this.logger.log(
+        `⏯️ Data source "${name}" ${enabled ? 'enabled' : 'disabled'}`,
+      );
+    }
+
+    return this.toStatus(entry);
+  }
+
+  /**
+   * ⏰ UPDATE INTERVAL - takes effect immediately
+   */
+  updateInterval(name: string, seconds: number): DataSourceStatus {
+    if (!Number.isFinite(seconds) || seconds < MIN_INTERVAL_SECONDS) {
+      throw new BadRequestException(
+        `Minimum interval is ${MIN_INTERVAL_SECONDS} seconds`,
+      );
+    }
+
+    const entry = this.getEntry(name);
+    entry.intervalSeconds = Math.round(seconds);
+
+    if (entry.enabled) {
+      this.unschedule(entry);
+      this.schedule(entry);
+    }
+
+    this.logger.log(
+      `⏰ Data source "${name}" interval set to ${entry.intervalSeconds}s`,
+    );
+    return this.toStatus(entry);
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  getProvider<T extends VesselDataProvider = VesselDataProvider>(
+    name: string,
+  ): T {
+    return this.getEntry(name).provider as T;
+  }
+
+  getStatus(name: string): DataSourceStatus {
+    return this.toStatus(this.getEntry(name));
+  }
+
+  getStatuses(): DataSourceStatus[] {
+    return Array.from(this.providers.values()).map((entry) =>
+      this.toStatus(entry),
+    );
+  }
+
+  /**
+   * 🔄 RESET RUNTIME STATISTICS
+   */
+  resetStats(name: string): void {
+    const entry = this.getEntry(name);
+    entry.totalRuns = 0;
+    entry.successfulRuns = 0;
+    entry.durations = [];
+    entry.lastError = undefined;
+  }
+
+  private getEntry(name: string): ProviderEntry {
+    const entry = this.providers.get(name);
+    if (!entry) {
+      throw new NotFoundException(`Data source "${name}" is not registered`);
+    }
+    return entry;
+  }
+
+  private intervalName(entry: ProviderEntry): string {
+    return `data-source:${entry.provider.name}`;
+  }
+
+  private schedule(entry: ProviderEntry): void {
+    const interval = setInterval(() => {
+      void this.handleScheduledRun(entry);
+    }, entry.intervalSeconds * 1000);
+
+    entry.scheduledAt = Date.now();
+    this.schedulerRegistry.addInterval(this.intervalName(entry), interval);
+  }
+
+  private unschedule(entry: ProviderEntry): void {
+    const name = this.intervalName(entry);
+    if (this.schedulerRegistry.doesExist('interval', name)) {
+      this.schedulerRegistry.deleteInterval(name);
+    }
+  }
+
+  private async handleScheduledRun(entry: ProviderEntry): Promise<void> {
+    if (entry.isRunning) {
+      this.logger.warn(
+        `Collection for "${entry.provider.name}" already in progress, skipping...`,
+      );
+      return;
+    }
+
+    try {
+      await this.runProvider(entry.provider.name);
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        this.logger.warn(`⏸️ ${entry.provider.name}: ${error.message}`);
+        return;
+      }
+      this.logger.error(
+        `Scheduled collection for "${entry.provider.name}" failed: ${error.message}`,
+      );
+    }
+  }
+
+  private trackDuration(entry: ProviderEntry, duration: number): void {
+    entry.durations.push(duration);
+    if (entry.durations.length > 100) {
+      entry.durations = entry.durations.slice(-100); // Keep last 100
+    }
+  }
+
+  private toStatus(entry: ProviderEntry): DataSourceStatus {
+    const durations = entry.durations;
+    const averageDuration =
+      durations.length > 0
+        ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length)
+        : 0;
+
+    // ✅ Interval ticks are anchored to when the interval was (re)scheduled
+    let nextRun: Date | null = null;
+    if (entry.enabled && entry.scheduledAt) {
+      const intervalMs = entry.intervalSeconds * 1000;
+      const ticks =
+        Math.floor((Date.now() - entry.scheduledAt) / intervalMs) + 1;
+      nextRun = new Date(entry.scheduledAt + ticks * intervalMs);
+    }
+
+    return {
+      name: entry.provider.name,
+      source: entry.provider.source,
+      sourceTimezone: entry.provider.sourceTimezone || 'UTC',
+      enabled: entry.enabled,
+      intervalSeconds: entry.intervalSeconds,
+      isRunning: entry.isRunning,
+      lastRun: entry.lastRun,
+      lastSuccess: entry.lastSuccess,
+      nextRun,
+      totalRuns: entry.totalRuns,
+      successfulRuns: entry.successfulRuns,
+      averageDuration,
+      lastDuration: durations.length > 0 ? durations[durations.length - 1] : 0,
+      lastResult: entry.lastResult,
+      lastError: entry.lastError,
+    };
+  }
+}
@@ -0,0 +1,139 @@
+// src/data-sources/data-sources.controller.ts
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { DataSourceRegistryService } from './data-source-registry.service';
+import { UpdateDataSourceDto } from './dto/update-data-source.dto';
+
+@ApiTags('Data Sources')
+@Controller('data-sources')
+export class DataSourcesController {
+  constructor(private readonly registry: DataSourceRegistryService) {}
+
+  /**
+   * 📊 ALL DATA SOURCES
+   * GET /api/data-sources
+   */
+  @Get()
+  @ApiOperation({
+    summary:
+      'Registered vessel data providers with schedule and run statistics',
+  })
+  getDataSources() {
+    const sources = this.registry.getStatuses();
+    return {
+      success: true,
+      count: sources.length,
+      enabled: sources.filter((source) => source.enabled).length,
+      data: sources,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🔍 SINGLE DATA SOURCE
+   * GET /api/data-sources/:name
+   */
+  @Get(':name')
+  @ApiOperation({ summary: 'Schedule and run statistics of one data provider' })
+  getDataSource(@Param('name') name: string) {
+    return {
+      success: true,
+      data: this.registry.getStatus(name),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🚀 RUN NOW
+   * POST /api/data-sources/:name/run
+   */
+  @Post(':name/run')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Run a data provider immediately, outside its schedule',
+  })
+  async runDataSource(@Param('name') name: string) {
+    try {
+      const result = await this.registry.runProvider(name);
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * ⚙️ UPDATE ENABLED FLAG / INTERVAL
+   * PATCH /api/data-sources/:name
+   */
+  @Patch(':name')
+  @ApiOperation({
+    summary: 'Enable/disable a data provider or change its interval',
+  })
+  updateDataSource(
+    @Param('name') name: string,
+    @Body() dto: UpdateDataSourceDto,
+  ) {
+    if (dto.enabled === undefined && dto.intervalSeconds === undefined) {
+      throw new BadRequestException(
+        'Provide "enabled" and/or "intervalSeconds"',
+      );
+    }
+
+    if (dto.intervalSeconds !== undefined) {
+      this.registry.updateInterval(name, dto.intervalSeconds);
+    }
+    if (dto.enabled !== undefined) {
+      this.registry.setEnabled(name, dto.enabled);
+    }
+
+    return {
+      success: true,
+      data: this.registry.getStatus(name),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * ⏯️ ENABLE / DISABLE shortcuts
+   * POST /api/data-sources/:name/enable | /disable
+   */
+  @Post(':name/enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Enable the schedule of a data provider' })
+  enable(@Param('name') name: string) {
+    return {
+      success: true,
+      data: this.registry.setEnabled(name, true),
+      timestamp: new Date(),
+    };
+  }
+
+  @Post(':name/disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disable the schedule of a data provider' })
+  disable(@Param('name') name: string) {
+    return {
+      success: true,
+      data: this.registry.setEnabled(name, false),
+      timestamp: new Date(),
+    };
+  }
+}
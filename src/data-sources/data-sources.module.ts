@@ -0,0 +1,15 @@
+// src/data-sources/data-sources.module.ts
+import { Module } from '@nestjs/common';
+import { AisDataModule } from '../ais-data/ais-data.module';
+import { WebSocketModule } from '../websocket/websocket.module';
+import { DataSourceRegistryService } from './data-source-registry.service';
+import { VesselIngestPipelineService } from './vessel-ingest-pipeline.service';
+import { DataSourcesController } from './data-sources.controller';
+
+@Module({
+  imports: [AisDataModule, WebSocketModule],
+  controllers: [DataSourcesController],
+  providers: [DataSourceRegistryService, VesselIngestPipelineService],
+  exports: [DataSourceRegistryService, VesselIngestPipelineService],
+})
+export class DataSourcesModule {}
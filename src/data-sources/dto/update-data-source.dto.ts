@@ -0,0 +1,15 @@
+// src/data-sources/dto/update-data-source.dto.ts
+import { IsBoolean, IsInt, IsOptional, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class UpdateDataSourceDto {
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(10)
+  intervalSeconds?: number;
+}
@@ -0,0 +1,102 @@
+// src/data-sources/vessel-data-provider.interface.ts
+
+/**
+ * 🚢 Vessel report as produced by any provider, before normalization
+ */
+export interface ProcessedVessel {
+  mmsi: number;
+  latitude: number;
+  longitude: number;
+  course: number;
+  speed: number;
+  heading?: number;
+  name?: string;
+  callSign?: string;
+  vesselType: number;
+  navStatus: number;
+  destination?: string;
+  eta?: string;
+  timestamp: string; // ISO with offset, or wall time in the provider's sourceTimezone
+  receivedAt?: string; // when we received it; defaults to ingest time
+  length?: number;
+  width?: number;
+  source?: string;
+  imo?: string;
+  flag?: string;
+  vesselClass?: string;
+  dimension?: {
+    a?: number;
+    b?: number;
+    c?: number;
+    d?: number;
+    width?: number;
+    length?: number;
+  };
+}
+
+/**
+ * 📏 How much of what the upstream reports was actually fetched in one run
+ */
+export interface CollectionCoverage {
+  reportedTotal: number; // total the upstream says it has
+  fetched: number; // raw records received
+  valid: number; // records that survived parsing/validation
+  pagesExpected: number;
+  pagesFetched: number;
+  missingPages: number[]; // pages that still failed after retries
+  shortPages: number[]; // non-final pages that returned fewer rows than the page size
+  percentage: number; // fetched / reportedTotal, 0-100
+  complete: boolean;
+}
+
+export interface ProviderFetchResult {
+  vessels: ProcessedVessel[];
+  errors?: string[];
+  coverage?: CollectionCoverage;
+}
+
+/**
+ * 🔌 VESSEL DATA PROVIDER
+ * Pull-based source of vessel positions, registered with the
+ * DataSourceRegistryService and run on its own interval.
+ */
+export interface VesselDataProvider {
+  readonly name: string; // unique id, e.g. 'telkomsat'
+  readonly source: string; // default `source` label for stored vessels
+  readonly defaultIntervalSeconds: number;
+  readonly enabledByDefault?: boolean;
+  readonly sourceTimezone?: string; // IANA zone of offset-less timestamps, default 'UTC'
+
+  fetchVessels(): Promise<ProviderFetchResult>;
+  healthCheck?(): Promise<boolean>;
+}
+
+export interface CollectionResult {
+  collected: number;
+  stored: number;
+  duration: number;
+  errors?: string[];
+  broadcasted?: boolean;
+  unique?: number;
+  archived?: number;
+  skipped?: number; // duplicate or unchanged reports not written
+  coverage?: CollectionCoverage;
+}
+
+export interface DataSourceStatus {
+  name: string;
+  source: string;
+  sourceTimezone: string;
+  enabled: boolean;
+  intervalSeconds: number;
+  isRunning: boolean;
+  lastRun: Date | null;
+  lastSuccess: Date | null;
+  nextRun: Date | null;
+  totalRuns: number;
+  successfulRuns: number;
+  averageDuration: number;
+  lastDuration: number;
+  lastResult?: CollectionResult;
+  lastError?: string;
+}
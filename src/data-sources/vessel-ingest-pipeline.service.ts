@@ -0,0 +1,90 @@
+// src/data-sources/vessel-ingest-pipeline.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { AisDataService } from '../ais-data/ais-data.service';
+import { VesselTrackingGateway } from '../websocket/vessel-tracking.gateway';
+import {
+  CollectionResult,
+  ProcessedVessel,
+} from './vessel-data-provider.interface';
+import { normalizeVessels } from './vessel-normalizer';
+
+export interface IngestOptions {
+  source: string; // default source label when a vessel has none
+  broadcast?: boolean; // default true
+  sourceTimezone?: string; // zone for offset-less timestamps, default 'UTC'
+}
+
+/**
+ * 🛤️ INGEST PIPELINE - normalize -> store -> broadcast
+ * Shared by every provider so the mapping lives in one place.
+ */
+@Injectable()
+export class VesselIngestPipelineService {
+  private readonly logger = new Logger(VesselIngestPipelineService.name);
+
+  constructor(
+    private readonly aisDataService: AisDataService,
+    private readonly vesselTrackingGateway?: VesselTrackingGateway, // Optional injection
+  ) {}
+
+  async ingest(
+    vessels: ProcessedVessel[],
+    options: IngestOptions,
+  ): Promise<CollectionResult> {
+    const startTime = Date.now();
+    const broadcast = options.broadcast !== false;
+
+    if (!vessels || vessels.length === 0) {
+      return {
+        collected: 0,
+        stored: 0,
+        duration: Date.now() - startTime,
+        errors: [],
+        broadcasted: false,
+      };
+    }
+
+    const vesselDTOs = normalizeVessels(
+      vessels,
+      options.source,
+      options.sourceTimezone,
+    );
+    const result =
+      await this.aisDataService.updateCurrentVesselData(vesselDTOs);
+
+    let broadcasted = false;
+    if (broadcast && this.vesselTrackingGateway && vesselDTOs.length > 0) {
+      broadcasted = await this.broadcastLatestData(vesselDTOs.length);
+    }
+
+    return {
+      collected: vessels.length,
+      unique: vesselDTOs.length,
+      stored: result.newCurrentCount,
+      archived: result.archivedCount,
+      skipped: (result.duplicateCount ?? 0) + (result.unchangedCount ?? 0),
+      duration: Date.now() - startTime,
+      errors: result.errors || [],
+      broadcasted,
+    };
+  }
+
+  /**
+   * 📡 BROADCAST LATEST DATA via WebSocket
+   */
+  private async broadcastLatestData(count: number): Promise<boolean> {
+    if (!this.vesselTrackingGateway) return false;
+
+    try {
+      const latestVessels = await this.aisDataService.getCurrentVessels(count);
+      this.vesselTrackingGateway.broadcastVesselUpdate(latestVessels);
+      this.logger.log(
+        `📡 Broadcasted ${latestVessels.length} vessels to connected clients`,
+      );
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to broadcast data: ${error.message}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { normalizeVessel, normalizeVessels } from './vessel-normalizer';
+import { ProcessedVessel } from './vessel-data-provider.interface';
+
+function vessel(overrides: Partial<ProcessedVessel> = {}): ProcessedVessel {
+  return {
+    mmsi: 525000100,
+    latitude: -6.1,
+    longitude: 106.88,
+    course: 90,
+    speed: 10,
+    vesselType: 70,
+    navStatus: 0,
+    timestamp: '2024-05-01T08:00:00',
+    ...overrides,
+  };
+}
+
+describe('normalizeVessel', () => {
+  const receivedAt = new Date('2024-05-01T01:00:30Z');
+
+  it('should convert wall times and ETAs from the source zone to UTC', () => {
+    const dto = normalizeVessel(
+      vessel({ eta: '2024-05-02 19:00' }),
+      'telkomsat',
+      'Asia/Jakarta',
+      receivedAt,
+    );
+
+    expect(dto.timestamp).toBe('2024-05-01T01:00:00.000Z');
+    expect(dto.eta).toBe('2024-05-02 19:00');
+    expect(dto.etaAt).toBe('2024-05-02T12:00:00.000Z');
+    expect(dto.receivedAt).toBe(receivedAt.toISOString());
+    expect(dto.source).toBe('telkomsat');
+  });
+
+  it('should pass unparsable timestamps through for the store to reject', () => {
+    const dto = normalizeVessel(
+      vessel({ timestamp: 'not a time' }),
+      'nmea',
+      'UTC',
+      receivedAt,
+    );
+
+    expect(dto.timestamp).toBe('not a time');
+  });
+
+  it('should fill defaults and keep the provider source label', () => {
+    const dto = normalizeVessel(
+      vessel({
+        course: undefined as unknown as number,
+        speed: undefined as unknown as number,
+        navStatus: undefined as unknown as number,
+        source: 'station-a',
+      }),
+      'nmea',
+    );
+
+    expect(dto).toMatchObject({
+      course: 0,
+      speed: 0,
+      navStatus: 15,
+      source: 'station-a',
+    });
+  });
+
+  it('should derive length and width from the antenna offsets', () => {
+    const dto = normalizeVessel(
+      vessel({ dimension: { a: 150, b: 40, c: 12, d: 18 } }),
+      'nmea',
+    );
+
+    expect(dto.length).toBe(190);
+    expect(dto.width).toBe(30);
+    expect(dto.dimension).toEqual({
+      a: 150,
+      b: 40,
+      c: 12,
+      d: 18,
+      width: undefined,
+      length: undefined,
+    });
+  });
+});
+
+describe('normalizeVessels', () => {
+  it('should keep the newest report per MMSI', () => {
+    const normalized = normalizeVessels(
+      [
+        vessel({ timestamp: '2024-05-01T08:00:00', speed: 10 }),
+        vessel({ timestamp: '2024-05-01T08:05:00', speed: 12 }),
+        vessel({ timestamp: '2024-05-01T07:55:00', speed: 8 }),
+        vessel({ mmsi: 525000137 }),
+      ],
+      'telkomsat',
+      'Asia/Jakarta',
+    );
+
+    expect(normalized).toHaveLength(2);
+    expect(normalized[0]).toMatchObject({
+      mmsi: 525000100,
+      speed: 12,
+      timestamp: '2024-05-01T01:05:00.000Z',
+    });
+  });
+
+  it('should drop reports without a valid MMSI', () => {
+    const normalized = normalizeVessels(
+      [
+        vessel({ mmsi: 0 }),
+        vessel({ mmsi: -1 }),
+        null as unknown as ProcessedVessel,
+        vessel(),
+      ],
+      'telkomsat',
+    );
+
+    expect(normalized.map((dto) => dto.mmsi)).toEqual([525000100]);
+  });
+
+  it('should stamp every report of a batch with the same receivedAt', () => {
+    const normalized = normalizeVessels(
+      [vessel(), vessel({ mmsi: 525000137 })],
+      'telkomsat',
+    );
+
+    expect(normalized[0].receivedAt).toBe(normalized[1].receivedAt);
+  });
+});
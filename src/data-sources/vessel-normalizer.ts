@@ -0,0 +1,117 @@
+// src/data-sources/vessel-normalizer.ts
+import { CreateVesselDataDto } from '../ais-data/dto/create-vessel-data.dto';
+import { ProcessedVessel } from './vessel-data-provider.interface';
+import { parseTimestamp } from '../common/time/timezone.util';
+import { parseEta } from '../common/time/eta.util';
+
+// ✅ Fall back to the antenna offsets when length/width are not reported
+function dimensionLength(
+  dimension?: ProcessedVessel['dimension'],
+): number | undefined {
+  if (!dimension) return undefined;
+  if (dimension.length) return dimension.length;
+  return dimension.a || dimension.b
+    ? (dimension.a || 0) + (dimension.b || 0)
+    : undefined;
+}
+
+function dimensionWidth(
+  dimension?: ProcessedVessel['dimension'],
+): number | undefined {
+  if (!dimension) return undefined;
+  if (dimension.width) return dimension.width;
+  return dimension.c || dimension.d
+    ? (dimension.c || 0) + (dimension.d || 0)
+    : undefined;
+}
+
+/**
+ * 🔄 SHARED NORMALIZATION - ProcessedVessel -> storage DTO
+ */
+export function normalizeVessel(
+  vessel: ProcessedVessel,
+  defaultSource: string,
+  sourceTimezone: string = 'UTC',
+  receivedAt: Date = new Date(),
+): CreateVesselDataDto {
+  // ✅ Stored timestamps are always UTC; unparsable values are passed through
+  // so the store rejects them per vessel instead of guessing a time
+  const timestamp = parseTimestamp(vessel.timestamp, sourceTimezone);
+
+  return {
+    mmsi: vessel.mmsi,
+    latitude: vessel.latitude,
+    longitude: vessel.longitude,
+    course: vessel.course || 0,
+    speed: vessel.speed || 0,
+    heading: vessel.heading,
+    name: vessel.name,
+    callSign: vessel.callSign,
+    imo: vessel.imo,
+    vesselType: vessel.vesselType || 0,
+    navStatus: vessel.navStatus ?? 15,
+    flag: vessel.flag,
+    vesselClass: vessel.vesselClass,
+    destination: vessel.destination,
+    eta: vessel.eta,
+    // ✅ Raw eta is kept; the parsed one honours the provider's zone
+    etaAt: parseEta(
+      vessel.eta,
+      timestamp ?? receivedAt,
+      sourceTimezone,
+    )?.toISOString(),
+    timestamp: timestamp ? timestamp.toISOString() : vessel.timestamp,
+    receivedAt:
+      parseTimestamp(vessel.receivedAt)?.toISOString() ??
+      receivedAt.toISOString(),
+
+    // ✅ Legacy dimension fields for backward compatibility
+    length: vessel.length ?? dimensionLength(vessel.dimension),
+    width: vessel.width ?? dimensionWidth(vessel.dimension),
+
+    dimension: vessel.dimension
+      ? {
+          a: vessel.dimension.a,
+          b: vessel.dimension.b,
+          c: vessel.dimension.c,
+          d: vessel.dimension.d,
+          width: vessel.dimension.width,
+          length: vessel.dimension.length,
+        }
+      : undefined,
+
+    source: vessel.source || defaultSource,
+  };
+}
+
+/**
+ * 🧹 NORMALIZE + DEDUPLICATE - keeps the newest report per MMSI
+ */
+export function normalizeVessels(
+  vessels: ProcessedVessel[],
+  defaultSource: string,
+  sourceTimezone: string = 'UTC',
+): CreateVesselDataDto[] {
+  const receivedAt = new Date();
+  const vesselMap = new Map<number, CreateVesselDataDto>();
+
+  vessels.forEach((vessel) => {
+    if (!vessel || !vessel.mmsi || vessel.mmsi <= 0) return;
+
+    const normalized = normalizeVessel(
+      vessel,
+      defaultSource,
+      sourceTimezone,
+      receivedAt,
+    );
+    const existing = vesselMap.get(vessel.mmsi);
+    if (
+      !existing ||
+      Date.parse(normalized.timestamp) > Date.parse(existing.timestamp)
+    ) {
+      vesselMap.set(vessel.mmsi, normalized);
+    }
+  });
+
+  return Array.from(vesselMap.values());
+}
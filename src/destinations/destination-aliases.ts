@@ -0,0 +1,38 @@
+// src/destinations/destination-aliases.ts
+// Built-in spellings crews type for common regional ports, by UN/LOCODE.
+// Merged with the `aliases` of ports in the ports collection, which is the
+// place to add aliases at runtime (POST /api/destinations/aliases).
+
+export const DEFAULT_DESTINATION_ALIASES: Record<string, string[]> = {
+  IDJKT: ['JAKARTA', 'JKT', 'DKI JAKARTA'],
+  IDTPP: ['TANJUNG PRIOK', 'TG PRIOK', 'TJ PRIOK', 'TJG PRIOK', 'PRIOK'],
+  IDSUB: ['SURABAYA', 'SBY', 'TANJUNG PERAK', 'TG PERAK', 'TJ PERAK'],
+  IDSRG: ['SEMARANG', 'SMG', 'TANJUNG EMAS', 'TG EMAS'],
+  IDBLW: ['BELAWAN', 'BLW'],
+  IDBTH: ['BATAM', 'BTM'],
+  IDMAK: ['MAKASSAR', 'MAKASAR', 'UJUNG PANDANG', 'UPG'],
+  IDBPN: ['BALIKPAPAN', 'BPN'],
+  IDPLM: ['PALEMBANG', 'PLM'],
+  IDPNK: ['PONTIANAK', 'PNK'],
+  IDBDJ: ['BANJARMASIN', 'BDJ'],
+  IDCXP: ['CILACAP', 'CLP'],
+  IDCIW: ['CIWANDAN'],
+  IDMRK: ['MERAK'],
+  IDBAK: ['BAKAUHENI'],
+  IDPNJ: ['PANJANG', 'LAMPUNG'],
+  IDBIT: ['BITUNG'],
+  IDAMQ: ['AMBON'],
+  IDKOE: ['KUPANG'],
+  IDBOA: ['BENOA', 'BALI'],
+  SGSIN: ['SINGAPORE', 'SINGAPURA', 'SGP', 'SPORE', 'SIN'],
+  MYPKG: ['PORT KLANG', 'PORT KELANG', 'KLANG', 'PKL'],
+  MYTPP: ['TANJUNG PELEPAS', 'TG PELEPAS', 'PTP'],
+  MYPEN: ['PENANG', 'PULAU PINANG'],
+  THBKK: ['BANGKOK', 'BKK'],
+  THLCH: ['LAEM CHABANG', 'LCB'],
+  VNSGN: ['HO CHI MINH', 'HOCHIMINH', 'SAIGON', 'HCM'],
+  PHMNL: ['MANILA', 'MNL'],
+  CNSHA: ['SHANGHAI'],
+  HKHKG: ['HONG KONG', 'HONGKONG', 'HKG'],
+  AUDRW: ['DARWIN'],
+};
@@ -0,0 +1,81 @@
+import {
+  buildDestinationDictionary,
+  destinationKey,
+  matchDestination,
+  stringSimilarity,
+} from './destination-normalizer';
+import { DEFAULT_DESTINATION_ALIASES } from './destination-aliases';
+
+describe('destination-normalizer', () => {
+  const dictionary = buildDestinationDictionary(
+    [
+      { locode: 'IDTPP', name: 'Tanjung Priok', aliases: ['TG PRIOK'] },
+      { locode: 'SGSIN', name: 'Singapore' },
+    ],
+    DEFAULT_DESTINATION_ALIASES,
+  );
+
+  it('should reduce destinations to letters and digits', () => {
+    expect(destinationKey('Tg. Priok ')).toBe('TGPRIOK');
+  });
+
+  it('should accept LOCODEs, trusting known ports most', () => {
+    expect(matchDestination('sgsin', dictionary)).toMatchObject({
+      locode: 'SGSIN',
+      confidence: 1,
+      method: 'locode',
+    });
+    expect(matchDestination('ID SUB', dictionary)).toMatchObject({
+      locode: 'IDSUB',
+      confidence: 0.9,
+      method: 'locode',
+    });
+  });
+
+  it('should match port names and aliases', () => {
+    expect(matchDestination('TG. PRIOK', dictionary)).toMatchObject({
+      locode: 'IDTPP',
+      confidence: 0.95,
+      method: 'alias',
+    });
+    expect(matchDestination('JKT', dictionary)?.locode).toBe('IDJKT');
+    expect(matchDestination('PORT OF SINGAPORE', dictionary)).toMatchObject({
+      locode: 'SGSIN',
+      confidence: 0.9,
+    });
+    expect(matchDestination('SINGAPORE OPL', dictionary)?.locode).toBe('SGSIN');
+  });
+
+  it('should take the last leg of a route', () => {
+    expect(matchDestination('ID TPP>SGP', dictionary)).toMatchObject({
+      locode: 'SGSIN',
+      matched: 'SGP',
+    });
+    expect(matchDestination('JAKARTA TO SURABAYA', dictionary)?.locode).toBe(
+      'IDSUB',
+    );
+  });
+
+  it('should fall back to the closest name with lower confidence', () => {
+    const match = matchDestination('SINGAPOR', dictionary);
+    expect(match).toMatchObject({ locode: 'SGSIN', method: 'fuzzy' });
+    expect(match!.confidence).toBeGreaterThan(0.75);
+    expect(match!.confidence).toBeLessThan(0.9);
+
+    expect(matchDestination('FOR ORDERS', dictionary)!.confidence).toBeLessThan(
+      0.6,
+    );
+  });
+
+  it('should not guess from empty or very short text', () => {
+    expect(matchDestination('', dictionary)).toBeNull();
+    expect(matchDestination('  >  ', dictionary)).toBeNull();
+    expect(matchDestination('XQ', dictionary)).toBeNull();
+  });
+
+  it('should score edit distance against the longer string', () => {
+    expect(stringSimilarity('ABCD', 'ABCD')).toBe(1);
+    expect(stringSimilarity('ABCD', 'ABCE')).toBe(0.75);
+    expect(stringSimilarity('', 'AB')).toBe(0);
+  });
+});
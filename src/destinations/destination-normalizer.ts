@@ -0,0 +1,170 @@
+// src/destinations/destination-normalizer.ts
+
+export type DestinationMatchMethod = 'locode' | 'alias' | 'fuzzy';
+
+export interface DestinationMatch {
+  locode: string;
+  confidence: number; // 0..1
+  method: DestinationMatchMethod;
+  matched: string; // the part of the raw string that was matched
+}
+
+export interface DestinationDictionary {
+  entries: Map<string, string>; // destination key -> UN/LOCODE
+  locodes: Set<string>; // ports we know of
+}
+
+// ✅ Routes are typed as "FROM>TO", "FROM => TO" or "FROM TO TO"
+const ROUTE_SEPARATOR = /\s*(?:=>|->|>|\bTO\b)\s*/;
+const LOCODE_FORM = /^([A-Z]{2})([\s-]?)([A-Z2-9]{3})$/;
+// ✅ Words around the port name that say nothing about which port
+const NOISE_WORDS = new Set([
+  'PORT',
+  'OF',
+  'PT',
+  'PELABUHAN',
+  'HARBOUR',
+  'HARBOR',
+  'ANCHORAGE',
+  'ANCH',
+  'OPL',
+  'EOPL',
+  'WOPL',
+  'ROADS',
+]);
+const MIN_FUZZY_KEY_LENGTH = 4;
+
+/**
+ * "Tg. Priok" -> "TGPRIOK": letters and digits only, upper case
+ */
+export function destinationKey(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Lookup of port names, port aliases and extra aliases by destination key
+ */
+export function buildDestinationDictionary(
+  ports: Array<{ locode: string; name: string; aliases?: string[] }>,
+  aliases: Record<string, string[]> = {},
+): DestinationDictionary {
+  const entries = new Map<string, string>();
+  const add = (value: string, locode: string) => {
+    const key = destinationKey(value);
+    if (key && !entries.has(key)) entries.set(key, locode);
+  };
+
+  // ✅ Port data wins over the built-in list where both define a key
+  for (const port of ports) {
+    add(port.name, port.locode);
+    (port.aliases ?? []).forEach((alias) => add(alias, port.locode));
+  }
+  for (const [locode, values] of Object.entries(aliases)) {
+    values.forEach((alias) => add(alias, locode));
+  }
+
+  return {
+    entries,
+    locodes: new Set(ports.map((port) => port.locode)),
+  };
+}
+
+/**
+ * Best UN/LOCODE for a crew-entered destination, or null. For a route
+ * ("ID TPP>SGP") only the last leg is the destination.
+ * - a LOCODE ("SGSIN", "ID JKT"): 1 for a known port, 0.9 otherwise
+ *   (an unknown LOCODE must be written with the space or dash)
+ * - a port name or alias: 0.95, 0.9 once noise words are dropped
+ * - otherwise the closest name/alias by edit distance, scaled to 0.9
+ * Low-confidence fuzzy matches are returned too; callers pick a threshold.
+ */
+export function matchDestination(
+  raw: string | undefined | null,
+  dictionary: DestinationDictionary,
+): DestinationMatch | null {
+  if (!raw) return null;
+
+  const legs = raw
+    .toUpperCase()
+    .split(ROUTE_SEPARATOR)
+    .map((leg) => leg.replace(/[^A-Z0-9\s-]/g, ' ').trim())
+    .filter(Boolean);
+  const text = legs[legs.length - 1]?.replace(/\s+/g, ' ');
+  if (!text) return null;
+
+  const locode = LOCODE_FORM.exec(text);
+  if (locode) {
+    const code = `${locode[1]}${locode[3]}`;
+    if (dictionary.locodes.has(code)) {
+      return { locode: code, confidence: 1, method: 'locode', matched: text };
+    }
+    if (locode[2]) {
+      return { locode: code, confidence: 0.9, method: 'locode', matched: text };
+    }
+  }
+
+  const key = destinationKey(text);
+  const exact = dictionary.entries.get(key);
+  if (exact) {
+    return { locode: exact, confidence: 0.95, method: 'alias', matched: text };
+  }
+
+  const stripped = destinationKey(
+    text
+      .split(/[\s-]+/)
+      .filter((word) => !NOISE_WORDS.has(word))
+      .join(' '),
+  );
+  const withoutNoise = stripped && dictionary.entries.get(stripped);
+  if (withoutNoise) {
+    return {
+      locode: withoutNoise,
+      confidence: 0.9,
+      method: 'alias',
+      matched: text,
+    };
+  }
+
+  const target = stripped || key;
+  if (target.length < MIN_FUZZY_KEY_LENGTH) return null;
+
+  let best: { locode: string; similarity: number } | null = null;
+  for (const [entry, code] of dictionary.entries) {
+    if (entry.length < MIN_FUZZY_KEY_LENGTH) continue;
+    const similarity = stringSimilarity(target, entry);
+    if (!best || similarity > best.similarity) {
+      best = { locode: code, similarity };
+    }
+  }
+  if (!best || best.similarity <= 0) return null;
+
+  return {
+    locode: best.locode,
+    confidence: Math.round(best.similarity * 0.9 * 100) / 100,
+    method: 'fuzzy',
+    matched: text,
+  };
+}
+
+/**
+ * 1 - Levenshtein distance / longer length
+ */
+export function stringSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longer = Math.max(a.length, b.length);
+  if (longer === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longer;
+}
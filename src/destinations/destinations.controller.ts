@@ -0,0 +1,94 @@
+// src/destinations/destinations.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { DestinationsService } from './destinations.service';
+import {
+  AddDestinationAliasDto,
+  NormalizeDestinationDto,
+  QueryUnmatchedDestinationsDto,
+} from './dto/destination.dto';
+
+@ApiTags('Destinations')
+@Controller('destinations')
+export class DestinationsController {
+  constructor(private readonly destinationsService: DestinationsService) {}
+
+  /**
+   * 🎯 NORMALIZE ONE DESTINATION
+   * GET /api/destinations/normalize?destination=TG%20PRIOK
+   */
+  @Get('normalize')
+  @ApiOperation({ summary: 'Match a raw destination to a UN/LOCODE' })
+  @ApiQuery({ type: NormalizeDestinationDto })
+  async normalize(@Query() queryDto: NormalizeDestinationDto) {
+    const match = await this.destinationsService.match(queryDto.destination);
+    const accepted = await this.destinationsService.resolve(
+      queryDto.destination,
+    );
+    return {
+      success: true,
+      destination: queryDto.destination,
+      data: match,
+      accepted: accepted !== null,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🔍 UNMATCHED DESTINATIONS - for alias review
+   * GET /api/destinations/unmatched?minVessels=2&limit=50
+   */
+  @Get('unmatched')
+  @ApiOperation({
+    summary: 'Destination strings of current vessels with no UN/LOCODE match',
+  })
+  @ApiQuery({ type: QueryUnmatchedDestinationsDto })
+  async getUnmatched(@Query() queryDto: QueryUnmatchedDestinationsDto) {
+    const data = await this.destinationsService.getUnmatched(queryDto);
+    return {
+      success: true,
+      count: data.length,
+      data,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * ➕ ADD ALIAS
+   * POST /api/destinations/aliases { destination: "TG PRIOK", locode: "IDTPP" }
+   */
+  @Post('aliases')
+  @ApiOperation({ summary: 'Map a raw destination string to a port' })
+  async addAlias(@Body() dto: AddDestinationAliasDto) {
+    return {
+      success: true,
+      data: await this.destinationsService.addAlias(dto),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🔄 RENORMALIZE CURRENT VESSELS
+   * POST /api/destinations/renormalize
+   */
+  @Post('renormalize')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Re-match destinations of all current vessels',
+  })
+  async renormalize() {
+    return {
+      success: true,
+      data: await this.destinationsService.renormalizeCurrentVessels(),
+      timestamp: new Date(),
+    };
+  }
+}
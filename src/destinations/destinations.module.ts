@@ -0,0 +1,25 @@
+// src/destinations/destinations.module.ts
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DestinationsService } from './destinations.service';
+import { DestinationsController } from './destinations.controller';
+import {
+  CurrentVessel,
+  CurrentVesselSchema,
+} from '../ais-data/schemas/current-vessel.schema';
+import { AisDataModule } from '../ais-data/ais-data.module';
+import { PortsModule } from '../ports/ports.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CurrentVessel.name, schema: CurrentVesselSchema },
+    ]),
+    AisDataModule,
+    PortsModule,
+  ],
+  controllers: [DestinationsController],
+  providers: [DestinationsService],
+  exports: [DestinationsService],
+})
+export class DestinationsModule {}
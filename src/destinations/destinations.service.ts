@@ -0,0 +1,246 @@
+// src/destinations/destinations.service.ts
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import {
+  DestinationDictionary,
+  DestinationMatch,
+  buildDestinationDictionary,
+  matchDestination,
+} from './destination-normalizer';
+import { DEFAULT_DESTINATION_ALIASES } from './destination-aliases';
+import {
+  AddDestinationAliasDto,
+  QueryUnmatchedDestinationsDto,
+} from './dto/destination.dto';
+import {
+  CurrentVessel,
+  CurrentVesselDocument,
+} from '../ais-data/schemas/current-vessel.schema';
+import { AisDataService } from '../ais-data/ais-data.service';
+import {
+  PositionIngestEnricher,
+  TrackedPosition,
+} from '../ais-data/ingest-hooks';
+import { Port } from '../ports/schemas/port.schema';
+import { PortsService } from '../ports/ports.service';
+
+export interface UnmatchedDestination {
+  destination: string;
+  vessels: number;
+  lastSeen: Date;
+  mmsis: number[]; // up to 10
+  suggestion: DestinationMatch | null; // best guess below the threshold
+}
+
+export interface RenormalizeResult {
+  destinations: number;
+  vesselsUpdated: number;
+}
+
+// ✅ Crews keep the same destination for days; results are cached per string
+const MATCH_CACHE_SIZE = 10000;
+
+/**
+ * 🎯 DESTINATION NORMALIZATION
+ * Maps the crew-entered destination to a UN/LOCODE with a confidence,
+ * using port names, port aliases and the built-in alias list. Runs on
+ * ingest, so destinationLocode/destinationConfidence are stored next to
+ * destination in current_vessels and vessel_logs.
+ */
+@Injectable()
+export class DestinationsService
+  implements PositionIngestEnricher, OnModuleInit
+{
+  readonly name = 'destinations';
+  private readonly logger = new Logger(DestinationsService.name);
+  private readonly enabled: boolean;
+  private readonly minConfidence: number;
+  private dictionary: {
+    ports: Port[];
+    dictionary: DestinationDictionary;
+  } | null = null;
+  private readonly matchCache = new Map<string, DestinationMatch | null>();
+
+  constructor(
+    @InjectModel(CurrentVessel.name)
+    private readonly currentVesselModel: Model<CurrentVesselDocument>,
+    private readonly portsService: PortsService,
+    private readonly aisDataService: AisDataService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>(
+        'DESTINATION_NORMALIZATION_ENABLED',
+        'true',
+      ) !== 'false';
+    // ✅ Weaker matches are left unmatched and show up for review
+    this.minConfidence = Number(
+      this.configService.get<string>('DESTINATION_MIN_CONFIDENCE', '0.75'),
+    );
+  }
+
+  onModuleInit(): void {
+    if (this.enabled) {
+      this.aisDataService.registerIngestEnricher(this);
+    }
+  }
+
+  /**
+   * Set destinationLocode/destinationConfidence on positions that carry a
+   * destination; null clears an earlier match when the text changed
+   */
+  async enrich(positions: TrackedPosition[]): Promise<void> {
+    for (const position of positions) {
+      if (position.destination === undefined) continue;
+      const match = await this.resolve(
+        typeof position.destination === 'string' ? position.destination : null,
+      );
+      position.destinationLocode = match?.locode ?? null;
+      position.destinationConfidence = match?.confidence ?? null;
+    }
+  }
+
+  /**
+   * Best match regardless of confidence
+   */
+  async match(destination: string): Promise<DestinationMatch | null> {
+    const dictionary = await this.getDictionary();
+    const key = destination.trim().toUpperCase();
+    if (this.matchCache.has(key)) return this.matchCache.get(key) ?? null;
+
+    const match = matchDestination(key, dictionary);
+    if (this.matchCache.size >= MATCH_CACHE_SIZE) this.matchCache.clear();
+    this.matchCache.set(key, match);
+    return match;
+  }
+
+  /**
+   * Match that is confident enough to store, or null
+   */
+  async resolve(destination: string | null): Promise<DestinationMatch | null> {
+    if (!destination?.trim()) return null;
+    const match = await this.match(destination);
+    return match && match.confidence >= this.minConfidence ? match : null;
+  }
+
+  /**
+   * 🔍 REVIEW - destination strings of current vessels with no match,
+   * most common first, with the best guess to turn into an alias
+   */
+  async getUnmatched(
+    queryDto: QueryUnmatchedDestinationsDto,
+  ): Promise<UnmatchedDestination[]> {
+    const { minVessels = 1, limit = 100 } = queryDto;
+
+    const groups = await this.currentVesselModel.aggregate<
+      Omit<UnmatchedDestination, 'suggestion'>
+    >([
+      {
+        $match: {
+          destination: { $nin: [null, ''] },
+          destinationLocode: null,
+        },
+      },
+      {
+        $group: {
+          _id: '$destination',
+          vessels: { $sum: 1 },
+          lastSeen: { $max: '$timestamp' },
+          mmsis: { $push: '$mmsi' },
+        },
+      },
+      { $match: { vessels: { $gte: minVessels } } },
+      { $sort: { vessels: -1, lastSeen: -1 } },
+      { $limit: limit },
+      {
+        $project: {
+          _id: 0,
+          destination: '$_id',
+          vessels: 1,
+          lastSeen: 1,
+          mmsis: { $slice: ['$mmsis', 10] },
+        },
+      },
+    ]);
+
+    const unmatched: UnmatchedDestination[] = [];
+    for (const group of groups) {
+      unmatched.push({
+        ...group,
+        suggestion: await this.match(group.destination),
+      });
+    }
+    return unmatched;
+  }
+
+  /**
+   * ➕ ADD ALIAS - store the spelling on the port, then re-match current
+   * vessels that typed it
+   */
+  async addAlias(
+    dto: AddDestinationAliasDto,
+  ): Promise<{ locode: string; alias: string; vesselsUpdated: number }> {
+    const port = await this.portsService.addAlias(dto.locode, dto.destination);
+    this.dictionary = null;
+
+    const { vesselsUpdated } = await this.renormalizeCurrentVessels([
+      dto.destination,
+    ]);
+    return { locode: port.locode, alias: dto.destination, vesselsUpdated };
+  }
+
+  /**
+   * 🔄 RENORMALIZE - re-match current vessels after aliases or ports
+   * changed (history keeps the match made at ingest)
+   */
+  async renormalizeCurrentVessels(
+    destinations?: string[],
+  ): Promise<RenormalizeResult> {
+    this.dictionary = null;
+    const values: string[] =
+      destinations ??
+      (await this.currentVesselModel.distinct('destination', {
+        destination: { $nin: [null, ''] },
+      }));
+
+    let vesselsUpdated = 0;
+    for (const destination of values) {
+      const match = await this.resolve(destination);
+      const result = await this.currentVesselModel.updateMany(
+        { destination },
+        {
+          $set: {
+            destinationLocode: match?.locode ?? null,
+            destinationConfidence: match?.confidence ?? null,
+          },
+        },
+      );
+      vesselsUpdated += result.modifiedCount;
+    }
+
+    this.logger.log(
+      `🎯 Renormalized ${values.length} destinations, ${vesselsUpdated} vessels updated`,
+    );
+    return { destinations: values.length, vesselsUpdated };
+  }
+
+  /**
+   * Rebuilt whenever PortsService hands out a newly loaded port list
+   */
+  private async getDictionary(): Promise<DestinationDictionary> {
+    const ports = await this.portsService.getPorts();
+    if (this.dictionary?.ports !== ports) {
+      this.dictionary = {
+        ports,
+        dictionary: buildDestinationDictionary(
+          ports,
+          DEFAULT_DESTINATION_ALIASES,
+        ),
+      };
+      this.matchCache.clear();
+    }
+    return this.dictionary.dictionary;
+  }
+}
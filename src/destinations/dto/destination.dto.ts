@@ -0,0 +1,44 @@
+// src/destinations/dto/destination.dto.ts
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class NormalizeDestinationDto {
+  @IsString()
+  @IsNotEmpty()
+  destination: string;
+}
+
+export class QueryUnmatchedDestinationsDto {
+  // Only strings typed by at least this many current vessels
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  minVessels?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
+
+export class AddDestinationAliasDto {
+  // Raw destination string as crews type it, e.g. "TG PRIOK"
+  @IsString()
+  @IsNotEmpty()
+  destination: string;
+
+  // Port it stands for; must exist in the ports collection
+  @IsString()
+  @IsNotEmpty()
+  locode: string;
+}
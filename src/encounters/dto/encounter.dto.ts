@@ -0,0 +1,71 @@
+// src/encounters/dto/encounter.dto.ts
+import {
+  IsDateString,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class QueryEncountersDto {
+  // Either side of the pair
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  mmsi?: number;
+
+  // Encounters whose closest approach lies inside a saved POI area
+  @IsOptional()
+  @IsMongoId()
+  areaId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minDurationMinutes?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxDistanceMeters?: number;
+
+  // ISO-8601, offset honoured; none = UTC. Encounters overlapping the window.
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
+
+export class AnalyzeEncountersDto {
+  // Only pairs involving this vessel
+  @IsOptional()
+  @IsNumber()
+  mmsi?: number;
+
+  // ISO-8601, offset honoured; none = UTC
+  @IsDateString()
+  startDate: string;
+
+  @IsDateString()
+  endDate: string;
+}
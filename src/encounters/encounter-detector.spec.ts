@@ -0,0 +1,112 @@
+import {
+  EncounterOptions,
+  TrackReport,
+  detectEncounters,
+  findCandidatePairs,
+  positionAt,
+} from './encounter-detector';
+
+describe('encounter-detector', () => {
+  const options: EncounterOptions = {
+    maxDistanceMeters: 500,
+    maxSpeedKnots: 3,
+    minDurationSeconds: 2 * 3600,
+    maxReportGapSeconds: 1800,
+    sampleSeconds: 300,
+  };
+
+  const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 0, minute));
+
+  // ✅ Reports every `every` minutes over `minutes`
+  const track = (
+    minutes: number,
+    every: number,
+    point: (minute: number) => Partial<TrackReport>,
+  ): TrackReport[] =>
+    Array.from({ length: Math.floor(minutes / every) + 1 }, (_, i) => ({
+      latitude: -6,
+      longitude: 107,
+      speed: 1,
+      timestamp: at(i * every),
+      ...point(i * every),
+    }));
+
+  describe('positionAt', () => {
+    const reports = track(20, 10, (minute) => ({
+      latitude: -6 + minute * 0.001,
+      speed: minute / 10,
+    }));
+
+    it('should interpolate between reports', () => {
+      const position = positionAt(reports, at(5).getTime(), 1800);
+      expect(position?.latitude).toBeCloseTo(-5.995, 6);
+      expect(position?.speed).toBeCloseTo(0.5, 6);
+    });
+
+    it('should return null outside the track or across a report gap', () => {
+      expect(positionAt(reports, at(25).getTime(), 1800)).toBeNull();
+      expect(positionAt(reports, at(5).getTime(), 300)).toBeNull();
+      expect(positionAt(reports, at(10).getTime(), 300)?.latitude).toBe(-5.99);
+    });
+
+    it('should interpolate across the antimeridian', () => {
+      const crossing: TrackReport[] = [
+        { latitude: 0, longitude: 179.9, timestamp: at(0) },
+        { latitude: 0, longitude: -179.9, timestamp: at(10) },
+      ];
+      expect(
+        Math.abs(positionAt(crossing, at(5).getTime(), 1800)!.longitude),
+      ).toBeCloseTo(180, 6);
+    });
+  });
+
+  describe('detectEncounters', () => {
+    it('should find two slow vessels side by side with different cadences', () => {
+      const a = track(180, 10, () => ({}));
+      const b = track(180, 3, (minute) => ({
+        latitude: -6.001 - (minute > 60 && minute < 90 ? 0.0005 : 0),
+      }));
+
+      const [encounter, ...rest] = detectEncounters(a, b, options);
+
+      expect(rest).toHaveLength(0);
+      expect(encounter.startedAt).toEqual(at(0));
+      expect(encounter.endedAt).toEqual(at(180));
+      expect(encounter.minDistanceMeters).toBe(111);
+      expect(encounter.samples).toBe(37);
+    });
+
+    it('should ignore passing, fast or port encounters', () => {
+      const a = track(180, 10, () => ({}));
+      const far = track(180, 10, () => ({ latitude: -6.01 }));
+      const fast = track(180, 10, () => ({ latitude: -6.001, speed: 10 }));
+      const near = track(180, 10, () => ({ latitude: -6.001 }));
+
+      expect(detectEncounters(a, far, options)).toHaveLength(0);
+      expect(detectEncounters(a, fast, options)).toHaveLength(0);
+      expect(detectEncounters(a, near, options, () => true)).toHaveLength(0);
+    });
+  });
+
+  describe('findCandidatePairs', () => {
+    it('should keep pairs close together in enough slots', () => {
+      const positions = [0, 1, 2].flatMap((slot) => [
+        { mmsi: 2, slot, latitude: -6, longitude: 107 },
+        { mmsi: 1, slot, latitude: -6.001, longitude: 107 },
+        { mmsi: 3, slot, latitude: -6.2, longitude: 107 },
+      ]);
+
+      expect(findCandidatePairs(positions, 500, 3)).toEqual([[1, 2]]);
+      expect(findCandidatePairs(positions, 500, 4)).toEqual([]);
+    });
+
+    it('should pair vessels across a grid cell edge and the antimeridian', () => {
+      const positions = [
+        { mmsi: 1, slot: 0, latitude: 0, longitude: 179.999 },
+        { mmsi: 2, slot: 0, latitude: 0, longitude: -179.999 },
+      ];
+
+      expect(findCandidatePairs(positions, 500, 1)).toEqual([[1, 2]]);
+    });
+  });
+});
@@ -0,0 +1,270 @@
+// src/encounters/encounter-detector.ts
+import { haversineDistanceMeters } from '../common/geo/geo.util';
+
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+export interface TrackReport {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  speed?: number;
+}
+
+export interface EncounterOptions {
+  maxDistanceMeters: number; // both vessels within this of each other
+  maxSpeedKnots: number; // both at or below
+  minDurationSeconds: number;
+  maxReportGapSeconds: number; // no interpolation across longer silences
+  sampleSeconds: number; // time-alignment step
+}
+
+export interface EncounterCandidate {
+  startedAt: Date;
+  endedAt: Date;
+  durationSeconds: number;
+  minDistanceMeters: number;
+  minDistanceAt: Date;
+  averageDistanceMeters: number;
+  latitude: number; // midpoint at the closest approach
+  longitude: number;
+  samples: number;
+}
+
+// ✅ One low-speed position per vessel per time slot, for pair screening
+export interface SlotPosition {
+  mmsi: number;
+  slot: number;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Position at `time` interpolated between the surrounding reports (track
+ * oldest first). Null outside the track or across a report gap.
+ */
+export function positionAt(
+  track: TrackReport[],
+  time: number,
+  maxReportGapSeconds: number,
+): { latitude: number; longitude: number; speed: number } | null {
+  if (
+    track.length === 0 ||
+    time < track[0].timestamp.getTime() ||
+    time > track[track.length - 1].timestamp.getTime()
+  ) {
+    return null;
+  }
+
+  // ✅ Binary search for the last report at or before `time`
+  let low = 0;
+  let high = track.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (track[middle].timestamp.getTime() <= time) low = middle;
+    else high = middle - 1;
+  }
+
+  const before = track[low];
+  const after = track[Math.min(low + 1, track.length - 1)];
+  const start = before.timestamp.getTime();
+  const end = after.timestamp.getTime();
+  if (end === start || time === start) {
+    return {
+      latitude: before.latitude,
+      longitude: before.longitude,
+      speed: Number(before.speed ?? 0),
+    };
+  }
+  if ((end - start) / 1000 > maxReportGapSeconds) return null;
+
+  const fraction = (time - start) / (end - start);
+  let longitudeDelta = after.longitude - before.longitude;
+  if (longitudeDelta > 180) longitudeDelta -= 360;
+  if (longitudeDelta < -180) longitudeDelta += 360;
+  let longitude = before.longitude + longitudeDelta * fraction;
+  if (longitude > 180) longitude -= 360;
+  if (longitude < -180) longitude += 360;
+
+  return {
+    latitude: before.latitude + (after.latitude - before.latitude) * fraction,
+    longitude,
+    speed:
+      Number(before.speed ?? 0) +
+      (Number(after.speed ?? 0) - Number(before.speed ?? 0)) * fraction,
+  };
+}
+
+/**
+ * Encounters between two vessels: both tracks are sampled on a common
+ * `sampleSeconds` grid, and runs of samples where the vessels are within
+ * `maxDistanceMeters`, both at low speed and outside excluded areas
+ * (ports, anchorages) for `minDurationSeconds` become encounters.
+ */
+export function detectEncounters(
+  trackA: TrackReport[],
+  trackB: TrackReport[],
+  options: EncounterOptions,
+  isExcluded: (point: {
+    latitude: number;
+    longitude: number;
+  }) => boolean = () => false,
+): EncounterCandidate[] {
+  if (trackA.length === 0 || trackB.length === 0) return [];
+
+  const step = options.sampleSeconds * 1000;
+  const start = Math.max(
+    trackA[0].timestamp.getTime(),
+    trackB[0].timestamp.getTime(),
+  );
+  const end = Math.min(
+    trackA[trackA.length - 1].timestamp.getTime(),
+    trackB[trackB.length - 1].timestamp.getTime(),
+  );
+
+  const encounters: EncounterCandidate[] = [];
+  let run: {
+    time: number;
+    distance: number;
+    latitude: number;
+    longitude: number;
+  }[] = [];
+
+  const closeRun = () => {
+    if (
+      run.length > 1 &&
+      (run[run.length - 1].time - run[0].time) / 1000 >=
+        options.minDurationSeconds
+    ) {
+      const closest = run.reduce((min, sample) =>
+        sample.distance < min.distance ? sample : min,
+      );
+      encounters.push({
+        startedAt: new Date(run[0].time),
+        endedAt: new Date(run[run.length - 1].time),
+        durationSeconds: Math.round(
+          (run[run.length - 1].time - run[0].time) / 1000,
+        ),
+        minDistanceMeters: Math.round(closest.distance),
+        minDistanceAt: new Date(closest.time),
+        averageDistanceMeters: Math.round(
+          run.reduce((sum, sample) => sum + sample.distance, 0) / run.length,
+        ),
+        latitude: closest.latitude,
+        longitude: closest.longitude,
+        samples: run.length,
+      });
+    }
+    run = [];
+  };
+
+  for (let time = Math.ceil(start / step) * step; time <= end; time += step) {
+    const a = positionAt(trackA, time, options.maxReportGapSeconds);
+    const b = positionAt(trackB, time, options.maxReportGapSeconds);
+    if (!a || !b) {
+      closeRun();
+      continue;
+    }
+
+    const distance = haversineDistanceMeters(
+      a.latitude,
+      a.longitude,
+      b.latitude,
+      b.longitude,
+    );
+    const midpoint = {
+      latitude: (a.latitude + b.latitude) / 2,
+      longitude:
+        Math.abs(a.longitude - b.longitude) > 180
+          ? a.longitude
+          : (a.longitude + b.longitude) / 2,
+    };
+    const together =
+      distance <= options.maxDistanceMeters &&
+      a.speed <= options.maxSpeedKnots &&
+      b.speed <= options.maxSpeedKnots &&
+      !isExcluded(midpoint);
+
+    if (together) run.push({ time, distance, ...midpoint });
+    else closeRun();
+  }
+  closeRun();
+
+  return encounters;
+}
+
+/**
+ * Screen vessel pairs worth a full track comparison: pairs within
+ * `maxDistanceMeters` of each other in at least `minSlots` time slots.
+ * Positions are bucketed on a grid of that size per slot, so only
+ * neighbouring cells are compared. Pairs come back as [lower, higher] MMSI.
+ */
+export function findCandidatePairs(
+  positions: SlotPosition[],
+  maxDistanceMeters: number,
+  minSlots: number,
+): [number, number][] {
+  const cellDegrees = maxDistanceMeters / METERS_PER_DEGREE_LATITUDE;
+  const longitudeCells = Math.ceil(360 / cellDegrees);
+  const slots = new Map<number, SlotPosition[]>();
+  for (const position of positions) {
+    const slot = slots.get(position.slot) ?? [];
+    slot.push(position);
+    slots.set(position.slot, slot);
+  }
+
+  const pairSlots = new Map<string, number>();
+  for (const slotPositions of slots.values()) {
+    const grid = new Map<string, SlotPosition[]>();
+    const cellOf = (position: SlotPosition) => ({
+      row: Math.floor((position.latitude + 90) / cellDegrees),
+      column:
+        Math.floor((position.longitude + 180) / cellDegrees) % longitudeCells,
+    });
+    for (const position of slotPositions) {
+      const { row, column } = cellOf(position);
+      const key = `${row}:${column}`;
+      const cell = grid.get(key) ?? [];
+      cell.push(position);
+      grid.set(key, cell);
+    }
+
+    const seen = new Set<string>();
+    for (const position of slotPositions) {
+      const { row, column } = cellOf(position);
+      // ✅ Longitude degrees shrink towards the poles: widen the column search
+      const spread = Math.min(
+        Math.ceil(
+          1 / Math.max(Math.cos((position.latitude * Math.PI) / 180), 0.1),
+        ),
+        10,
+      );
+      for (let dRow = -1; dRow <= 1; dRow++) {
+        for (let dColumn = -spread; dColumn <= spread; dColumn++) {
+          const wrapped =
+            (((column + dColumn) % longitudeCells) + longitudeCells) %
+            longitudeCells;
+          for (const other of grid.get(`${row + dRow}:${wrapped}`) ?? []) {
+            if (other.mmsi <= position.mmsi) continue;
+            const key = `${position.mmsi}:${other.mmsi}`;
+            if (seen.has(key)) continue;
+            if (
+              haversineDistanceMeters(
+                position.latitude,
+                position.longitude,
+                other.latitude,
+                other.longitude,
+              ) <= maxDistanceMeters
+            ) {
+              seen.add(key);
+              pairSlots.set(key, (pairSlots.get(key) ?? 0) + 1);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return [...pairSlots.entries()]
+    .filter(([, count]) => count >= minSlots)
+    .map(([key]) => key.split(':').map(Number) as [number, number]);
+}
@@ -0,0 +1,52 @@
+// src/encounters/encounters.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { EncountersService } from './encounters.service';
+import { AnalyzeEncountersDto, QueryEncountersDto } from './dto/encounter.dto';
+
+@ApiTags('Encounters')
+@Controller('encounters')
+export class EncountersController {
+  constructor(private readonly encountersService: EncountersService) {}
+
+  /**
+   * 🤝 QUERY ENCOUNTERS
+   * GET /api/encounters?mmsi=&areaId=&startDate=&endDate=&minDurationMinutes=
+   */
+  @Get()
+  @ApiOperation({ summary: 'Search ship-to-ship encounters' })
+  @ApiQuery({ type: QueryEncountersDto })
+  async queryEncounters(@Query() queryDto: QueryEncountersDto) {
+    const result = await this.encountersService.queryEncounters(queryDto);
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * ⏪ ANALYZE HISTORY
+   * POST /api/encounters/analyze { mmsi?, startDate, endDate }
+   */
+  @Post('analyze')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Detect encounters in vessel_logs over a past window',
+  })
+  async analyze(@Body() dto: AnalyzeEncountersDto) {
+    return {
+      success: true,
+      data: await this.encountersService.analyzeHistory(dto),
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,25 @@
+// src/encounters/encounters.module.ts
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Encounter, EncounterSchema } from './schemas/encounter.schema';
+import { EncountersService } from './encounters.service';
+import { EncountersController } from './encounters.controller';
+import {
+  VesselLog,
+  VesselLogSchema,
+} from '../ais-data/schemas/vessel-log.schema';
+import { PoiAreasModule } from '../poi-areas/poi-areas.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Encounter.name, schema: EncounterSchema },
+      { name: VesselLog.name, schema: VesselLogSchema },
+    ]),
+    PoiAreasModule,
+  ],
+  controllers: [EncountersController],
+  providers: [EncountersService],
+  exports: [EncountersService],
+})
+export class EncountersModule {}
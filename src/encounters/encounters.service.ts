@@ -0,0 +1,383 @@
+// src/encounters/encounters.service.ts
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import { Encounter, EncounterDocument } from './schemas/encounter.schema';
+import { AnalyzeEncountersDto, QueryEncountersDto } from './dto/encounter.dto';
+import {
+  EncounterCandidate,
+  EncounterOptions,
+  SlotPosition,
+  detectEncounters,
+  findCandidatePairs,
+} from './encounter-detector';
+import {
+  VesselLog,
+  VesselLogDocument,
+} from '../ais-data/schemas/vessel-log.schema';
+import { PoiAreasService } from '../poi-areas/poi-areas.service';
+import { NAUTICAL_MILE_METERS, toGeoJsonPoint } from '../common/geo/geo.util';
+import { parseApiDate } from '../common/time/timezone.util';
+import { WatchedArea, isInsideArea } from '../geofences/geofence-transitions';
+
+// ✅ Pair screening resolution; full tracks are compared at sampleSeconds
+const SCREENING_SLOT_SECONDS = 600;
+
+export interface EncounterAnalysisResult {
+  pairs: number;
+  encounters: number;
+}
+
+/**
+ * 🤝 SHIP-TO-SHIP ENCOUNTERS
+ * Pairs of vessels close together at low speed, away from POI areas
+ * tagged as ports/anchorages, for a minimum duration (transshipment
+ * signal). Low-speed vessel_logs reports are screened per 10-minute slot
+ * for nearby pairs, then each pair's tracks are time-aligned and compared.
+ * Runs every 15 minutes over the live window and on demand over history.
+ */
+@Injectable()
+export class EncountersService {
+  private readonly logger = new Logger(EncountersService.name);
+  private readonly enabled: boolean;
+  private readonly options: EncounterOptions;
+  private readonly excludeTags: string[];
+  private readonly liveWindowMs: number;
+  private readonly maxAnalyzeDays: number;
+  private running = false;
+
+  constructor(
+    @InjectModel(Encounter.name)
+    private readonly encounterModel: Model<EncounterDocument>,
+    @InjectModel(VesselLog.name)
+    private readonly vesselLogModel: Model<VesselLogDocument>,
+    private readonly poiAreasService: PoiAreasService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>('ENCOUNTER_ENABLED', 'true') !== 'false';
+    this.options = {
+      maxDistanceMeters: Number(
+        this.configService.get<string>('ENCOUNTER_MAX_DISTANCE_METERS', '500'),
+      ),
+      maxSpeedKnots: Number(
+        this.configService.get<string>('ENCOUNTER_MAX_SPEED_KNOTS', '3'),
+      ),
+      minDurationSeconds:
+        Number(
+          this.configService.get<string>(
+            'ENCOUNTER_MIN_DURATION_MINUTES',
+            '120',
+          ),
+        ) * 60,
+      maxReportGapSeconds:
+        Number(
+          this.configService.get<string>(
+            'ENCOUNTER_MAX_REPORT_GAP_MINUTES',
+            '30',
+          ),
+        ) * 60,
+      sampleSeconds: Number(
+        this.configService.get<string>('ENCOUNTER_SAMPLE_SECONDS', '300'),
+      ),
+    };
+    this.excludeTags = this.configService
+      .get<string>('ENCOUNTER_EXCLUDE_TAGS', 'port,anchorage')
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    this.liveWindowMs =
+      Number(
+        this.configService.get<string>('ENCOUNTER_LIVE_WINDOW_HOURS', '6'),
+      ) *
+      3600 *
+      1000;
+    this.maxAnalyzeDays = Number(
+      this.configService.get<string>('ENCOUNTER_MAX_ANALYZE_DAYS', '7'),
+    );
+  }
+
+  /**
+   * 🕐 LIVE DETECTION - every 15 minutes over the live window
+   */
+  @Cron('0 */15 * * * *', { name: 'encounter-detection' })
+  async handleLiveDetection(): Promise<void> {
+    if (!this.enabled || this.running) return;
+
+    try {
+      const now = new Date();
+      const result = await this.analyzeWindow(
+        new Date(now.getTime() - this.liveWindowMs),
+        now,
+      );
+      if (result.encounters > 0) {
+        this.logger.log(
+          `🤝 Encounters: ${result.encounters} from ${result.pairs} candidate pairs`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        'Live encounter detection failed',
+        (error as Error).stack,
+      );
+    }
+  }
+
+  /**
+   * ⏪ HISTORICAL ANALYSIS - optionally only pairs involving one vessel
+   */
+  async analyzeHistory(
+    dto: AnalyzeEncountersDto,
+  ): Promise<EncounterAnalysisResult> {
+    const from = parseApiDate(dto.startDate);
+    const to = parseApiDate(dto.endDate);
+    if (!from || !to || from >= to) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+    if (to.getTime() - from.getTime() > this.maxAnalyzeDays * 86400 * 1000) {
+      throw new BadRequestException(
+        `Analysis window is limited to ${this.maxAnalyzeDays} days`,
+      );
+    }
+    if (this.running) {
+      throw new BadRequestException('Encounter detection is already running');
+    }
+
+    const result = await this.analyzeWindow(from, to, dto.mmsi);
+    this.logger.log(
+      `🤝 Historical encounter analysis: ${result.encounters} encounters from ${result.pairs} candidate pairs`,
+    );
+    return result;
+  }
+
+  /**
+   * 📚 QUERY ENCOUNTERS - newest first
+   */
+  async queryEncounters(queryDto: QueryEncountersDto) {
+    const {
+      mmsi,
+      areaId,
+      minDurationMinutes,
+      maxDistanceMeters,
+      startDate,
+      endDate,
+      page = 1,
+      limit = 100,
+    } = queryDto;
+
+    const query: Record<string, any> = {};
+    if (mmsi) query.$or = [{ mmsiA: mmsi }, { mmsiB: mmsi }];
+    if (minDurationMinutes !== undefined) {
+      query.durationSeconds = { $gte: minDurationMinutes * 60 };
+    }
+    if (maxDistanceMeters !== undefined) {
+      query.minDistanceMeters = { $lte: maxDistanceMeters };
+    }
+    if (areaId) {
+      const geometry = await this.poiAreasService.getGeometry(areaId);
+      query.location = { $geoWithin: { $geometry: geometry } };
+    }
+    if (startDate) query.endedAt = { $gte: parseApiDate(startDate) };
+    if (endDate) query.startedAt = { $lte: parseApiDate(endDate) };
+
+    const [encounters, total] = await Promise.all([
+      this.encounterModel
+        .find(query)
+        .sort({ startedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.encounterModel.countDocuments(query),
+    ]);
+
+    return {
+      data: encounters,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  private async analyzeWindow(
+    from: Date,
+    to: Date,
+    mmsi?: number,
+  ): Promise<EncounterAnalysisResult> {
+    this.running = true;
+    try {
+      const slotPositions = await this.loadSlotPositions(from, to);
+      // ✅ Slow vessels can move apart within a slot, so screen a little wider
+      const screeningMeters =
+        this.options.maxDistanceMeters +
+        ((2 * this.options.maxSpeedKnots * NAUTICAL_MILE_METERS) / 3600) *
+          SCREENING_SLOT_SECONDS;
+      const minSlots = Math.max(
+        1,
+        Math.floor(this.options.minDurationSeconds / SCREENING_SLOT_SECONDS) -
+          1,
+      );
+      const pairs = findCandidatePairs(
+        slotPositions,
+        screeningMeters,
+        minSlots,
+      ).filter(([a, b]) => mmsi === undefined || a === mmsi || b === mmsi);
+      if (pairs.length === 0) return { pairs: 0, encounters: 0 };
+
+      const areas = await this.loadExcludedAreas();
+      const tracks = new Map<number, VesselLog[]>();
+      const loadTrack = async (vessel: number) => {
+        let track = tracks.get(vessel);
+        if (!track) {
+          track = await this.vesselLogModel
+            .find({
+              mmsi: vessel,
+              status: 'archived',
+              timestamp: { $gte: from, $lte: to },
+            })
+            .sort({ timestamp: 1 })
+            .select('latitude longitude timestamp speed name vesselType')
+            .lean<VesselLog[]>();
+          tracks.set(vessel, track);
+        }
+        return track;
+      };
+
+      let encounters = 0;
+      for (const [a, b] of pairs) {
+        const trackA = await loadTrack(a);
+        const trackB = await loadTrack(b);
+        const candidates = detectEncounters(
+          trackA,
+          trackB,
+          this.options,
+          (point) => areas.some((area) => isInsideArea(point, area)),
+        );
+        for (const candidate of candidates) {
+          await this.saveEncounter(
+            trackA[trackA.length - 1],
+            trackB[trackB.length - 1],
+            candidate,
+          );
+        }
+        encounters += candidates.length;
+      }
+
+      return { pairs: pairs.length, encounters };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * One low-speed position per vessel per screening slot
+   */
+  private async loadSlotPositions(
+    from: Date,
+    to: Date,
+  ): Promise<SlotPosition[]> {
+    const rows = await this.vesselLogModel
+      .aggregate<{
+        _id: { mmsi: number; slot: number };
+        latitude: number;
+        longitude: number;
+      }>([
+        {
+          $match: {
+            status: 'archived',
+            timestamp: { $gte: from, $lte: to },
+            speed: { $lte: this.options.maxSpeedKnots },
+          },
+        },
+        {
+          $group: {
+            _id: {
+              mmsi: '$mmsi',
+              slot: {
+                $floor: {
+                  $divide: [
+                    { $toLong: '$timestamp' },
+                    SCREENING_SLOT_SECONDS * 1000,
+                  ],
+                },
+              },
+            },
+            latitude: { $first: '$latitude' },
+            longitude: { $first: '$longitude' },
+          },
+        },
+      ])
+      .allowDiskUse(true)
+      .exec();
+
+    return rows.map((row) => ({
+      mmsi: row._id.mmsi,
+      slot: row._id.slot,
+      latitude: row.latitude,
+      longitude: row.longitude,
+    }));
+  }
+
+  private async saveEncounter(
+    vesselA: VesselLog,
+    vesselB: VesselLog,
+    candidate: EncounterCandidate,
+  ): Promise<void> {
+    const existing = await this.encounterModel
+      .findOne({
+        mmsiA: vesselA.mmsi,
+        mmsiB: vesselB.mmsi,
+        startedAt: { $lte: candidate.endedAt },
+        endedAt: { $gte: candidate.startedAt },
+      })
+      .sort({ startedAt: 1 })
+      .exec();
+
+    const fields: Encounter = {
+      mmsiA: vesselA.mmsi,
+      mmsiB: vesselB.mmsi,
+      vesselNameA: vesselA.name,
+      vesselNameB: vesselB.name,
+      vesselTypeA: vesselA.vesselType,
+      vesselTypeB: vesselB.vesselType,
+      ...candidate,
+      location: toGeoJsonPoint(candidate.latitude, candidate.longitude),
+    };
+
+    if (!existing) {
+      await this.encounterModel.create(fields);
+      return;
+    }
+    // ✅ A shorter re-detection (window cut the start) keeps the earlier start
+    const startedAt =
+      existing.startedAt < candidate.startedAt
+        ? existing.startedAt
+        : candidate.startedAt;
+    const endedAt =
+      existing.endedAt > candidate.endedAt
+        ? existing.endedAt
+        : candidate.endedAt;
+    const closer = candidate.minDistanceMeters <= existing.minDistanceMeters;
+    existing.set({
+      ...(closer ? fields : {}),
+      startedAt,
+      endedAt,
+      durationSeconds: Math.round(
+        (endedAt.getTime() - startedAt.getTime()) / 1000,
+      ),
+      samples: Math.max(existing.samples, candidate.samples),
+    });
+    await existing.save();
+  }
+
+  private async loadExcludedAreas(): Promise<WatchedArea[]> {
+    return this.poiAreasService.findWatchedAreas(this.excludeTags);
+  }
+}
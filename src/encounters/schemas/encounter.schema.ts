@@ -0,0 +1,70 @@
+// src/encounters/schemas/encounter.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import {
+  GeoPoint,
+  GeoPointSchema,
+} from '../../ais-data/schemas/geo-point.schema';
+
+export type EncounterDocument = Encounter & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'encounters',
+})
+export class Encounter {
+  @Prop({ required: true })
+  mmsiA: number; // ✅ Lower MMSI of the pair, so each pair has one ordering
+
+  @Prop({ required: true })
+  mmsiB: number;
+
+  @Prop()
+  vesselNameA?: string;
+
+  @Prop()
+  vesselNameB?: string;
+
+  @Prop()
+  vesselTypeA?: number;
+
+  @Prop()
+  vesselTypeB?: number;
+
+  @Prop({ required: true })
+  startedAt: Date;
+
+  @Prop({ required: true })
+  endedAt: Date;
+
+  @Prop({ required: true })
+  durationSeconds: number;
+
+  @Prop({ required: true })
+  minDistanceMeters: number;
+
+  @Prop({ required: true })
+  minDistanceAt: Date;
+
+  @Prop()
+  averageDistanceMeters?: number;
+
+  @Prop({ required: true })
+  latitude: number; // midpoint at the closest approach
+
+  @Prop({ required: true })
+  longitude: number;
+
+  @Prop({ type: GeoPointSchema })
+  location?: GeoPoint; // ✅ Closest approach as GeoJSON, for area queries
+
+  @Prop({ required: true })
+  samples: number;
+}
+
+export const EncounterSchema = SchemaFactory.createForClass(Encounter);
+
+EncounterSchema.index({ mmsiA: 1, mmsiB: 1, startedAt: -1 });
+EncounterSchema.index({ mmsiB: 1, startedAt: -1 });
+EncounterSchema.index({ startedAt: -1 });
+EncounterSchema.index({ location: '2dsphere' }, { name: 'location_2dsphere' });
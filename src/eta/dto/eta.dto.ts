@@ -0,0 +1,66 @@
+// src/eta/dto/eta.dto.ts
+import {
+  IsDateString,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class EtaHistoryDto {
+  // ISO-8601, offset honoured; none = UTC
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
+
+export class QueryEtaAccuracyDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  mmsi?: number;
+
+  // Arrivals at this port only
+  @IsOptional()
+  @IsString()
+  locode?: string;
+
+  // ISO-8601, offset honoured; none = UTC. Port arrivals in the window.
+  @IsDateString()
+  startDate: string;
+
+  @IsDateString()
+  endDate: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
@@ -0,0 +1,64 @@
+import { evaluateEta, summarizeEtaAccuracy } from './eta-accuracy';
+
+describe('eta-accuracy', () => {
+  const at = (hour: number) => new Date(Date.UTC(2024, 4, 1, hour));
+  const arrivedAt = at(20);
+
+  it('should score the first and the final ETA before arrival', () => {
+    const evaluation = evaluateEta(arrivedAt, [
+      { reportedAt: at(0), etaAt: at(18) },
+      { reportedAt: at(6), etaAt: null },
+      { reportedAt: at(12), etaAt: at(21) },
+      { reportedAt: at(22), etaAt: at(23) }, // after arrival
+    ]);
+
+    expect(evaluation).toEqual({
+      updates: 3,
+      firstEtaAt: at(18),
+      firstReportedAt: at(0),
+      firstErrorMinutes: -120,
+      finalEtaAt: at(21),
+      finalReportedAt: at(12),
+      finalErrorMinutes: 60,
+      leadHours: 8,
+    });
+  });
+
+  it('should leave scores empty without a parsable ETA', () => {
+    expect(
+      evaluateEta(arrivedAt, [{ reportedAt: at(1), etaAt: null }]),
+    ).toMatchObject({
+      updates: 1,
+      finalEtaAt: null,
+      finalErrorMinutes: null,
+      leadHours: null,
+    });
+  });
+
+  it('should summarize final-ETA errors across arrivals', () => {
+    const evaluations = [30, -90, 400, null].map((error) => ({
+      ...evaluateEta(arrivedAt, []),
+      finalErrorMinutes: error,
+    }));
+
+    expect(summarizeEtaAccuracy(evaluations)).toEqual({
+      arrivals: 4,
+      withEta: 3,
+      meanErrorMinutes: 113,
+      meanAbsoluteErrorMinutes: 173,
+      medianAbsoluteErrorMinutes: 90,
+      withinOneHour: 0.33,
+      withinSixHours: 0.67,
+    });
+  });
+
+  it('should return empty statistics without arrivals', () => {
+    expect(summarizeEtaAccuracy([])).toMatchObject({
+      arrivals: 0,
+      withEta: 0,
+      meanErrorMinutes: null,
+      medianAbsoluteErrorMinutes: null,
+      withinOneHour: null,
+    });
+  });
+});
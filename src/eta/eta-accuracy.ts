@@ -0,0 +1,109 @@
+// src/eta/eta-accuracy.ts
+
+export interface DeclaredEta {
+  reportedAt: Date;
+  etaAt: Date | null;
+}
+
+export interface EtaEvaluation {
+  updates: number; // ETA changes before arrival
+  firstEtaAt: Date | null;
+  firstReportedAt: Date | null;
+  firstErrorMinutes: number | null;
+  finalEtaAt: Date | null;
+  finalReportedAt: Date | null;
+  finalErrorMinutes: number | null; // declared - actual: > 0 arrived early
+  leadHours: number | null; // how long before arrival the final ETA was given
+}
+
+export interface EtaAccuracySummary {
+  arrivals: number;
+  withEta: number;
+  meanErrorMinutes: number | null; // bias: > 0 vessels arrive early
+  meanAbsoluteErrorMinutes: number | null;
+  medianAbsoluteErrorMinutes: number | null;
+  withinOneHour: number | null; // share of arrivals, 0..1
+  withinSixHours: number | null;
+}
+
+/**
+ * Compare ETAs declared before an arrival (oldest first) with the actual
+ * arrival time. ETA updates without a parsable time count as changes but
+ * are not scored.
+ */
+export function evaluateEta(
+  arrivedAt: Date,
+  declared: DeclaredEta[],
+): EtaEvaluation {
+  const before = declared.filter(
+    (update) => update.reportedAt.getTime() <= arrivedAt.getTime(),
+  );
+  const timed = before.filter(
+    (update): update is { reportedAt: Date; etaAt: Date } =>
+      update.etaAt !== null,
+  );
+  const first = timed[0];
+  const final = timed[timed.length - 1];
+  const errorMinutes = (etaAt: Date) =>
+    Math.round((etaAt.getTime() - arrivedAt.getTime()) / 60000);
+
+  return {
+    updates: before.length,
+    firstEtaAt: first?.etaAt ?? null,
+    firstReportedAt: first?.reportedAt ?? null,
+    firstErrorMinutes: first ? errorMinutes(first.etaAt) : null,
+    finalEtaAt: final?.etaAt ?? null,
+    finalReportedAt: final?.reportedAt ?? null,
+    finalErrorMinutes: final ? errorMinutes(final.etaAt) : null,
+    leadHours: final
+      ? Math.round(
+          ((arrivedAt.getTime() - final.reportedAt.getTime()) / 3600000) * 10,
+        ) / 10
+      : null,
+  };
+}
+
+/**
+ * Aggregate the final-ETA errors of many arrivals
+ */
+export function summarizeEtaAccuracy(
+  evaluations: EtaEvaluation[],
+): EtaAccuracySummary {
+  const errors = evaluations
+    .map((evaluation) => evaluation.finalErrorMinutes)
+    .filter((error): error is number => error !== null);
+  const absolute = errors.map(Math.abs).sort((a, b) => a - b);
+  const share = (limitMinutes: number) =>
+    errors.length > 0
+      ? Math.round(
+          (absolute.filter((error) => error <= limitMinutes).length /
+            errors.length) *
+            100,
+        ) / 100
+      : null;
+  const mean = (values: number[]) =>
+    values.length > 0
+      ? Math.round(
+          values.reduce((sum, value) => sum + value, 0) / values.length,
+        )
+      : null;
+
+  let median: number | null = null;
+  if (absolute.length > 0) {
+    const middle = Math.floor(absolute.length / 2);
+    median =
+      absolute.length % 2 === 1
+        ? absolute[middle]
+        : Math.round((absolute[middle - 1] + absolute[middle]) / 2);
+  }
+
+  return {
+    arrivals: evaluations.length,
+    withEta: errors.length,
+    meanErrorMinutes: mean(errors),
+    meanAbsoluteErrorMinutes: mean(absolute),
+    medianAbsoluteErrorMinutes: median,
+    withinOneHour: share(60),
+    withinSixHours: share(360),
+  };
+}
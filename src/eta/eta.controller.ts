@@ -0,0 +1,63 @@
+// src/eta/eta.controller.ts
+import { Controller, Get, Param, ParseIntPipe, Query } from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { EtaService } from './eta.service';
+import { EtaHistoryDto, QueryEtaAccuracyDto } from './dto/eta.dto';
+
+@ApiTags('ETA')
+@Controller('eta')
+export class EtaController {
+  constructor(private readonly etaService: EtaService) {}
+
+  /**
+   * 🎯 ETA ACCURACY - declared ETA vs actual port arrival
+   * GET /api/eta/accuracy?startDate=&endDate=&locode=IDTPP
+   */
+  @Get('accuracy')
+  @ApiOperation({
+    summary: 'Compare declared ETAs with arrivals derived from tracks',
+  })
+  @ApiQuery({ type: QueryEtaAccuracyDto })
+  async getAccuracy(@Query() queryDto: QueryEtaAccuracyDto) {
+    const result = await this.etaService.getAccuracy(queryDto);
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 📚 ETA HISTORY OF A VESSEL
+   * GET /api/eta/vessel/:mmsi?startDate=&endDate=
+   */
+  @Get('vessel/:mmsi')
+  @ApiOperation({ summary: 'ETA and destination changes of a vessel' })
+  @ApiQuery({ type: EtaHistoryDto })
+  async getVesselHistory(
+    @Param('mmsi', ParseIntPipe) mmsi: number,
+    @Query() queryDto: EtaHistoryDto,
+  ) {
+    const result = await this.etaService.getVesselHistory(mmsi, queryDto);
+    return {
+      success: true,
+      mmsi,
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🧭 ETA CHANGES OVER ONE VOYAGE
+   * GET /api/eta/voyages/:id
+   */
+  @Get('voyages/:id')
+  @ApiOperation({ summary: 'ETA changes over a voyage vs its actual arrival' })
+  async getVoyageEta(@Param('id') id: string) {
+    return {
+      success: true,
+      data: await this.etaService.getVoyageEta(id),
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,24 @@
+// src/eta/eta.module.ts
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { EtaUpdate, EtaUpdateSchema } from './schemas/eta-update.schema';
+import { EtaService } from './eta.service';
+import { EtaController } from './eta.controller';
+import { PortCall, PortCallSchema } from '../ports/schemas/port-call.schema';
+import { AisDataModule } from '../ais-data/ais-data.module';
+import { VoyagesModule } from '../voyages/voyages.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: EtaUpdate.name, schema: EtaUpdateSchema },
+      { name: PortCall.name, schema: PortCallSchema },
+    ]),
+    AisDataModule,
+    VoyagesModule,
+  ],
+  controllers: [EtaController],
+  providers: [EtaService],
+  exports: [EtaService],
+})
+export class EtaModule {}
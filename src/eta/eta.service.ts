@@ -0,0 +1,334 @@
+// src/eta/eta.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { EtaUpdate, EtaUpdateDocument } from './schemas/eta-update.schema';
+import { EtaHistoryDto, QueryEtaAccuracyDto } from './dto/eta.dto';
+import {
+  EtaAccuracySummary,
+  EtaEvaluation,
+  evaluateEta,
+  summarizeEtaAccuracy,
+} from './eta-accuracy';
+import { AisDataService } from '../ais-data/ais-data.service';
+import {
+  PositionIngestHook,
+  TrackedPosition,
+  VesselPositionUpdate,
+} from '../ais-data/ingest-hooks';
+import { PortCall, PortCallDocument } from '../ports/schemas/port-call.schema';
+import { normalizeLocode } from '../ports/port-formats';
+import { Voyage } from '../voyages/schemas/voyage.schema';
+import { VoyagesService } from '../voyages/voyages.service';
+import { parseApiDate } from '../common/time/timezone.util';
+
+export interface PortCallEtaAccuracy extends EtaEvaluation {
+  mmsi: number;
+  vesselName?: string;
+  locode: string;
+  portName: string;
+  arrivedAt: Date;
+  destinationMatched: boolean; // ETAs were declared for this port
+}
+
+export interface VoyageEta {
+  voyage: Voyage;
+  actualArrivalAt: Date | null; // voyage end, once completed
+  updates: Array<EtaUpdate & { errorMinutes: number | null }>;
+  evaluation: EtaEvaluation | null;
+}
+
+/**
+ * ⏱️ ETA TRACKING
+ * Records every change of a vessel's declared ETA (or destination) from
+ * the ingest path in eta_updates, and compares declared ETAs against the
+ * actual arrival derived from tracks (port calls and voyages).
+ */
+@Injectable()
+export class EtaService implements PositionIngestHook, OnModuleInit {
+  readonly name = 'eta';
+  private readonly logger = new Logger(EtaService.name);
+  private readonly enabled: boolean;
+  private readonly lookbackMs: number;
+  private readonly maxAnalyzeDays: number;
+
+  constructor(
+    @InjectModel(EtaUpdate.name)
+    private readonly etaUpdateModel: Model<EtaUpdateDocument>,
+    @InjectModel(PortCall.name)
+    private readonly portCallModel: Model<PortCallDocument>,
+    private readonly voyagesService: VoyagesService,
+    private readonly aisDataService: AisDataService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>('ETA_TRACKING_ENABLED', 'true') !==
+      'false';
+    // ✅ ETAs declared longer before an arrival belong to an earlier trip
+    this.lookbackMs =
+      Number(
+        this.configService.get<string>('ETA_ACCURACY_LOOKBACK_DAYS', '7'),
+      ) *
+      86400 *
+      1000;
+    this.maxAnalyzeDays = Number(
+      this.configService.get<string>('ETA_MAX_ANALYZE_DAYS', '31'),
+    );
+  }
+
+  onModuleInit(): void {
+    if (this.enabled) {
+      this.aisDataService.registerIngestHook(this);
+    }
+  }
+
+  /**
+   * Store reports whose ETA or destination differs from the last one
+   * recorded for the vessel; position-only reports carry no ETA
+   */
+  async onPositions(updates: VesselPositionUpdate[]): Promise<void> {
+    const withEta = updates.filter(({ current }) => current.eta !== undefined);
+    if (withEta.length === 0) return;
+
+    const latest = await this.etaUpdateModel.aggregate<
+      EtaUpdate & { _id: number }
+    >([
+      {
+        $match: {
+          mmsi: { $in: [...new Set(withEta.map(({ mmsi }) => mmsi))] },
+        },
+      },
+      { $sort: { reportedAt: -1 } },
+      { $group: { _id: '$mmsi', doc: { $first: '$$ROOT' } } },
+      {
+        $replaceRoot: { newRoot: { $mergeObjects: ['$doc', { _id: '$_id' }] } },
+      },
+    ]);
+    const last = new Map<number, EtaUpdate>(
+      latest.map((update) => [update._id, update]),
+    );
+
+    const records: EtaUpdate[] = [];
+    for (const { mmsi, current } of withEta) {
+      const previous = last.get(mmsi);
+      if (previous && previous.reportedAt >= current.timestamp) continue;
+      const record = this.toRecord(current, previous);
+      if (previous && this.sameDeclaration(previous, record)) continue;
+      if (!previous && !record.etaAt) continue;
+
+      records.push(record);
+      last.set(mmsi, record);
+    }
+
+    if (records.length === 0) return;
+    await this.etaUpdateModel.insertMany(records, { ordered: false });
+    this.logger.debug(`⏱️ ${records.length} ETA updates recorded`);
+  }
+
+  /**
+   * 📚 ETA HISTORY OF A VESSEL - newest first
+   */
+  async getVesselHistory(mmsi: number, queryDto: EtaHistoryDto) {
+    const { startDate, endDate, page = 1, limit = 100 } = queryDto;
+
+    const query: Record<string, any> = { mmsi };
+    const reportedAt: Record<string, Date | null> = {};
+    if (startDate) reportedAt.$gte = parseApiDate(startDate);
+    if (endDate) reportedAt.$lte = parseApiDate(endDate);
+    if (startDate || endDate) query.reportedAt = reportedAt;
+
+    const [updates, total] = await Promise.all([
+      this.etaUpdateModel
+        .find(query)
+        .sort({ reportedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.etaUpdateModel.countDocuments(query),
+    ]);
+
+    return {
+      data: updates,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * 🧭 ETA CHANGES OVER ONE VOYAGE - including the ETA in force at
+   * departure, scored against the voyage end once it is completed
+   */
+  async getVoyageEta(voyageId: string): Promise<VoyageEta> {
+    const voyage = await this.voyagesService.findById(voyageId);
+
+    const [atDeparture, during] = await Promise.all([
+      this.etaUpdateModel
+        .findOne({
+          mmsi: voyage.mmsi,
+          reportedAt: { $lt: voyage.startedAt },
+        })
+        .sort({ reportedAt: -1 })
+        .lean<EtaUpdate>()
+        .exec(),
+      this.etaUpdateModel
+        .find({
+          mmsi: voyage.mmsi,
+          reportedAt: { $gte: voyage.startedAt, $lte: voyage.endedAt },
+        })
+        .sort({ reportedAt: 1 })
+        .lean<EtaUpdate[]>()
+        .exec(),
+    ]);
+    const updates = atDeparture ? [atDeparture, ...during] : during;
+    const actualArrivalAt =
+      voyage.status === 'completed' ? voyage.endedAt : null;
+
+    return {
+      voyage,
+      actualArrivalAt,
+      updates: updates.map((update) => ({
+        ...update,
+        errorMinutes:
+          actualArrivalAt && update.etaAt
+            ? Math.round(
+                (update.etaAt.getTime() - actualArrivalAt.getTime()) / 60000,
+              )
+            : null,
+      })),
+      evaluation: actualArrivalAt
+        ? evaluateEta(actualArrivalAt, updates)
+        : null,
+    };
+  }
+
+  /**
+   * 🎯 ETA ACCURACY - declared ETAs against port arrivals in the window;
+   * the summary covers every arrival, the list is paginated
+   */
+  async getAccuracy(queryDto: QueryEtaAccuracyDto): Promise<{
+    summary: EtaAccuracySummary;
+    data: PortCallEtaAccuracy[];
+    pagination: Record<string, number | boolean>;
+  }> {
+    const { mmsi, locode, page = 1, limit = 100 } = queryDto;
+    const from = parseApiDate(queryDto.startDate);
+    const to = parseApiDate(queryDto.endDate);
+    if (!from || !to || from >= to) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+    if (to.getTime() - from.getTime() > this.maxAnalyzeDays * 86400 * 1000) {
+      throw new BadRequestException(
+        `Analysis window is limited to ${this.maxAnalyzeDays} days`,
+      );
+    }
+
+    const query: Record<string, any> = {
+      arrivedAt: { $gte: from, $lte: to },
+    };
+    if (mmsi) query.mmsi = mmsi;
+    if (locode) query.locode = normalizeLocode(locode) ?? locode;
+
+    const calls = await this.portCallModel
+      .find(query)
+      .sort({ arrivedAt: -1 })
+      .select('mmsi vesselName locode portName arrivedAt')
+      .lean<PortCall[]>()
+      .exec();
+
+    const results: PortCallEtaAccuracy[] = [];
+    for (const call of calls) {
+      results.push(await this.evaluatePortCall(call));
+    }
+
+    const total = results.length;
+    return {
+      summary: summarizeEtaAccuracy(results),
+      data: results.slice((page - 1) * limit, page * limit),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * ETAs the vessel declared for this port before arriving; when none
+   * name the port, those with an unrecognised destination are used
+   */
+  private async evaluatePortCall(call: PortCall): Promise<PortCallEtaAccuracy> {
+    const declared = await this.etaUpdateModel
+      .find({
+        mmsi: call.mmsi,
+        reportedAt: {
+          $gte: new Date(call.arrivedAt.getTime() - this.lookbackMs),
+          $lte: call.arrivedAt,
+        },
+      })
+      .sort({ reportedAt: 1 })
+      .select('reportedAt etaAt destinationLocode')
+      .lean<EtaUpdate[]>()
+      .exec();
+
+    const forPort = declared.filter(
+      (update) => update.destinationLocode === call.locode,
+    );
+    const updates =
+      forPort.length > 0
+        ? forPort
+        : declared.filter((update) => !update.destinationLocode);
+
+    return {
+      mmsi: call.mmsi,
+      vesselName: call.vesselName,
+      locode: call.locode,
+      portName: call.portName,
+      arrivedAt: call.arrivedAt,
+      destinationMatched: forPort.length > 0,
+      ...evaluateEta(call.arrivedAt, updates),
+    };
+  }
+
+  private toRecord(
+    position: TrackedPosition,
+    previous: EtaUpdate | undefined,
+  ): EtaUpdate {
+    return {
+      mmsi: position.mmsi,
+      vesselName: position.name,
+      reportedAt: position.timestamp,
+      eta: position.eta as string | undefined,
+      etaAt: (position.etaAt as Date | null | undefined) ?? null,
+      previousEtaAt: previous?.etaAt ?? null,
+      destination: position.destination as string | undefined,
+      destinationLocode:
+        (position.destinationLocode as string | null | undefined) ?? undefined,
+      latitude: position.latitude,
+      longitude: position.longitude,
+      source: position.source,
+    };
+  }
+
+  private sameDeclaration(a: EtaUpdate, b: EtaUpdate): boolean {
+    return (
+      (a.etaAt?.getTime() ?? null) === (b.etaAt?.getTime() ?? null) &&
+      (a.destination ?? '') === (b.destination ?? '')
+    );
+  }
+}
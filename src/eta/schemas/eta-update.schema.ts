@@ -0,0 +1,52 @@
+// src/eta/schemas/eta-update.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type EtaUpdateDocument = EtaUpdate & Document;
+
+/**
+ * One change of a vessel's declared ETA or destination, as reported
+ */
+@Schema({
+  timestamps: true,
+  collection: 'eta_updates',
+})
+export class EtaUpdate {
+  @Prop({ required: true })
+  mmsi: number;
+
+  @Prop()
+  vesselName?: string;
+
+  @Prop({ required: true })
+  reportedAt: Date; // position time of the report carrying the new ETA
+
+  @Prop()
+  eta?: string; // raw, as reported
+
+  @Prop({ type: Date, default: null })
+  etaAt: Date | null; // parsed, UTC; null when not available
+
+  @Prop({ type: Date, default: null })
+  previousEtaAt: Date | null;
+
+  @Prop()
+  destination?: string;
+
+  @Prop()
+  destinationLocode?: string;
+
+  @Prop({ required: true })
+  latitude: number;
+
+  @Prop({ required: true })
+  longitude: number;
+
+  @Prop()
+  source?: string;
+}
+
+export const EtaUpdateSchema = SchemaFactory.createForClass(EtaUpdate);
+
+EtaUpdateSchema.index({ mmsi: 1, reportedAt: -1 });
+EtaUpdateSchema.index({ destinationLocode: 1, reportedAt: -1 });
@@ -0,0 +1,48 @@
+// src/geofences/dto/query-geofence-events.dto.ts
+import {
+  IsDateString,
+  IsEnum,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class QueryGeofenceEventsDto {
+  @IsOptional()
+  @IsMongoId()
+  areaId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  mmsi?: number;
+
+  @IsOptional()
+  @IsEnum(['enter', 'exit', 'dwell'])
+  type?: 'enter' | 'exit' | 'dwell';
+
+  // ISO-8601, offset honoured; none = UTC
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
@@ -0,0 +1,27 @@
+// src/geofences/geofence-events.controller.ts
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { GeofenceService } from './geofence.service';
+import { QueryGeofenceEventsDto } from './dto/query-geofence-events.dto';
+
+@ApiTags('Geofence Events')
+@Controller('geofence-events')
+export class GeofenceEventsController {
+  constructor(private readonly geofenceService: GeofenceService) {}
+
+  /**
+   * 🚧 QUERY GEOFENCE EVENTS
+   * GET /api/geofence-events?areaId=&mmsi=&type=&startDate=&endDate=
+   */
+  @Get()
+  @ApiOperation({ summary: 'Query geofence enter/exit/dwell events' })
+  @ApiQuery({ type: QueryGeofenceEventsDto })
+  async queryEvents(@Query() queryDto: QueryGeofenceEventsDto) {
+    const result = await this.geofenceService.queryEvents(queryDto);
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  WatchedArea,
+  detectAreaTransition,
+  LastAreaEvent,
+} from './geofence-transitions';
+import type {
+  TrackedPosition,
+  VesselPositionUpdate,
+} from '../ais-data/ingest-hooks';
+
+describe('detectAreaTransition', () => {
+  const area: WatchedArea = {
+    id: 'harbour',
+    name: 'Harbour',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+          [0, 1],
+          [0, 0],
+        ],
+      ],
+    },
+    bounds: {
+      minLongitude: 0,
+      maxLongitude: 1,
+      minLatitude: 0,
+      maxLatitude: 1,
+    },
+  };
+  const dwellSeconds = 900;
+
+  const at = (
+    latitude: number,
+    longitude: number,
+    minute: number,
+  ): TrackedPosition => ({
+    mmsi: 123456789,
+    latitude,
+    longitude,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, minute)),
+  });
+
+  const update = (
+    previous: TrackedPosition | undefined,
+    current: TrackedPosition,
+  ): VesselPositionUpdate => ({ mmsi: current.mmsi, previous, current });
+
+  it('should emit enter when crossing into the area', () => {
+    const event = detectAreaTransition(
+      update(at(2, 2, 0), at(0.5, 0.5, 5)),
+      area,
+      undefined,
+      dwellSeconds,
+    );
+
+    expect(event).toMatchObject({
+      type: 'enter',
+      areaId: 'harbour',
+      enteredAt: new Date(Date.UTC(2024, 0, 1, 0, 5)),
+    });
+  });
+
+  it('should emit exit with time spent inside', () => {
+    const last: LastAreaEvent = {
+      type: 'enter',
+      timestamp: new Date(Date.UTC(2024, 0, 1, 0, 5)),
+      enteredAt: new Date(Date.UTC(2024, 0, 1, 0, 5)),
+    };
+
+    const event = detectAreaTransition(
+      update(at(0.5, 0.5, 10), at(2, 2, 25)),
+      area,
+      last,
+      dwellSeconds,
+    );
+
+    expect(event).toMatchObject({ type: 'exit', dwellSeconds: 1200 });
+  });
+
+  it('should emit dwell once after the dwell time', () => {
+    const entered: LastAreaEvent = {
+      type: 'enter',
+      timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0)),
+      enteredAt: new Date(Date.UTC(2024, 0, 1, 0, 0)),
+    };
+    const inside = update(at(0.5, 0.5, 10), at(0.6, 0.6, 20));
+
+    expect(
+      detectAreaTransition(
+        update(at(0.5, 0.5, 5), at(0.6, 0.6, 10)),
+        area,
+        entered,
+        dwellSeconds,
+      ),
+    ).toBeNull();
+    expect(
+      detectAreaTransition(inside, area, entered, dwellSeconds),
+    ).toMatchObject({ type: 'dwell', dwellSeconds: 1200 });
+    expect(
+      detectAreaTransition(
+        inside,
+        area,
+        { ...entered, type: 'dwell' },
+        dwellSeconds,
+      ),
+    ).toBeNull();
+  });
+
+  it('should treat a vessel already inside without an entry as entering', () => {
+    const event = detectAreaTransition(
+      update(at(0.5, 0.5, 0), at(0.6, 0.6, 5)),
+      area,
+      undefined,
+      dwellSeconds,
+    );
+
+    expect(event).toMatchObject({ type: 'enter' });
+  });
+
+  it('should ignore movement outside the area', () => {
+    expect(
+      detectAreaTransition(
+        update(at(2, 2, 0), at(3, 3, 5)),
+        area,
+        undefined,
+        dwellSeconds,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+// src/geofences/geofence-transitions.ts
+import { BoundingBox, isWithinBoundingBox } from '../common/geo/geo.util';
+import { PolygonGeometry, isPointInPolygon } from '../common/geo/polygon.util';
+import type {
+  TrackedPosition,
+  VesselPositionUpdate,
+} from '../ais-data/ingest-hooks';
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+export interface WatchedArea {
+  id: string;
+  name: string;
+  geometry: PolygonGeometry;
+  bounds: BoundingBox;
+}
+
+// ✅ Latest stored event for a vessel/area pair
+export interface LastAreaEvent {
+  type: GeofenceEventType;
+  timestamp: Date;
+  enteredAt?: Date;
+}
+
+export interface DetectedGeofenceEvent {
+  type: GeofenceEventType;
+  mmsi: number;
+  areaId: string;
+  areaName: string;
+  timestamp: Date; // position report time
+  enteredAt?: Date;
+  dwellSeconds?: number; // dwell and exit
+  position: TrackedPosition;
+}
+
+export function isInsideArea(
+  position: { latitude: number; longitude: number },
+  area: WatchedArea,
+): boolean {
+  return (
+    isWithinBoundingBox(position.latitude, position.longitude, area.bounds) &&
+    isPointInPolygon(position.latitude, position.longitude, area.geometry)
+  );
+}
+
+/**
+ * Compare one position update against one area.
+ * - outside -> inside: enter
+ * - inside -> outside: exit, with time spent inside when the entry is known
+ * - inside -> inside: dwell once, when inside for `dwellSeconds` since entry
+ * A vessel already inside without a stored entry (area created or detection
+ * started mid-stay) gets an enter at its current report. Crossings between
+ * two reports are not seen.
+ */
+export function detectAreaTransition(
+  update: VesselPositionUpdate,
+  area: WatchedArea,
+  last: LastAreaEvent | undefined,
+  dwellSeconds: number,
+): DetectedGeofenceEvent | null {
+  const wasInside = update.previous
+    ? isInsideArea(update.previous, area)
+    : false;
+  const inside = isInsideArea(update.current, area);
+  const timestamp = update.current.timestamp;
+  const base = {
+    mmsi: update.mmsi,
+    areaId: area.id,
+    areaName: area.name,
+    timestamp,
+    position: update.current,
+  };
+
+  const enteredAt =
+    last && last.type !== 'exit'
+      ? (last.enteredAt ?? last.timestamp)
+      : undefined;
+
+  if (inside && (!wasInside || !enteredAt)) {
+    return { ...base, type: 'enter', enteredAt: timestamp };
+  }
+
+  if (!inside && wasInside) {
+    return {
+      ...base,
+      type: 'exit',
+      enteredAt,
+      dwellSeconds: enteredAt
+        ? secondsBetween(enteredAt, timestamp)
+        : undefined,
+    };
+  }
+
+  if (inside && last?.type === 'enter' && enteredAt) {
+    const insideSeconds = secondsBetween(enteredAt, timestamp);
+    if (insideSeconds >= dwellSeconds) {
+      return {
+        ...base,
+        type: 'dwell',
+        enteredAt,
+        dwellSeconds: insideSeconds,
+      };
+    }
+  }
+
+  return null;
+}
+
+function secondsBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / 1000);
+}
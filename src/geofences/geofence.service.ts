@@ -0,0 +1,243 @@
+// src/geofences/geofence.service.ts
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import {
+  GeofenceEvent,
+  GeofenceEventDocument,
+} from './schemas/geofence-event.schema';
+import { QueryGeofenceEventsDto } from './dto/query-geofence-events.dto';
+import {
+  DetectedGeofenceEvent,
+  LastAreaEvent,
+  WatchedArea,
+  detectAreaTransition,
+  isInsideArea,
+} from './geofence-transitions';
+import { AisDataService } from '../ais-data/ais-data.service';
+import {
+  PositionIngestHook,
+  VesselPositionUpdate,
+} from '../ais-data/ingest-hooks';
+import { PoiAreasService } from '../poi-areas/poi-areas.service';
+import { parseApiDate } from '../common/time/timezone.util';
+import { VesselTrackingGateway } from '../websocket/vessel-tracking.gateway';
+
+/**
+ * 🚧 GEOFENCE DETECTOR
+ * Ingest hook comparing each accepted position with the previous one
+ * against saved POI areas (geofence: true). Writes enter/exit/dwell
+ * events to geofence_events and emits them as `geofence_event`.
+ */
+@Injectable()
+export class GeofenceService implements PositionIngestHook, OnModuleInit {
+  readonly name = 'geofence';
+  private readonly logger = new Logger(GeofenceService.name);
+  private readonly enabled: boolean;
+  private readonly dwellSeconds: number;
+  private readonly areaCacheMs: number;
+  private areaCache: { areas: WatchedArea[]; loadedAt: number } | null = null;
+
+  constructor(
+    @InjectModel(GeofenceEvent.name)
+    private readonly geofenceEventModel: Model<GeofenceEventDocument>,
+    private readonly aisDataService: AisDataService,
+    private readonly poiAreasService: PoiAreasService,
+    private readonly configService: ConfigService,
+    private readonly vesselTrackingGateway?: VesselTrackingGateway, // Optional injection
+  ) {
+    this.enabled =
+      this.configService.get<string>('GEOFENCE_ENABLED', 'true') !== 'false';
+    this.dwellSeconds = Number(
+      this.configService.get<string>('GEOFENCE_DWELL_SECONDS', '900'),
+    );
+    // ✅ Saved areas are re-read at most this often on the ingest path
+    this.areaCacheMs =
+      Number(
+        this.configService.get<string>('GEOFENCE_AREA_CACHE_SECONDS', '60'),
+      ) * 1000;
+  }
+
+  onModuleInit(): void {
+    if (this.enabled) {
+      this.aisDataService.registerIngestHook(this);
+    }
+  }
+
+  async onPositions(updates: VesselPositionUpdate[]): Promise<void> {
+    const areas = await this.getWatchedAreas();
+    if (areas.length === 0) return;
+
+    const lastEvents = await this.loadLastEvents(updates, areas);
+    const detected: DetectedGeofenceEvent[] = [];
+
+    // ✅ Updates are oldest first, so several reports per vessel chain correctly
+    for (const update of updates) {
+      for (const area of areas) {
+        const key = `${update.mmsi}:${area.id}`;
+        const event = detectAreaTransition(
+          update,
+          area,
+          lastEvents.get(key),
+          this.dwellSeconds,
+        );
+        if (!event) continue;
+
+        detected.push(event);
+        lastEvents.set(key, {
+          type: event.type,
+          timestamp: event.timestamp,
+          enteredAt: event.enteredAt,
+        });
+      }
+    }
+
+    if (detected.length === 0) return;
+
+    const records = detected.map((event) => this.toRecord(event));
+    await this.geofenceEventModel.insertMany(records, { ordered: false });
+    this.vesselTrackingGateway?.broadcastGeofenceEvents(records);
+
+    this.logger.log(
+      `🚧 ${detected.length} geofence events (${this.countByType(detected)})`,
+    );
+  }
+
+  /**
+   * 📚 QUERY EVENTS - newest first
+   */
+  async queryEvents(queryDto: QueryGeofenceEventsDto) {
+    const {
+      areaId,
+      mmsi,
+      type,
+      startDate,
+      endDate,
+      page = 1,
+      limit = 100,
+    } = queryDto;
+
+    const query: Record<string, any> = {};
+    if (areaId) query.areaId = areaId;
+    if (mmsi) query.mmsi = mmsi;
+    if (type) query.type = type;
+    if (startDate || endDate) {
+      const timestamp: Record<string, Date | null> = {};
+      if (startDate) timestamp.$gte = parseApiDate(startDate);
+      if (endDate) timestamp.$lte = parseApiDate(endDate);
+      query.timestamp = timestamp;
+    }
+
+    const [events, total] = await Promise.all([
+      this.geofenceEventModel
+        .find(query)
+        .sort({ timestamp: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.geofenceEventModel.countDocuments(query),
+    ]);
+
+    return {
+      data: events,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  private async getWatchedAreas(): Promise<WatchedArea[]> {
+    if (
+      this.areaCache &&
+      Date.now() - this.areaCache.loadedAt < this.areaCacheMs
+    ) {
+      return this.areaCache.areas;
+    }
+
+    const areas = await this.poiAreasService.findWatchedAreas();
+    this.areaCache = { areas, loadedAt: Date.now() };
+    return areas;
+  }
+
+  /**
+   * Latest stored event for every vessel/area pair the previous position was inside
+   */
+  private async loadLastEvents(
+    updates: VesselPositionUpdate[],
+    areas: WatchedArea[],
+  ): Promise<Map<string, LastAreaEvent>> {
+    const pairs = new Map<string, { mmsi: number; areaId: string }>();
+    for (const { mmsi, previous } of updates) {
+      if (!previous) continue;
+      for (const area of areas) {
+        if (isInsideArea(previous, area)) {
+          pairs.set(`${mmsi}:${area.id}`, { mmsi, areaId: area.id });
+        }
+      }
+    }
+
+    const lastEvents = new Map<string, LastAreaEvent>();
+    if (pairs.size === 0) return lastEvents;
+
+    const latest = await this.geofenceEventModel.aggregate<{
+      _id: { mmsi: number; areaId: string };
+      type: LastAreaEvent['type'];
+      timestamp: Date;
+      enteredAt?: Date;
+    }>([
+      { $match: { $or: [...pairs.values()] } },
+      { $sort: { timestamp: -1 } },
+      {
+        $group: {
+          _id: { mmsi: '$mmsi', areaId: '$areaId' },
+          type: { $first: '$type' },
+          timestamp: { $first: '$timestamp' },
+          enteredAt: { $first: '$enteredAt' },
+        },
+      },
+    ]);
+
+    latest.forEach(({ _id, type, timestamp, enteredAt }) => {
+      lastEvents.set(`${_id.mmsi}:${_id.areaId}`, {
+        type,
+        timestamp,
+        enteredAt,
+      });
+    });
+    return lastEvents;
+  }
+
+  private toRecord(event: DetectedGeofenceEvent): GeofenceEvent {
+    const { position } = event;
+    return {
+      type: event.type,
+      mmsi: event.mmsi,
+      vesselName: position.name,
+      areaId: event.areaId,
+      areaName: event.areaName,
+      timestamp: event.timestamp,
+      enteredAt: event.enteredAt,
+      dwellSeconds: event.dwellSeconds,
+      latitude: position.latitude,
+      longitude: position.longitude,
+      speed: position.speed,
+      course: position.course,
+      source: position.source,
+    };
+  }
+
+  private countByType(events: DetectedGeofenceEvent[]): string {
+    const counts = new Map<string, number>();
+    events.forEach((event) =>
+      counts.set(event.type, (counts.get(event.type) ?? 0) + 1),
+    );
+    return [...counts].map(([type, count]) => `${type}: ${count}`).join(', ');
+  }
+}
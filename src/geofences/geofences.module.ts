@@ -0,0 +1,27 @@
+// src/geofences/geofences.module.ts
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  GeofenceEvent,
+  GeofenceEventSchema,
+} from './schemas/geofence-event.schema';
+import { GeofenceService } from './geofence.service';
+import { GeofenceEventsController } from './geofence-events.controller';
+import { AisDataModule } from '../ais-data/ais-data.module';
+import { PoiAreasModule } from '../poi-areas/poi-areas.module';
+import { WebSocketModule } from '../websocket/websocket.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: GeofenceEvent.name, schema: GeofenceEventSchema },
+    ]),
+    AisDataModule,
+    PoiAreasModule,
+    WebSocketModule,
+  ],
+  controllers: [GeofenceEventsController],
+  providers: [GeofenceService],
+  exports: [GeofenceService],
+})
+export class GeofencesModule {}
@@ -0,0 +1,56 @@
+// src/geofences/schemas/geofence-event.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type GeofenceEventDocument = GeofenceEvent & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'geofence_events',
+})
+export class GeofenceEvent {
+  @Prop({ required: true, enum: ['enter', 'exit', 'dwell'] })
+  type: 'enter' | 'exit' | 'dwell';
+
+  @Prop({ required: true })
+  mmsi: number;
+
+  @Prop()
+  vesselName?: string;
+
+  @Prop({ required: true })
+  areaId: string; // poi_areas _id
+
+  @Prop({ required: true })
+  areaName: string;
+
+  @Prop({ required: true })
+  timestamp: Date; // position report that triggered the event
+
+  @Prop()
+  enteredAt?: Date; // start of the stay, for dwell/exit
+
+  @Prop()
+  dwellSeconds?: number;
+
+  @Prop({ required: true })
+  latitude: number;
+
+  @Prop({ required: true })
+  longitude: number;
+
+  @Prop()
+  speed?: number;
+
+  @Prop()
+  course?: number;
+
+  @Prop()
+  source?: string;
+}
+
+export const GeofenceEventSchema = SchemaFactory.createForClass(GeofenceEvent);
+
+GeofenceEventSchema.index({ mmsi: 1, areaId: 1, timestamp: -1 });
+GeofenceEventSchema.index({ areaId: 1, timestamp: -1 });
+GeofenceEventSchema.index({ type: 1, timestamp: -1 });
@@ -0,0 +1,76 @@
+// src/loitering/dto/loitering.dto.ts
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import type { LoiteringBehaviour } from '../loitering-detector';
+
+export class QueryLoiteringEpisodesDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  mmsi?: number;
+
+  // Episodes whose centroid lies inside a saved POI area
+  @IsOptional()
+  @IsMongoId()
+  areaId?: string;
+
+  @IsOptional()
+  @IsEnum(['loitering', 'drifting'])
+  behaviour?: LoiteringBehaviour;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  ongoing?: boolean;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minDurationMinutes?: number;
+
+  // ISO-8601, offset honoured; none = UTC. Episodes overlapping the window.
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
+
+export class AnalyzeLoiteringDto {
+  // One vessel, or every vessel reporting at low speed in the window
+  @IsOptional()
+  @IsNumber()
+  mmsi?: number;
+
+  // ISO-8601, offset honoured; none = UTC
+  @IsDateString()
+  startDate: string;
+
+  @IsDateString()
+  endDate: string;
+}
@@ -0,0 +1,93 @@
+import {
+  LoiteringOptions,
+  TrackPoint,
+  detectLoiteringEpisodes,
+  sphericalCentroid,
+} from './loitering-detector';
+
+describe('loitering-detector', () => {
+  const options: LoiteringOptions = {
+    maxSpeedKnots: 3,
+    maxRadiusMeters: 3704, // 2 nm
+    minDurationSeconds: 2 * 3600,
+    maxReportGapSeconds: 3600,
+  };
+
+  // ✅ One report every 10 minutes from 00:00 UTC
+  const track = (
+    count: number,
+    point: (i: number) => Partial<TrackPoint>,
+    startMinute = 0,
+  ): TrackPoint[] =>
+    Array.from({ length: count }, (_, i) => ({
+      latitude: -6,
+      longitude: 107,
+      speed: 1,
+      timestamp: new Date(Date.UTC(2024, 0, 1, 0, startMinute + i * 10)),
+      ...point(i),
+    }));
+
+  it('should find a slow, compact episode of the minimum duration', () => {
+    const points = track(19, (i) => ({
+      latitude: -6 + (i % 2) * 0.005,
+    }));
+
+    const [episode, ...rest] = detectLoiteringEpisodes(points, options);
+
+    expect(rest).toHaveLength(0);
+    expect(episode.durationSeconds).toBe(3 * 3600);
+    expect(episode.positions).toBe(19);
+    expect(episode.behaviour).toBe('loitering');
+    expect(episode.centroid.latitude).toBeCloseTo(-5.9976, 3);
+  });
+
+  it('should ignore fast tracks and short stops', () => {
+    expect(
+      detectLoiteringEpisodes(
+        track(30, () => ({ speed: 12 })),
+        options,
+      ),
+    ).toHaveLength(0);
+    expect(
+      detectLoiteringEpisodes(
+        track(6, () => ({})),
+        options,
+      ),
+    ).toHaveLength(0);
+  });
+
+  it('should split episodes on excluded areas and long report gaps', () => {
+    const inPort = track(30, () => ({}));
+    expect(
+      detectLoiteringEpisodes(
+        inPort,
+        options,
+        (point) => point.longitude === 107,
+      ),
+    ).toHaveLength(0);
+
+    const gapped = [...track(10, () => ({})), ...track(10, () => ({}), 240)];
+    expect(detectLoiteringEpisodes(gapped, options)).toHaveLength(0);
+  });
+
+  it('should report slow steady movement as drifting', () => {
+    // ~0.3 nm per report, 13 reports = ~3.6 nm end to end
+    const drifting = track(13, (i) => ({ latitude: -6 + i * 0.005, speed: 2 }));
+    const [episode] = detectLoiteringEpisodes(drifting, {
+      ...options,
+      maxRadiusMeters: 5000,
+    });
+
+    expect(episode.behaviour).toBe('drifting');
+    expect(episode.driftMeters).toBeGreaterThan(5000);
+  });
+
+  it('should average positions across the antimeridian', () => {
+    const centroid = sphericalCentroid([
+      { latitude: 0, longitude: 179.9, timestamp: new Date() },
+      { latitude: 0, longitude: -179.9, timestamp: new Date() },
+    ]);
+
+    expect(Math.abs(centroid.longitude)).toBeCloseTo(180, 5);
+  });
+});
@@ -0,0 +1,177 @@
+// src/loitering/loitering-detector.ts
+import { haversineDistanceMeters, toRadians } from '../common/geo/geo.util';
+
+export type LoiteringBehaviour = 'loitering' | 'drifting';
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  speed?: number;
+}
+
+export interface LoiteringOptions {
+  maxSpeedKnots: number; // SOG at or below counts as lingering
+  maxRadiusMeters: number; // all points within this of the centroid
+  minDurationSeconds: number;
+  maxReportGapSeconds: number; // longer silence splits an episode
+}
+
+export interface LoiteringEpisodeCandidate {
+  startedAt: Date;
+  endedAt: Date;
+  durationSeconds: number;
+  centroid: { latitude: number; longitude: number };
+  radiusMeters: number; // farthest point from the centroid
+  driftMeters: number; // first to last point
+  behaviour: LoiteringBehaviour;
+  positions: number;
+  averageSpeed: number;
+  maxSpeed: number;
+}
+
+/**
+ * Centroid on the sphere (mean of unit vectors), safe across the antimeridian
+ */
+export function sphericalCentroid(points: TrackPoint[]): {
+  latitude: number;
+  longitude: number;
+} {
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  for (const point of points) {
+    const lat = toRadians(point.latitude);
+    const lon = toRadians(point.longitude);
+    x += Math.cos(lat) * Math.cos(lon);
+    y += Math.cos(lat) * Math.sin(lon);
+    z += Math.sin(lat);
+  }
+
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+  return {
+    latitude: toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+    longitude: toDegrees(Math.atan2(y, x)),
+  };
+}
+
+/**
+ * Find loitering episodes in one vessel's track (oldest first): runs of
+ * consecutive low-speed reports, none inside an excluded area (ports,
+ * anchorages), that stay within `maxRadiusMeters` of their centroid for
+ * at least `minDurationSeconds`. A point leaving the radius drops the
+ * oldest points of a run that has not qualified yet, so slow drift is
+ * followed; a qualified run is closed there instead. An episode whose
+ * net first-to-last movement reaches the radius is reported as drifting.
+ */
+export function detectLoiteringEpisodes(
+  track: TrackPoint[],
+  options: LoiteringOptions,
+  isExcluded: (point: TrackPoint) => boolean = () => false,
+): LoiteringEpisodeCandidate[] {
+  const episodes: LoiteringEpisodeCandidate[] = [];
+  let run: TrackPoint[] = [];
+
+  const duration = (points: TrackPoint[]) =>
+    points.length < 2
+      ? 0
+      : (points[points.length - 1].timestamp.getTime() -
+          points[0].timestamp.getTime()) /
+        1000;
+
+  const closeRun = () => {
+    if (duration(run) >= options.minDurationSeconds) {
+      episodes.push(toEpisode(run, options));
+    }
+    run = [];
+  };
+
+  for (const point of track) {
+    const lingering =
+      Number(point.speed ?? 0) <= options.maxSpeedKnots && !isExcluded(point);
+    if (!lingering) {
+      closeRun();
+      continue;
+    }
+
+    const last = run[run.length - 1];
+    if (
+      last &&
+      (point.timestamp.getTime() - last.timestamp.getTime()) / 1000 >
+        options.maxReportGapSeconds
+    ) {
+      closeRun();
+    }
+
+    const qualified = duration(run) >= options.minDurationSeconds;
+    run.push(point);
+    if (maxDistanceFromCentroid(run) <= options.maxRadiusMeters) continue;
+
+    if (qualified) {
+      run.pop();
+      closeRun();
+      run = [point];
+      continue;
+    }
+    while (
+      run.length > 1 &&
+      maxDistanceFromCentroid(run) > options.maxRadiusMeters
+    ) {
+      run.shift();
+    }
+  }
+  closeRun();
+
+  return episodes;
+}
+
+function maxDistanceFromCentroid(points: TrackPoint[]): number {
+  const centroid = sphericalCentroid(points);
+  return points.reduce(
+    (max, point) =>
+      Math.max(
+        max,
+        haversineDistanceMeters(
+          centroid.latitude,
+          centroid.longitude,
+          point.latitude,
+          point.longitude,
+        ),
+      ),
+    0,
+  );
+}
+
+function toEpisode(
+  points: TrackPoint[],
+  options: LoiteringOptions,
+): LoiteringEpisodeCandidate {
+  const first = points[0];
+  const last = points[points.length - 1];
+  const speeds = points.map((point) => Number(point.speed ?? 0));
+  const driftMeters = haversineDistanceMeters(
+    first.latitude,
+    first.longitude,
+    last.latitude,
+    last.longitude,
+  );
+
+  return {
+    startedAt: first.timestamp,
+    endedAt: last.timestamp,
+    durationSeconds: Math.round(
+      (last.timestamp.getTime() - first.timestamp.getTime()) / 1000,
+    ),
+    centroid: sphericalCentroid(points),
+    radiusMeters: Math.round(maxDistanceFromCentroid(points)),
+    driftMeters: Math.round(driftMeters),
+    behaviour:
+      driftMeters >= options.maxRadiusMeters ? 'drifting' : 'loitering',
+    positions: points.length,
+    averageSpeed:
+      Math.round(
+        (speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length) * 10,
+      ) / 10,
+    maxSpeed: speeds.reduce((max, speed) => Math.max(max, speed), 0),
+  };
+}
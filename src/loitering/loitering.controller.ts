@@ -0,0 +1,55 @@
+// src/loitering/loitering.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { LoiteringService } from './loitering.service';
+import {
+  AnalyzeLoiteringDto,
+  QueryLoiteringEpisodesDto,
+} from './dto/loitering.dto';
+
+@ApiTags('Loitering')
+@Controller('loitering-episodes')
+export class LoiteringController {
+  constructor(private readonly loiteringService: LoiteringService) {}
+
+  /**
+   * 🌀 QUERY EPISODES
+   * GET /api/loitering-episodes?mmsi=&areaId=&behaviour=drifting&ongoing=true
+   */
+  @Get()
+  @ApiOperation({ summary: 'Query loitering and drifting episodes' })
+  @ApiQuery({ type: QueryLoiteringEpisodesDto })
+  async queryEpisodes(@Query() queryDto: QueryLoiteringEpisodesDto) {
+    const result = await this.loiteringService.queryEpisodes(queryDto);
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * ⏪ ANALYZE HISTORY
+   * POST /api/loitering-episodes/analyze { mmsi?, startDate, endDate }
+   */
+  @Post('analyze')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Detect loitering episodes in vessel_logs over a past window',
+  })
+  async analyze(@Body() dto: AnalyzeLoiteringDto) {
+    return {
+      success: true,
+      data: await this.loiteringService.analyzeHistory(dto),
+      timestamp: new Date(),
+    };
+  }
+}
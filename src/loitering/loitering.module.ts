@@ -0,0 +1,30 @@
+// src/loitering/loitering.module.ts
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  LoiteringEpisode,
+  LoiteringEpisodeSchema,
+} from './schemas/loitering-episode.schema';
+import { LoiteringService } from './loitering.service';
+import { LoiteringController } from './loitering.controller';
+import {
+  VesselLog,
+  VesselLogSchema,
+} from '../ais-data/schemas/vessel-log.schema';
+import { AisDataModule } from '../ais-data/ais-data.module';
+import { PoiAreasModule } from '../poi-areas/poi-areas.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LoiteringEpisode.name, schema: LoiteringEpisodeSchema },
+      { name: VesselLog.name, schema: VesselLogSchema },
+    ]),
+    AisDataModule,
+    PoiAreasModule,
+  ],
+  controllers: [LoiteringController],
+  providers: [LoiteringService],
+  exports: [LoiteringService],
+})
+export class LoiteringModule {}
@@ -0,0 +1,394 @@
+// src/loitering/loitering.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import {
+  LoiteringEpisode,
+  LoiteringEpisodeDocument,
+} from './schemas/loitering-episode.schema';
+import {
+  AnalyzeLoiteringDto,
+  QueryLoiteringEpisodesDto,
+} from './dto/loitering.dto';
+import {
+  LoiteringEpisodeCandidate,
+  LoiteringOptions,
+  detectLoiteringEpisodes,
+} from './loitering-detector';
+import {
+  VesselLog,
+  VesselLogDocument,
+} from '../ais-data/schemas/vessel-log.schema';
+import { AisDataService } from '../ais-data/ais-data.service';
+import {
+  PositionIngestHook,
+  VesselPositionUpdate,
+} from '../ais-data/ingest-hooks';
+import { PoiAreasService } from '../poi-areas/poi-areas.service';
+import { NAUTICAL_MILE_METERS, toGeoJsonPoint } from '../common/geo/geo.util';
+import { parseApiDate } from '../common/time/timezone.util';
+import { WatchedArea, isInsideArea } from '../geofences/geofence-transitions';
+
+export interface LoiteringAnalysisResult {
+  vessels: number;
+  episodes: number;
+}
+
+/**
+ * 🌀 LOITERING DETECTION
+ * Finds vessels lingering at low speed in open water (outside POI areas
+ * tagged as ports/anchorages) in vessel_logs tracks. Runs on demand over
+ * history, and every 10 minutes over the live window for vessels the
+ * ingest hook saw at low speed. Episodes are stored in loitering_episodes.
+ */
+@Injectable()
+export class LoiteringService implements PositionIngestHook, OnModuleInit {
+  readonly name = 'loitering';
+  private readonly logger = new Logger(LoiteringService.name);
+  private readonly enabled: boolean;
+  private readonly options: LoiteringOptions;
+  private readonly excludeTags: string[];
+  private readonly liveWindowMs: number;
+  private readonly maxAnalyzeDays: number;
+  private readonly pendingMmsis = new Set<number>();
+  private running = false;
+
+  constructor(
+    @InjectModel(LoiteringEpisode.name)
+    private readonly episodeModel: Model<LoiteringEpisodeDocument>,
+    @InjectModel(VesselLog.name)
+    private readonly vesselLogModel: Model<VesselLogDocument>,
+    private readonly aisDataService: AisDataService,
+    private readonly poiAreasService: PoiAreasService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>('LOITERING_ENABLED', 'true') !== 'false';
+    this.options = {
+      maxSpeedKnots: Number(
+        this.configService.get<string>('LOITERING_MAX_SPEED_KNOTS', '3'),
+      ),
+      maxRadiusMeters:
+        Number(this.configService.get<string>('LOITERING_RADIUS_NM', '2')) *
+        NAUTICAL_MILE_METERS,
+      minDurationSeconds:
+        Number(
+          this.configService.get<string>(
+            'LOITERING_MIN_DURATION_MINUTES',
+            '120',
+          ),
+        ) * 60,
+      maxReportGapSeconds:
+        Number(
+          this.configService.get<string>(
+            'LOITERING_MAX_REPORT_GAP_MINUTES',
+            '60',
+          ),
+        ) * 60,
+    };
+    // ✅ Saved POI areas with these tags are ports/anchorages, not open water
+    this.excludeTags = this.configService
+      .get<string>('LOITERING_EXCLUDE_TAGS', 'port,anchorage')
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    this.liveWindowMs =
+      Number(
+        this.configService.get<string>('LOITERING_LIVE_WINDOW_HOURS', '24'),
+      ) *
+      3600 *
+      1000;
+    this.maxAnalyzeDays = Number(
+      this.configService.get<string>('LOITERING_MAX_ANALYZE_DAYS', '31'),
+    );
+  }
+
+  onModuleInit(): void {
+    if (this.enabled) {
+      this.aisDataService.registerIngestHook(this);
+    }
+  }
+
+  /**
+   * Remember vessels at low speed (or just leaving it) for the next live run
+   */
+  onPositions(updates: VesselPositionUpdate[]): Promise<void> {
+    for (const { mmsi, previous, current } of updates) {
+      if (this.isSlow(current) || (previous && this.isSlow(previous))) {
+        this.pendingMmsis.add(mmsi);
+      }
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * 🕐 LIVE DETECTION - every 10 minutes, vessels seen at low speed since
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'loitering-detection' })
+  async handleLiveDetection(): Promise<void> {
+    if (!this.enabled || this.running) return;
+
+    this.running = true;
+    try {
+      const now = new Date();
+      const mmsis = [...this.pendingMmsis];
+      this.pendingMmsis.clear();
+
+      const areas = await this.loadExcludedAreas();
+      let episodes = 0;
+      for (const mmsi of mmsis) {
+        episodes += await this.analyzeVessel(
+          mmsi,
+          new Date(now.getTime() - this.liveWindowMs),
+          now,
+          areas,
+          true,
+        );
+      }
+
+      // ✅ Vessels that went silent mid-episode are no longer lingering
+      const stale = await this.episodeModel.updateMany(
+        {
+          ongoing: true,
+          endedAt: {
+            $lt: new Date(
+              now.getTime() - this.options.maxReportGapSeconds * 1000,
+            ),
+          },
+        },
+        { $set: { ongoing: false } },
+      );
+
+      if (episodes > 0 || stale.modifiedCount > 0) {
+        this.logger.log(
+          `🌀 Loitering: ${episodes} episodes from ${mmsis.length} vessels, ${stale.modifiedCount} ended by silence`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        'Live loitering detection failed',
+        (error as Error).stack,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * ⏪ HISTORICAL ANALYSIS - one vessel or all slow vessels in the window
+   */
+  async analyzeHistory(
+    dto: AnalyzeLoiteringDto,
+  ): Promise<LoiteringAnalysisResult> {
+    const from = parseApiDate(dto.startDate);
+    const to = parseApiDate(dto.endDate);
+    if (!from || !to || from >= to) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+    if (to.getTime() - from.getTime() > this.maxAnalyzeDays * 86400 * 1000) {
+      throw new BadRequestException(
+        `Analysis window is limited to ${this.maxAnalyzeDays} days`,
+      );
+    }
+
+    const mmsis: number[] = dto.mmsi
+      ? [dto.mmsi]
+      : await this.vesselLogModel.distinct('mmsi', {
+          status: 'archived',
+          timestamp: { $gte: from, $lte: to },
+          speed: { $lte: this.options.maxSpeedKnots },
+        });
+
+    const areas = await this.loadExcludedAreas();
+    let episodes = 0;
+    for (const mmsi of mmsis) {
+      episodes += await this.analyzeVessel(mmsi, from, to, areas, false);
+    }
+
+    this.logger.log(
+      `🌀 Historical loitering analysis: ${episodes} episodes from ${mmsis.length} vessels`,
+    );
+    return { vessels: mmsis.length, episodes };
+  }
+
+  /**
+   * 📚 QUERY EPISODES - newest first
+   */
+  async queryEpisodes(queryDto: QueryLoiteringEpisodesDto) {
+    const {
+      mmsi,
+      areaId,
+      behaviour,
+      ongoing,
+      minDurationMinutes,
+      startDate,
+      endDate,
+      page = 1,
+      limit = 100,
+    } = queryDto;
+
+    const query: Record<string, any> = {};
+    if (mmsi) query.mmsi = mmsi;
+    if (behaviour) query.behaviour = behaviour;
+    if (ongoing !== undefined) query.ongoing = ongoing;
+    if (minDurationMinutes !== undefined) {
+      query.durationSeconds = { $gte: minDurationMinutes * 60 };
+    }
+    if (areaId) {
+      const geometry = await this.poiAreasService.getGeometry(areaId);
+      query.location = { $geoWithin: { $geometry: geometry } };
+    }
+    // ✅ Overlap with the window, so long episodes are not missed
+    if (startDate) query.endedAt = { $gte: parseApiDate(startDate) };
+    if (endDate) query.startedAt = { $lte: parseApiDate(endDate) };
+
+    const [episodes, total] = await Promise.all([
+      this.episodeModel
+        .find(query)
+        .sort({ startedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.episodeModel.countDocuments(query),
+    ]);
+
+    return {
+      data: episodes,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  private async analyzeVessel(
+    mmsi: number,
+    from: Date,
+    to: Date,
+    areas: WatchedArea[],
+    live: boolean,
+  ): Promise<number> {
+    // ✅ Live runs reach back to the start of an ongoing episode
+    if (live) {
+      const ongoing = await this.episodeModel
+        .findOne({ mmsi, ongoing: true })
+        .select('startedAt')
+        .lean<Pick<LoiteringEpisode, 'startedAt'>>();
+      if (ongoing && ongoing.startedAt < from) from = ongoing.startedAt;
+    }
+
+    const track = await this.vesselLogModel
+      .find({ mmsi, status: 'archived', timestamp: { $gte: from, $lte: to } })
+      .sort({ timestamp: 1 })
+      .select(
+        'latitude longitude timestamp speed name vesselType flag callSign imo source',
+      )
+      .lean<VesselLog[]>();
+    if (track.length === 0) return 0;
+
+    const candidates = detectLoiteringEpisodes(track, this.options, (point) =>
+      areas.some((area) => isInsideArea(point, area)),
+    );
+    const latest = track[track.length - 1];
+
+    for (const candidate of candidates) {
+      const ongoing =
+        live &&
+        candidate.endedAt.getTime() === latest.timestamp.getTime() &&
+        to.getTime() - candidate.endedAt.getTime() <=
+          this.options.maxReportGapSeconds * 1000;
+      await this.saveEpisode(mmsi, candidate, latest, ongoing);
+    }
+
+    // ✅ Vessel sped up or entered a port since: its episode is over
+    if (live) {
+      await this.episodeModel.updateMany(
+        {
+          mmsi,
+          ongoing: true,
+          endedAt: { $lt: latest.timestamp },
+        },
+        { $set: { ongoing: false } },
+      );
+    }
+    return candidates.length;
+  }
+
+  /**
+   * Upsert by overlap: re-runs and the sliding live window find the same
+   * episode again, possibly longer
+   */
+  private async saveEpisode(
+    mmsi: number,
+    candidate: LoiteringEpisodeCandidate,
+    vessel: VesselLog,
+    ongoing: boolean,
+  ): Promise<void> {
+    const existing = await this.episodeModel
+      .findOne({
+        mmsi,
+        startedAt: { $lte: candidate.endedAt },
+        endedAt: { $gte: candidate.startedAt },
+      })
+      .sort({ startedAt: 1 })
+      .exec();
+
+    const fields: LoiteringEpisode = {
+      mmsi,
+      vesselName: vessel.name,
+      vesselType: vessel.vesselType,
+      flag: vessel.flag,
+      callSign: vessel.callSign,
+      imo: vessel.imo,
+      behaviour: candidate.behaviour,
+      startedAt: candidate.startedAt,
+      endedAt: candidate.endedAt,
+      durationSeconds: candidate.durationSeconds,
+      ongoing,
+      latitude: candidate.centroid.latitude,
+      longitude: candidate.centroid.longitude,
+      location: toGeoJsonPoint(
+        candidate.centroid.latitude,
+        candidate.centroid.longitude,
+      ),
+      radiusMeters: candidate.radiusMeters,
+      driftMeters: candidate.driftMeters,
+      positions: candidate.positions,
+      averageSpeed: candidate.averageSpeed,
+      maxSpeed: candidate.maxSpeed,
+      source: vessel.source,
+    };
+
+    if (!existing) {
+      await this.episodeModel.create(fields);
+      return;
+    }
+    // ✅ A shorter re-detection (narrower window) does not shrink the episode
+    if (candidate.durationSeconds >= existing.durationSeconds) {
+      existing.set(fields);
+    } else {
+      existing.set({ ongoing });
+    }
+    await existing.save();
+  }
+
+  private async loadExcludedAreas(): Promise<WatchedArea[]> {
+    return this.poiAreasService.findWatchedAreas(this.excludeTags);
+  }
+
+  private isSlow(position: { speed?: number }): boolean {
+    return Number(position.speed ?? 0) <= this.options.maxSpeedKnots;
+  }
+}
@@ -0,0 +1,85 @@
+// src/loitering/schemas/loitering-episode.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import {
+  GeoPoint,
+  GeoPointSchema,
+} from '../../ais-data/schemas/geo-point.schema';
+
+export type LoiteringEpisodeDocument = LoiteringEpisode & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'loitering_episodes',
+})
+export class LoiteringEpisode {
+  @Prop({ required: true })
+  mmsi: number;
+
+  @Prop()
+  vesselName?: string;
+
+  @Prop()
+  vesselType?: number;
+
+  @Prop()
+  flag?: string;
+
+  @Prop()
+  callSign?: string;
+
+  @Prop()
+  imo?: string;
+
+  @Prop({ required: true, enum: ['loitering', 'drifting'] })
+  behaviour: 'loitering' | 'drifting';
+
+  @Prop({ required: true })
+  startedAt: Date;
+
+  @Prop({ required: true })
+  endedAt: Date; // latest report in the episode so far
+
+  @Prop({ required: true })
+  durationSeconds: number;
+
+  @Prop({ default: false })
+  ongoing: boolean; // live detection: still lingering at the last report
+
+  @Prop({ required: true })
+  latitude: number; // centroid
+
+  @Prop({ required: true })
+  longitude: number;
+
+  @Prop({ type: GeoPointSchema })
+  location?: GeoPoint; // ✅ Centroid as GeoJSON, for area queries
+
+  @Prop({ required: true })
+  radiusMeters: number;
+
+  @Prop({ required: true })
+  driftMeters: number;
+
+  @Prop({ required: true })
+  positions: number;
+
+  @Prop()
+  averageSpeed?: number;
+
+  @Prop()
+  maxSpeed?: number;
+
+  @Prop()
+  source?: string;
+}
+
+export const LoiteringEpisodeSchema =
+  SchemaFactory.createForClass(LoiteringEpisode);
+
+LoiteringEpisodeSchema.index({ mmsi: 1, startedAt: -1 });
+LoiteringEpisodeSchema.index({ startedAt: -1 });
+LoiteringEpisodeSchema.index(
+  { location: '2dsphere' },
+  { name: 'location_2dsphere' },
+);
@@ -0,0 +1,245 @@
+import * as dgram from 'dgram';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NmeaFeedService } from './nmea-feed.service';
+import { NmeaIngestService } from '../nmea/nmea-ingest.service';
+import { VesselIngestPipelineService } from '../data-sources/vessel-ingest-pipeline.service';
+import { ProcessedVessel } from '../data-sources/vessel-data-provider.interface';
+
+// Receiver capture: a type 5 in two fragments, a tagged type 1, a type 18,
+// both parts of a type 24 and one sentence with a bad checksum
+const recorded = fs.readFileSync(
+  path.join(__dirname, '__fixtures__', 'recorded.nmea'),
+  'utf8',
+);
+const RECORDED_LINES = 7;
+const RECORDED_MESSAGES = 5;
+
+type IngestResult = Promise<{ collected: number; stored: number }>;
+type IngestArgs = [ProcessedVessel[], { source: string }];
+
+async function waitFor(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+async function freePort(type: 'tcp' | 'udp'): Promise<number> {
+  if (type === 'udp') {
+    const socket = dgram.createSocket('udp4');
+    await new Promise<void>((resolve) => socket.bind(0, '127.0.0.1', resolve));
+    const { port } = socket.address();
+    await new Promise<void>((resolve) => socket.close(() => resolve()));
+    return port;
+  }
+
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  return port;
+}
+
+describe('NmeaFeedService', () => {
+  let service: NmeaFeedService;
+  let ingest: jest.Mock<IngestResult, IngestArgs>;
+  let servers: net.Server[];
+
+  const createService = (config: Record<string, string> = {}) => {
+    ingest = jest.fn<IngestResult, IngestArgs>((vessels) =>
+      Promise.resolve({ collected: vessels.length, stored: vessels.length }),
+    );
+    const pipeline = { ingest } as unknown as VesselIngestPipelineService;
+    service = new NmeaFeedService(
+      new ConfigService(config),
+      new NmeaIngestService(pipeline),
+      pipeline,
+    );
+  };
+
+  const listen = async (
+    onConnection: (socket: net.Socket) => void,
+  ): Promise<number> => {
+    const server = net.createServer(onConnection);
+    servers.push(server);
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    return (server.address() as net.AddressInfo).port;
+  };
+
+  const sendDatagram = async (port: number, text: string) => {
+    const socket = dgram.createSocket('udp4');
+    await new Promise<void>((resolve, reject) =>
+      socket.send(text, port, '127.0.0.1', (error) =>
+        error ? reject(error) : resolve(),
+      ),
+    );
+    socket.close();
+  };
+
+  const addUdpFeed = async (name = 'udp-feed') => {
+    const port = await freePort('udp');
+    service.addFeed({ name, type: 'udp', host: '127.0.0.1', port });
+    await waitFor(() => service.getFeedStatus(name).connected);
+    return port;
+  };
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    servers = [];
+    createService();
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    servers.forEach((server) => server.close());
+  });
+
+  it('should split lines across TCP chunks and flush the decoded positions', async () => {
+    const port = await listen((socket) => {
+      // ✅ Odd chunk size so sentences straddle writes
+      for (let i = 0; i < recorded.length; i += 13) {
+        socket.write(recorded.slice(i, i + 13));
+      }
+    });
+
+    service.addFeed({
+      name: 'station-a',
+      type: 'tcp-client',
+      host: '127.0.0.1',
+      port,
+      source: 'recorded',
+    });
+    await waitFor(
+      () => service.getFeedStatus('station-a').linesReceived === RECORDED_LINES,
+    );
+
+    const status = service.getFeedStatus('station-a');
+    expect(status.connected).toBe(true);
+    expect(status.pendingMessages).toBe(RECORDED_MESSAGES);
+    expect(status.decoder.invalidChecksum).toBe(1);
+
+    await service.flushAll();
+
+    expect(ingest).toHaveBeenCalledTimes(1);
+    const [vessels, options] = ingest.mock.calls[0];
+    expect(options.source).toBe('recorded');
+    expect(vessels.map((vessel) => vessel.mmsi).sort()).toEqual([
+      338087471, 366053209,
+    ]);
+    expect(vessels.find((vessel) => vessel.mmsi === 366053209)?.timestamp).toBe(
+      '2009-05-05T17:20:35.000Z',
+    );
+    expect(service.getFeedStatus('station-a')).toMatchObject({
+      pendingMessages: 0,
+      positionsStored: 2,
+    });
+  });
+
+  it('should reconnect with backoff after the remote closes', async () => {
+    let connections = 0;
+    const port = await listen((socket) => {
+      connections++;
+      if (connections === 1) socket.destroy();
+    });
+
+    service.addFeed({
+      name: 'station-b',
+      type: 'tcp-client',
+      host: '127.0.0.1',
+      port,
+      reconnectDelayMs: 20,
+    });
+
+    await waitFor(
+      () => service.getFeedStatus('station-b').reconnectAttempts > 0,
+    );
+    await waitFor(() => connections === 2);
+    await waitFor(() => service.getFeedStatus('station-b').connected);
+    expect(service.getFeedStatus('station-b').reconnectAttempts).toBe(0);
+  });
+
+  it('should decode sentences received over UDP', async () => {
+    const port = await addUdpFeed();
+
+    await sendDatagram(port, recorded);
+    await waitFor(
+      () => service.getFeedStatus('udp-feed').linesReceived === RECORDED_LINES,
+    );
+
+    expect(service.getFeedStatus('udp-feed').pendingMessages).toBe(
+      RECORDED_MESSAGES,
+    );
+  });
+
+  it('should keep the batch queued when the store fails', async () => {
+    const port = await addUdpFeed();
+    await sendDatagram(port, recorded);
+    await waitFor(() => service.getFeedStatus('udp-feed').pendingMessages > 0);
+
+    ingest.mockRejectedValueOnce(new Error('store unavailable'));
+    await service.flushAll();
+
+    expect(service.getFeedStatus('udp-feed')).toMatchObject({
+      pendingMessages: RECORDED_MESSAGES,
+      positionsStored: 0,
+      droppedMessages: 0,
+      lastError: 'store unavailable',
+    });
+
+    await service.flushAll();
+
+    expect(ingest).toHaveBeenCalledTimes(2);
+    expect(ingest.mock.calls[1][0]).toEqual(ingest.mock.calls[0][0]);
+    expect(service.getFeedStatus('udp-feed')).toMatchObject({
+      pendingMessages: 0,
+      positionsStored: 2,
+    });
+  });
+
+  it('should drop the oldest messages beyond NMEA_FEED_MAX_PENDING', async () => {
+    createService({ NMEA_FEED_MAX_PENDING: '3' });
+    const port = await addUdpFeed();
+
+    await sendDatagram(port, recorded);
+    await waitFor(
+      () => service.getFeedStatus('udp-feed').linesReceived === RECORDED_LINES,
+    );
+
+    expect(service.getFeedStatus('udp-feed')).toMatchObject({
+      pendingMessages: 3,
+      droppedMessages: RECORDED_MESSAGES - 3,
+    });
+
+    // ✅ A failed batch re-queued ahead of newer messages is bounded too
+    let failFlush: (error: Error) => void = () => undefined;
+    ingest.mockImplementationOnce(
+      () =>
+        new Promise((_resolve, reject) => {
+          failFlush = reject;
+        }),
+    );
+    const flushing = service.flushAll();
+    await sendDatagram(port, recorded);
+    await waitFor(
+      () =>
+        service.getFeedStatus('udp-feed').linesReceived === 2 * RECORDED_LINES,
+    );
+    failFlush(new Error('store unavailable'));
+    await flushing;
+
+    expect(service.getFeedStatus('udp-feed')).toMatchObject({
+      pendingMessages: 3,
+      droppedMessages: 2 * RECORDED_MESSAGES - 3,
+    });
+  });
+});
@@ -0,0 +1,507 @@
+// src/nmea-feeds/nmea-feed.service.ts
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as net from 'net';
+import * as dgram from 'dgram';
+import {
+  NmeaDecoder,
+  DecodedAisMessage,
+  NmeaDecoderStats,
+} from '../nmea/nmea-decoder';
+import { NmeaIngestService } from '../nmea/nmea-ingest.service';
+import { VesselIngestPipelineService } from '../data-sources/vessel-ingest-pipeline.service';
+
+export type NmeaFeedType = 'tcp-client' | 'tcp-server' | 'udp';
+
+export interface NmeaFeedConfig {
+  name: string;
+  type: NmeaFeedType;
+  host?: string; // tcp-client: remote host, tcp-server/udp: bind address
+  port: number;
+  source?: string; // stored as vessel `source`, defaults to name
+  enabled?: boolean;
+  reconnectDelayMs?: number;
+  idleTimeoutMs?: number;
+}
+
+export interface NmeaFeedStatus {
+  name: string;
+  type: NmeaFeedType;
+  source: string;
+  host?: string;
+  port: number;
+  enabled: boolean;
+  connected: boolean;
+  clients: number; // tcp-server only
+  lastConnectedAt: Date | null;
+  lastMessageAt: Date | null;
+  lastFlushAt: Date | null;
+  lastError?: string;
+  reconnectAttempts: number;
+  linesReceived: number;
+  positionsStored: number;
+  pendingMessages: number;
+  droppedMessages: number; // discarded once the pending queue was full
+  decoder: NmeaDecoderStats;
+}
+
+interface FeedRuntime {
+  config: Required<Omit<NmeaFeedConfig, 'host'>> & { host?: string };
+  decoder: NmeaDecoder;
+  pending: DecodedAisMessage[];
+  lineBuffers: Map<object, string>;
+  socket?: net.Socket;
+  server?: net.Server;
+  udpSocket?: dgram.Socket;
+  serverClients: Set<net.Socket>;
+  reconnectTimer?: NodeJS.Timeout;
+  flushing: boolean;
+  stopped: boolean;
+  status: Omit<NmeaFeedStatus, 'decoder' | 'pendingMessages' | 'clients'>;
+}
+
+/**
+ * 📡 NMEA FEED SERVICE
+ * Live receiver / aggregator feeds configured through NMEA_FEEDS, e.g.
+ * NMEA_FEEDS='[{"name":"station-a","type":"tcp-client","host":"10.0.0.5","port":5631}]'
+ */
+@Injectable()
+export class NmeaFeedService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NmeaFeedService.name);
+  private readonly feeds = new Map<string, FeedRuntime>();
+  private readonly flushIntervalMs: number;
+  private readonly maxPendingMessages: number;
+  private readonly maxLineLength = 4096;
+  private readonly maxReconnectDelayMs = 60000;
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly nmeaIngestService: NmeaIngestService,
+    private readonly ingestPipeline: VesselIngestPipelineService,
+  ) {
+    this.flushIntervalMs = Number(
+      this.configService.get<string>('NMEA_FEED_FLUSH_MS', '5000'),
+    );
+    this.maxPendingMessages = Number(
+      this.configService.get<string>('NMEA_FEED_MAX_PENDING', '50000'),
+    );
+  }
+
+  onModuleInit(): void {
+    const configs = this.loadFeedConfigs();
+    if (configs.length === 0) {
+      this.logger.log('📡 No NMEA feeds configured (NMEA_FEEDS)');
+      return;
+    }
+
+    configs.forEach((config) => this.addFeed(config));
+    this.flushTimer = setInterval(() => {
+      void this.flushAll();
+    }, this.flushIntervalMs);
+
+    this.logger.log(
+      `📡 ${configs.length} NMEA feed(s) configured, flushing every ${this.flushIntervalMs}ms`,
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    this.feeds.forEach((feed) => this.stopFeed(feed));
+    await this.flushAll();
+  }
+
+  /**
+   * 📊 FEED STATUS
+   */
+  getFeedStatuses(): NmeaFeedStatus[] {
+    return Array.from(this.feeds.values()).map((feed) => this.toStatus(feed));
+  }
+
+  getFeedStatus(name: string): NmeaFeedStatus {
+    return this.toStatus(this.getFeed(name));
+  }
+
+  /**
+   * 🔄 FORCE RECONNECT
+   */
+  reconnectFeed(name: string): NmeaFeedStatus {
+    const feed = this.getFeed(name);
+    this.logger.log(`🔄 Manual reconnect requested for feed ${name}`);
+
+    this.stopFeed(feed);
+    feed.stopped = false;
+    feed.status.reconnectAttempts = 0;
+    this.startFeed(feed);
+
+    return this.toStatus(feed);
+  }
+
+  /**
+   * ➕ REGISTER A FEED (also usable from code/tests)
+   */
+  addFeed(config: NmeaFeedConfig): NmeaFeedStatus {
+    if (this.feeds.has(config.name)) {
+      throw new Error(`NMEA feed "${config.name}" already exists`);
+    }
+
+    const feed: FeedRuntime = {
+      config: {
+        name: config.name,
+        type: config.type,
+        host: config.host,
+        port: config.port,
+        source: config.source || config.name,
+        enabled: config.enabled !== false,
+        reconnectDelayMs: config.reconnectDelayMs || 5000,
+        idleTimeoutMs: config.idleTimeoutMs || 120000,
+      },
+      decoder: new NmeaDecoder(),
+      pending: [],
+      lineBuffers: new Map(),
+      serverClients: new Set(),
+      flushing: false,
+      stopped: false,
+      status: {
+        name: config.name,
+        type: config.type,
+        source: config.source || config.name,
+        host: config.host,
+        port: config.port,
+        enabled: config.enabled !== false,
+        connected: false,
+        lastConnectedAt: null,
+        lastMessageAt: null,
+        lastFlushAt: null,
+        reconnectAttempts: 0,
+        linesReceived: 0,
+        positionsStored: 0,
+        droppedMessages: 0,
+      },
+    };
+
+    this.feeds.set(config.name, feed);
+    if (feed.config.enabled) {
+      this.startFeed(feed);
+    }
+
+    return this.toStatus(feed);
+  }
+
+  /**
+   * 💾 FLUSH ALL FEEDS - decoded positions -> store -> broadcast
+   */
+  async flushAll(): Promise<void> {
+    for (const feed of this.feeds.values()) {
+      await this.flushFeed(feed);
+    }
+  }
+
+  // ====================================================================
+  // 🔌 TRANSPORTS
+  // ====================================================================
+
+  private startFeed(feed: FeedRuntime): void {
+    switch (feed.config.type) {
+      case 'tcp-client':
+        this.connectTcpClient(feed);
+        break;
+      case 'tcp-server':
+        this.listenTcpServer(feed);
+        break;
+      case 'udp':
+        this.bindUdp(feed);
+        break;
+      default:
+        feed.status.lastError = `Unknown feed type ${feed.config.type as string}`;
+        this.logger.error(`❌ ${feed.config.name}: ${feed.status.lastError}`);
+    }
+  }
+
+  private stopFeed(feed: FeedRuntime): void {
+    feed.stopped = true;
+    if (feed.reconnectTimer) {
+      clearTimeout(feed.reconnectTimer);
+      feed.reconnectTimer = undefined;
+    }
+
+    feed.socket?.destroy();
+    feed.socket = undefined;
+
+    feed.serverClients.forEach((client) => client.destroy());
+    feed.serverClients.clear();
+    feed.server?.close();
+    feed.server = undefined;
+
+    feed.udpSocket?.close();
+    feed.udpSocket = undefined;
+
+    feed.lineBuffers.clear();
+    feed.status.connected = false;
+  }
+
+  private connectTcpClient(feed: FeedRuntime): void {
+    const { host = '127.0.0.1', port, name } = feed.config;
+    this.logger.log(`🔌 ${name}: connecting to ${host}:${port}`);
+
+    const socket = net.createConnection({ host, port });
+    feed.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(feed.config.idleTimeoutMs);
+
+    socket.on('connect', () => {
+      feed.status.connected = true;
+      feed.status.lastConnectedAt = new Date();
+      feed.status.reconnectAttempts = 0;
+      feed.status.lastError = undefined;
+      this.logger.log(`✅ ${name}: connected to ${host}:${port}`);
+    });
+    socket.on('data', (chunk: string) => this.handleChunk(feed, socket, chunk));
+    socket.on('timeout', () => {
+      this.logger.warn(
+        `⏱️ ${name}: no data for ${feed.config.idleTimeoutMs}ms, reconnecting`,
+      );
+      socket.destroy(new Error('Idle timeout'));
+    });
+    socket.on('error', (error) => {
+      feed.status.lastError = error.message;
+      this.logger.warn(`⚠️ ${name}: ${error.message}`);
+    });
+    socket.on('close', () => {
+      feed.lineBuffers.delete(socket);
+      // ✅ Ignore sockets that were replaced or stopped on purpose
+      if (feed.socket !== socket) return;
+
+      feed.socket = undefined;
+      feed.status.connected = false;
+      this.scheduleReconnect(feed);
+    });
+  }
+
+  private listenTcpServer(feed: FeedRuntime): void {
+    const { host = '0.0.0.0', port, name } = feed.config;
+
+    const server = net.createServer((client) => {
+      feed.serverClients.add(client);
+      feed.status.connected = true;
+      feed.status.lastConnectedAt = new Date();
+      client.setEncoding('utf8');
+      this.logger.log(
+        `🔗 ${name}: receiver connected from ${client.remoteAddress}:${client.remotePort}`,
+      );
+
+      client.on('data', (chunk: string) =>
+        this.handleChunk(feed, client, chunk),
+      );
+      client.on('error', (error) => {
+        feed.status.lastError = error.message;
+      });
+      client.on('close', () => {
+        feed.serverClients.delete(client);
+        feed.lineBuffers.delete(client);
+        feed.status.connected = feed.serverClients.size > 0;
+      });
+    });
+    feed.server = server;
+
+    server.on('error', (error) => {
+      feed.status.lastError = error.message;
+      this.logger.error(`❌ ${name}: server error ${error.message}`);
+      server.close();
+      if (feed.server !== server) return;
+
+      feed.server = undefined;
+      this.scheduleReconnect(feed);
+    });
+    server.listen(port, host, () => {
+      feed.status.reconnectAttempts = 0;
+      this.logger.log(`👂 ${name}: listening for receivers on ${host}:${port}`);
+    });
+  }
+
+  private bindUdp(feed: FeedRuntime): void {
+    const { host = '0.0.0.0', port, name } = feed.config;
+
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    feed.udpSocket = socket;
+
+    socket.on('message', (message) => {
+      // ✅ Each datagram carries complete sentences
+      this.handleLines(feed, message.toString('utf8').split(/\r?\n/));
+    });
+    socket.on('listening', () => {
+      feed.status.connected = true;
+      feed.status.lastConnectedAt = new Date();
+      feed.status.reconnectAttempts = 0;
+      this.logger.log(`👂 ${name}: listening for UDP on ${host}:${port}`);
+    });
+    socket.on('error', (error) => {
+      feed.status.lastError = error.message;
+      feed.status.connected = false;
+      this.logger.error(`❌ ${name}: UDP error ${error.message}`);
+      socket.close();
+      if (feed.udpSocket !== socket) return;
+
+      feed.udpSocket = undefined;
+      this.scheduleReconnect(feed);
+    });
+    socket.bind(port, host);
+  }
+
+  private scheduleReconnect(feed: FeedRuntime): void {
+    if (feed.stopped || feed.reconnectTimer) return;
+
+    const delay = Math.min(
+      feed.config.reconnectDelayMs * Math.pow(2, feed.status.reconnectAttempts),
+      this.maxReconnectDelayMs,
+    );
+    feed.status.reconnectAttempts++;
+    this.logger.log(
+      `🔄 ${feed.config.name}: reconnect #${feed.status.reconnectAttempts} in ${delay}ms`,
+    );
+
+    feed.reconnectTimer = setTimeout(() => {
+      feed.reconnectTimer = undefined;
+      if (!feed.stopped) this.startFeed(feed);
+    }, delay);
+  }
+
+  // ====================================================================
+  // 📥 LINE HANDLING
+  // ====================================================================
+
+  private handleChunk(feed: FeedRuntime, origin: object, chunk: string): void {
+    const buffered = (feed.lineBuffers.get(origin) || '') + chunk;
+    const lines = buffered.split(/\r?\n/);
+    let remainder = lines.pop() || '';
+
+    // ✅ Guard against a peer that never sends a newline
+    if (remainder.length > this.maxLineLength) {
+      remainder = '';
+    }
+    feed.lineBuffers.set(origin, remainder);
+
+    this.handleLines(feed, lines);
+  }
+
+  private handleLines(feed: FeedRuntime, lines: string[]): void {
+    const receivedAt = new Date();
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      feed.status.linesReceived++;
+
+      const message = feed.decoder.decodeLine(line, receivedAt);
+      if (message) {
+        feed.pending.push(message);
+        feed.status.lastMessageAt = receivedAt;
+      }
+    }
+
+    this.trimPending(feed);
+  }
+
+  private async flushFeed(feed: FeedRuntime): Promise<void> {
+    if (feed.flushing || feed.pending.length === 0) return;
+
+    feed.flushing = true;
+    const messages = feed.pending;
+    feed.pending = [];
+
+    try {
+      const vessels = this.nmeaIngestService.toProcessedVessels(
+        messages,
+        feed.config.source,
+      );
+      if (vessels.length === 0) return;
+
+      const result = await this.ingestPipeline.ingest(vessels, {
+        source: feed.config.source || feed.config.name,
+        broadcast: true,
+      });
+      feed.status.positionsStored += result.stored;
+      feed.status.lastFlushAt = new Date();
+    } catch (error) {
+      // ✅ Keep the batch for the next flush, ahead of what arrived meanwhile
+      feed.pending = messages.concat(feed.pending);
+      this.trimPending(feed);
+      feed.status.lastError = error.message;
+      this.logger.error(
+        `❌ ${feed.config.name}: flush failed ${error.message}, ${feed.pending.length} messages queued`,
+      );
+    } finally {
+      feed.flushing = false;
+    }
+  }
+
+  /**
+   * Drop the oldest messages once the queue outgrows NMEA_FEED_MAX_PENDING,
+   * e.g. while the store is down or a flush is slow
+   */
+  private trimPending(feed: FeedRuntime): void {
+    const excess = feed.pending.length - this.maxPendingMessages;
+    if (excess <= 0) return;
+
+    feed.pending.splice(0, excess);
+    feed.status.droppedMessages += excess;
+    this.logger.debug(
+      `⚠️ ${feed.config.name}: pending queue full, dropped ${excess} messages`,
+    );
+  }
+
+  // ====================================================================
+  // 🔧 HELPERS
+  // ====================================================================
+
+  private loadFeedConfigs(): NmeaFeedConfig[] {
+    const raw = this.configService.get<string>('NMEA_FEEDS', '');
+    if (!raw || raw.trim() === '') return [];
+
+    try {
+      const parsed = JSON.parse(raw) as NmeaFeedConfig[];
+      if (!Array.isArray(parsed)) {
+        throw new Error('NMEA_FEEDS must be a JSON array');
+      }
+
+      return parsed.filter((config) => {
+        const valid =
+          config &&
+          typeof config.name === 'string' &&
+          ['tcp-client', 'tcp-server', 'udp'].includes(config.type) &&
+          Number.isInteger(config.port);
+        if (!valid) {
+          this.logger.warn(
+            `⚠️ Ignoring invalid NMEA feed config: ${JSON.stringify(config)}`,
+          );
+        }
+        return valid;
+      });
+    } catch (error) {
+      this.logger.error(`❌ Failed to parse NMEA_FEEDS: ${error.message}`);
+      return [];
+    }
+  }
+
+  private getFeed(name: string): FeedRuntime {
+    const feed = this.feeds.get(name);
+    if (!feed) {
+      throw new NotFoundException(`NMEA feed "${name}" not found`);
+    }
+    return feed;
+  }
+
+  private toStatus(feed: FeedRuntime): NmeaFeedStatus {
+    return {
+      ...feed.status,
+      clients: feed.serverClients.size,
+      pendingMessages: feed.pending.length,
+      decoder: feed.decoder.getStats(),
+    };
+  }
+}
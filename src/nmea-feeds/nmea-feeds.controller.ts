@@ -0,0 +1,63 @@
+// src/nmea-feeds/nmea-feeds.controller.ts
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { NmeaFeedService } from './nmea-feed.service';
+
+@ApiTags('NMEA Feeds')
+@Controller('nmea-feeds')
+export class NmeaFeedsController {
+  constructor(private readonly nmeaFeedService: NmeaFeedService) {}
+
+  /**
+   * 📊 ALL FEED STATUSES
+   * GET /api/nmea-feeds
+   */
+  @Get()
+  @ApiOperation({ summary: 'Connection status of all NMEA receiver feeds' })
+  getFeeds() {
+    const feeds = this.nmeaFeedService.getFeedStatuses();
+    return {
+      success: true,
+      count: feeds.length,
+      connected: feeds.filter((feed) => feed.connected).length,
+      data: feeds,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🔍 SINGLE FEED STATUS
+   * GET /api/nmea-feeds/:name
+   */
+  @Get(':name')
+  @ApiOperation({ summary: 'Connection status of one NMEA feed' })
+  getFeed(@Param('name') name: string) {
+    return {
+      success: true,
+      data: this.nmeaFeedService.getFeedStatus(name),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🔄 FORCE RECONNECT
+   * POST /api/nmea-feeds/:name/reconnect
+   */
+  @Post(':name/reconnect')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Drop and re-open the connection of an NMEA feed' })
+  reconnect(@Param('name') name: string) {
+    return {
+      success: true,
+      data: this.nmeaFeedService.reconnectFeed(name),
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,14 @@
+// src/nmea-feeds/nmea-feeds.module.ts
+import { Module } from '@nestjs/common';
+import { NmeaFeedService } from './nmea-feed.service';
+import { NmeaFeedsController } from './nmea-feeds.controller';
+import { NmeaModule } from '../nmea/nmea.module';
+import { DataSourcesModule } from '../data-sources/data-sources.module';
+
+@Module({
+  imports: [NmeaModule, DataSourcesModule],
+  controllers: [NmeaFeedsController],
+  providers: [NmeaFeedService],
+  exports: [NmeaFeedService],
+})
+export class NmeaFeedsModule {}
@@ -0,0 +1,21 @@
+// src/nmea/dto/ingest-nmea.dto.ts
+import { IsArray, IsDateString, IsOptional, IsString } from 'class-validator';
+
+export class IngestNmeaDto {
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  sentences?: string[];
+
+  @IsOptional()
+  @IsString()
+  raw?: string; // newline-delimited sentences
+
+  @IsOptional()
+  @IsString()
+  source?: string = 'nmea';
+
+  @IsOptional()
+  @IsDateString()
+  receivedAt?: string; // fallback time for sentences without a tag block
+}
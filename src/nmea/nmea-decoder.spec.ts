@@ -0,0 +1,101 @@
+import { NmeaDecoder } from './nmea-decoder';
+
+describe('NmeaDecoder', () => {
+  let decoder: NmeaDecoder;
+  const receivedAt = new Date('2024-01-01T00:00:00Z');
+
+  beforeEach(() => {
+    decoder = new NmeaDecoder();
+  });
+
+  describe('class A position (type 1)', () => {
+    it('should decode position, speed, course and status', () => {
+      const message = decoder.decodeLine(
+        '!AIVDM,1,1,,B,15M67FC000G?ufbE`FepT@3n00Sa,0*5C',
+        receivedAt,
+      );
+
+      expect(message).toMatchObject({
+        messageType: 1,
+        mmsi: 366053209,
+        channel: 'B',
+        timestamp: receivedAt,
+      });
+      expect(message?.position?.latitude).toBeCloseTo(37.802118, 5);
+      expect(message?.position?.longitude).toBeCloseTo(-122.341618, 5);
+      expect(message?.position?.course).toBe(219.3);
+      expect(message?.position?.heading).toBe(1);
+      expect(message?.position?.navStatus).toBe(3);
+    });
+
+    it('should use the tag block time when present', () => {
+      const message = decoder.decodeLine(
+        '\\s:2573345,c:1241544035*7F\\!AIVDM,1,1,,B,15M67FC000G?ufbE`FepT@3n00Sa,0*5C',
+        receivedAt,
+      );
+
+      expect(message?.timestamp.toISOString()).toBe('2009-05-05T17:20:35.000Z');
+    });
+
+    it('should reject a bad checksum', () => {
+      const message = decoder.decodeLine(
+        '!AIVDM,1,1,,B,15M67FC000G?ufbE`FepT@3n00Sa,0*5D',
+      );
+
+      expect(message).toBeNull();
+      expect(decoder.getStats().invalidChecksum).toBe(1);
+    });
+  });
+
+  describe('static and voyage data (type 5)', () => {
+    it('should reassemble two fragments', () => {
+      const first = decoder.decodeLine(
+        '!AIVDM,2,1,1,A,55?MbV02;H;s<HtKR20EHE:0@T4@Dn2222222216L961O5Gf0NSQEp6ClRp8,0*1C',
+      );
+      const second = decoder.decodeLine('!AIVDM,2,2,1,A,88888888880,2*25');
+
+      expect(first).toBeNull();
+      expect(second).toMatchObject({
+        messageType: 5,
+        mmsi: 351759000,
+        static: {
+          imo: '9134270',
+          callSign: '3FOF8',
+          name: 'EVER DIADEM',
+          vesselType: 70,
+          destination: 'NEW YORK',
+          draught: 12.2,
+          eta: '05-15 14:00',
+          dimension: { a: 225, b: 70, c: 1, d: 31, length: 295, width: 32 },
+        },
+      });
+    });
+  });
+
+  describe('class B (types 18 and 24)', () => {
+    it('should decode a type 18 position report', () => {
+      const message = decoder.decodeLine(
+        '!AIVDM,1,1,,A,B52K>;h00Fc>jpUlNV@ikwpUoP06,0*4C',
+      );
+
+      expect(message?.messageType).toBe(18);
+      expect(message?.mmsi).toBe(338087471);
+      expect(message?.position?.speed).toBe(0.1);
+      expect(message?.position?.navStatus).toBeUndefined();
+    });
+
+    it('should decode both parts of a type 24 static report', () => {
+      const [partA, partB] = decoder.decodeLines([
+        '!AIVDM,1,1,,A,H42O55i18tMET00000000000000,2*6D',
+        '!AIVDM,1,1,,A,H42O55lti4hhhilD3nink000?050,0*40',
+      ]);
+
+      expect(partA.static).toEqual({ name: 'PROGUY' });
+      expect(partB.static).toMatchObject({
+        vesselType: 60,
+        callSign: 'TC6163',
+        dimension: { length: 15, width: 5 },
+      });
+    });
+  });
+});
@@ -0,0 +1,551 @@
+// src/nmea/nmea-decoder.ts
+// ✅ NMEA 0183 AIVDM/AIVDO decoder - 6-bit payload, fragments, checksum
+
+export interface AisPosition {
+  latitude: number;
+  longitude: number;
+  speed?: number;
+  course?: number;
+  heading?: number;
+  navStatus?: number;
+  rateOfTurn?: number;
+  accuracy: boolean;
+  second?: number;
+}
+
+export interface AisDimension {
+  a?: number; // antenna to bow (m)
+  b?: number; // antenna to stern (m)
+  c?: number; // antenna to port (m)
+  d?: number; // antenna to starboard (m)
+  length?: number;
+  width?: number;
+}
+
+export interface AisStaticData {
+  name?: string;
+  callSign?: string;
+  imo?: string;
+  vesselType?: number;
+  destination?: string;
+  eta?: string;
+  draught?: number;
+  dimension?: AisDimension;
+}
+
+export interface DecodedAisMessage {
+  messageType: number;
+  mmsi: number;
+  channel?: string;
+  ownShip: boolean; // true for AIVDO
+  timestamp: Date;
+  position?: AisPosition;
+  static?: AisStaticData;
+}
+
+export interface NmeaDecoderStats {
+  sentences: number;
+  decoded: number;
+  invalidChecksum: number;
+  malformed: number;
+  unsupported: number;
+  fragmentsPending: number;
+  fragmentsExpired: number;
+}
+
+interface FragmentBuffer {
+  total: number;
+  parts: string[];
+  received: number;
+  fillBits: number;
+  createdAt: number;
+}
+
+const SIXBIT_ASCII =
+  '@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_ !"#$%&\'()*+,-./0123456789:;<=>?';
+
+const SENTENCE_PATTERN = /^[!$]([A-Z]{2})VD([MO])$/;
+
+/**
+ * 🔢 BIT READER over a de-armored 6-bit payload
+ */
+class AisBitReader {
+  private readonly bits: Uint8Array;
+  readonly length: number;
+
+  constructor(payload: string, fillBits: number) {
+    const bits = new Uint8Array(payload.length * 6);
+
+    for (let i = 0; i < payload.length; i++) {
+      let value = payload.charCodeAt(i) - 48;
+      if (value > 40) value -= 8;
+      if (value < 0 || value > 63) {
+        throw new Error(`Invalid payload character '${payload[i]}'`);
+      }
+      for (let bit = 0; bit < 6; bit++) {
+        bits[i * 6 + bit] = (value >> (5 - bit)) & 1;
+      }
+    }
+
+    this.bits = bits;
+    this.length = Math.max(0, bits.length - fillBits);
+  }
+
+  unsigned(start: number, width: number): number {
+    let value = 0;
+    for (let i = start; i < start + width; i++) {
+      value = value * 2 + (i < this.length ? this.bits[i] : 0);
+    }
+    return value;
+  }
+
+  signed(start: number, width: number): number {
+    const value = this.unsigned(start, width);
+    const signBit = Math.pow(2, width - 1);
+    return value >= signBit ? value - signBit * 2 : value;
+  }
+
+  text(start: number, width: number): string {
+    let result = '';
+    for (let i = start; i + 6 <= start + width && i < this.length; i += 6) {
+      result += SIXBIT_ASCII[this.unsigned(i, 6)];
+    }
+    // '@' is the AIS padding character
+    return result.replace(/@.*$/, '').trim();
+  }
+}
+
+/**
+ * 📡 NMEA DECODER
+ * Stateful per input stream: multi-fragment messages are reassembled
+ * across calls to decodeLine(), so use one instance per feed.
+ */
+export class NmeaDecoder {
+  private readonly fragments = new Map<string, FragmentBuffer>();
+  private stats: NmeaDecoderStats = NmeaDecoder.emptyStats();
+
+  constructor(private readonly fragmentTimeoutMs: number = 10000) {}
+
+  static emptyStats(): NmeaDecoderStats {
+    return {
+      sentences: 0,
+      decoded: 0,
+      invalidChecksum: 0,
+      malformed: 0,
+      unsupported: 0,
+      fragmentsPending: 0,
+      fragmentsExpired: 0,
+    };
+  }
+
+  /**
+   * ✅ XOR checksum of everything between the start delimiter and '*'
+   */
+  static computeChecksum(body: string): string {
+    let checksum = 0;
+    for (let i = 0; i < body.length; i++) {
+      checksum ^= body.charCodeAt(i);
+    }
+    return checksum.toString(16).toUpperCase().padStart(2, '0');
+  }
+
+  static isValidChecksum(sentence: string): boolean {
+    const starIndex = sentence.lastIndexOf('*');
+    if (starIndex < 1) return false;
+
+    const expected = sentence.substring(starIndex + 1, starIndex + 3);
+    const body = sentence.substring(1, starIndex);
+    return NmeaDecoder.computeChecksum(body) === expected.toUpperCase();
+  }
+
+  /**
+   * 📥 DECODE MANY LINES (raw text or array)
+   */
+  decodeLines(
+    input: string | string[],
+    receivedAt?: Date,
+  ): DecodedAisMessage[] {
+    const lines = Array.isArray(input) ? input : input.split(/\r?\n/);
+    const messages: DecodedAisMessage[] = [];
+
+    for (const line of lines) {
+      const message = this.decodeLine(line, receivedAt);
+      if (message) {
+        messages.push(message);
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * 📥 DECODE ONE LINE
+   * Returns null for fragments that are still incomplete and for invalid input.
+   */
+  decodeLine(
+    rawLine: string,
+    receivedAt: Date = new Date(),
+  ): DecodedAisMessage | null {
+    let line = rawLine ? rawLine.trim() : '';
+    if (!line) return null;
+
+    this.stats.sentences++;
+    this.expireFragments();
+
+    // ✅ Optional NMEA 4.0 tag block: \s:station,c:1700000000*hh\!AIVDM,...
+    let timestamp = receivedAt;
+    if (line.startsWith('\\')) {
+      const tagEnd = line.indexOf('\\', 1);
+      if (tagEnd < 0) {
+        this.stats.malformed++;
+        return null;
+      }
+      timestamp =
+        this.parseTagBlockTime(line.substring(1, tagEnd)) || receivedAt;
+      line = line.substring(tagEnd + 1);
+    }
+
+    const sentenceStart = line.search(/[!$]/);
+    if (sentenceStart < 0) {
+      this.stats.malformed++;
+      return null;
+    }
+    line = line.substring(sentenceStart);
+
+    if (!NmeaDecoder.isValidChecksum(line)) {
+      this.stats.invalidChecksum++;
+      return null;
+    }
+
+    const fields = line.substring(0, line.lastIndexOf('*')).split(',');
+    const header = SENTENCE_PATTERN.exec(fields[0]);
+    if (!header || fields.length < 7) {
+      this.stats.unsupported++;
+      return null;
+    }
+
+    const fragmentCount = parseInt(fields[1], 10);
+    const fragmentNumber = parseInt(fields[2], 10);
+    const sequenceId = fields[3];
+    const channel = fields[4] || undefined;
+    const payload = fields[5];
+    const fillBits = parseInt(fields[6], 10) || 0;
+    const ownShip = header[2] === 'O';
+
+    if (
+      isNaN(fragmentCount) ||
+      isNaN(fragmentNumber) ||
+      fragmentNumber < 1 ||
+      fragmentNumber > fragmentCount ||
+      !payload
+    ) {
+      this.stats.malformed++;
+      return null;
+    }
+
+    let fullPayload = payload;
+    let finalFillBits = fillBits;
+
+    if (fragmentCount > 1) {
+      const assembled = this.addFragment(
+        `${header[1]}:${sequenceId}:${channel || ''}:${fragmentCount}`,
+        fragmentCount,
+        fragmentNumber,
+        payload,
+        fillBits,
+      );
+      if (!assembled) return null;
+      fullPayload = assembled.payload;
+      finalFillBits = assembled.fillBits;
+    }
+
+    try {
+      const message = this.decodePayload(fullPayload, finalFillBits, timestamp);
+      if (!message) {
+        this.stats.unsupported++;
+        return null;
+      }
+
+      message.channel = channel;
+      message.ownShip = ownShip;
+      this.stats.decoded++;
+      return message;
+    } catch {
+      this.stats.malformed++;
+      return null;
+    }
+  }
+
+  /**
+   * 🔓 DECODE AN ARMORED PAYLOAD
+   */
+  decodePayload(
+    payload: string,
+    fillBits: number,
+    timestamp: Date = new Date(),
+  ): DecodedAisMessage | null {
+    const reader = new AisBitReader(payload, fillBits);
+    if (reader.length < 38) {
+      throw new Error('Payload too short');
+    }
+
+    const messageType = reader.unsigned(0, 6);
+    const mmsi = reader.unsigned(8, 30);
+    const base = { messageType, mmsi, ownShip: false, timestamp };
+
+    switch (messageType) {
+      case 1:
+      case 2:
+      case 3:
+        return { ...base, position: this.decodeClassAPosition(reader) };
+      case 5:
+        return { ...base, static: this.decodeStaticVoyage(reader) };
+      case 18:
+        return { ...base, position: this.decodeClassBPosition(reader) };
+      case 19:
+        return {
+          ...base,
+          position: this.decodeClassBPosition(reader),
+          static: this.decodeClassBExtendedStatic(reader),
+        };
+      case 24:
+        return { ...base, static: this.decodeStaticDataReport(reader) };
+      default:
+        return null;
+    }
+  }
+
+  getStats(): NmeaDecoderStats {
+    return { ...this.stats, fragmentsPending: this.fragments.size };
+  }
+
+  resetStats(): void {
+    this.stats = NmeaDecoder.emptyStats();
+  }
+
+  // ====================================================================
+  // 🔧 MESSAGE LAYOUTS (ITU-R M.1371)
+  // ====================================================================
+
+  private decodeClassAPosition(reader: AisBitReader): AisPosition | undefined {
+    const rateOfTurn = reader.signed(42, 8);
+
+    return this.buildPosition({
+      navStatus: reader.unsigned(38, 4),
+      rateOfTurn: rateOfTurn === -128 ? undefined : rateOfTurn,
+      speedRaw: reader.unsigned(50, 10),
+      accuracy: reader.unsigned(60, 1) === 1,
+      lonRaw: reader.signed(61, 28),
+      latRaw: reader.signed(89, 27),
+      courseRaw: reader.unsigned(116, 12),
+      headingRaw: reader.unsigned(128, 9),
+      second: reader.unsigned(137, 6),
+    });
+  }
+
+  private decodeClassBPosition(reader: AisBitReader): AisPosition | undefined {
+    return this.buildPosition({
+      speedRaw: reader.unsigned(46, 10),
+      accuracy: reader.unsigned(56, 1) === 1,
+      lonRaw: reader.signed(57, 28),
+      latRaw: reader.signed(85, 27),
+      courseRaw: reader.unsigned(112, 12),
+      headingRaw: reader.unsigned(124, 9),
+      second: reader.unsigned(133, 6),
+    });
+  }
+
+  private decodeStaticVoyage(reader: AisBitReader): AisStaticData {
+    const imo = reader.unsigned(40, 30);
+    const month = reader.unsigned(274, 4);
+    const day = reader.unsigned(278, 5);
+    const hour = reader.unsigned(283, 5);
+    const minute = reader.unsigned(288, 6);
+    const draught = reader.unsigned(294, 8);
+
+    return this.compact({
+      imo: imo > 0 ? imo.toString() : undefined,
+      callSign: reader.text(70, 42) || undefined,
+      name: reader.text(112, 120) || undefined,
+      vesselType: reader.unsigned(232, 8),
+      dimension: this.buildDimension(
+        reader.unsigned(240, 9),
+        reader.unsigned(249, 9),
+        reader.unsigned(258, 6),
+        reader.unsigned(264, 6),
+      ),
+      eta: this.formatEta(month, day, hour, minute),
+      draught: draught > 0 ? draught / 10 : undefined,
+      destination: reader.text(302, 120) || undefined,
+    });
+  }
+
+  private decodeClassBExtendedStatic(reader: AisBitReader): AisStaticData {
+    return this.compact({
+      name: reader.text(143, 120) || undefined,
+      vesselType: reader.unsigned(263, 8),
+      dimension: this.buildDimension(
+        reader.unsigned(271, 9),
+        reader.unsigned(280, 9),
+        reader.unsigned(289, 6),
+        reader.unsigned(295, 6),
+      ),
+    });
+  }
+
+  private decodeStaticDataReport(reader: AisBitReader): AisStaticData {
+    const partNumber = reader.unsigned(38, 2);
+
+    if (partNumber === 0) {
+      return this.compact({ name: reader.text(40, 120) || undefined });
+    }
+
+    return this.compact({
+      vesselType: reader.unsigned(40, 8),
+      callSign: reader.text(90, 42) || undefined,
+      dimension: this.buildDimension(
+        reader.unsigned(132, 9),
+        reader.unsigned(141, 9),
+        reader.unsigned(150, 6),
+        reader.unsigned(156, 6),
+      ),
+    });
+  }
+
+  private buildPosition(raw: {
+    navStatus?: number;
+    rateOfTurn?: number;
+    speedRaw: number;
+    accuracy: boolean;
+    lonRaw: number;
+    latRaw: number;
+    courseRaw: number;
+    headingRaw: number;
+    second: number;
+  }): AisPosition | undefined {
+    const longitude = raw.lonRaw / 600000;
+    const latitude = raw.latRaw / 600000;
+
+    // ✅ 181 / 91 mean "not available"
+    if (Math.abs(longitude) > 180 || Math.abs(latitude) > 90) {
+      return undefined;
+    }
+
+    return {
+      latitude: Math.round(latitude * 1e6) / 1e6,
+      longitude: Math.round(longitude * 1e6) / 1e6,
+      speed: raw.speedRaw === 1023 ? undefined : raw.speedRaw / 10,
+      course: raw.courseRaw >= 3600 ? undefined : raw.courseRaw / 10,
+      heading: raw.headingRaw === 511 ? undefined : raw.headingRaw,
+      navStatus: raw.navStatus,
+      rateOfTurn: raw.rateOfTurn,
+      accuracy: raw.accuracy,
+      second: raw.second < 60 ? raw.second : undefined,
+    };
+  }
+
+  private buildDimension(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+  ): AisDimension | undefined {
+    if (a + b + c + d === 0) return undefined;
+
+    return {
+      a,
+      b,
+      c,
+      d,
+      length: a + b > 0 ? a + b : undefined,
+      width: c + d > 0 ? c + d : undefined,
+    };
+  }
+
+  private formatEta(
+    month: number,
+    day: number,
+    hour: number,
+    minute: number,
+  ): string | undefined {
+    // ✅ month 0 / day 0 / hour 24 / minute 60 mean "not available"
+    if (month === 0 || month > 12 || day === 0) return undefined;
+
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    const hh = hour < 24 ? pad(hour) : '00';
+    const mm = hour < 24 && minute < 60 ? pad(minute) : '00';
+    return `${pad(month)}-${pad(day)} ${hh}:${mm}`;
+  }
+
+  private compact<T extends object>(value: T): T {
+    Object.keys(value).forEach((key) => {
+      if (value[key] === undefined) delete value[key];
+    });
+    return value;
+  }
+
+  // ====================================================================
+  // 🧩 FRAGMENTS & TAG BLOCKS
+  // ====================================================================
+
+  private addFragment(
+    key: string,
+    total: number,
+    number: number,
+    payload: string,
+    fillBits: number,
+  ): { payload: string; fillBits: number } | null {
+    let buffer = this.fragments.get(key);
+
+    // ✅ A new first fragment restarts a sequence id that was reused
+    if (!buffer || number === 1) {
+      buffer = {
+        total,
+        parts: new Array<string>(total),
+        received: 0,
+        fillBits: 0,
+        createdAt: Date.now(),
+      };
+      this.fragments.set(key, buffer);
+    }
+
+    if (!buffer.parts[number - 1]) {
+      buffer.received++;
+    }
+    buffer.parts[number - 1] = payload;
+    if (number === total) {
+      buffer.fillBits = fillBits;
+    }
+
+    if (buffer.received < buffer.total) {
+      return null;
+    }
+
+    this.fragments.delete(key);
+    return { payload: buffer.parts.join(''), fillBits: buffer.fillBits };
+  }
+
+  private expireFragments(): void {
+    if (this.fragments.size === 0) return;
+
+    const cutoff = Date.now() - this.fragmentTimeoutMs;
+    for (const [key, buffer] of this.fragments) {
+      if (buffer.createdAt < cutoff) {
+        this.fragments.delete(key);
+        this.stats.fragmentsExpired++;
+      }
+    }
+  }
+
+  private parseTagBlockTime(tagBlock: string): Date | null {
+    const body = tagBlock.split('*')[0];
+    const timeTag = body.split(',').find((tag) => tag.startsWith('c:'));
+    if (!timeTag) return null;
+
+    const value = parseInt(timeTag.substring(2), 10);
+    if (isNaN(value) || value <= 0) return null;
+
+    // ✅ Some receivers emit milliseconds instead of seconds
+    return new Date(value > 1e12 ? value : value * 1000);
+  }
+}
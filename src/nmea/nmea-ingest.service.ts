@@ -0,0 +1,171 @@
+// src/nmea/nmea-ingest.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { VesselIngestPipelineService } from '../data-sources/vessel-ingest-pipeline.service';
+import {
+  CollectionResult,
+  ProcessedVessel,
+} from '../data-sources/vessel-data-provider.interface';
+import {
+  AisStaticData,
+  DecodedAisMessage,
+  NmeaDecoder,
+  NmeaDecoderStats,
+} from './nmea-decoder';
+
+export interface NmeaIngestResult {
+  decoder: NmeaDecoderStats;
+  messages: number;
+  positions: number;
+  staticReports: number;
+  vessels: number;
+  collection: CollectionResult;
+}
+
+interface CachedStaticData extends AisStaticData {
+  updatedAt: number;
+}
+
+@Injectable()
+export class NmeaIngestService {
+  private readonly logger = new Logger(NmeaIngestService.name);
+
+  // ✅ Static/voyage data (types 5, 19, 24) merged into later position reports
+  private readonly staticCache = new Map<number, CachedStaticData>();
+  private readonly STATIC_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+  private readonly STATIC_CACHE_MAX_SIZE = 50000;
+
+  constructor(private readonly ingestPipeline: VesselIngestPipelineService) {}
+
+  /**
+   * 📥 DECODE + STORE - one-shot batch (own fragment state per call)
+   */
+  async ingestSentences(
+    sentences: string | string[],
+    options: { source?: string; receivedAt?: Date; broadcast?: boolean } = {},
+  ): Promise<NmeaIngestResult> {
+    const decoder = new NmeaDecoder();
+    const messages = decoder.decodeLines(sentences, options.receivedAt);
+
+    const result = await this.ingestMessages(
+      messages,
+      options.source,
+      options.broadcast,
+    );
+    return { ...result, decoder: decoder.getStats() };
+  }
+
+  /**
+   * 📥 STORE ALREADY DECODED MESSAGES
+   */
+  async ingestMessages(
+    messages: DecodedAisMessage[],
+    source: string = 'nmea',
+    broadcast: boolean = false,
+  ): Promise<Omit<NmeaIngestResult, 'decoder'>> {
+    const vesselData = this.toProcessedVessels(messages, source);
+    const positions = messages.filter((m) => m.position).length;
+    const staticReports = messages.filter((m) => m.static).length;
+
+    const collection = await this.ingestPipeline.ingest(vesselData, {
+      source,
+      broadcast,
+    });
+
+    this.logger.log(
+      `📥 NMEA ingest (${source}): ${messages.length} messages, ${positions} positions, ` +
+        `${staticReports} static, ${vesselData.length} vessels stored`,
+    );
+
+    return {
+      messages: messages.length,
+      positions,
+      staticReports,
+      vessels: vesselData.length,
+      collection,
+    };
+  }
+
+  /**
+   * 🔄 DECODED MESSAGES -> ProcessedVessel
+   * Only the latest position per MMSI in the batch is kept.
+   */
+  toProcessedVessels(
+    messages: DecodedAisMessage[],
+    source: string = 'nmea',
+  ): ProcessedVessel[] {
+    const latestByMmsi = new Map<number, ProcessedVessel>();
+
+    for (const message of messages) {
+      if (!message.mmsi || message.ownShip) continue;
+
+      if (message.static) {
+        this.rememberStaticData(message.mmsi, message.static);
+      }
+
+      if (!message.position) continue;
+
+      const existing = latestByMmsi.get(message.mmsi);
+      if (existing && new Date(existing.timestamp) > message.timestamp)
+        continue;
+
+      const staticData = this.getStaticData(message.mmsi);
+      const position = message.position;
+
+      latestByMmsi.set(message.mmsi, {
+        mmsi: message.mmsi,
+        latitude: position.latitude,
+        longitude: position.longitude,
+        course: position.course ?? 0,
+        speed: position.speed ?? 0,
+        heading: position.heading,
+        name: staticData?.name,
+        callSign: staticData?.callSign,
+        imo: staticData?.imo,
+        vesselType: staticData?.vesselType ?? 0,
+        navStatus: position.navStatus ?? 15,
+        destination: staticData?.destination,
+        eta: staticData?.eta,
+        timestamp: message.timestamp.toISOString(),
+        length: staticData?.dimension?.length,
+        width: staticData?.dimension?.width,
+        dimension: staticData?.dimension,
+        source,
+      });
+    }
+
+    return Array.from(latestByMmsi.values());
+  }
+
+  getStaticCacheSize(): number {
+    return this.staticCache.size;
+  }
+
+  private rememberStaticData(mmsi: number, data: AisStaticData): void {
+    const existing = this.staticCache.get(mmsi);
+
+    // ✅ Type 24 arrives in two parts - merge instead of replace
+    this.staticCache.set(mmsi, {
+      ...existing,
+      ...data,
+      dimension: data.dimension || existing?.dimension,
+      updatedAt: Date.now(),
+    });
+
+    if (this.staticCache.size > this.STATIC_CACHE_MAX_SIZE) {
+      // ✅ Map keeps insertion order - drop the oldest entry
+      for (const oldestKey of this.staticCache.keys()) {
+        this.staticCache.delete(oldestKey);
+        break;
+      }
+    }
+  }
+
+  private getStaticData(mmsi: number): CachedStaticData | undefined {
+    const data = this.staticCache.get(mmsi);
+    if (data && Date.now() - data.updatedAt > this.STATIC_CACHE_TTL_MS) {
+      this.staticCache.delete(mmsi);
+      return undefined;
+    }
+    return data;
+  }
+}
@@ -0,0 +1,92 @@
+// src/nmea/nmea.controller.ts
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { NmeaIngestService } from './nmea-ingest.service';
+import { NmeaDecoder } from './nmea-decoder';
+import { IngestNmeaDto } from './dto/ingest-nmea.dto';
+
+@ApiTags('NMEA Ingest')
+@Controller('nmea')
+export class NmeaController {
+  private readonly logger = new Logger(NmeaController.name);
+
+  constructor(private readonly nmeaIngestService: NmeaIngestService) {}
+
+  /**
+   * 📥 INGEST RAW !AIVDM SENTENCES
+   * POST /api/nmea/ingest
+   */
+  @Post('ingest')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Decode raw NMEA AIVDM/AIVDO sentences and store positions',
+  })
+  @ApiResponse({ status: 200, description: 'Sentences decoded and stored' })
+  async ingest(@Body() dto: IngestNmeaDto) {
+    const sentences = this.getSentences(dto);
+
+    try {
+      const result = await this.nmeaIngestService.ingestSentences(sentences, {
+        source: dto.source || 'nmea',
+        receivedAt: dto.receivedAt ? new Date(dto.receivedAt) : undefined,
+      });
+
+      return {
+        success: true,
+        result,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      this.logger.error(`NMEA ingest failed: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * 🔍 DECODE ONLY (no storage)
+   * POST /api/nmea/decode
+   */
+  @Post('decode')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Decode raw NMEA sentences without storing them' })
+  decode(@Body() dto: IngestNmeaDto) {
+    const decoder = new NmeaDecoder();
+    const messages = decoder.decodeLines(
+      this.getSentences(dto),
+      dto.receivedAt ? new Date(dto.receivedAt) : undefined,
+    );
+
+    return {
+      success: true,
+      count: messages.length,
+      data: messages,
+      stats: decoder.getStats(),
+      timestamp: new Date(),
+    };
+  }
+
+  private getSentences(dto: IngestNmeaDto): string[] {
+    const sentences = [
+      ...(dto.sentences || []),
+      ...(dto.raw ? dto.raw.split(/\r?\n/) : []),
+    ].filter((line) => line.trim() !== '');
+
+    if (sentences.length === 0) {
+      throw new BadRequestException('Provide "sentences" or "raw" NMEA input');
+    }
+
+    return sentences;
+  }
+}
@@ -0,0 +1,13 @@
+// src/nmea/nmea.module.ts
+import { Module } from '@nestjs/common';
+import { NmeaIngestService } from './nmea-ingest.service';
+import { NmeaController } from './nmea.controller';
+import { DataSourcesModule } from '../data-sources/data-sources.module';
+
+@Module({
+  imports: [DataSourcesModule],
+  controllers: [NmeaController],
+  providers: [NmeaIngestService],
+  exports: [NmeaIngestService],
+})
+export class NmeaModule {}
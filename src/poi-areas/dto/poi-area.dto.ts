@@ -0,0 +1,97 @@
+// src/poi-areas/dto/poi-area.dto.ts
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { PartialType } from '@nestjs/swagger';
+import type { PolygonGeometry } from '../../common/geo/polygon.util';
+
+export const COLOUR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export class CreatePoiAreaDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  // ✅ GeoJSON Polygon/MultiPolygon; shape checked by validatePolygonGeometry
+  @IsObject()
+  geometry: PolygonGeometry;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  owner?: string;
+
+  @IsOptional()
+  @Matches(COLOUR_PATTERN, { message: 'colour must be a #rrggbb hex colour' })
+  colour?: string;
+
+  // ✅ Defaults to true; false keeps the area out of geofence detection
+  @IsOptional()
+  @IsBoolean()
+  geofence?: boolean;
+}
+
+export class UpdatePoiAreaDto extends PartialType(CreatePoiAreaDto) {}
+
+export class QueryPoiAreasDto {
+  @IsOptional()
+  @IsString()
+  tag?: string;
+
+  @IsOptional()
+  @IsString()
+  owner?: string;
+
+  // ✅ Case-insensitive substring of the name
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
+
+export type PoiAreaFormat = 'geojson' | 'kml';
+
+export class ImportPoiAreasDto {
+  @IsEnum(['geojson', 'kml'])
+  format: PoiAreaFormat;
+
+  // ✅ KML document as a string; GeoJSON as an object or a JSON string
+  @IsNotEmpty()
+  content: string | Record<string, unknown>;
+
+  // ✅ Applied to imported areas that do not carry their own
+  @IsOptional()
+  @IsString()
+  owner?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+}
+
+export class ExportPoiAreasDto extends QueryPoiAreasDto {
+  @IsOptional()
+  @IsEnum(['geojson', 'kml'])
+  format?: PoiAreaFormat = 'geojson';
+}
@@ -0,0 +1,168 @@
+import {
+  PoiAreaDefinition,
+  parseGeoJsonAreas,
+  parseKmlAreas,
+  toGeoJsonFeatureCollection,
+  toKml,
+} from './poi-area-formats';
+
+describe('poi-area-formats', () => {
+  const anchorage: PoiAreaDefinition = {
+    id: '665f1c2e9b1d4a0012345678',
+    name: 'Anchorage A & B',
+    description: 'Outer <anchorage>',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [106.8, -6.1],
+          [106.9, -6.1],
+          [106.9, -6.0],
+          [106.8, -6.0],
+          [106.8, -6.1],
+        ],
+      ],
+    },
+    tags: ['anchorage', 'jakarta'],
+    owner: 'ops',
+    colour: '#ff8800',
+  };
+
+  describe('GeoJSON', () => {
+    it('should round-trip a FeatureCollection', () => {
+      const collection = toGeoJsonFeatureCollection([anchorage]);
+      const { areas, errors } = parseGeoJsonAreas(JSON.stringify(collection));
+
+      expect(errors).toEqual([]);
+      expect(areas).toEqual([stripId(anchorage)]);
+    });
+
+    it('should accept a bare geometry and simplestyle fill', () => {
+      const feature = {
+        type: 'Feature',
+        geometry: anchorage.geometry,
+        properties: { fill: '#00FF00', tags: 'a, b' },
+      };
+
+      expect(parseGeoJsonAreas(feature).areas[0]).toMatchObject({
+        name: 'Area 1',
+        colour: '#00ff00',
+        tags: ['a', 'b'],
+      });
+      expect(parseGeoJsonAreas(anchorage.geometry).areas).toHaveLength(1);
+    });
+
+    it('should skip features that are not polygons', () => {
+      const { areas, errors } = parseGeoJsonAreas({
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [0, 0] },
+            properties: { name: 'Buoy' },
+          },
+        ],
+      });
+
+      expect(areas).toEqual([]);
+      expect(errors).toEqual([
+        'feature 0 (Buoy): geometry must be Polygon or MultiPolygon',
+      ]);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(parseGeoJsonAreas('{').errors).toEqual([
+        'content is not valid JSON',
+      ]);
+    });
+  });
+
+  describe('KML', () => {
+    it('should round-trip names, styles, extended data and holes', () => {
+      const withHole: PoiAreaDefinition = {
+        ...anchorage,
+        geometry: {
+          type: 'MultiPolygon',
+          coordinates: [
+            [
+              anchorage.geometry.coordinates[0] as [number, number][],
+              [
+                [106.82, -6.08],
+                [106.88, -6.08],
+                [106.88, -6.02],
+                [106.82, -6.08],
+              ],
+            ],
+            [
+              [
+                [107, -6],
+                [107.1, -6],
+                [107.1, -5.9],
+                [107, -6],
+              ],
+            ],
+          ],
+        },
+      };
+
+      const kml = toKml([withHole]);
+      expect(kml).toContain('<color>800088ff</color>');
+      expect(kml).toContain('Anchorage A &amp; B');
+
+      const { areas, errors } = parseKmlAreas(kml);
+      expect(errors).toEqual([]);
+      expect(areas).toEqual([stripId(withHole)]);
+    });
+
+    it('should read CDATA, altitudes and close open rings', () => {
+      const kml = `<?xml version="1.0"?>
+        <kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+          <Placemark>
+            <name><![CDATA[Pier <1>]]></name>
+            <Polygon><outerBoundaryIs><LinearRing>
+              <coordinates>
+                0,0,0 1,0,0
+                1,1,0
+              </coordinates>
+            </LinearRing></outerBoundaryIs></Polygon>
+          </Placemark>
+          <Placemark><name>Track</name><LineString><coordinates>0,0 1,1</coordinates></LineString></Placemark>
+        </Document></kml>`;
+
+      const { areas, errors } = parseKmlAreas(kml);
+
+      expect(areas).toEqual([
+        {
+          name: 'Pier <1>',
+          description: undefined,
+          geometry: {
+            type: 'Polygon',
+            coordinates: [
+              [
+                [0, 0],
+                [1, 0],
+                [1, 1],
+                [0, 0],
+              ],
+            ],
+          },
+          tags: undefined,
+          owner: undefined,
+          colour: undefined,
+        },
+      ]);
+      expect(errors).toEqual(['placemark 1 (Track): no Polygon geometry']);
+    });
+
+    it('should report a document without placemarks', () => {
+      expect(parseKmlAreas('<kml></kml>').errors).toEqual([
+        'no Placemark elements found',
+      ]);
+    });
+  });
+});
+
+// ✅ Ids are not carried by imports; toEqual ignores undefined properties
+function stripId(area: PoiAreaDefinition): PoiAreaDefinition {
+  return { ...area, id: undefined };
+}
@@ -0,0 +1,338 @@
+// src/poi-areas/poi-area-formats.ts
+// GeoJSON and KML import/export of POI area definitions.
+
+import type { PolygonGeometry } from '../common/geo/polygon.util';
+
+type Position = [number, number]; // [longitude, latitude]
+
+export interface PoiAreaDefinition {
+  id?: string;
+  name: string;
+  description?: string;
+  geometry: PolygonGeometry;
+  tags?: string[];
+  owner?: string;
+  colour?: string; // #rrggbb
+}
+
+export interface ParsedPoiAreas {
+  areas: PoiAreaDefinition[];
+  errors: string[]; // one per skipped feature/placemark
+}
+
+const HEX_COLOUR = /^#[0-9a-f]{6}$/i;
+const KML_COLOUR = /^[0-9a-f]{8}$/i;
+
+// ====================================================================
+// GeoJSON
+// ====================================================================
+
+/**
+ * Read a FeatureCollection, a single Feature or a bare Polygon/MultiPolygon.
+ * Feature properties name/description/tags/owner/colour are kept;
+ * `color` and simplestyle `fill` are accepted for the colour.
+ */
+export function parseGeoJsonAreas(input: unknown): ParsedPoiAreas {
+  let value = input;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return { areas: [], errors: ['content is not valid JSON'] };
+    }
+  }
+
+  const root = (value ?? {}) as { type?: unknown; features?: unknown };
+  let features: unknown[];
+  if (root.type === 'FeatureCollection' && Array.isArray(root.features)) {
+    features = root.features as unknown[];
+  } else if (root.type === 'Feature') {
+    features = [root];
+  } else if (root.type === 'Polygon' || root.type === 'MultiPolygon') {
+    features = [{ type: 'Feature', geometry: root, properties: {} }];
+  } else {
+    return {
+      areas: [],
+      errors: [
+        'content must be a GeoJSON FeatureCollection, Feature, Polygon or MultiPolygon',
+      ],
+    };
+  }
+
+  const areas: PoiAreaDefinition[] = [];
+  const errors: string[] = [];
+
+  features.forEach((feature, index) => {
+    const { geometry, properties } = (feature ?? {}) as {
+      geometry?: { type?: unknown; coordinates?: unknown };
+      properties?: Record<string, unknown> | null;
+    };
+    const props = properties ?? {};
+    const name = asString(props.name) ?? `Area ${index + 1}`;
+
+    if (
+      !geometry ||
+      (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon')
+    ) {
+      errors.push(
+        `feature ${index} (${name}): geometry must be Polygon or MultiPolygon`,
+      );
+      return;
+    }
+
+    areas.push({
+      name,
+      description: asString(props.description),
+      geometry: {
+        type: geometry.type,
+        coordinates: geometry.coordinates,
+      } as PolygonGeometry,
+      tags: asTags(props.tags),
+      owner: asString(props.owner),
+      colour: asColour(props.colour ?? props.color ?? props.fill),
+    });
+  });
+
+  return { areas, errors };
+}
+
+export function toGeoJsonFeatureCollection(areas: PoiAreaDefinition[]) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: areas.map((area) => ({
+      type: 'Feature' as const,
+      ...(area.id ? { id: area.id } : {}),
+      geometry: area.geometry,
+      properties: {
+        name: area.name,
+        description: area.description,
+        tags: area.tags ?? [],
+        owner: area.owner,
+        colour: area.colour,
+      },
+    })),
+  };
+}
+
+// ====================================================================
+// KML - Placemarks with Polygon / MultiGeometry, inline PolyStyle,
+// tags and owner in ExtendedData
+// ====================================================================
+
+export function parseKmlAreas(kml: string): ParsedPoiAreas {
+  const placemarks = elements(kml, 'Placemark');
+  if (placemarks.length === 0) {
+    return { areas: [], errors: ['no Placemark elements found'] };
+  }
+
+  const areas: PoiAreaDefinition[] = [];
+  const errors: string[] = [];
+
+  placemarks.forEach((placemark, index) => {
+    const name = text(placemark, 'name') || `Area ${index + 1}`;
+    const polygons = elements(placemark, 'Polygon').map(parseKmlPolygon);
+
+    if (polygons.length === 0) {
+      errors.push(`placemark ${index} (${name}): no Polygon geometry`);
+      return;
+    }
+    if (polygons.some((polygon) => polygon === null)) {
+      errors.push(
+        `placemark ${index} (${name}): invalid or missing coordinates`,
+      );
+      return;
+    }
+
+    const rings = polygons as Position[][][];
+    const polyStyle = elements(placemark, 'PolyStyle')[0];
+    const kmlColour = polyStyle ? text(polyStyle, 'color') : undefined;
+
+    areas.push({
+      name,
+      description: text(placemark, 'description'),
+      geometry:
+        rings.length === 1
+          ? { type: 'Polygon', coordinates: rings[0] }
+          : { type: 'MultiPolygon', coordinates: rings },
+      tags: asTags(extendedData(placemark, 'tags')),
+      owner: extendedData(placemark, 'owner'),
+      colour:
+        kmlColour && KML_COLOUR.test(kmlColour)
+          ? `#${kmlColour.slice(6, 8)}${kmlColour.slice(4, 6)}${kmlColour.slice(2, 4)}`.toLowerCase()
+          : undefined,
+    });
+  });
+
+  return { areas, errors };
+}
+
+export function toKml(
+  areas: PoiAreaDefinition[],
+  documentName = 'POI Areas',
+): string {
+  const placemarks = areas.map((area) => {
+    const polygons =
+      area.geometry.type === 'Polygon'
+        ? [area.geometry.coordinates]
+        : area.geometry.coordinates;
+    const geometry = polygons.map(kmlPolygon).join('');
+    const extended = [
+      area.tags?.length ? kmlData('tags', area.tags.join(',')) : '',
+      area.owner ? kmlData('owner', area.owner) : '',
+    ].join('');
+
+    return [
+      `<Placemark${area.id ? ` id="${escapeXml(area.id)}"` : ''}>`,
+      `<name>${escapeXml(area.name)}</name>`,
+      area.description
+        ? `<description>${escapeXml(area.description)}</description>`
+        : '',
+      area.colour ? kmlStyle(area.colour) : '',
+      extended ? `<ExtendedData>${extended}</ExtendedData>` : '',
+      polygons.length > 1
+        ? `<MultiGeometry>${geometry}</MultiGeometry>`
+        : geometry,
+      '</Placemark>',
+    ].join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${escapeXml(documentName)}</name>`,
+    ...placemarks,
+    '</Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+function parseKmlPolygon(polygon: string): Position[][] | null {
+  const outer = elements(polygon, 'outerBoundaryIs')[0];
+  const outerRing = outer ? parseCoordinates(text(outer, 'coordinates')) : null;
+  if (!outerRing) return null;
+
+  const rings = [outerRing];
+  for (const inner of elements(polygon, 'innerBoundaryIs')) {
+    const ring = parseCoordinates(text(inner, 'coordinates'));
+    if (!ring) return null;
+    rings.push(ring);
+  }
+  return rings;
+}
+
+// ✅ "lon,lat[,alt] lon,lat[,alt] ..."; unclosed rings are closed
+function parseCoordinates(value: string | undefined): Position[] | null {
+  if (!value) return null;
+
+  const ring: Position[] = [];
+  for (const tuple of value.trim().split(/\s+/)) {
+    const [longitude, latitude] = tuple.split(',').map(Number);
+    if (!Number.isFinite(longitude) || !Number.isFinite(latitude)) return null;
+    ring.push([longitude, latitude]);
+  }
+
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    ring.push([first[0], first[1]]);
+  }
+  return ring;
+}
+
+function kmlPolygon(rings: Position[][]): string {
+  const [outer, ...holes] = rings;
+  const ring = (positions: Position[]) =>
+    `<LinearRing><coordinates>${positions
+      .map(([longitude, latitude]) => `${longitude},${latitude}`)
+      .join(' ')}</coordinates></LinearRing>`;
+
+  return [
+    '<Polygon>',
+    `<outerBoundaryIs>${ring(outer)}</outerBoundaryIs>`,
+    ...holes.map((hole) => `<innerBoundaryIs>${ring(hole)}</innerBoundaryIs>`),
+    '</Polygon>',
+  ].join('');
+}
+
+// ✅ KML colours are aabbggrr; fill at 50% opacity, outline opaque
+function kmlStyle(colour: string): string {
+  const bgr = `${colour.slice(5, 7)}${colour.slice(3, 5)}${colour.slice(1, 3)}`;
+  return `<Style><LineStyle><color>ff${bgr}</color><width>2</width></LineStyle><PolyStyle><color>80${bgr}</color></PolyStyle></Style>`;
+}
+
+function kmlData(name: string, value: string): string {
+  return `<Data name="${name}"><value>${escapeXml(value)}</value></Data>`;
+}
+
+function extendedData(placemark: string, name: string): string | undefined {
+  const data = new RegExp(
+    `<(?:\\w+:)?(?:Data|SimpleData)\\s+name=["']${name}["'][^>]*>([\\s\\S]*?)</(?:\\w+:)?(?:Data|SimpleData)>`,
+  ).exec(placemark);
+  if (!data) return undefined;
+
+  const value = text(data[1], 'value');
+  return value ?? (decodeXml(data[1]).trim() || undefined);
+}
+
+// ====================================================================
+// Minimal XML helpers - KML is flat enough that element regexes suffice
+// ====================================================================
+
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(
+    `<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`,
+    'g',
+  );
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+function text(xml: string, tag: string): string | undefined {
+  const element = elements(xml, tag)[0];
+  if (element === undefined) return undefined;
+  return decodeXml(element).trim() || undefined;
+}
+
+function decodeXml(value: string): string {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(value);
+  if (cdata) return cdata[1];
+
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) =>
+      String.fromCharCode(Number(code)),
+    )
+    .replace(/&amp;/g, '&');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function asTags(value: unknown): string[] | undefined {
+  const tags = Array.isArray(value)
+    ? value.filter((tag): tag is string => typeof tag === 'string')
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  const cleaned = tags.map((tag) => tag.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+function asColour(value: unknown): string | undefined {
+  return typeof value === 'string' && HEX_COLOUR.test(value)
+    ? value.toLowerCase()
+    : undefined;
+}
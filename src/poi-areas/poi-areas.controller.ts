@@ -0,0 +1,128 @@
+// src/poi-areas/poi-areas.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { PoiAreasService } from './poi-areas.service';
+import {
+  CreatePoiAreaDto,
+  ExportPoiAreasDto,
+  ImportPoiAreasDto,
+  QueryPoiAreasDto,
+  UpdatePoiAreaDto,
+} from './dto/poi-area.dto';
+
+@ApiTags('POI Areas')
+@Controller('poi-areas')
+export class PoiAreasController {
+  constructor(private readonly poiAreasService: PoiAreasService) {}
+
+  /**
+   * 📋 LIST SAVED AREAS
+   * GET /api/poi-areas?tag=&owner=&search=
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List saved POI areas, filtered by tag, owner or name',
+  })
+  @ApiQuery({ type: QueryPoiAreasDto })
+  async findAll(@Query() query: QueryPoiAreasDto) {
+    const areas = await this.poiAreasService.findAll(query);
+    return {
+      success: true,
+      count: areas.length,
+      data: areas,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 📤 EXPORT
+   * GET /api/poi-areas/export?format=geojson|kml
+   */
+  @Get('export')
+  @ApiOperation({ summary: 'Export saved POI areas as GeoJSON or KML' })
+  @ApiQuery({ type: ExportPoiAreasDto })
+  async exportAreas(@Query() query: ExportPoiAreasDto) {
+    const format = query.format ?? 'geojson';
+    const content = await this.poiAreasService.exportAreas(format, query);
+
+    return new StreamableFile(Buffer.from(content), {
+      type:
+        format === 'kml'
+          ? 'application/vnd.google-earth.kml+xml'
+          : 'application/geo+json',
+      disposition: `attachment; filename="poi-areas.${format === 'kml' ? 'kml' : 'geojson'}"`,
+    });
+  }
+
+  /**
+   * 📥 IMPORT
+   * POST /api/poi-areas/import
+   */
+  @Post('import')
+  @ApiOperation({
+    summary:
+      'Import POI areas from a GeoJSON FeatureCollection or KML document',
+  })
+  async importAreas(@Body() dto: ImportPoiAreasDto) {
+    const result = await this.poiAreasService.importAreas(dto);
+    return {
+      success: result.imported > 0 || result.errors.length === 0,
+      data: result,
+      timestamp: new Date(),
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a saved POI area' })
+  async findOne(@Param('id') id: string) {
+    return {
+      success: true,
+      data: await this.poiAreasService.findOne(id),
+      timestamp: new Date(),
+    };
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Save a POI area (GeoJSON Polygon/MultiPolygon)' })
+  async create(@Body() dto: CreatePoiAreaDto) {
+    return {
+      success: true,
+      data: await this.poiAreasService.create(dto),
+      timestamp: new Date(),
+    };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a saved POI area' })
+  async update(@Param('id') id: string, @Body() dto: UpdatePoiAreaDto) {
+    return {
+      success: true,
+      data: await this.poiAreasService.update(id, dto),
+      timestamp: new Date(),
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a saved POI area' })
+  async remove(@Param('id') id: string) {
+    await this.poiAreasService.remove(id);
+    return {
+      success: true,
+      message: `POI area ${id} deleted`,
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,16 @@
+// src/poi-areas/poi-areas.module.ts
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PoiArea, PoiAreaSchema } from './schemas/poi-area.schema';
+import { PoiAreasService } from './poi-areas.service';
+import { PoiAreasController } from './poi-areas.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: PoiArea.name, schema: PoiAreaSchema }]),
+  ],
+  controllers: [PoiAreasController],
+  providers: [PoiAreasService],
+  exports: [PoiAreasService],
+})
+export class PoiAreasModule {}
@@ -0,0 +1,237 @@
+// src/poi-areas/poi-areas.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, isValidObjectId } from 'mongoose';
+import { PoiArea, PoiAreaDocument } from './schemas/poi-area.schema';
+import {
+  CreatePoiAreaDto,
+  ImportPoiAreasDto,
+  PoiAreaFormat,
+  QueryPoiAreasDto,
+  UpdatePoiAreaDto,
+} from './dto/poi-area.dto';
+import {
+  PoiAreaDefinition,
+  parseGeoJsonAreas,
+  parseKmlAreas,
+  toGeoJsonFeatureCollection,
+  toKml,
+} from './poi-area-formats';
+import {
+  PolygonGeometry,
+  polygonBoundingBox,
+  sphericalPolygonAreaKm2,
+  validatePolygonGeometry,
+} from '../common/geo/polygon.util';
+import type { WatchedArea } from '../geofences/geofence-transitions';
+
+export interface PoiAreaImportResult {
+  imported: number;
+  skipped: number;
+  areas: PoiArea[];
+  errors: string[];
+}
+
+/**
+ * 🗺️ POI AREAS - saved areas referenced by id from queries and subscriptions
+ */
+@Injectable()
+export class PoiAreasService {
+  private readonly logger = new Logger(PoiAreasService.name);
+
+  constructor(
+    @InjectModel(PoiArea.name)
+    private readonly poiAreaModel: Model<PoiAreaDocument>,
+  ) {}
+
+  async create(dto: CreatePoiAreaDto): Promise<PoiArea> {
+    this.assertValidGeometry(dto.geometry);
+
+    const area = await this.poiAreaModel.create({
+      ...dto,
+      ...this.derivedFields(dto.geometry),
+    });
+    this.logger.log(`🗺️ Created POI area "${area.name}" (${area.id})`);
+    return area;
+  }
+
+  async findAll(query: QueryPoiAreasDto = {}): Promise<PoiArea[]> {
+    return this.poiAreaModel
+      .find(this.buildFilter(query))
+      .sort({ name: 1 })
+      .lean<PoiArea[]>()
+      .exec();
+  }
+
+  async findOne(id: string): Promise<PoiAreaDocument> {
+    const area = isValidObjectId(id)
+      ? await this.poiAreaModel.findById(id).exec()
+      : null;
+
+    if (!area) {
+      throw new NotFoundException(`POI area ${id} not found`);
+    }
+    return area;
+  }
+
+  /**
+   * Areas in the shape the detectors test positions against: those carrying
+   * any of the tags (e.g. port, anchorage), or the geofences without tags
+   */
+  async findWatchedAreas(tags?: string[]): Promise<WatchedArea[]> {
+    if (tags?.length === 0) return [];
+
+    const areas = await this.poiAreaModel
+      .find(tags ? { tags: { $in: tags } } : { geofence: { $ne: false } })
+      .select('name geometry bounds')
+      .lean<(PoiArea & { _id: Types.ObjectId })[]>()
+      .exec();
+    return areas.map((area) =>
+      this.toWatchedArea(area._id.toHexString(), area),
+    );
+  }
+
+  /**
+   * A single saved area as a watched area, e.g. the zone of an alert rule
+   */
+  async getWatchedArea(id: string): Promise<WatchedArea> {
+    const area = await this.findOne(id);
+    return this.toWatchedArea(id, area);
+  }
+
+  /**
+   * Geometry of a saved area, for endpoints that accept `areaId`
+   */
+  async getGeometry(id: string): Promise<PolygonGeometry> {
+    const area = await this.findOne(id);
+    return area.geometry;
+  }
+
+  async update(id: string, dto: UpdatePoiAreaDto): Promise<PoiArea> {
+    const area = await this.findOne(id);
+
+    if (dto.geometry) {
+      this.assertValidGeometry(dto.geometry);
+      Object.assign(area, this.derivedFields(dto.geometry));
+    }
+    area.set(dto);
+
+    await area.save();
+    this.logger.log(`🗺️ Updated POI area "${area.name}" (${id})`);
+    return area;
+  }
+
+  async remove(id: string): Promise<void> {
+    const area = await this.findOne(id);
+    await area.deleteOne();
+    this.logger.log(`🗑️ Deleted POI area "${area.name}" (${id})`);
+  }
+
+  /**
+   * 📥 IMPORT - invalid features are reported and skipped, the rest are saved
+   */
+  async importAreas(dto: ImportPoiAreasDto): Promise<PoiAreaImportResult> {
+    const parsed =
+      dto.format === 'kml'
+        ? parseKmlAreas(typeof dto.content === 'string' ? dto.content : '')
+        : parseGeoJsonAreas(dto.content);
+
+    const errors = [...parsed.errors];
+    const documents = parsed.areas.flatMap((definition) => {
+      const geometryErrors = validatePolygonGeometry(definition.geometry);
+      if (geometryErrors.length > 0) {
+        errors.push(`${definition.name}: ${geometryErrors.join('; ')}`);
+        return [];
+      }
+
+      return [
+        {
+          ...definition,
+          tags: definition.tags ?? dto.tags ?? [],
+          owner: definition.owner ?? dto.owner,
+          ...this.derivedFields(definition.geometry),
+        },
+      ];
+    });
+
+    const areas =
+      documents.length > 0 ? await this.poiAreaModel.insertMany(documents) : [];
+
+    this.logger.log(
+      `📥 Imported ${areas.length} POI areas from ${dto.format} (${errors.length} skipped)`,
+    );
+    return {
+      imported: areas.length,
+      skipped: errors.length,
+      areas,
+      errors,
+    };
+  }
+
+  /**
+   * 📤 EXPORT - GeoJSON FeatureCollection or KML document
+   */
+  async exportAreas(
+    format: PoiAreaFormat,
+    query: QueryPoiAreasDto = {},
+  ): Promise<string> {
+    const areas = await this.poiAreaModel
+      .find(this.buildFilter(query))
+      .sort({ name: 1 })
+      .lean<(PoiArea & { _id: Types.ObjectId })[]>()
+      .exec();
+
+    const definitions: PoiAreaDefinition[] = areas.map((area) => ({
+      id: area._id.toHexString(),
+      name: area.name,
+      description: area.description,
+      geometry: area.geometry,
+      tags: area.tags,
+      owner: area.owner,
+      colour: area.colour,
+    }));
+
+    return format === 'kml'
+      ? toKml(definitions)
+      : JSON.stringify(toGeoJsonFeatureCollection(definitions));
+  }
+
+  private buildFilter(query: QueryPoiAreasDto): Record<string, unknown> {
+    const filter: Record<string, unknown> = {};
+    if (query.tag) filter.tags = query.tag;
+    if (query.owner) filter.owner = query.owner;
+    if (query.search) {
+      const escaped = query.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      filter.name = { $regex: escaped, $options: 'i' };
+    }
+    return filter;
+  }
+
+  private assertValidGeometry(geometry: PolygonGeometry): void {
+    const errors = validatePolygonGeometry(geometry);
+    if (errors.length > 0) {
+      throw new BadRequestException(`Invalid geometry: ${errors.join('; ')}`);
+    }
+  }
+
+  private toWatchedArea(id: string, area: PoiArea): WatchedArea {
+    return {
+      id,
+      name: area.name,
+      geometry: area.geometry,
+      bounds: area.bounds ?? polygonBoundingBox(area.geometry),
+    };
+  }
+
+  private derivedFields(geometry: PolygonGeometry) {
+    return {
+      bounds: polygonBoundingBox(geometry),
+      areaKm2: Math.round(sphericalPolygonAreaKm2(geometry) * 100) / 100,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+// src/poi-areas/schemas/poi-area.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { BoundingBox } from '../../common/geo/geo.util';
+import type { PolygonGeometry } from '../../common/geo/polygon.util';
+
+export type PoiAreaDocument = PoiArea & Document;
+
+/**
+ * 🗺️ Saved POI area / geofence
+ * `geometry` is validated with validatePolygonGeometry before save,
+ * `bounds` and `areaKm2` are derived from it.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'poi_areas',
+})
+export class PoiArea {
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ type: Object, required: true })
+  geometry: PolygonGeometry;
+
+  @Prop({ type: [String], default: [] })
+  tags: string[];
+
+  @Prop()
+  owner?: string;
+
+  @Prop({ default: '#3388ff' })
+  colour?: string; // #rrggbb
+
+  @Prop({ default: true })
+  geofence: boolean; // enter/exit/dwell events are detected for this area
+
+  @Prop({ type: Object })
+  bounds?: BoundingBox;
+
+  @Prop()
+  areaKm2?: number;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const PoiAreaSchema = SchemaFactory.createForClass(PoiArea);
+
+PoiAreaSchema.index({ geometry: '2dsphere' }, { name: 'geometry_2dsphere' });
+PoiAreaSchema.index({ tags: 1 });
+PoiAreaSchema.index({ geofence: 1 });
+PoiAreaSchema.index({ owner: 1, name: 1 });
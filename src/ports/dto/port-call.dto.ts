@@ -0,0 +1,64 @@
+// src/ports/dto/port-call.dto.ts
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PortCallHistoryDto {
+  @IsOptional()
+  @IsEnum(['in_port', 'completed'])
+  status?: 'in_port' | 'completed';
+
+  // ISO-8601, offset honoured; none = UTC. Calls overlapping the window.
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
+
+export class QueryPortCallsDto extends PortCallHistoryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  mmsi?: number;
+
+  @IsOptional()
+  @IsString()
+  locode?: string;
+}
+
+export class AnalyzePortCallsDto {
+  // One vessel, or every vessel reporting in the window
+  @IsOptional()
+  @IsNumber()
+  mmsi?: number;
+
+  // ISO-8601, offset honoured; none = UTC
+  @IsDateString()
+  startDate: string;
+
+  @IsDateString()
+  endDate: string;
+}
@@ -0,0 +1,83 @@
+// src/ports/dto/port.dto.ts
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { OmitType, PartialType } from '@nestjs/swagger';
+import type { PolygonGeometry } from '../../common/geo/polygon.util';
+
+export class CreatePortDto {
+  // ✅ UN/LOCODE, with or without the space: "ID JKT" or "IDJKT"
+  @Matches(/^[A-Za-z]{2}[\s-]?[A-Za-z2-9]{3}$/, {
+    message: 'locode must be a UN/LOCODE such as IDJKT',
+  })
+  locode: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  // ✅ Port limits as GeoJSON Polygon/MultiPolygon, or latitude/longitude + radiusKm
+  @IsOptional()
+  @IsObject()
+  geometry?: PolygonGeometry;
+
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(100)
+  radiusKm?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  aliases?: string[];
+}
+
+export class UpdatePortDto extends PartialType(
+  OmitType(CreatePortDto, ['locode'] as const),
+) {}
+
+export class QueryPortsDto {
+  // ✅ Case-insensitive substring of the name, or a LOCODE prefix
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @Matches(/^[A-Za-z]{2}$/, { message: 'country must be ISO 3166 alpha-2' })
+  country?: string;
+}
+
+export type PortImportFormat = 'geojson' | 'csv';
+
+export class ImportPortsDto {
+  @IsEnum(['geojson', 'csv'])
+  format: PortImportFormat;
+
+  // ✅ CSV as a string; GeoJSON as an object or a JSON string
+  @IsNotEmpty()
+  content: string | Record<string, unknown>;
+}
@@ -0,0 +1,91 @@
+import { OpenPortCall, advancePortCall, phaseOf } from './port-call-detector';
+
+describe('port-call-detector', () => {
+  const port = { locode: 'IDJKT', name: 'Jakarta' };
+  const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 0, minute));
+
+  it('should take the phase from navStatus before speed', () => {
+    expect(phaseOf({ navStatus: 1, speed: 4 })).toBe('anchor');
+    expect(phaseOf({ navStatus: 5, speed: 0 })).toBe('berth');
+    expect(phaseOf({ navStatus: 0, speed: 0.2 })).toBe('berth');
+    expect(phaseOf({ navStatus: 0, speed: 6 })).toBe('manoeuvring');
+  });
+
+  it('should open a call when a vessel enters port limits', () => {
+    const step = advancePortCall(null, { timestamp: at(0), speed: 8 }, port);
+
+    expect(step.arrived).toEqual({
+      locode: 'IDJKT',
+      portName: 'Jakarta',
+      arrivedAt: at(0),
+      phases: [{ type: 'manoeuvring', startedAt: at(0) }],
+    });
+    expect(step.open).toBe(step.arrived);
+    expect(step.departed).toBeUndefined();
+  });
+
+  it('should ignore reports outside any port', () => {
+    expect(
+      advancePortCall(null, { timestamp: at(0), speed: 12 }, null),
+    ).toEqual({ open: null, departed: undefined });
+  });
+
+  it('should add a phase only when it changes', () => {
+    let open = advancePortCall(null, { timestamp: at(0), speed: 8 }, port)
+      .open as OpenPortCall;
+
+    const same = advancePortCall(open, { timestamp: at(10), speed: 6 }, port);
+    expect(same.phaseChanged).toBeUndefined();
+    expect(same.open).toBe(open);
+
+    const anchored = advancePortCall(
+      open,
+      { timestamp: at(20), speed: 0, navStatus: 1 },
+      port,
+    );
+    expect(anchored.phaseChanged).toBe(true);
+    open = anchored.open as OpenPortCall;
+    expect(open.phases).toEqual([
+      { type: 'manoeuvring', startedAt: at(0), endedAt: at(20) },
+      { type: 'anchor', startedAt: at(20) },
+    ]);
+  });
+
+  it('should close the call with its duration on leaving port limits', () => {
+    const open: OpenPortCall = {
+      locode: 'IDJKT',
+      portName: 'Jakarta',
+      arrivedAt: at(0),
+      phases: [{ type: 'berth', startedAt: at(0) }],
+    };
+
+    const step = advancePortCall(open, { timestamp: at(90), speed: 9 }, null);
+
+    expect(step.open).toBeNull();
+    expect(step.departed).toMatchObject({
+      locode: 'IDJKT',
+      departedAt: at(90),
+      durationSeconds: 5400,
+      phases: [{ type: 'berth', startedAt: at(0), endedAt: at(90) }],
+    });
+  });
+
+  it('should depart and arrive on moving straight into another port', () => {
+    const open: OpenPortCall = {
+      locode: 'IDJKT',
+      portName: 'Jakarta',
+      arrivedAt: at(0),
+      phases: [{ type: 'manoeuvring', startedAt: at(0) }],
+    };
+
+    const step = advancePortCall(
+      open,
+      { timestamp: at(60), speed: 5 },
+      { locode: 'IDTPP', name: 'Tanjung Priok' },
+    );
+
+    expect(step.departed?.locode).toBe('IDJKT');
+    expect(step.arrived?.locode).toBe('IDTPP');
+    expect(step.open).toBe(step.arrived);
+  });
+});
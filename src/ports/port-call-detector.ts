@@ -0,0 +1,114 @@
+// src/ports/port-call-detector.ts
+import type { TrackedPosition } from '../ais-data/ingest-hooks';
+
+export type PortCallPhaseType = 'manoeuvring' | 'anchor' | 'berth';
+
+export interface PortCallPhase {
+  type: PortCallPhaseType;
+  startedAt: Date;
+  endedAt?: Date; // unset for the current phase
+}
+
+// ✅ Port a position lies in, as resolved by the caller
+export interface PortRef {
+  locode: string;
+  name: string;
+}
+
+export interface OpenPortCall {
+  locode: string;
+  portName: string;
+  arrivedAt: Date;
+  phases: PortCallPhase[];
+}
+
+export interface ClosedPortCall extends OpenPortCall {
+  departedAt: Date;
+  durationSeconds: number;
+}
+
+export interface PortCallStep {
+  open: OpenPortCall | null; // call in progress after this report
+  arrived?: OpenPortCall;
+  departed?: ClosedPortCall;
+  phaseChanged?: boolean; // open call's phases changed without arrival
+}
+
+const STOPPED_SPEED_KNOTS = 0.5;
+
+/**
+ * Phase of a report inside port limits: navStatus 1 at anchor, 5 moored;
+ * otherwise stopped counts as berthed and moving as manoeuvring
+ */
+export function phaseOf(position: {
+  speed?: number;
+  navStatus?: number;
+}): PortCallPhaseType {
+  if (position.navStatus === 1) return 'anchor';
+  if (position.navStatus === 5) return 'berth';
+  return Number(position.speed ?? 0) < STOPPED_SPEED_KNOTS
+    ? 'berth'
+    : 'manoeuvring';
+}
+
+/**
+ * Advance one vessel's port-call state by one report (reports oldest
+ * first). `port` is the port whose limits hold the report, if any.
+ * - outside -> inside: arrival, opening a call
+ * - inside -> outside or another port: departure at this report
+ * - inside, phase differs from the current one: new phase
+ * Used both for live ingest and for folding over historical tracks.
+ */
+export function advancePortCall(
+  open: OpenPortCall | null,
+  position: Pick<TrackedPosition, 'timestamp' | 'speed' | 'navStatus'>,
+  port: PortRef | null,
+): PortCallStep {
+  const time = position.timestamp;
+  let departed: ClosedPortCall | undefined;
+
+  if (open && open.locode !== port?.locode) {
+    departed = {
+      ...open,
+      phases: closePhases(open.phases, time),
+      departedAt: time,
+      durationSeconds: Math.round(
+        (time.getTime() - open.arrivedAt.getTime()) / 1000,
+      ),
+    };
+    open = null;
+  }
+
+  if (!port) return { open: null, departed };
+
+  if (!open) {
+    const arrived: OpenPortCall = {
+      locode: port.locode,
+      portName: port.name,
+      arrivedAt: time,
+      phases: [{ type: phaseOf(position), startedAt: time }],
+    };
+    return { open: arrived, arrived, departed };
+  }
+
+  const phase = phaseOf(position);
+  const current = open.phases[open.phases.length - 1];
+  if (current?.type === phase) return { open };
+
+  return {
+    open: {
+      ...open,
+      phases: [
+        ...closePhases(open.phases, time),
+        { type: phase, startedAt: time },
+      ],
+    },
+    phaseChanged: true,
+  };
+}
+
+function closePhases(phases: PortCallPhase[], time: Date): PortCallPhase[] {
+  return phases.map((phase) =>
+    phase.endedAt ? phase : { ...phase, endedAt: time },
+  );
+}
@@ -0,0 +1,368 @@
+// src/ports/port-calls.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { PortCall, PortCallDocument } from './schemas/port-call.schema';
+import { AnalyzePortCallsDto, QueryPortCallsDto } from './dto/port-call.dto';
+import {
+  ClosedPortCall,
+  OpenPortCall,
+  PortCallStep,
+  advancePortCall,
+} from './port-call-detector';
+import { PortsService } from './ports.service';
+import { normalizeLocode } from './port-formats';
+import {
+  VesselLog,
+  VesselLogDocument,
+} from '../ais-data/schemas/vessel-log.schema';
+import { AisDataService } from '../ais-data/ais-data.service';
+import {
+  PositionIngestHook,
+  TrackedPosition,
+  VesselPositionUpdate,
+} from '../ais-data/ingest-hooks';
+import { parseApiDate } from '../common/time/timezone.util';
+import { VesselTrackingGateway } from '../websocket/vessel-tracking.gateway';
+
+export interface PortCallEvent {
+  type: 'arrival' | 'departure';
+  mmsi: number;
+  vesselName?: string;
+  locode: string;
+  portName: string;
+  timestamp: Date;
+  latitude: number;
+  longitude: number;
+  durationSeconds?: number; // departures
+}
+
+export interface PortCallAnalysisResult {
+  vessels: number;
+  portCalls: number;
+}
+
+/**
+ * ⚓ PORT CALLS
+ * Arrival when a vessel enters port limits, departure when it leaves,
+ * and anchor/berth/manoeuvring phases in between from navStatus and SOG.
+ * Live via the ingest hook (arrivals/departures on `port_call_event`),
+ * and on demand over vessel_logs history.
+ */
+@Injectable()
+export class PortCallsService implements PositionIngestHook, OnModuleInit {
+  readonly name = 'port-calls';
+  private readonly logger = new Logger(PortCallsService.name);
+  private readonly enabled: boolean;
+  private readonly minCallSeconds: number;
+  private readonly maxAnalyzeDays: number;
+
+  constructor(
+    @InjectModel(PortCall.name)
+    private readonly portCallModel: Model<PortCallDocument>,
+    @InjectModel(VesselLog.name)
+    private readonly vesselLogModel: Model<VesselLogDocument>,
+    private readonly portsService: PortsService,
+    private readonly aisDataService: AisDataService,
+    private readonly configService: ConfigService,
+    private readonly vesselTrackingGateway?: VesselTrackingGateway, // Optional injection
+  ) {
+    this.enabled =
+      this.configService.get<string>('PORT_CALLS_ENABLED', 'true') !== 'false';
+    // ✅ Shorter stays are vessels passing through port limits, not calls
+    this.minCallSeconds =
+      Number(this.configService.get<string>('PORT_CALL_MIN_MINUTES', '30')) *
+      60;
+    this.maxAnalyzeDays = Number(
+      this.configService.get<string>('PORT_CALL_MAX_ANALYZE_DAYS', '31'),
+    );
+  }
+
+  onModuleInit(): void {
+    if (this.enabled) {
+      this.aisDataService.registerIngestHook(this);
+    }
+  }
+
+  async onPositions(updates: VesselPositionUpdate[]): Promise<void> {
+    const ports = await this.portsService.getPorts();
+    if (ports.length === 0) return;
+
+    const openCalls = new Map<number, PortCallDocument>();
+    const docs = await this.portCallModel
+      .find({
+        mmsi: { $in: [...new Set(updates.map((update) => update.mmsi))] },
+        status: 'in_port',
+      })
+      .exec();
+    docs.forEach((doc) => openCalls.set(doc.mmsi, doc));
+
+    const events: PortCallEvent[] = [];
+    // ✅ Updates are oldest first, so several reports per vessel chain correctly
+    for (const { mmsi, current } of updates) {
+      const doc = openCalls.get(mmsi);
+      const port = await this.portsService.findPortAt(current);
+      const step = advancePortCall(
+        doc ? this.toOpenCall(doc) : null,
+        current,
+        port,
+      );
+
+      if (step.departed && doc) {
+        const kept = await this.completeCall(doc, step.departed, current);
+        openCalls.delete(mmsi);
+        if (kept) {
+          events.push(this.toEvent('departure', current, step.departed));
+        }
+      }
+      if (step.arrived) {
+        const created = await this.portCallModel.create(
+          this.toRecord(step.arrived, current),
+        );
+        openCalls.set(mmsi, created);
+        events.push(this.toEvent('arrival', current, step.arrived));
+      } else if (step.phaseChanged && doc && step.open) {
+        doc.set({ phases: step.open.phases });
+        await doc.save();
+      }
+    }
+
+    if (events.length === 0) return;
+    this.vesselTrackingGateway?.broadcastPortCallEvents(events);
+    this.logger.log(`⚓ ${events.length} port call events`);
+  }
+
+  /**
+   * ⏪ HISTORICAL ANALYSIS - completed calls found in vessel_logs; a call
+   * still open at the end of the window is left to live detection
+   */
+  async analyzeHistory(
+    dto: AnalyzePortCallsDto,
+  ): Promise<PortCallAnalysisResult> {
+    const from = parseApiDate(dto.startDate);
+    const to = parseApiDate(dto.endDate);
+    if (!from || !to || from >= to) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+    if (to.getTime() - from.getTime() > this.maxAnalyzeDays * 86400 * 1000) {
+      throw new BadRequestException(
+        `Analysis window is limited to ${this.maxAnalyzeDays} days`,
+      );
+    }
+
+    const mmsis: number[] = dto.mmsi
+      ? [dto.mmsi]
+      : await this.vesselLogModel.distinct('mmsi', {
+          status: 'archived',
+          timestamp: { $gte: from, $lte: to },
+        });
+
+    let portCalls = 0;
+    for (const mmsi of mmsis) {
+      const track = await this.vesselLogModel
+        .find({ mmsi, status: 'archived', timestamp: { $gte: from, $lte: to } })
+        .sort({ timestamp: 1 })
+        .select(
+          'mmsi latitude longitude timestamp speed navStatus name vesselType source',
+        )
+        .lean<VesselLog[]>();
+
+      let open: OpenPortCall | null = null;
+      let arrival: VesselLog | null = null;
+      for (const report of track) {
+        const step: PortCallStep = advancePortCall(
+          open,
+          report,
+          await this.portsService.findPortAt(report),
+        );
+        if (
+          step.departed &&
+          arrival &&
+          (await this.saveHistoricalCall(step.departed, arrival, report))
+        ) {
+          portCalls++;
+        }
+        if (step.arrived) arrival = report;
+        open = step.open;
+      }
+    }
+
+    this.logger.log(
+      `⚓ Historical port call analysis: ${portCalls} calls from ${mmsis.length} vessels`,
+    );
+    return { vessels: mmsis.length, portCalls };
+  }
+
+  /**
+   * 📚 PORT CALL HISTORY - newest arrival first
+   */
+  async queryPortCalls(queryDto: QueryPortCallsDto) {
+    const {
+      mmsi,
+      locode,
+      status,
+      startDate,
+      endDate,
+      page = 1,
+      limit = 100,
+    } = queryDto;
+
+    const query: Record<string, any> = {};
+    if (mmsi) query.mmsi = mmsi;
+    if (locode) query.locode = normalizeLocode(locode) ?? locode;
+    if (status) query.status = status;
+    // ✅ Overlap with the window; open calls have no departure yet
+    if (startDate) {
+      query.$or = [
+        { departedAt: { $gte: parseApiDate(startDate) } },
+        { status: 'in_port' },
+      ];
+    }
+    if (endDate) query.arrivedAt = { $lte: parseApiDate(endDate) };
+
+    const [portCalls, total] = await Promise.all([
+      this.portCallModel
+        .find(query)
+        .sort({ arrivedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.portCallModel.countDocuments(query),
+    ]);
+
+    return {
+      data: portCalls,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Close an open call; a pass-through shorter than the minimum is dropped
+   */
+  private async completeCall(
+    doc: PortCallDocument,
+    call: ClosedPortCall,
+    position: TrackedPosition,
+  ): Promise<boolean> {
+    if (call.durationSeconds < this.minCallSeconds) {
+      await doc.deleteOne();
+      return false;
+    }
+
+    doc.set({
+      status: 'completed',
+      departedAt: call.departedAt,
+      durationSeconds: call.durationSeconds,
+      phases: call.phases,
+      departurePosition: {
+        latitude: position.latitude,
+        longitude: position.longitude,
+      },
+    });
+    await doc.save();
+    return true;
+  }
+
+  /**
+   * Upsert by overlap with a call already stored for the vessel and port
+   */
+  private async saveHistoricalCall(
+    call: ClosedPortCall,
+    arrival: VesselLog,
+    departure: VesselLog,
+  ): Promise<boolean> {
+    if (call.durationSeconds < this.minCallSeconds) return false;
+
+    const record: PortCall = {
+      ...this.toRecord(call, arrival),
+      status: 'completed',
+      departedAt: call.departedAt,
+      durationSeconds: call.durationSeconds,
+      departurePosition: {
+        latitude: departure.latitude,
+        longitude: departure.longitude,
+      },
+    };
+    await this.portCallModel.findOneAndUpdate(
+      {
+        mmsi: arrival.mmsi,
+        locode: call.locode,
+        arrivedAt: { $lte: call.departedAt },
+        $or: [{ departedAt: { $gte: call.arrivedAt } }, { status: 'in_port' }],
+      },
+      { $set: record },
+      { upsert: true },
+    );
+    return true;
+  }
+
+  private toOpenCall(doc: PortCallDocument): OpenPortCall {
+    return {
+      locode: doc.locode,
+      portName: doc.portName,
+      arrivedAt: doc.arrivedAt,
+      phases: doc.phases,
+    };
+  }
+
+  private toRecord(
+    call: OpenPortCall,
+    position: {
+      mmsi: number;
+      latitude: number;
+      longitude: number;
+      name?: string;
+      vesselType?: number;
+      source?: string;
+    },
+  ): PortCall {
+    return {
+      mmsi: position.mmsi,
+      vesselName: position.name,
+      vesselType: position.vesselType,
+      locode: call.locode,
+      portName: call.portName,
+      status: 'in_port',
+      arrivedAt: call.arrivedAt,
+      phases: call.phases,
+      arrivalPosition: {
+        latitude: position.latitude,
+        longitude: position.longitude,
+      },
+      source: position.source,
+    };
+  }
+
+  private toEvent(
+    type: PortCallEvent['type'],
+    position: TrackedPosition,
+    call: OpenPortCall | ClosedPortCall,
+  ): PortCallEvent {
+    return {
+      type,
+      mmsi: position.mmsi,
+      vesselName: position.name,
+      locode: call.locode,
+      portName: call.portName,
+      timestamp: position.timestamp,
+      latitude: position.latitude,
+      longitude: position.longitude,
+      durationSeconds:
+        'durationSeconds' in call ? call.durationSeconds : undefined,
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  normalizeLocode,
+  parsePortsCsv,
+  parsePortsGeoJson,
+} from './port-formats';
+
+describe('port-formats', () => {
+  it('should normalize UN/LOCODEs and reject malformed ones', () => {
+    expect(normalizeLocode('id jkt')).toBe('IDJKT');
+    expect(normalizeLocode('SG-SIN')).toBe('SGSIN');
+    expect(normalizeLocode('JKT')).toBeUndefined();
+    expect(normalizeLocode(42)).toBeUndefined();
+  });
+
+  it('should read CSV rows as circles around the point', () => {
+    const { ports, errors } = parsePortsCsv(
+      [
+        'locode,name,latitude,longitude,radiusKm,aliases',
+        'IDJKT,"Jakarta, Tanjung Priok",-6.1,106.88,5,JAKARTA;TG PRIOK',
+        'XXX,Nowhere,0,0,,',
+        'SGSIN,Singapore,1.26,200,,',
+      ].join('\n'),
+    );
+
+    expect(ports).toHaveLength(1);
+    expect(ports[0]).toMatchObject({
+      locode: 'IDJKT',
+      name: 'Jakarta, Tanjung Priok',
+      country: 'ID',
+      aliases: ['JAKARTA', 'TG PRIOK'],
+    });
+    expect(ports[0].geometry.type).toBe('Polygon');
+    expect(errors).toEqual([
+      'line 3: needs a valid locode and a name',
+      'line 4 (SGSIN): invalid latitude/longitude',
+    ]);
+  });
+
+  it('should report a CSV header without required columns', () => {
+    expect(parsePortsCsv('locode,name\nIDJKT,Jakarta').errors).toEqual([
+      'CSV header is missing latitude, longitude',
+    ]);
+  });
+
+  it('should read GeoJSON polygons and points with a radius', () => {
+    const { ports, errors } = parsePortsGeoJson({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { locode: 'SGSIN', name: 'Singapore' },
+          geometry: {
+            type: 'Polygon',
+            coordinates: [
+              [
+                [103.6, 1.2],
+                [104.0, 1.2],
+                [104.0, 1.4],
+                [103.6, 1.2],
+              ],
+            ],
+          },
+        },
+        {
+          type: 'Feature',
+          properties: { locode: 'IDSUB', name: 'Surabaya', radiusKm: 4 },
+          geometry: { type: 'Point', coordinates: [112.73, -7.2] },
+        },
+      ],
+    });
+
+    expect(errors).toEqual([]);
+    expect(ports.map((port) => port.locode)).toEqual(['SGSIN', 'IDSUB']);
+    expect(ports[1].geometry.type).toBe('Polygon');
+  });
+});
@@ -0,0 +1,283 @@
+// src/ports/port-formats.ts
+// GeoJSON and CSV import of port reference data.
+
+import {
+  EARTH_RADIUS_KM,
+  GeoJsonPolygon,
+  normalizeLongitude,
+  toRadians,
+} from '../common/geo/geo.util';
+import type { PolygonGeometry } from '../common/geo/polygon.util';
+
+export interface PortDefinition {
+  locode: string; // UN/LOCODE without the space, e.g. IDJKT
+  name: string;
+  country: string; // ISO 3166 alpha-2, the first two LOCODE letters
+  geometry: PolygonGeometry;
+  aliases?: string[]; // other spellings crews type as destination
+}
+
+export interface ParsedPorts {
+  ports: PortDefinition[];
+  errors: string[]; // one per skipped feature/row
+}
+
+// ✅ 2-letter country + 3 characters (letters, digits 2-9)
+const LOCODE_PATTERN = /^[A-Z]{2}[A-Z2-9]{3}$/;
+export const DEFAULT_PORT_RADIUS_KM = 3;
+const CIRCLE_VERTICES = 32;
+
+/**
+ * "ID JKT", "id-jkt" -> "IDJKT"; undefined when not a valid UN/LOCODE
+ */
+export function normalizeLocode(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const locode = value.replace(/[\s-]/g, '').toUpperCase();
+  return LOCODE_PATTERN.test(locode) ? locode : undefined;
+}
+
+/**
+ * Port area for a point-only port: a polygon approximating a circle
+ */
+export function circlePolygon(
+  latitude: number,
+  longitude: number,
+  radiusKm: number,
+): GeoJsonPolygon {
+  const angular = radiusKm / EARTH_RADIUS_KM;
+  const lat1 = toRadians(latitude);
+  const lon1 = toRadians(longitude);
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+  const ring: [number, number][] = [];
+  for (let i = 0; i < CIRCLE_VERTICES; i++) {
+    const bearing = toRadians((360 / CIRCLE_VERTICES) * i);
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angular) +
+        Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing),
+    );
+    const lon2 =
+      lon1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+        Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2),
+      );
+    ring.push([
+      Math.round(normalizeLongitude(toDegrees(lon2)) * 1e6) / 1e6,
+      Math.round(toDegrees(lat2) * 1e6) / 1e6,
+    ]);
+  }
+  ring.push(ring[0]);
+
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+// ====================================================================
+// GeoJSON
+// ====================================================================
+
+/**
+ * Read a FeatureCollection of ports. Polygon/MultiPolygon features are
+ * the port area; Point features get a circle of `radiusKm` (default 3).
+ * Properties: locode (or unlocode), name, aliases.
+ */
+export function parsePortsGeoJson(input: unknown): ParsedPorts {
+  let value = input;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return { ports: [], errors: ['content is not valid JSON'] };
+    }
+  }
+
+  const root = (value ?? {}) as { type?: unknown; features?: unknown };
+  if (root.type !== 'FeatureCollection' || !Array.isArray(root.features)) {
+    return {
+      ports: [],
+      errors: ['content must be a GeoJSON FeatureCollection'],
+    };
+  }
+
+  const ports: PortDefinition[] = [];
+  const errors: string[] = [];
+
+  (root.features as unknown[]).forEach((feature, index) => {
+    const { geometry, properties } = (feature ?? {}) as {
+      geometry?: { type?: unknown; coordinates?: unknown };
+      properties?: Record<string, unknown> | null;
+    };
+    const props = properties ?? {};
+    const locode = normalizeLocode(props.locode ?? props.unlocode);
+    const name = asString(props.name);
+    if (!locode || !name) {
+      errors.push(`feature ${index}: needs a valid locode and a name`);
+      return;
+    }
+
+    let portGeometry: PolygonGeometry;
+    if (geometry?.type === 'Polygon' || geometry?.type === 'MultiPolygon') {
+      portGeometry = {
+        type: geometry.type,
+        coordinates: geometry.coordinates,
+      } as PolygonGeometry;
+    } else if (
+      geometry?.type === 'Point' &&
+      Array.isArray(geometry.coordinates) &&
+      typeof geometry.coordinates[0] === 'number' &&
+      typeof geometry.coordinates[1] === 'number'
+    ) {
+      const [longitude, latitude] = geometry.coordinates as [number, number];
+      portGeometry = circlePolygon(
+        latitude,
+        longitude,
+        asPositiveNumber(Number(props.radiusKm)) ?? DEFAULT_PORT_RADIUS_KM,
+      );
+    } else {
+      errors.push(
+        `feature ${index} (${locode}): geometry must be Point, Polygon or MultiPolygon`,
+      );
+      return;
+    }
+
+    ports.push({
+      locode,
+      name,
+      country: locode.slice(0, 2),
+      geometry: portGeometry,
+      aliases: asAliases(props.aliases),
+    });
+  });
+
+  return { ports, errors };
+}
+
+// ====================================================================
+// CSV
+// ====================================================================
+
+/**
+ * Read CSV with a header row: locode, name, latitude, longitude and
+ * optional radiusKm and aliases (separated by `;` or `|`). Each port is a
+ * circle around its point. Double-quoted fields may contain commas.
+ */
+export function parsePortsCsv(csv: string): ParsedPorts {
+  const rows = csv
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map(splitCsvLine);
+  if (rows.length === 0) {
+    return { ports: [], errors: ['CSV is empty'] };
+  }
+
+  const header = rows[0].map((column) => column.trim().toLowerCase());
+  const column = (row: string[], ...names: string[]) => {
+    for (const name of names) {
+      const index = header.indexOf(name.toLowerCase());
+      if (index !== -1 && row[index]?.trim()) return row[index].trim();
+    }
+    return undefined;
+  };
+  const missing = ['locode', 'name', 'latitude', 'longitude'].filter(
+    (name) =>
+      !header.includes(name) &&
+      !(name === 'locode' && header.includes('unlocode')),
+  );
+  if (missing.length > 0) {
+    return {
+      ports: [],
+      errors: [`CSV header is missing ${missing.join(', ')}`],
+    };
+  }
+
+  const ports: PortDefinition[] = [];
+  const errors: string[] = [];
+
+  rows.slice(1).forEach((row, index) => {
+    const line = index + 2;
+    const locode = normalizeLocode(column(row, 'locode', 'unlocode'));
+    const name = column(row, 'name');
+    const latitude = Number(column(row, 'latitude', 'lat'));
+    const longitude = Number(column(row, 'longitude', 'lon', 'lng'));
+
+    if (!locode || !name) {
+      errors.push(`line ${line}: needs a valid locode and a name`);
+      return;
+    }
+    if (
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude) ||
+      Math.abs(latitude) > 90 ||
+      Math.abs(longitude) > 180
+    ) {
+      errors.push(`line ${line} (${locode}): invalid latitude/longitude`);
+      return;
+    }
+
+    ports.push({
+      locode,
+      name,
+      country: locode.slice(0, 2),
+      geometry: circlePolygon(
+        latitude,
+        longitude,
+        asPositiveNumber(Number(column(row, 'radiusKm'))) ??
+          DEFAULT_PORT_RADIUS_KM,
+      ),
+      aliases: asAliases(column(row, 'aliases')),
+    });
+  });
+
+  return { ports, errors };
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function asPositiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+    ? value
+    : undefined;
+}
+
+function asAliases(value: unknown): string[] | undefined {
+  const aliases = Array.isArray(value)
+    ? value.filter((alias): alias is string => typeof alias === 'string')
+    : typeof value === 'string'
+      ? value.split(/[;|]/)
+      : [];
+  const cleaned = aliases.map((alias) => alias.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : undefined;
+}
@@ -0,0 +1,199 @@
+// src/ports/ports.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { PortsService } from './ports.service';
+import { PortCallsService } from './port-calls.service';
+import {
+  CreatePortDto,
+  ImportPortsDto,
+  QueryPortsDto,
+  UpdatePortDto,
+} from './dto/port.dto';
+import {
+  AnalyzePortCallsDto,
+  PortCallHistoryDto,
+  QueryPortCallsDto,
+} from './dto/port-call.dto';
+
+@ApiTags('Ports')
+@Controller('ports')
+export class PortsController {
+  constructor(
+    private readonly portsService: PortsService,
+    private readonly portCallsService: PortCallsService,
+  ) {}
+
+  /**
+   * 📋 LIST PORTS (without geometry)
+   * GET /api/ports?search=&country=ID
+   */
+  @Get()
+  @ApiOperation({ summary: 'List ports' })
+  @ApiQuery({ type: QueryPortsDto })
+  async findAll(@Query() queryDto: QueryPortsDto) {
+    const ports = await this.portsService.findAll(queryDto);
+    return {
+      success: true,
+      count: ports.length,
+      data: ports,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 📥 IMPORT PORTS - GeoJSON FeatureCollection or CSV, upsert by LOCODE
+   * POST /api/ports/import
+   */
+  @Post('import')
+  @ApiOperation({ summary: 'Import ports from GeoJSON or CSV' })
+  async importPorts(@Body() dto: ImportPortsDto) {
+    return {
+      success: true,
+      data: await this.portsService.importPorts(dto),
+      timestamp: new Date(),
+    };
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a port from a polygon or a point and radius',
+  })
+  async create(@Body() dto: CreatePortDto) {
+    return {
+      success: true,
+      data: await this.portsService.create(dto),
+      timestamp: new Date(),
+    };
+  }
+
+  @Get(':locode')
+  @ApiOperation({ summary: 'Get a port by UN/LOCODE' })
+  async findOne(@Param('locode') locode: string) {
+    return {
+      success: true,
+      data: await this.portsService.findByLocode(locode),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * ⚓ PORT CALL HISTORY PER PORT
+   * GET /api/ports/:locode/calls?status=&startDate=&endDate=
+   */
+  @Get(':locode/calls')
+  @ApiOperation({ summary: 'Port call history of a port' })
+  @ApiQuery({ type: PortCallHistoryDto })
+  async getPortCalls(
+    @Param('locode') locode: string,
+    @Query() queryDto: PortCallHistoryDto,
+  ) {
+    const port = await this.portsService.findByLocode(locode);
+    const result = await this.portCallsService.queryPortCalls({
+      ...queryDto,
+      locode: port.locode,
+    });
+    return {
+      success: true,
+      locode: port.locode,
+      portName: port.name,
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+
+  @Patch(':locode')
+  @ApiOperation({ summary: 'Update a port' })
+  async update(@Param('locode') locode: string, @Body() dto: UpdatePortDto) {
+    return {
+      success: true,
+      data: await this.portsService.update(locode, dto),
+      timestamp: new Date(),
+    };
+  }
+
+  @Delete(':locode')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a port' })
+  async remove(@Param('locode') locode: string) {
+    await this.portsService.remove(locode);
+    return {
+      success: true,
+      message: `Port ${locode} deleted`,
+      timestamp: new Date(),
+    };
+  }
+}
+
+@ApiTags('Ports')
+@Controller('port-calls')
+export class PortCallsController {
+  constructor(private readonly portCallsService: PortCallsService) {}
+
+  /**
+   * ⚓ QUERY PORT CALLS
+   * GET /api/port-calls?mmsi=&locode=&status=in_port
+   */
+  @Get()
+  @ApiOperation({ summary: 'Query port calls' })
+  @ApiQuery({ type: QueryPortCallsDto })
+  async queryPortCalls(@Query() queryDto: QueryPortCallsDto) {
+    const result = await this.portCallsService.queryPortCalls(queryDto);
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🚢 PORT CALL HISTORY PER VESSEL
+   * GET /api/port-calls/vessel/:mmsi
+   */
+  @Get('vessel/:mmsi')
+  @ApiOperation({ summary: 'Port call history of a vessel' })
+  @ApiQuery({ type: PortCallHistoryDto })
+  async getVesselPortCalls(
+    @Param('mmsi', ParseIntPipe) mmsi: number,
+    @Query() queryDto: PortCallHistoryDto,
+  ) {
+    const result = await this.portCallsService.queryPortCalls({
+      ...queryDto,
+      mmsi,
+    });
+    return {
+      success: true,
+      mmsi,
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * ⏪ ANALYZE HISTORY
+   * POST /api/port-calls/analyze { mmsi?, startDate, endDate }
+   */
+  @Post('analyze')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Derive port calls from vessel_logs over a past window',
+  })
+  async analyze(@Body() dto: AnalyzePortCallsDto) {
+    return {
+      success: true,
+      data: await this.portCallsService.analyzeHistory(dto),
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,30 @@
+// src/ports/ports.module.ts
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Port, PortSchema } from './schemas/port.schema';
+import { PortCall, PortCallSchema } from './schemas/port-call.schema';
+import { PortsService } from './ports.service';
+import { PortCallsService } from './port-calls.service';
+import { PortCallsController, PortsController } from './ports.controller';
+import {
+  VesselLog,
+  VesselLogSchema,
+} from '../ais-data/schemas/vessel-log.schema';
+import { AisDataModule } from '../ais-data/ais-data.module';
+import { WebSocketModule } from '../websocket/websocket.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Port.name, schema: PortSchema },
+      { name: PortCall.name, schema: PortCallSchema },
+      { name: VesselLog.name, schema: VesselLogSchema },
+    ]),
+    AisDataModule,
+    WebSocketModule,
+  ],
+  controllers: [PortsController, PortCallsController],
+  providers: [PortsService, PortCallsService],
+  exports: [PortsService, PortCallsService],
+})
+export class PortsModule {}
@@ -0,0 +1,265 @@
+// src/ports/ports.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { Port, PortDocument } from './schemas/port.schema';
+import {
+  CreatePortDto,
+  ImportPortsDto,
+  QueryPortsDto,
+  UpdatePortDto,
+} from './dto/port.dto';
+import {
+  DEFAULT_PORT_RADIUS_KM,
+  PortDefinition,
+  circlePolygon,
+  normalizeLocode,
+  parsePortsCsv,
+  parsePortsGeoJson,
+} from './port-formats';
+import { isWithinBoundingBox } from '../common/geo/geo.util';
+import {
+  PolygonGeometry,
+  isPointInPolygon,
+  polygonBoundingBox,
+  validatePolygonGeometry,
+} from '../common/geo/polygon.util';
+
+export interface PortImportResult {
+  imported: number; // new ports
+  updated: number; // existing LOCODEs replaced
+  skipped: number;
+  errors: string[];
+}
+
+/**
+ * ⚓ PORTS - reference collection of port limits keyed by UN/LOCODE
+ */
+@Injectable()
+export class PortsService {
+  private readonly logger = new Logger(PortsService.name);
+  private readonly cacheMs: number;
+  private portCache: { ports: Port[]; loadedAt: number } | null = null;
+
+  constructor(
+    @InjectModel(Port.name)
+    private readonly portModel: Model<PortDocument>,
+    private readonly configService: ConfigService,
+  ) {
+    // ✅ Port limits are re-read at most this often on the ingest path
+    this.cacheMs =
+      Number(this.configService.get<string>('PORT_CACHE_SECONDS', '300')) *
+      1000;
+  }
+
+  async create(dto: CreatePortDto): Promise<Port> {
+    const locode = this.parseLocode(dto.locode);
+    if (await this.portModel.exists({ locode })) {
+      throw new ConflictException(`Port ${locode} already exists`);
+    }
+
+    const geometry = this.resolveGeometry(dto);
+    const port = await this.portModel.create({
+      locode,
+      name: dto.name,
+      country: locode.slice(0, 2),
+      geometry,
+      bounds: polygonBoundingBox(geometry),
+      aliases: dto.aliases ?? [],
+    });
+    this.portCache = null;
+    this.logger.log(`⚓ Created port ${locode} "${port.name}"`);
+    return port;
+  }
+
+  async findAll(query: QueryPortsDto = {}): Promise<Port[]> {
+    const filter: Record<string, any> = {};
+    if (query.country) filter.country = query.country.toUpperCase();
+    if (query.search) {
+      const pattern = query.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      filter.$or = [
+        { name: { $regex: pattern, $options: 'i' } },
+        { locode: { $regex: `^${pattern.replace(/\s/g, '')}`, $options: 'i' } },
+      ];
+    }
+
+    return this.portModel
+      .find(filter)
+      .select('-geometry')
+      .sort({ locode: 1 })
+      .lean<Port[]>()
+      .exec();
+  }
+
+  async findByLocode(value: string): Promise<PortDocument> {
+    const locode = normalizeLocode(value);
+    const port = locode
+      ? await this.portModel.findOne({ locode }).exec()
+      : null;
+    if (!port) {
+      throw new NotFoundException(`Port ${value} not found`);
+    }
+    return port;
+  }
+
+  async update(value: string, dto: UpdatePortDto): Promise<Port> {
+    const port = await this.findByLocode(value);
+
+    if (dto.geometry || dto.latitude !== undefined) {
+      const geometry = this.resolveGeometry(dto);
+      port.set({ geometry, bounds: polygonBoundingBox(geometry) });
+    }
+    if (dto.name) port.set({ name: dto.name });
+    if (dto.aliases) port.set({ aliases: dto.aliases });
+
+    await port.save();
+    this.portCache = null;
+    this.logger.log(`⚓ Updated port ${port.locode}`);
+    return port;
+  }
+
+  /**
+   * Add one destination spelling to a port, keeping the existing ones
+   */
+  async addAlias(value: string, alias: string): Promise<Port> {
+    const port = await this.findByLocode(value);
+    port.set({ aliases: [...new Set([...port.aliases, alias.trim()])] });
+    await port.save();
+    this.portCache = null;
+    this.logger.log(`⚓ Added alias "${alias}" to port ${port.locode}`);
+    return port;
+  }
+
+  async remove(value: string): Promise<void> {
+    const port = await this.findByLocode(value);
+    await port.deleteOne();
+    this.portCache = null;
+    this.logger.log(`🗑️ Deleted port ${port.locode}`);
+  }
+
+  /**
+   * 📥 IMPORT - upsert by LOCODE; invalid features/rows are reported and skipped
+   */
+  async importPorts(dto: ImportPortsDto): Promise<PortImportResult> {
+    const parsed =
+      dto.format === 'csv'
+        ? parsePortsCsv(typeof dto.content === 'string' ? dto.content : '')
+        : parsePortsGeoJson(dto.content);
+
+    const errors = [...parsed.errors];
+    const ports = parsed.ports.filter((definition: PortDefinition) => {
+      const geometryErrors = validatePolygonGeometry(definition.geometry);
+      if (geometryErrors.length > 0) {
+        errors.push(`${definition.locode}: ${geometryErrors.join('; ')}`);
+        return false;
+      }
+      return true;
+    });
+
+    const result =
+      ports.length > 0
+        ? await this.portModel.bulkWrite(
+            ports.map((definition) => ({
+              updateOne: {
+                filter: { locode: definition.locode },
+                update: {
+                  $set: {
+                    ...definition,
+                    aliases: definition.aliases ?? [],
+                    bounds: polygonBoundingBox(definition.geometry),
+                  },
+                },
+                upsert: true,
+              },
+            })),
+            { ordered: false },
+          )
+        : null;
+    this.portCache = null;
+
+    const imported = result?.upsertedCount ?? 0;
+    const updated = result?.matchedCount ?? 0;
+    this.logger.log(
+      `📥 Imported ports from ${dto.format}: ${imported} new, ${updated} updated, ${errors.length} skipped`,
+    );
+    return { imported, updated, skipped: errors.length, errors };
+  }
+
+  /**
+   * Port whose limits hold the position, if any (cached)
+   */
+  async findPortAt(position: {
+    latitude: number;
+    longitude: number;
+  }): Promise<Port | null> {
+    const ports = await this.getPorts();
+    return (
+      ports.find(
+        (port) =>
+          (!port.bounds ||
+            isWithinBoundingBox(
+              position.latitude,
+              position.longitude,
+              port.bounds,
+            )) &&
+          isPointInPolygon(
+            position.latitude,
+            position.longitude,
+            port.geometry,
+          ),
+      ) ?? null
+    );
+  }
+
+  /**
+   * All ports with their limits, for matching many positions at once
+   */
+  async getPorts(): Promise<Port[]> {
+    if (this.portCache && Date.now() - this.portCache.loadedAt < this.cacheMs) {
+      return this.portCache.ports;
+    }
+
+    const ports = await this.portModel
+      .find()
+      .select('locode name country geometry bounds aliases')
+      .lean<Port[]>()
+      .exec();
+    this.portCache = { ports, loadedAt: Date.now() };
+    return ports;
+  }
+
+  private parseLocode(value: string): string {
+    const locode = normalizeLocode(value);
+    if (!locode) {
+      throw new BadRequestException(`Invalid UN/LOCODE ${value}`);
+    }
+    return locode;
+  }
+
+  private resolveGeometry(dto: UpdatePortDto): PolygonGeometry {
+    if (dto.geometry) {
+      const errors = validatePolygonGeometry(dto.geometry);
+      if (errors.length > 0) {
+        throw new BadRequestException(`Invalid geometry: ${errors.join('; ')}`);
+      }
+      return dto.geometry;
+    }
+    if (dto.latitude === undefined || dto.longitude === undefined) {
+      throw new BadRequestException(
+        'Port needs a geometry or latitude and longitude',
+      );
+    }
+    return circlePolygon(
+      dto.latitude,
+      dto.longitude,
+      dto.radiusKm ?? DEFAULT_PORT_RADIUS_KM,
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// src/ports/schemas/port-call.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { PortCallPhase } from '../port-call-detector';
+
+export type PortCallDocument = PortCall & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'port_calls',
+})
+export class PortCall {
+  @Prop({ required: true })
+  mmsi: number;
+
+  @Prop()
+  vesselName?: string;
+
+  @Prop()
+  vesselType?: number;
+
+  @Prop({ required: true })
+  locode: string;
+
+  @Prop({ required: true })
+  portName: string;
+
+  @Prop({ required: true, enum: ['in_port', 'completed'] })
+  status: 'in_port' | 'completed';
+
+  @Prop({ required: true })
+  arrivedAt: Date; // first report inside the port limits
+
+  @Prop()
+  departedAt?: Date; // first report outside again
+
+  @Prop()
+  durationSeconds?: number;
+
+  // ✅ manoeuvring / anchor / berth, in order
+  @Prop({ type: [Object], default: [] })
+  phases: PortCallPhase[];
+
+  @Prop({ type: Object })
+  arrivalPosition?: { latitude: number; longitude: number };
+
+  @Prop({ type: Object })
+  departurePosition?: { latitude: number; longitude: number };
+
+  @Prop()
+  source?: string;
+}
+
+export const PortCallSchema = SchemaFactory.createForClass(PortCall);
+
+PortCallSchema.index({ mmsi: 1, arrivedAt: -1 });
+PortCallSchema.index({ locode: 1, arrivedAt: -1 });
+PortCallSchema.index({ status: 1 });
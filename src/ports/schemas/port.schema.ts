@@ -0,0 +1,36 @@
+// src/ports/schemas/port.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { PolygonGeometry } from '../../common/geo/polygon.util';
+import type { BoundingBox } from '../../common/geo/geo.util';
+
+export type PortDocument = Port & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'ports',
+})
+export class Port {
+  @Prop({ required: true, unique: true })
+  locode: string; // UN/LOCODE without the space, e.g. IDJKT
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true, index: true })
+  country: string; // ISO 3166 alpha-2
+
+  @Prop({ type: Object, required: true })
+  geometry: PolygonGeometry; // ✅ Port limits: arrival when a vessel enters
+
+  @Prop({ type: Object })
+  bounds?: BoundingBox; // ✅ Derived from geometry, cheap pre-check
+
+  @Prop({ type: [String], default: [] })
+  aliases: string[]; // other spellings crews type as destination
+}
+
+export const PortSchema = SchemaFactory.createForClass(Port);
+
+PortSchema.index({ geometry: '2dsphere' }, { name: 'geometry_2dsphere' });
+PortSchema.index({ name: 1 });
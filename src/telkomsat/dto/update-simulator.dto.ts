@@ -0,0 +1,31 @@
+// src/telkomsat/dto/update-simulator.dto.ts
+import { IsInt, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class UpdateSimulatorDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100000)
+  vesselCount?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  errorRate?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(60000)
+  latencyMs?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  seed?: number;
+}
@@ -0,0 +1,329 @@
+import { Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { of, throwError } from 'rxjs';
+import {
+  TelkomsatClientService,
+  TelkomsatVessel,
+  TelkomsatVesselResponse,
+} from './telkomsat-client.service';
+import { TelkomsatSimulatorService } from './telkomsat-simulator.service';
+
+const TEST_CONFIG = {
+  TELKOMSAT_API_URL: 'https://telkomsat.test/api',
+  TELKOMSAT_API_KEY: 'test-key-0000',
+  TELKOMSAT_MAX_RETRIES: '0',
+  TELKOMSAT_BREAKER_THRESHOLD: '100',
+};
+
+function row(index: number): TelkomsatVessel {
+  return {
+    mmsi: String(525000000 + index),
+    imo: '',
+    lat: '-6.1',
+    lon: '106.9',
+    cog: '90.0',
+    sog: '10.0',
+    heading: '90',
+    dimension: null,
+    eta: null,
+    name: `KM TEST ${index}`,
+    callsign: '',
+    class: 'A',
+    type: 'Cargo',
+    flag: 'Indonesia',
+    status: 'Under Way Using Engine',
+    destination: null,
+    data_date: '2024-05-01',
+    data_time: '08:00:00',
+    source: 'telkomsat',
+  };
+}
+
+/**
+ * Stand-in for the /vesselArea endpoint over the HttpService layer:
+ * `failures` counts how many more times a page errors (Infinity = always),
+ * `rowsOnPage` truncates a page below the requested limit
+ */
+function createApi(total: number) {
+  const failures = new Map<number, number>();
+  const rowsOnPage = new Map<number, number>();
+  const requestedPages: number[] = [];
+
+  const post = jest.fn((_url: string, formData: FormData) => {
+    const page = Number(formData.get('page'));
+    const limit = Number(formData.get('limit'));
+    requestedPages.push(page);
+
+    const remainingFailures = failures.get(page) ?? 0;
+    if (remainingFailures > 0) {
+      failures.set(page, remainingFailures - 1);
+      return throwError(() => ({
+        message: 'Request failed with status code 503',
+        response: { status: 503, data: { message: 'Service Unavailable' } },
+      }));
+    }
+
+    const start = (page - 1) * limit;
+    const count = Math.min(
+      rowsOnPage.get(page) ?? limit,
+      Math.max(0, total - start),
+    );
+    const data = Array.from({ length: count }, (_, i) => row(start + i));
+    const body: TelkomsatVesselResponse = {
+      code: 200,
+      message: 'success',
+      data,
+      count: data.length,
+      total_count: total,
+    };
+    return of({ status: 200, data: body });
+  });
+
+  return {
+    httpService: { post } as unknown as HttpService,
+    failures,
+    rowsOnPage,
+    requestedPages,
+  };
+}
+
+function createClient(
+  httpService: HttpService,
+  config: Record<string, string> = {},
+) {
+  const configService = new ConfigService({ ...TEST_CONFIG, ...config });
+  return new TelkomsatClientService(
+    httpService,
+    configService,
+    new TelkomsatSimulatorService(configService),
+  );
+}
+
+describe('TelkomsatClientService', () => {
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  describe('collectVesselsMassively', () => {
+    it('should walk every page up to total_count', async () => {
+      const api = createApi(250);
+      const client = createClient(api.httpService);
+
+      const run = await client.collectVesselsMassively({
+        pageSize: 100,
+        retryRounds: 0,
+      });
+
+      expect([...api.requestedPages].sort()).toEqual([1, 2, 3]);
+      expect(run.vessels).toHaveLength(250);
+      expect(run.errors).toEqual([]);
+      expect(run.coverage).toEqual({
+        reportedTotal: 250,
+        fetched: 250,
+        valid: 250,
+        pagesExpected: 3,
+        pagesFetched: 3,
+        missingPages: [],
+        shortPages: [],
+        percentage: 100,
+        complete: true,
+      });
+    });
+
+    it('should refetch failed pages in a retry round', async () => {
+      const api = createApi(250);
+      api.failures.set(2, 1);
+      const client = createClient(api.httpService);
+
+      const run = await client.collectVesselsMassively({
+        pageSize: 100,
+        retryRounds: 1,
+      });
+
+      expect(api.requestedPages.filter((page) => page === 2)).toHaveLength(2);
+      expect(run.vessels).toHaveLength(250);
+      expect(run.coverage).toMatchObject({ missingPages: [], complete: true });
+    });
+
+    it('should retry page 1 before giving up on total_count', async () => {
+      const api = createApi(250);
+      api.failures.set(1, 1);
+      const client = createClient(api.httpService);
+
+      const run = await client.collectVesselsMassively({
+        pageSize: 100,
+        retryRounds: 1,
+      });
+      expect(run.coverage.complete).toBe(true);
+
+      api.failures.set(1, Infinity);
+      await expect(
+        client.collectVesselsMassively({ pageSize: 100, retryRounds: 1 }),
+      ).rejects.toThrow('Page 1 failed, cannot determine total_count');
+    });
+
+    it('should report pages still failing after the last round as missing', async () => {
+      const api = createApi(250);
+      api.failures.set(3, Infinity);
+      const client = createClient(api.httpService);
+
+      const run = await client.collectVesselsMassively({
+        pageSize: 100,
+        retryRounds: 2,
+      });
+
+      expect(api.requestedPages.filter((page) => page === 3)).toHaveLength(3);
+      expect(run.vessels).toHaveLength(200);
+      expect(run.coverage).toMatchObject({
+        fetched: 200,
+        pagesFetched: 2,
+        missingPages: [3],
+        percentage: 80,
+        complete: false,
+      });
+      expect(run.errors).toEqual([
+        'Page 3 failed: Telkomsat API error: Service Unavailable',
+      ]);
+    });
+
+    it('should report non-final pages with fewer rows than the page size as short', async () => {
+      const api = createApi(250);
+      api.rowsOnPage.set(2, 60);
+      const client = createClient(api.httpService);
+
+      const run = await client.collectVesselsMassively({
+        pageSize: 100,
+        retryRounds: 0,
+      });
+
+      expect(run.coverage).toMatchObject({
+        fetched: 210,
+        pagesFetched: 3,
+        missingPages: [],
+        shortPages: [2],
+        percentage: 84,
+        complete: false,
+      });
+    });
+
+    it('should cap the pages walked at TELKOMSAT_MAX_PAGES', async () => {
+      const api = createApi(250);
+      const client = createClient(api.httpService, {
+        TELKOMSAT_MAX_PAGES: '2',
+      });
+
+      const run = await client.collectVesselsMassively({
+        pageSize: 100,
+        retryRounds: 0,
+      });
+
+      expect([...api.requestedPages].sort()).toEqual([1, 2]);
+      expect(run.coverage).toMatchObject({
+        pagesExpected: 2,
+        fetched: 200,
+        complete: false,
+      });
+      expect(run.errors[0]).toContain('capped at TELKOMSAT_MAX_PAGES=2');
+    });
+  });
+
+  describe('against the simulator', () => {
+    const post = jest.fn(() => {
+      throw new Error('simulator mode must not reach the network');
+    });
+    const unusedHttp = { post } as unknown as HttpService;
+    let client: TelkomsatClientService;
+    let simulator: TelkomsatSimulatorService;
+
+    beforeEach(() => {
+      const configService = new ConfigService({
+        ...TEST_CONFIG,
+        TELKOMSAT_API_URL: 'simulator',
+        TELKOMSAT_SIMULATOR_VESSELS: '250',
+        TELKOMSAT_SIMULATOR_ERROR_RATE: '0',
+        TELKOMSAT_SIMULATOR_LATENCY_MS: '0',
+      });
+      simulator = new TelkomsatSimulatorService(configService);
+      client = new TelkomsatClientService(unusedHttp, configService, simulator);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should collect the whole simulated fleet page by page', async () => {
+      const run = await client.collectVesselsMassively({ pageSize: 100 });
+
+      expect(simulator.getStatus().requestsServed).toBe(3);
+      expect(new Set(run.vessels.map((vessel) => vessel.mmsi)).size).toBe(250);
+      expect(run.coverage).toMatchObject({
+        reportedTotal: 250,
+        pagesFetched: 3,
+        complete: true,
+      });
+      expect(run.vessels[0]).toMatchObject({
+        mmsi: 525000100,
+        source: 'telkomsat',
+      });
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('should report pages lost to injected errors', async () => {
+      simulator.updateSettings({ errorRate: 0.5 });
+      // ✅ Per request: draw < errorRate injects a failure, then < 0.5 picks
+      // a transport error over an error body
+      jest
+        .spyOn(Math, 'random')
+        .mockReturnValueOnce(0.9) // page 1 ok
+        .mockReturnValueOnce(0.1) // page 2 fails...
+        .mockReturnValueOnce(0.1) // ...as a 503
+        .mockReturnValueOnce(0.9) // page 3 ok
+        .mockReturnValueOnce(0.1) // page 2 retry fails...
+        .mockReturnValueOnce(0.9) // ...with a code 500 body
+        .mockReturnValue(0.9);
+
+      const run = await client.collectVesselsMassively({
+        pageSize: 100,
+        concurrency: 1,
+        retryRounds: 1,
+      });
+
+      expect(simulator.getStatus()).toMatchObject({
+        requestsServed: 4,
+        errorsInjected: 2,
+      });
+      expect(run.coverage).toMatchObject({
+        fetched: 150,
+        missingPages: [2],
+        complete: false,
+      });
+      expect(run.errors).toEqual([
+        'Page 2 failed: Telkomsat API error: Simulated internal server error',
+      ]);
+    });
+
+    it('should retry a transient injected error within one request', async () => {
+      const retrying = new TelkomsatClientService(
+        unusedHttp,
+        new ConfigService({
+          ...TEST_CONFIG,
+          TELKOMSAT_MAX_RETRIES: '1',
+          TELKOMSAT_RETRY_BASE_MS: '1',
+        }),
+        simulator,
+      );
+      simulator.updateSettings({ errorRate: 0.5 });
+      jest
+        .spyOn(Math, 'random')
+        .mockReturnValueOnce(0.1) // first attempt fails...
+        .mockReturnValueOnce(0.1) // ...as a 503
+        .mockReturnValue(0.9);
+
+      const page = await retrying.fetchVesselPage({ limit: 100, page: 3 });
+
+      expect(page).toMatchObject({ page: 3, received: 50, totalCount: 250 });
+      expect(retrying.getConnectionInfo().totalRequests).toBe(2);
+    });
+  });
+});
@@ -4,6 +4,17 @@ import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
 import { firstValueFrom, timeout, catchError } from 'rxjs';
 import { map } from 'rxjs/operators';
+import {
+  CollectionCoverage,
+  ProcessedVessel,
+} from '../data-sources/vessel-data-provider.interface';
+import {
+  CircuitBreaker,
+  CircuitBreakerSnapshot,
+  CircuitOpenError,
+  backoffDelay,
+} from '../data-sources/circuit-breaker';
+import { TelkomsatSimulatorService } from './telkomsat-simulator.service';
 
 // ✅ INTERFACE DEFINITIONS - Add at the top of file
 export interface TelkomsatVesselResponse {
@@ -13,37 +24,6 @@ export interface TelkomsatVesselResponse {
   count: number;
   total_count: number;
 }
-export interface ProcessedVessel {
-  mmsi: number;
-  latitude: number;
-  longitude: number;
-  course: number;
-  speed: number;
-  heading?: number;
-  name?: string;
-  callSign?: string;
-  vesselType: number;
-  navStatus: number;
-  destination?: string;
-  eta?: string;
-  timestamp: string;
-  length?: number;
-  width?: number;
-  source?: string;
-  // ✅ Additional fields from API - LENGKAP
-  imo?: string;
-  flag?: string;
-  vesselClass?: string;
-  // ✅ Complete dimension data
-  dimension?: {
-    a?: number;
-    b?: number;
-    c?: number;
-    d?: number;
-    width?: number;
-    length?: number;
-  };
-}
 export interface TelkomsatVessel {
   mmsi: string;
   imo: string;
@@ -73,6 +53,20 @@ export interface TelkomsatVessel {
   source: string;
 }
 
+export interface TelkomsatPageResult {
+  page: number;
+  limit: number;
+  received: number; // raw rows in this response
+  totalCount: number; // total_count reported by the API
+  vessels: ProcessedVessel[];
+}
+
+export interface TelkomsatCollectionRun {
+  vessels: ProcessedVessel[]; // deduplicated
+  coverage: CollectionCoverage;
+  errors: string[];
+}
+
 
 
 @Injectable()
@@ -80,13 +74,23 @@ export class TelkomsatClientService {
   private readonly logger = new Logger(TelkomsatClientService.name);
   private readonly API_BASE_URL: string;
   private readonly API_KEY: string;
+  private readonly PAGE_SIZE: number;
+  private readonly PAGE_CONCURRENCY: number;
+  private readonly PAGE_RETRY_ROUNDS: number;
+  private readonly MAX_PAGES: number;
+  private readonly MAX_RETRIES: number;
+  private readonly RETRY_BASE_MS: number;
+  private readonly RETRY_MAX_MS: number;
+  private readonly circuitBreaker: CircuitBreaker;
   private requestCount = 0;
+  private retryCount = 0;
   private successfulRequests = 0;
   private lastRequestTime: Date = new Date();
 
   constructor(
     private readonly httpService: HttpService,
     private readonly configService: ConfigService,
+    private readonly simulator: TelkomsatSimulatorService,
   ) {
     this.API_BASE_URL = this.configService.get<string>(
       'TELKOMSAT_API_URL', 
@@ -96,6 +100,21 @@ export class TelkomsatClientService {
       'TELKOMSAT_API_KEY', 
       '7tpJTqNGgXQe3LwmhDlhUtCT0Tg9btUA89kIsG1ThJleBKuE'
     );
+
+    // ✅ Pagination tuning - every page up to total_count is walked
+    this.PAGE_SIZE = Number(this.configService.get<string>('TELKOMSAT_PAGE_SIZE', '100'));
+    this.PAGE_CONCURRENCY = Number(this.configService.get<string>('TELKOMSAT_PAGE_CONCURRENCY', '4'));
+    this.PAGE_RETRY_ROUNDS = Number(this.configService.get<string>('TELKOMSAT_PAGE_RETRY_ROUNDS', '1'));
+    this.MAX_PAGES = Number(this.configService.get<string>('TELKOMSAT_MAX_PAGES', '200'));
+
+    // ✅ Retry + circuit breaker - stop hammering the upstream during outages
+    this.MAX_RETRIES = Number(this.configService.get<string>('TELKOMSAT_MAX_RETRIES', '3'));
+    this.RETRY_BASE_MS = Number(this.configService.get<string>('TELKOMSAT_RETRY_BASE_MS', '500'));
+    this.RETRY_MAX_MS = Number(this.configService.get<string>('TELKOMSAT_RETRY_MAX_MS', '10000'));
+    this.circuitBreaker = new CircuitBreaker('telkomsat', {
+      failureThreshold: Number(this.configService.get<string>('TELKOMSAT_BREAKER_THRESHOLD', '5')),
+      resetTimeoutMs: Number(this.configService.get<string>('TELKOMSAT_BREAKER_RESET_MS', '60000')),
+    });
     
     this.logger.log(`🛰️ Telkomsat Client initialized`);
     this.logger.log(`📡 API Base URL: ${this.API_BASE_URL}`);
@@ -111,11 +130,22 @@ export class TelkomsatClientService {
     page?: number;
     timeout?: number;
   } = {}): Promise<ProcessedVessel[]> {
+    const result = await this.fetchVesselPage(options);
+    return result.vessels;
+  }
+
+  /**
+   * 📄 FETCH ONE PAGE - vessels plus the paging metadata of the response
+   */
+  async fetchVesselPage(options: {
+    limit?: number;
+    offset?: number;
+    page?: number;
+    timeout?: number;
+  } = {}): Promise<TelkomsatPageResult> {
     const { limit = 10, offset = 0, page = 1, timeout: requestTimeout = 30000 } = options;
 
     this.logger.log(`🚀 Fetching vessels: limit=${limit}, page=${page}, offset=${offset}`);
-    this.requestCount++;
-    this.lastRequestTime = new Date();
 
     try {
       // ✅ Use form-data exactly like in Postman
@@ -129,69 +159,26 @@ export class TelkomsatClientService {
         formData.append('offset', offset.toString());
       }
 
-      this.logger.debug(`📡 Making request with key: ${this.API_KEY.substring(0, 8)}...`);
-
-      const responseData = await firstValueFrom(
-        this.httpService.post<TelkomsatVesselResponse>(
-          `${this.API_BASE_URL}/vesselArea`,
-          formData,
-          {
-            headers: {
-              // ✅ Don't set Content-Type - let axios handle multipart/form-data
-              'User-Agent': 'AIS-Backend/1.0',
-              'Accept': 'application/json',
-            },
-            timeout: requestTimeout,
-          }
-        ).pipe(
-          timeout(requestTimeout),
-          map(response => {
-            this.logger.log(`📊 Response: status=${response.status}, code=${response.data?.code}, count=${response.data?.count}`);
-            return response.data;
-          }),
-          catchError((error) => {
-            this.logger.error(`❌ API request failed:`, {
-              status: error.response?.status,
-              statusText: error.response?.statusText,
-              data: error.response?.data,
-              message: error.message,
-              url: error.config?.url,
-              key_used: this.API_KEY.substring(0, 8) + '...'
-            });
-            
-            throw new HttpException(
-              `Telkomsat API error: ${error.response?.data?.message || error.message}`,
-              error.response?.status || HttpStatus.SERVICE_UNAVAILABLE
-            );
-          })
-        )
-      );
-
-      // ✅ Validate response
-      if (!responseData) {
-        throw new HttpException('No response data received', HttpStatus.BAD_GATEWAY);
-      }
+      const responseData = await this.postForm('/vesselArea', formData, { timeout: requestTimeout });
 
-      if (responseData.code !== 200) {
-        this.logger.error(`⚠️ API error: ${responseData.code} - ${responseData.message}`);
-        throw new HttpException(
-          `Telkomsat API error: ${responseData.message}`,
-          HttpStatus.BAD_GATEWAY
-        );
-      }
+      const totalCount = Number(responseData.total_count) || 0;
 
       if (!responseData.data || !Array.isArray(responseData.data)) {
         this.logger.warn('📭 No vessel data in response');
-        return [];
+        return { page, limit, received: 0, totalCount, vessels: [] };
       }
 
       // ✅ Process vessels
       const processedVessels = this.processTelkomsatVessels(responseData.data);
-      
-      this.successfulRequests++;
       this.logger.log(`✅ Successfully processed ${processedVessels.length}/${responseData.data.length} vessels (${responseData.total_count} total available)`);
-      
-      return processedVessels;
+
+      return {
+        page,
+        limit,
+        received: responseData.data.length,
+        totalCount,
+        vessels: processedVessels,
+      };
 
     } catch (error) {
       this.logger.error(`💥 Fetch failed: ${error.message}`);
@@ -200,59 +187,248 @@ export class TelkomsatClientService {
   }
 
   /**
-   * 🔄 OPTIMIZED COLLECTION - Multiple pages
+   * 📮 POST FORM - the single request path to the Telkomsat API
+   * One logical request = up to MAX_RETRIES retries with jittered backoff,
+   * wrapped in the circuit breaker so an outage opens it after repeated failures.
    */
-  async collectVesselsMassively(): Promise<ProcessedVessel[]> {
-    this.logger.log('🚀 Starting optimized vessel collection with pagination');
+  private async postForm(
+    path: string,
+    formData: FormData,
+    options: { timeout?: number; retries?: number } = {},
+  ): Promise<TelkomsatVesselResponse> {
+    const requestTimeout = options.timeout ?? 30000;
+    const maxRetries = Math.max(0, options.retries ?? this.MAX_RETRIES);
+
+    return this.circuitBreaker.execute(async () => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await this.sendForm(path, formData, requestTimeout);
+        } catch (error) {
+          if (attempt >= maxRetries || !this.isTransientError(error)) {
+            throw error;
+          }
 
-    try {
-      // ✅ Start with page 1, limit 100
-      const page1Vessels = await this.fetchVesselsFromTelkomsat({ 
-        limit: 100, 
-        page: 1 
-      });
-
-      if (page1Vessels.length === 0) {
-        this.logger.warn('📭 No vessels from page 1, trying smaller batch');
-        return await this.fetchVesselsFromTelkomsat({ limit: 10, page: 1 });
+          const delay = this.getBackoffDelay(attempt);
+          this.retryCount++;
+          this.logger.warn(`🔁 ${path} attempt ${attempt + 1}/${maxRetries + 1} failed (${error.message}), retrying in ${delay}ms`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
       }
+    });
+  }
 
-      // ✅ Try additional pages in parallel
-      const additionalPages = await Promise.allSettled([
-        this.fetchVesselsFromTelkomsat({ limit: 100, page: 2 }),
-        this.fetchVesselsFromTelkomsat({ limit: 100, page: 3 }),
-        this.fetchVesselsFromTelkomsat({ limit: 100, page: 4 }),
-      ]);
+  private async sendForm(
+    path: string,
+    formData: FormData,
+    requestTimeout: number,
+  ): Promise<TelkomsatVesselResponse> {
+    this.requestCount++;
+    this.lastRequestTime = new Date();
 
-      const allVessels = [...page1Vessels];
-      
-      additionalPages.forEach((result, index) => {
-        const pageNum = index + 2;
-        if (result.status === 'fulfilled' && result.value.length > 0) {
-          allVessels.push(...result.value);
-          this.logger.log(`📦 Page ${pageNum}: ${result.value.length} vessels`);
-        } else if (result.status === 'rejected') {
-          this.logger.warn(`⚠️ Page ${pageNum} failed: ${result.reason}`);
-        }
-      });
+    this.logger.debug(`📡 Making request with key: ${this.API_KEY.substring(0, 8)}...`);
+
+    // ✅ Simulator mode - same response shape, no network
+    const responseData = this.simulator.isEnabled()
+      ? await this.simulator.handle(path, formData)
+      : await firstValueFrom(
+          this.httpService.post<TelkomsatVesselResponse>(
+            `${this.API_BASE_URL}${path}`,
+            formData,
+            {
+              headers: {
+                // ✅ Don't set Content-Type - let axios handle multipart/form-data
+                'User-Agent': 'AIS-Backend/1.0',
+                'Accept': 'application/json',
+              },
+              timeout: requestTimeout,
+            }
+          ).pipe(
+            timeout(requestTimeout),
+            map(response => {
+              this.logger.log(`📊 Response: status=${response.status}, code=${response.data?.code}, count=${response.data?.count}`);
+              return response.data;
+            }),
+            catchError((error) => {
+              this.logger.error(`❌ API request failed:`, {
+                status: error.response?.status,
+                statusText: error.response?.statusText,
+                data: error.response?.data,
+                message: error.message,
+                url: error.config?.url,
+                key_used: this.API_KEY.substring(0, 8) + '...'
+              });
+          
+              throw new HttpException(
+                `Telkomsat API error: ${error.response?.data?.message || error.message}`,
+                error.response?.status || HttpStatus.SERVICE_UNAVAILABLE
+              );
+            })
+          )
+        );
 
-      const uniqueVessels = this.deduplicateVessels(allVessels);
-      this.logger.log(`🎯 Collection complete: ${uniqueVessels.length} unique vessels from ${allVessels.length} total`);
-      
-      return uniqueVessels;
+    // ✅ Validate response
+    if (!responseData) {
+      throw new HttpException('No response data received', HttpStatus.BAD_GATEWAY);
+    }
 
-    } catch (error) {
-      this.logger.error(`💥 Collection failed: ${error.message}`);
-      
-      // ✅ Fallback: minimal request
+    if (responseData.code !== 200) {
+      this.logger.error(`⚠️ API error: ${responseData.code} - ${responseData.message}`);
+      // ✅ Keep 4xx codes from the body so auth/validation errors are not retried
+      const status = responseData.code >= 400 && responseData.code < 500
+        ? responseData.code
+        : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(`Telkomsat API error: ${responseData.message}`, status);
+    }
+
+    this.successfulRequests++;
+    return responseData;
+  }
+
+  /**
+   * 🌩️ TRANSIENT = timeouts, network errors, 408/429 and 5xx
+   */
+  private isTransientError(error: any): boolean {
+    if (error instanceof HttpException) {
+      const status = error.getStatus();
+      return status >= 500 || status === HttpStatus.TOO_MANY_REQUESTS || status === HttpStatus.REQUEST_TIMEOUT;
+    }
+    return true;
+  }
+
+  private getBackoffDelay(attempt: number): number {
+    return backoffDelay(attempt, this.RETRY_BASE_MS, this.RETRY_MAX_MS);
+  }
+
+  /**
+   * 🔄 FULL COLLECTION - every page reported by total_count
+   * Page 1 tells us total_count; the remaining pages are fetched with bounded
+   * concurrency and failed pages are retried in further rounds. Pages that
+   * still fail are reported in coverage.missingPages.
+   */
+  async collectVesselsMassively(options: {
+    pageSize?: number;
+    concurrency?: number;
+    retryRounds?: number;
+  } = {}): Promise<TelkomsatCollectionRun> {
+    const pageSize = Math.max(1, options.pageSize ?? this.PAGE_SIZE);
+    const concurrency = Math.max(1, options.concurrency ?? this.PAGE_CONCURRENCY);
+    const retryRounds = Math.max(0, options.retryRounds ?? this.PAGE_RETRY_ROUNDS);
+
+    this.logger.log(`🚀 Starting full vessel collection (pageSize=${pageSize}, concurrency=${concurrency})`);
+
+    const pages = new Map<number, TelkomsatPageResult>();
+    const pageErrors = new Map<number, string>();
+    const errors: string[] = [];
+
+    // ✅ Page 1 is mandatory - without it we do not know total_count
+    let firstPage: TelkomsatPageResult | null = null;
+    for (let attempt = 0; attempt <= retryRounds && !firstPage; attempt++) {
       try {
-        this.logger.log('🔄 Attempting fallback minimal request...');
-        return await this.fetchVesselsFromTelkomsat({ limit: 10, page: 1 });
-      } catch (fallbackError) {
-        this.logger.error(`💥 Fallback also failed: ${fallbackError.message}`);
-        return [];
+        firstPage = await this.fetchVesselPage({ limit: pageSize, page: 1 });
+      } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          throw error;
+        }
+        if (attempt === retryRounds) {
+          throw new Error(`Page 1 failed, cannot determine total_count: ${error.message}`);
+        }
+        this.logger.warn(`⚠️ Page 1 failed (attempt ${attempt + 1}), retrying: ${error.message}`);
       }
     }
+    if (!firstPage) {
+      throw new Error('Page 1 failed, cannot determine total_count');
+    }
+    pages.set(1, firstPage);
+
+    const reportedTotal = firstPage.totalCount;
+    let pagesExpected = Math.max(1, Math.ceil(reportedTotal / pageSize));
+    if (pagesExpected > this.MAX_PAGES) {
+      const warning = `total_count ${reportedTotal} needs ${pagesExpected} pages, capped at TELKOMSAT_MAX_PAGES=${this.MAX_PAGES}`;
+      this.logger.warn(`⚠️ ${warning}`);
+      errors.push(warning);
+      pagesExpected = this.MAX_PAGES;
+    }
+
+    let pending: number[] = [];
+    for (let page = 2; page <= pagesExpected; page++) {
+      pending.push(page);
+    }
+
+    for (let round = 0; round <= retryRounds && pending.length > 0; round++) {
+      if (round > 0) {
+        this.logger.warn(`🔁 Retry round ${round}: ${pending.length} missing pages (${pending.join(', ')})`);
+      }
+      pending = await this.fetchPagesConcurrently(pending, pageSize, concurrency, pages, pageErrors);
+    }
+
+    pending.forEach(page => {
+      errors.push(`Page ${page} failed: ${pageErrors.get(page) || 'unknown error'}`);
+    });
+
+    // ✅ A full page size was requested - fewer rows before the last page means data went missing
+    const shortPages = Array.from(pages.values())
+      .filter(result => result.page < pagesExpected && result.received < pageSize)
+      .map(result => result.page)
+      .sort((a, b) => a - b);
+
+    const orderedPages = Array.from(pages.values()).sort((a, b) => a.page - b.page);
+    const allVessels = orderedPages.flatMap(result => result.vessels);
+    const fetched = orderedPages.reduce((sum, result) => sum + result.received, 0);
+    const uniqueVessels = this.deduplicateVessels(allVessels);
+
+    const coverage: CollectionCoverage = {
+      reportedTotal,
+      fetched,
+      valid: allVessels.length,
+      pagesExpected,
+      pagesFetched: pages.size,
+      missingPages: pending,
+      shortPages,
+      percentage: reportedTotal > 0 ? Math.min(100, Math.round((fetched / reportedTotal) * 10000) / 100) : 100,
+      complete: pending.length === 0 && fetched >= reportedTotal,
+    };
+
+    if (!coverage.complete) {
+      this.logger.warn(`⚠️ Incomplete collection: ${fetched}/${reportedTotal} records (${coverage.percentage}%), missing pages: ${pending.join(', ') || 'none'}, short pages: ${shortPages.join(', ') || 'none'}`);
+    }
+
+    this.logger.log(`🎯 Collection complete: ${uniqueVessels.length} unique vessels from ${fetched} records on ${pages.size}/${pagesExpected} pages`);
+
+    return { vessels: uniqueVessels, coverage, errors };
+  }
+
+  /**
+   * 🧵 FETCH PAGES with a fixed number of workers - returns pages that failed
+   */
+  private async fetchPagesConcurrently(
+    pageNumbers: number[],
+    pageSize: number,
+    concurrency: number,
+    results: Map<number, TelkomsatPageResult>,
+    pageErrors: Map<number, string>,
+  ): Promise<number[]> {
+    const queue = [...pageNumbers];
+    const failed: number[] = [];
+
+    const worker = async (): Promise<void> => {
+      let page = queue.shift();
+      while (page !== undefined) {
+        try {
+          const result = await this.fetchVesselPage({ limit: pageSize, page });
+          results.set(page, result);
+          pageErrors.delete(page);
+        } catch (error) {
+          failed.push(page);
+          pageErrors.set(page, error.message);
+        }
+        page = queue.shift();
+      }
+    };
+
+    const workers = Math.min(concurrency, queue.length);
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+
+    return failed.sort((a, b) => a - b);
   }
 
   /**
@@ -414,18 +590,9 @@ private processTelkomsatVessels(telkomsatVessels: TelkomsatVessel[]): ProcessedV
       formData.append('limit', '1');
       formData.append('page', '1');
 
-      const responseData = await firstValueFrom(
-        this.httpService.post<TelkomsatVesselResponse>(
-          `${this.API_BASE_URL}/vesselArea`,
-          formData,
-          {
-            timeout: 10000,
-          }
-        ).pipe(
-          timeout(10000),
-          map(response => response.data)
-        )
-      );
+      // ✅ Single attempt outside the circuit breaker - status polling must not
+      // open it or take the half-open trial meant for collection traffic
+      const responseData = await this.sendForm('/vesselArea', formData, 10000);
 
       const isHealthy = responseData && responseData.code === 200;
       this.logger.log(`🏥 Health check: ${isHealthy ? '✅ Healthy' : '❌ Unhealthy'}`);
@@ -459,20 +626,9 @@ private processTelkomsatVessels(telkomsatVessels: TelkomsatVessel[]): ProcessedV
     });
 
     try {
-      const responseData = await firstValueFrom(
-        this.httpService.post<TelkomsatVesselResponse>(
-          `${this.API_BASE_URL}/vessel`,
-          formData,
-          {
-            timeout: 15000,
-          }
-        ).pipe(
-          timeout(15000),
-          map(response => response.data)
-        )
-      );
+      const responseData = await this.postForm('/vessel', formData, { timeout: 15000 });
 
-      if (responseData.code === 200 && responseData.data) {
+      if (responseData.data) {
         const vessels = this.processTelkomsatVessels(responseData.data);
         this.logger.log(`✅ Retrieved ${vessels.length} specific vessels`);
         return vessels;
@@ -493,8 +649,10 @@ private processTelkomsatVessels(telkomsatVessels: TelkomsatVessel[]): ProcessedV
     totalRequests: number;
     successfulRequests: number;
     successRate: number;
+    retries: number;
     lastRequestTime: Date;
     apiHealth: boolean;
+    circuitBreaker: CircuitBreakerSnapshot;
     connectionInfo: any;
   }> {
     const health = await this.healthCheck();
@@ -505,8 +663,10 @@ private processTelkomsatVessels(telkomsatVessels: TelkomsatVessel[]): ProcessedV
       totalRequests: this.requestCount,
       successfulRequests: this.successfulRequests,
       successRate,
+      retries: this.retryCount,
       lastRequestTime: this.lastRequestTime,
       apiHealth: health,
+      circuitBreaker: this.circuitBreaker.getSnapshot(),
       connectionInfo: {
         apiUrl: this.API_BASE_URL,
         hasApiKey: !!this.API_KEY,
@@ -515,6 +675,18 @@ private processTelkomsatVessels(telkomsatVessels: TelkomsatVessel[]): ProcessedV
     };
   }
 
+  /**
+   * 🔌 CIRCUIT BREAKER STATE
+   */
+  getCircuitBreakerState(): CircuitBreakerSnapshot {
+    return this.circuitBreaker.getSnapshot();
+  }
+
+  resetCircuitBreaker(): void {
+    this.circuitBreaker.reset();
+    this.logger.log('🔌 Circuit breaker reset');
+  }
+
   /**
    * 🛠️ UTILITY METHODS
    */
@@ -542,15 +714,11 @@ private processTelkomsatVessels(telkomsatVessels: TelkomsatVessel[]): ProcessedV
     return statusMap[status] || 15;
   }
 
-private parseDateTime(date: string, time: string): string {
-  
-    // ✅ Parsing sebagai local time tanpa Z
-    const dateTime = `${date} ${time}`;
-   
-    
-    return dateTime;
- 
-}
+  // ✅ Wall-clock time without a zone - the ingest pipeline converts it to UTC
+  // using the provider's sourceTimezone (WIB / Asia/Jakarta)
+  private parseDateTime(date: string, time: string): string {
+    return `${date}T${time}`;
+  }
 
   /**
    * 🔄 RESET STATS
@@ -558,6 +726,7 @@ private parseDateTime(date: string, time: string): string {
   resetStats(): void {
     this.requestCount = 0;
     this.successfulRequests = 0;
+    this.retryCount = 0;
     this.lastRequestTime = new Date();
     this.logger.log('📊 Stats reset');
   }
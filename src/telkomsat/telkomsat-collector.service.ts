@@ -1,27 +1,31 @@
 // src/telkomsat/telkomsat-collector.service.ts
 import { Injectable, Logger } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
-import { TelkomsatClientService, ProcessedVessel } from './telkomsat-client.service';
+import { TelkomsatClientService } from './telkomsat-client.service';
+import { TELKOMSAT_PROVIDER_NAME } from './telkomsat.provider';
 import { AisDataService } from '../ais-data/ais-data.service';
 import { VesselTrackingGateway } from '../websocket/vessel-tracking.gateway';
+import { DataSourceRegistryService } from '../data-sources/data-source-registry.service';
+import { VesselIngestPipelineService } from '../data-sources/vessel-ingest-pipeline.service';
+import {
+  CollectionCoverage,
+  CollectionResult,
+} from '../data-sources/vessel-data-provider.interface';
+import { CircuitBreakerSnapshot } from '../data-sources/circuit-breaker';
+import { parseTimestamp } from '../common/time/timezone.util';
 
-export interface CollectionResult {
-  collected: number;
-  stored: number;
-  duration: number;
-  errors?: string[];
-  broadcasted?: boolean;
-  unique?: number;
-  archived?: number;
-}
+export type { CollectionResult };
 
 export interface CollectionStatus {
   isCollecting: boolean;
+  enabled: boolean;
+  intervalSeconds: number;
   lastCollection: Date | null;
-  nextCollection: string;
+  nextCollection: string | null;
   totalCollections: number;
   successfulCollections: number;
   averageDuration: number;
+  lastCoverage?: CollectionCoverage;
+  circuitBreaker: CircuitBreakerSnapshot; // open = collection paused
   lastError?: string; // ✅ Changed from string | null to string | undefined
 }
 
@@ -38,157 +42,23 @@ export interface HealthCheckResult {
 @Injectable()
 export class TelkomsatCollectorService {
   private readonly logger = new Logger(TelkomsatCollectorService.name);
-  private isCollecting = false;
-  private lastCollectionTime: Date | null = null;
-  private totalCollections = 0;
-  private successfulCollections = 0;
-  private collectionDurations: number[] = [];
-  private lastError: string | undefined; // ✅ Changed from string | null
 
   constructor(
     private readonly telkomsatClient: TelkomsatClientService,
     private readonly aisDataService: AisDataService,
+    private readonly registry: DataSourceRegistryService,
+    private readonly ingestPipeline: VesselIngestPipelineService,
     private readonly vesselTrackingGateway?: VesselTrackingGateway, // Optional injection
   ) {}
 
-  /**
-   * 🕐 SCHEDULED COLLECTION - Every 30 seconds for real-time
-   */
-  @Cron('*/30 * * * * *', {
-    name: 'realtime-telkomsat-collection',
-    timeZone: 'Asia/Jakarta'
-  })
-  async handleScheduledCollection(): Promise<void> {
-    if (this.isCollecting) {
-      this.logger.warn('Collection already in progress, skipping...');
-      return;
-    }
-
-    this.logger.log('🛰️ Starting scheduled real-time Telkomsat data collection');
-    
-    try {
-      const result = await this.collectAndStoreVessels();
-      
-      // ✅ REAL-TIME BROADCASTING if WebSocket is available
-      if (this.vesselTrackingGateway && result.collected > 0) {
-        await this.broadcastLatestData(result.collected);
-      }
-
-      this.successfulCollections++;
-      this.lastError = undefined; // ✅ Set to undefined instead of null
-
-    } catch (error) {
-      this.lastError = error.message;
-      this.logger.error(`Scheduled collection failed: ${error.message}`);
-    }
-
-    this.totalCollections++;
-  }
+  // ✅ Scheduling now lives in DataSourceRegistryService (see TelkomsatProvider)
 
   /**
-   * 📡 ENHANCED COLLECT AND STORE VESSELS with Complete Data
+   * 📡 COLLECT AND STORE VESSELS (no broadcast)
    */
   async collectAndStoreVessels(): Promise<CollectionResult> {
-    if (this.isCollecting) {
-      throw new Error('Collection already in progress');
-    }
-
-    this.isCollecting = true;
-    const startTime = Date.now();
-
-    try {
-      this.logger.log('🚀 Starting vessel collection from Telkomsat');
-
-      // ✅ Optimized collection for real-time performance
-      const vessels = await this.telkomsatClient.collectVesselsMassively();
-      
-      if (vessels.length === 0) {
-        this.logger.warn('No vessels collected from Telkomsat');
-        return { 
-          collected: 0, 
-          stored: 0, 
-          duration: Date.now() - startTime,
-          errors: [],
-          broadcasted: false
-        };
-      }
-
-      // ✅ Convert to DTO format with ALL FIELDS including dimension
-      const vesselDTOs = vessels.map(vessel => ({
-        mmsi: vessel.mmsi,
-        latitude: vessel.latitude,
-        longitude: vessel.longitude,
-        course: vessel.course || 0,
-        speed: vessel.speed || 0,
-        heading: vessel.heading,
-        name: vessel.name,
-        callSign: vessel.callSign,
-        imo: vessel.imo,
-        vesselType: vessel.vesselType || 0,
-        navStatus: vessel.navStatus || 15,
-        flag: vessel.flag,
-        vesselClass: vessel.vesselClass,
-        destination: vessel.destination,
-        eta: vessel.eta,
-        timestamp: vessel.timestamp,
-        
-        // ✅ Legacy dimension fields for backward compatibility
-        length: vessel.length,
-        width: vessel.width,
-        
-        // ✅ COMPLETE DIMENSION OBJECT - All fields
-        dimension: vessel.dimension ? {
-          a: vessel.dimension.a,
-          b: vessel.dimension.b,
-          c: vessel.dimension.c,
-          d: vessel.dimension.d,
-          width: vessel.dimension.width,
-          length: vessel.dimension.length
-        } : undefined,
-        
-        source: vessel.source || 'telkomsat'
-      }));
-
-      // ✅ Store in database with enhanced method
-      const result = await this.aisDataService.updateCurrentVesselData(vesselDTOs);
-      
-      this.lastCollectionTime = new Date();
-      const duration = Date.now() - startTime;
-      
-      // ✅ Track performance metrics
-      this.collectionDurations.push(duration);
-      if (this.collectionDurations.length > 100) {
-        this.collectionDurations = this.collectionDurations.slice(-100); // Keep last 100
-      }
-
-      this.logger.log(`✅ Collection completed: ${vessels.length} collected, ${result.newCurrentCount} stored, ${result.archivedCount} archived (${duration}ms)`);
-
-      return {
-        collected: vessels.length,
-        stored: result.newCurrentCount,
-        duration,
-        errors: result.errors || [],
-        broadcasted: !!this.vesselTrackingGateway
-      };
-
-    } finally {
-      this.isCollecting = false;
-    }
-  }
-
-  /**
-   * 📡 BROADCAST LATEST DATA via WebSocket
-   */
-  private async broadcastLatestData(count: number): Promise<void> {
-    if (!this.vesselTrackingGateway) return;
-
-    try {
-      const latestVessels = await this.aisDataService.getCurrentVessels(count);
-      this.vesselTrackingGateway.broadcastVesselUpdate(latestVessels);
-      this.logger.log(`📡 Broadcasted ${latestVessels.length} vessels to connected clients`);
-    } catch (error) {
-      this.logger.error(`Failed to broadcast data: ${error.message}`);
-    }
+    this.logger.log('🚀 Starting vessel collection from Telkomsat');
+    return this.registry.runProvider(TELKOMSAT_PROVIDER_NAME, { broadcast: false });
   }
 
   /**
@@ -196,125 +66,21 @@ export class TelkomsatCollectorService {
    */
   async manualCollection(): Promise<CollectionResult> {
     this.logger.log('🔄 Manual collection triggered');
-    
-    const result = await this.collectAndStoreVessels();
-    
-    // ✅ Broadcast manual collection results
-    if (this.vesselTrackingGateway && result.collected > 0) {
-      await this.broadcastLatestData(result.collected);
-      result.broadcasted = true;
-    }
-    
-    return result;
+    return this.registry.runProvider(TELKOMSAT_PROVIDER_NAME);
   }
 
   /**
-   * ⚡ ENHANCED AGGRESSIVE COLLECTION with Complete Data
+   * ⚡ AGGRESSIVE COLLECTION - full pagination with extra retry rounds for missing pages
    */
   async forceAggressiveCollection(): Promise<CollectionResult> {
-    if (this.isCollecting) {
-      throw new Error('Collection already in progress');
-    }
-
-    this.isCollecting = true;
-    const startTime = Date.now();
-
-    try {
-      this.logger.log('⚡ Starting aggressive vessel collection with maximum coverage');
-
-      // ✅ Multiple parallel collection strategies
-      const collections = await Promise.allSettled([
-        this.telkomsatClient.collectVesselsMassively(),
-        this.telkomsatClient.fetchVesselsFromTelkomsat({ limit: 1000, page: 1 }),
-        this.telkomsatClient.fetchVesselsFromTelkomsat({ limit: 1000, page: 2 }),
-        this.telkomsatClient.fetchVesselsFromTelkomsat({ limit: 500, page: 3 }),
-        this.telkomsatClient.fetchVesselsFromTelkomsat({ limit: 500, page: 4 }),
-      ]);
-
-      const allVessels: ProcessedVessel[] = [];
-      const errors: string[] = [];
-
-      collections.forEach((result, index) => {
-        if (result.status === 'fulfilled') {
-          allVessels.push(...result.value);
-          this.logger.log(`Aggressive collection batch ${index + 1}: ${result.value.length} vessels`);
-        } else {
-          const error = `Batch ${index + 1} failed: ${result.reason}`;
-          errors.push(error);
-          this.logger.warn(error);
-        }
-      });
-
-      // ✅ Enhanced deduplication with timestamp priority
-      const vesselMap = new Map<number, ProcessedVessel>();
-      allVessels.forEach(vessel => {
-        const existing = vesselMap.get(vessel.mmsi);
-        if (!existing || vessel.timestamp > existing.timestamp) {
-          vesselMap.set(vessel.mmsi, vessel);
-        }
-      });
-
-      const uniqueVessels = Array.from(vesselMap.values());
-      
-      // ✅ Store with complete dimension data
-      const vesselDTOs = uniqueVessels.map(vessel => ({
-        mmsi: vessel.mmsi,
-        latitude: vessel.latitude,
-        longitude: vessel.longitude,
-        course: vessel.course || 0,
-        speed: vessel.speed || 0,
-        heading: vessel.heading,
-        name: vessel.name,
-        callSign: vessel.callSign,
-        imo: vessel.imo,
-        vesselType: vessel.vesselType || 0,
-        navStatus: vessel.navStatus || 15,
-        flag: vessel.flag,
-        vesselClass: vessel.vesselClass,
-        destination: vessel.destination,
-        eta: vessel.eta,
-        timestamp: vessel.timestamp,
-        
-        // ✅ Legacy fields
-        length: vessel.length,
-        width: vessel.width,
-        
-        // ✅ Complete dimension object
-        dimension: vessel.dimension ? {
-          a: vessel.dimension.a,
-          b: vessel.dimension.b,
-          c: vessel.dimension.c,
-          d: vessel.dimension.d,
-          width: vessel.dimension.width,
-          length: vessel.dimension.length
-        } : undefined,
-        
-        source: vessel.source || 'telkomsat'
-      }));
-
-      const result = await this.aisDataService.updateCurrentVesselData(vesselDTOs);
-      const duration = Date.now() - startTime;
-
-      // ✅ Broadcast aggressive collection results
-      if (this.vesselTrackingGateway && uniqueVessels.length > 0) {
-        await this.broadcastLatestData(uniqueVessels.length);
-      }
+    this.logger.log('⚡ Starting aggressive vessel collection with maximum coverage');
 
-      this.logger.log(`⚡ Aggressive collection completed: ${allVessels.length} total, ${uniqueVessels.length} unique vessels stored (${duration}ms)`);
+    const result = await this.registry.runProvider(TELKOMSAT_PROVIDER_NAME, {
+      fetch: () => this.telkomsatClient.collectVesselsMassively({ retryRounds: 3 }),
+    });
 
-      return {
-        collected: allVessels.length,
-        unique: uniqueVessels.length,
-        stored: result.newCurrentCount,
-        archived: result.archivedCount,
-        duration,
-        errors,
-        broadcasted: !!this.vesselTrackingGateway
-      };
-
-    } finally {
-      this.isCollecting = false;
-    }
+    this.logger.log(`⚡ Aggressive collection completed: ${result.collected} total, ${result.unique} unique vessels stored, coverage ${result.coverage?.percentage ?? 0}% (${result.duration}ms)`);
+    return result;
   }
 
   /**
@@ -322,69 +88,36 @@ export class TelkomsatCollectorService {
    */
   async collectSpecificVessels(mmsiList: number[]): Promise<CollectionResult> {
     this.logger.log(`🎯 Collecting specific vessels: ${mmsiList.join(', ')}`);
-    
-    const startTime = Date.now();
 
     try {
       const vessels = await this.telkomsatClient.fetchSpecificVessels(
         mmsiList.map(mmsi => mmsi.toString())
       );
 
-      if (vessels.length === 0) {
-        return { collected: 0, stored: 0, duration: Date.now() - startTime };
-      }
-
-      // ✅ Convert with complete data
-      const vesselDTOs = vessels.map(vessel => ({
-        mmsi: vessel.mmsi,
-        latitude: vessel.latitude,
-        longitude: vessel.longitude,
-        course: vessel.course || 0,
-        speed: vessel.speed || 0,
-        heading: vessel.heading,
-        name: vessel.name,
-        callSign: vessel.callSign,
-        imo: vessel.imo,
-        vesselType: vessel.vesselType || 0,
-        navStatus: vessel.navStatus || 15,
-        flag: vessel.flag,
-        vesselClass: vessel.vesselClass,
-        destination: vessel.destination,
-        eta: vessel.eta,
-        timestamp: vessel.timestamp,
-        length: vessel.length,
-        width: vessel.width,
-        dimension: vessel.dimension,
-        source: vessel.source || 'telkomsat'
-      }));
-
-      const result = await this.aisDataService.updateCurrentVesselData(vesselDTOs);
+      const provider = this.registry.getProvider(TELKOMSAT_PROVIDER_NAME);
+      const result = await this.ingestPipeline.ingest(vessels, {
+        source: provider.source,
+        broadcast: false,
+        sourceTimezone: provider.sourceTimezone,
+      });
 
-      // ✅ Broadcast specific updates
+      // ✅ Broadcast specific updates per vessel instead of a full refresh
       if (this.vesselTrackingGateway) {
+        const gateway = this.vesselTrackingGateway;
         vessels.forEach(vessel => {
-          // ✅ Fixed: Check if vesselTrackingGateway exists before calling method
-          if (this.vesselTrackingGateway) {
-            this.vesselTrackingGateway.broadcastVesselPosition(vessel.mmsi, {
-              latitude: vessel.latitude,
-              longitude: vessel.longitude,
-              timestamp: vessel.timestamp,
-              course: vessel.course,
-              speed: vessel.speed
-            });
-          }
+          gateway.broadcastVesselPosition(vessel.mmsi, {
+            latitude: vessel.latitude,
+            longitude: vessel.longitude,
+            timestamp: parseTimestamp(vessel.timestamp, provider.sourceTimezone)?.toISOString() ?? vessel.timestamp,
+            course: vessel.course,
+            speed: vessel.speed
+          });
         });
+        result.broadcasted = vessels.length > 0;
       }
 
-      const duration = Date.now() - startTime;
-      this.logger.log(`🎯 Specific collection completed: ${vessels.length} vessels (${duration}ms)`);
-
-      return {
-        collected: vessels.length,
-        stored: result.newCurrentCount,
-        duration,
-        broadcasted: !!this.vesselTrackingGateway
-      };
+      this.logger.log(`🎯 Specific collection completed: ${vessels.length} vessels (${result.duration}ms)`);
+      return result;
 
     } catch (error) {
       this.logger.error(`Specific collection failed: ${error.message}`);
@@ -393,24 +126,23 @@ export class TelkomsatCollectorService {
   }
 
   /**
-   * 📊 ENHANCED COLLECTION STATUS
+   * 📊 COLLECTION STATUS - derived from the registry entry
    */
   getCollectionStatus(): CollectionStatus {
-    const nextCollection = new Date();
-    nextCollection.setSeconds(nextCollection.getSeconds() + 30); // Next 30-second interval
-
-    const averageDuration = this.collectionDurations.length > 0
-      ? Math.round(this.collectionDurations.reduce((a, b) => a + b, 0) / this.collectionDurations.length)
-      : 0;
+    const status = this.registry.getStatus(TELKOMSAT_PROVIDER_NAME);
 
     return {
-      isCollecting: this.isCollecting,
-      lastCollection: this.lastCollectionTime,
-      nextCollection: nextCollection.toISOString(),
-      totalCollections: this.totalCollections,
-      successfulCollections: this.successfulCollections,
-      averageDuration,
-      lastError: this.lastError // ✅ Now properly typed as string | undefined
+      isCollecting: status.isRunning,
+      enabled: status.enabled,
+      intervalSeconds: status.intervalSeconds,
+      lastCollection: status.lastRun,
+      nextCollection: status.nextRun ? status.nextRun.toISOString() : null,
+      totalCollections: status.totalRuns,
+      successfulCollections: status.successfulRuns,
+      averageDuration: status.averageDuration,
+      lastCoverage: status.lastResult?.coverage,
+      circuitBreaker: this.telkomsatClient.getCircuitBreakerState(),
+      lastError: status.lastError
     };
   }
 
@@ -419,6 +151,7 @@ export class TelkomsatCollectorService {
    */
   async healthCheck(): Promise<HealthCheckResult> {
     const telkomsatHealth = await this.telkomsatClient.healthCheck();
+    const status = this.registry.getStatus(TELKOMSAT_PROVIDER_NAME);
     
     // ✅ Check database health
     let databaseHealth = false;
@@ -456,8 +189,8 @@ export class TelkomsatCollectorService {
       telkomsatApi: telkomsatHealth,
       database: databaseHealth,
       webSocket: webSocketHealth,
-      lastCollection: this.lastCollectionTime,
-      isCollecting: this.isCollecting,
+      lastCollection: status.lastRun,
+      isCollecting: status.isRunning,
       connectedClients,
       systemStatus
     };
@@ -475,28 +208,22 @@ export class TelkomsatCollectorService {
     isRealTime: boolean;
     uptime: number;
   } {
-    const successRate = this.totalCollections > 0 
-      ? Math.round((this.successfulCollections / this.totalCollections) * 100)
-      : 0;
-
-    const averageDuration = this.collectionDurations.length > 0
-      ? Math.round(this.collectionDurations.reduce((a, b) => a + b, 0) / this.collectionDurations.length)
-      : 0;
+    const status = this.registry.getStatus(TELKOMSAT_PROVIDER_NAME);
 
-    const lastDuration = this.collectionDurations.length > 0 
-      ? this.collectionDurations[this.collectionDurations.length - 1]
+    const successRate = status.totalRuns > 0
+      ? Math.round((status.successfulRuns / status.totalRuns) * 100)
       : 0;
 
-    const uptime = this.lastCollectionTime 
-      ? Date.now() - this.lastCollectionTime.getTime()
+    const uptime = status.lastRun
+      ? Date.now() - status.lastRun.getTime()
       : 0;
 
     return {
-      totalCollections: this.totalCollections,
-      successfulCollections: this.successfulCollections,
+      totalCollections: status.totalRuns,
+      successfulCollections: status.successfulRuns,
       successRate,
-      averageDuration,
-      lastDuration,
+      averageDuration: status.averageDuration,
+      lastDuration: status.lastDuration,
       isRealTime: !!this.vesselTrackingGateway,
       uptime: Math.round(uptime / 1000) // in seconds
     };
@@ -506,24 +233,16 @@ export class TelkomsatCollectorService {
    * 🔄 RESET METRICS
    */
   resetMetrics(): void {
-    this.totalCollections = 0;
-    this.successfulCollections = 0;
-    this.collectionDurations = [];
-    this.lastError = undefined; // ✅ Set to undefined instead of null
+    this.registry.resetStats(TELKOMSAT_PROVIDER_NAME);
     this.logger.log('📊 Performance metrics reset');
   }
 
   /**
-   * ⏰ UPDATE COLLECTION INTERVAL (for testing purposes)
+   * ⏰ UPDATE COLLECTION INTERVAL - applied immediately by the registry
    */
   async setCollectionInterval(seconds: number): Promise<string> {
-    if (seconds < 10) {
-      throw new Error('Minimum interval is 10 seconds');
-    }
-    
-    // This would require dynamic cron job updates
-    this.logger.log(`⏰ Collection interval change requested: ${seconds}s (requires restart)`);
-    return `Collection interval will be ${seconds}s after restart`;
+    const status = this.registry.updateInterval(TELKOMSAT_PROVIDER_NAME, seconds);
+    return `Collection interval set to ${status.intervalSeconds}s`;
   }
 
   /**
@@ -531,8 +250,7 @@ export class TelkomsatCollectorService {
    */
   async cleanup(): Promise<void> {
     this.logger.log('🧹 Starting cleanup process');
-    
-    this.isCollecting = false;
+
     this.resetMetrics();
     
     this.logger.log('✅ Cleanup completed');
@@ -0,0 +1,403 @@
+// src/telkomsat/telkomsat-simulator.service.ts
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type {
+  TelkomsatVessel,
+  TelkomsatVesselResponse,
+} from './telkomsat-client.service';
+
+export interface TelkomsatSimulatorSettings {
+  vesselCount: number;
+  errorRate: number; // 0..1, probability that a request fails
+  latencyMs: number; // mean response latency
+  seed: number;
+}
+
+export interface TelkomsatSimulatorStatus extends TelkomsatSimulatorSettings {
+  enabled: boolean;
+  startedAt: Date;
+  requestsServed: number;
+  errorsInjected: number;
+}
+
+interface SimulatedVessel {
+  mmsi: number;
+  imo: string;
+  name: string;
+  callsign: string;
+  type: string;
+  vesselClass: string;
+  dimension: {
+    a: number;
+    b: number;
+    c: number;
+    d: number;
+    width: number;
+    length: number;
+  };
+  from: [number, number]; // [lat, lon]
+  to: [number, number];
+  speedKnots: number; // 0 = moored/anchored
+  status: string;
+  destination: string;
+  phaseNm: number; // start offset along the route
+  reportIntervalSec: number;
+}
+
+// ✅ Main Indonesian ports - vessels shuttle between pairs of them
+const PORTS: { name: string; position: [number, number] }[] = [
+  { name: 'TANJUNG PRIOK', position: [-6.1, 106.88] },
+  { name: 'TANJUNG PERAK', position: [-7.2, 112.73] },
+  { name: 'BELAWAN', position: [3.79, 98.69] },
+  { name: 'MAKASSAR', position: [-5.13, 119.41] },
+  { name: 'BALIKPAPAN', position: [-1.27, 116.81] },
+  { name: 'BATAM', position: [1.08, 104.0] },
+  { name: 'SEMARANG', position: [-6.95, 110.42] },
+  { name: 'BITUNG', position: [1.44, 125.19] },
+  { name: 'SORONG', position: [-0.88, 131.25] },
+  { name: 'BENOA', position: [-8.74, 115.21] },
+  { name: 'PONTIANAK', position: [-0.02, 109.33] },
+];
+
+const VESSEL_TYPES: {
+  type: string;
+  prefix: string;
+  speed: [number, number];
+  length: [number, number];
+}[] = [
+  { type: 'Cargo', prefix: 'MV', speed: [9, 15], length: [90, 200] },
+  { type: 'Tanker', prefix: 'MT', speed: [8, 13], length: [100, 250] },
+  { type: 'Passenger', prefix: 'KM', speed: [12, 20], length: [60, 150] },
+  { type: 'Fishing', prefix: 'KM', speed: [3, 8], length: [15, 40] },
+  { type: 'Tug', prefix: 'TB', speed: [5, 9], length: [20, 35] },
+];
+
+const NM_PER_DEGREE = 60;
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+/**
+ * 🧪 TELKOMSAT SIMULATOR
+ * Answers /vesselArea and /vessel in the real TelkomsatVesselResponse shape
+ * so the collect -> store -> broadcast pipeline runs without the real API.
+ * Enabled with TELKOMSAT_API_URL=simulator or TELKOMSAT_SIMULATOR=true.
+ */
+@Injectable()
+export class TelkomsatSimulatorService {
+  private readonly logger = new Logger(TelkomsatSimulatorService.name);
+  private readonly enabled: boolean;
+  private readonly startedAt = new Date();
+  private settings: TelkomsatSimulatorSettings;
+  private fleet: SimulatedVessel[] = [];
+  private requestsServed = 0;
+  private errorsInjected = 0;
+
+  constructor(private readonly configService: ConfigService) {
+    this.enabled =
+      this.configService.get<string>('TELKOMSAT_API_URL', '') === 'simulator' ||
+      this.configService.get<string>('TELKOMSAT_SIMULATOR', 'false') === 'true';
+
+    this.settings = {
+      vesselCount: Number(
+        this.configService.get<string>('TELKOMSAT_SIMULATOR_VESSELS', '250'),
+      ),
+      errorRate: Number(
+        this.configService.get<string>(
+          'TELKOMSAT_SIMULATOR_ERROR_RATE',
+          '0.02',
+        ),
+      ),
+      latencyMs: Number(
+        this.configService.get<string>('TELKOMSAT_SIMULATOR_LATENCY_MS', '150'),
+      ),
+      seed: Number(
+        this.configService.get<string>('TELKOMSAT_SIMULATOR_SEED', '42'),
+      ),
+    };
+
+    if (this.enabled) {
+      this.fleet = this.generateFleet();
+      this.logger.warn(
+        `🧪 Telkomsat simulator enabled: ${this.fleet.length} vessels, errorRate=${this.settings.errorRate}, latency≈${this.settings.latencyMs}ms`,
+      );
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * 📮 HANDLE REQUEST - same form fields as the real API
+   */
+  async handle(
+    path: string,
+    formData: FormData,
+  ): Promise<TelkomsatVesselResponse> {
+    this.requestsServed++;
+    await this.simulateLatency();
+
+    // ✅ Injected failures: half transport errors, half error bodies
+    if (Math.random() < this.settings.errorRate) {
+      this.errorsInjected++;
+      if (Math.random() < 0.5) {
+        throw new HttpException(
+          'Telkomsat API error: simulated upstream failure',
+          HttpStatus.SERVICE_UNAVAILABLE,
+        );
+      }
+      return {
+        code: 500,
+        message: 'Simulated internal server error',
+        data: [],
+        count: 0,
+        total_count: 0,
+      };
+    }
+
+    if (!formData.get('key')) {
+      return {
+        code: 401,
+        message: 'Invalid API key',
+        data: [],
+        count: 0,
+        total_count: 0,
+      };
+    }
+
+    const now = Date.now();
+
+    if (path === '/vessel') {
+      const wanted = new Set(
+        formData.getAll('mmsi[]').map((value) => Number(value)),
+      );
+      const data = this.fleet
+        .filter((vessel) => wanted.has(vessel.mmsi))
+        .map((vessel) => this.toTelkomsatVessel(vessel, now));
+      return {
+        code: 200,
+        message: 'success',
+        data,
+        count: data.length,
+        total_count: data.length,
+      };
+    }
+
+    if (path === '/vesselArea') {
+      const limit = Math.max(1, Number(formData.get('limit')) || 10);
+      const page = Math.max(1, Number(formData.get('page')) || 1);
+      const offset = Number(formData.get('offset')) || 0;
+      const start = offset + (page - 1) * limit;
+
+      const data = this.fleet
+        .slice(start, start + limit)
+        .map((vessel) => this.toTelkomsatVessel(vessel, now));
+      return {
+        code: 200,
+        message: 'success',
+        data,
+        count: data.length,
+        total_count: this.fleet.length,
+      };
+    }
+
+    return {
+      code: 404,
+      message: `Unknown endpoint ${path}`,
+      data: [],
+      count: 0,
+      total_count: 0,
+    };
+  }
+
+  getStatus(): TelkomsatSimulatorStatus {
+    return {
+      enabled: this.enabled,
+      ...this.settings,
+      vesselCount: this.fleet.length,
+      startedAt: this.startedAt,
+      requestsServed: this.requestsServed,
+      errorsInjected: this.errorsInjected,
+    };
+  }
+
+  /**
+   * ⚙️ RUNTIME TUNING - e.g. raise errorRate to 1 to simulate an outage
+   */
+  updateSettings(
+    update: Partial<TelkomsatSimulatorSettings>,
+  ): TelkomsatSimulatorStatus {
+    const regenerate =
+      (update.vesselCount !== undefined &&
+        update.vesselCount !== this.settings.vesselCount) ||
+      (update.seed !== undefined && update.seed !== this.settings.seed);
+
+    this.settings = {
+      vesselCount: update.vesselCount ?? this.settings.vesselCount,
+      errorRate: Math.min(
+        1,
+        Math.max(0, update.errorRate ?? this.settings.errorRate),
+      ),
+      latencyMs: Math.max(0, update.latencyMs ?? this.settings.latencyMs),
+      seed: update.seed ?? this.settings.seed,
+    };
+
+    if (regenerate && this.enabled) {
+      this.fleet = this.generateFleet();
+    }
+
+    this.logger.log(`⚙️ Simulator settings: ${JSON.stringify(this.settings)}`);
+    return this.getStatus();
+  }
+
+  // ====================================================================
+  // 🚢 FLEET + MOVEMENT
+  // ====================================================================
+
+  private generateFleet(): SimulatedVessel[] {
+    const random = this.createRandom(this.settings.seed);
+    const pick = <T>(items: T[]): T =>
+      items[Math.floor(random() * items.length)];
+    const between = (min: number, max: number) => min + random() * (max - min);
+    const fleet: SimulatedVessel[] = [];
+
+    for (let i = 0; i < this.settings.vesselCount; i++) {
+      const kind = pick(VESSEL_TYPES);
+      const from = pick(PORTS);
+      let to = pick(PORTS);
+      while (to === from) to = pick(PORTS);
+
+      // ✅ ~15% of the fleet stays in port
+      const moored = random() < 0.15;
+      const length = Math.round(between(kind.length[0], kind.length[1]));
+      const width = Math.max(5, Math.round(length / between(5, 7)));
+      const a = Math.round(length * between(0.6, 0.8));
+      const c = Math.round(width / 2);
+
+      fleet.push({
+        mmsi: 525000000 + 100 + i * 37,
+        imo:
+          kind.type === 'Fishing' || kind.type === 'Tug'
+            ? ''
+            : String(9100000 + i * 13),
+        name: `${kind.prefix} SIMULATOR ${String(i + 1).padStart(3, '0')}`,
+        callsign: `YB${(1000 + i).toString(36).toUpperCase()}`,
+        type: kind.type,
+        vesselClass: length > 80 ? 'A' : 'B',
+        dimension: { a, b: length - a, c, d: width - c, width, length },
+        from: [
+          from.position[0] + between(-0.05, 0.05),
+          from.position[1] + between(-0.05, 0.05),
+        ],
+        to: to.position,
+        speedKnots: moored
+          ? 0
+          : Math.round(between(kind.speed[0], kind.speed[1]) * 10) / 10,
+        status: moored
+          ? pick(['Moored', 'At Anchor'])
+          : kind.type === 'Fishing'
+            ? 'Engaged in Fishing'
+            : 'Under Way Using Engine',
+        destination: moored ? from.name : to.name,
+        phaseNm: between(0, 2000),
+        reportIntervalSec: Math.round(between(10, 180)),
+      });
+    }
+
+    return fleet;
+  }
+
+  private toTelkomsatVessel(
+    vessel: SimulatedVessel,
+    now: number,
+  ): TelkomsatVessel {
+    // ✅ Each vessel reports on its own cadence - the position is as of its last report
+    const intervalMs = vessel.reportIntervalSec * 1000;
+    const reportedAt = now - ((now + vessel.mmsi) % intervalMs);
+    const { latitude, longitude, course } = this.positionAt(vessel, reportedAt);
+
+    const moving = vessel.speedKnots > 0;
+    const sog = moving
+      ? Math.max(
+          0,
+          vessel.speedKnots + Math.sin(reportedAt / 60000 + vessel.mmsi) * 0.5,
+        )
+      : 0;
+    const wib = new Date(reportedAt + WIB_OFFSET_MS).toISOString();
+    const etaDate = new Date(
+      reportedAt + WIB_OFFSET_MS + 36 * 60 * 60 * 1000,
+    ).toISOString();
+
+    return {
+      mmsi: String(vessel.mmsi),
+      imo: vessel.imo,
+      lat: latitude.toFixed(6),
+      lon: longitude.toFixed(6),
+      cog: moving ? course.toFixed(1) : null,
+      sog: sog.toFixed(1),
+      heading: moving ? String(Math.round(course) % 360) : '511',
+      dimension: { ...vessel.dimension },
+      eta: moving ? `${etaDate.slice(0, 10)} ${etaDate.slice(11, 16)}` : null,
+      name: vessel.name,
+      callsign: vessel.callsign,
+      class: vessel.vesselClass,
+      type: vessel.type,
+      flag: 'Indonesia',
+      status: vessel.status,
+      destination: vessel.destination,
+      // ✅ Telkomsat reports local (WIB) date/time without an offset
+      data_date: wib.slice(0, 10),
+      data_time: wib.slice(11, 19),
+      source: 'telkomsat',
+    };
+  }
+
+  // ✅ Ping-pong along a straight from->to leg at constant speed (epoch based, stable across restarts)
+  private positionAt(
+    vessel: SimulatedVessel,
+    time: number,
+  ): { latitude: number; longitude: number; course: number } {
+    const [lat1, lon1] = vessel.from;
+    const [lat2, lon2] = vessel.to;
+
+    if (vessel.speedKnots === 0) {
+      return { latitude: lat1, longitude: lon1, course: 0 };
+    }
+
+    const midLat = ((lat1 + lat2) / 2) * (Math.PI / 180);
+    const dLatNm = (lat2 - lat1) * NM_PER_DEGREE;
+    const dLonNm = (lon2 - lon1) * NM_PER_DEGREE * Math.cos(midLat);
+    const legNm = Math.max(1, Math.sqrt(dLatNm * dLatNm + dLonNm * dLonNm));
+
+    const travelledNm =
+      (vessel.phaseNm + (vessel.speedKnots * time) / 3600000) % (2 * legNm);
+    const outbound = travelledNm <= legNm;
+    const fraction = outbound ? travelledNm / legNm : 2 - travelledNm / legNm;
+
+    const bearing = (Math.atan2(dLonNm, dLatNm) * 180) / Math.PI;
+    const course = ((outbound ? bearing : bearing + 180) + 360) % 360;
+
+    return {
+      latitude: lat1 + (lat2 - lat1) * fraction,
+      longitude: lon1 + (lon2 - lon1) * fraction,
+      course,
+    };
+  }
+
+  private async simulateLatency(): Promise<void> {
+    if (this.settings.latencyMs <= 0) return;
+    const delay = this.settings.latencyMs * (0.5 + Math.random());
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  // ✅ mulberry32 - deterministic fleet for a given seed
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -1,13 +1,16 @@
 // src/telkomsat/telkomsat.controller.ts
-import { Controller, Get, Post, HttpCode, HttpStatus, Query, ParseIntPipe } from '@nestjs/common';
+import { Controller, Get, Post, Patch, Body, HttpCode, HttpStatus, Query, ParseIntPipe, BadRequestException } from '@nestjs/common';
 import { TelkomsatCollectorService } from './telkomsat-collector.service';
 import { TelkomsatClientService } from './telkomsat-client.service';
+import { TelkomsatSimulatorService } from './telkomsat-simulator.service';
+import { UpdateSimulatorDto } from './dto/update-simulator.dto';
 
 @Controller('api/telkomsat')
 export class TelkomsatController {
   constructor(
     private readonly collectorService: TelkomsatCollectorService,
     private readonly clientService: TelkomsatClientService,
+    private readonly simulatorService: TelkomsatSimulatorService,
   ) {}
 
   /**
@@ -61,7 +64,7 @@ export class TelkomsatController {
    * GET /api/telkomsat/status
    */
   @Get('status')
-  async getStatus() {
+  getStatus() {
     const status = this.collectorService.getCollectionStatus();
     return {
       success: true,
@@ -70,6 +73,21 @@ export class TelkomsatController {
     };
   }
 
+  /**
+   * 🔌 RESET CIRCUIT BREAKER - resume collection without waiting for the timer
+   * POST /api/telkomsat/circuit/reset
+   */
+  @Post('circuit/reset')
+  @HttpCode(HttpStatus.OK)
+  resetCircuitBreaker() {
+    this.clientService.resetCircuitBreaker();
+    return {
+      success: true,
+      data: this.clientService.getCircuitBreakerState(),
+      timestamp: new Date()
+    };
+  }
+
   /**
    * 🏥 HEALTH CHECK
    * GET /api/telkomsat/health
@@ -115,4 +133,34 @@ export class TelkomsatController {
       };
     }
   }
+
+  /**
+   * 🧪 SIMULATOR STATUS
+   * GET /api/telkomsat/simulator
+   */
+  @Get('simulator')
+  getSimulatorStatus() {
+    return {
+      success: true,
+      data: this.simulatorService.getStatus(),
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * ⚙️ TUNE SIMULATOR (errorRate, latency, fleet size)
+   * PATCH /api/telkomsat/simulator
+   */
+  @Patch('simulator')
+  updateSimulator(@Body() dto: UpdateSimulatorDto) {
+    if (!this.simulatorService.isEnabled()) {
+      throw new BadRequestException('Simulator is disabled (set TELKOMSAT_API_URL=simulator or TELKOMSAT_SIMULATOR=true)');
+    }
+
+    return {
+      success: true,
+      data: this.simulatorService.updateSettings(dto),
+      timestamp: new Date()
+    };
+  }
 }
@@ -5,8 +5,11 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { TelkomsatClientService } from './telkomsat-client.service';
 import { TelkomsatCollectorService } from './telkomsat-collector.service';
 import { TelkomsatController } from './telkomsat.controller';
+import { TelkomsatProvider } from './telkomsat.provider';
+import { TelkomsatSimulatorService } from './telkomsat-simulator.service';
 import { AisDataModule } from '../ais-data/ais-data.module';
 import { WebSocketModule } from '../websocket/websocket.module'; // ✅ Add this
+import { DataSourcesModule } from '../data-sources/data-sources.module';
 
 @Module({
   imports: [
@@ -16,10 +19,11 @@ import { WebSocketModule } from '../websocket/websocket.module'; // ✅ Add this
     }),
     ScheduleModule.forRoot(),
     AisDataModule,
-    WebSocketModule // ✅ Add this for WebSocket injection
+    WebSocketModule, // ✅ Add this for WebSocket injection
+    DataSourcesModule
   ],
   controllers: [TelkomsatController],
-  providers: [TelkomsatClientService, TelkomsatCollectorService],
-  exports: [TelkomsatClientService, TelkomsatCollectorService]
+  providers: [TelkomsatClientService, TelkomsatCollectorService, TelkomsatProvider, TelkomsatSimulatorService],
+  exports: [TelkomsatClientService, TelkomsatCollectorService, TelkomsatProvider]
 })
 export class TelkomsatModule {}
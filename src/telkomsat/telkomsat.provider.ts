@@ -0,0 +1,65 @@
+// src/telkomsat/telkomsat.provider.ts
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TelkomsatClientService } from './telkomsat-client.service';
+import { DataSourceRegistryService } from '../data-sources/data-source-registry.service';
+import {
+  ProviderFetchResult,
+  VesselDataProvider,
+} from '../data-sources/vessel-data-provider.interface';
+import { isValidTimeZone } from '../common/time/timezone.util';
+
+export const TELKOMSAT_PROVIDER_NAME = 'telkomsat';
+
+/**
+ * 🛰️ TELKOMSAT PROVIDER - Telkomsat REST API as a VesselDataProvider
+ */
+@Injectable()
+export class TelkomsatProvider implements VesselDataProvider, OnModuleInit {
+  readonly name = TELKOMSAT_PROVIDER_NAME;
+  readonly source = 'telkomsat';
+  readonly defaultIntervalSeconds: number;
+  readonly enabledByDefault: boolean;
+  readonly sourceTimezone: string; // data_date/data_time are WIB wall-clock
+  private readonly logger = new Logger(TelkomsatProvider.name);
+
+  constructor(
+    private readonly telkomsatClient: TelkomsatClientService,
+    private readonly registry: DataSourceRegistryService,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultIntervalSeconds = Number(
+      this.configService.get<string>(
+        'TELKOMSAT_COLLECTION_INTERVAL_SECONDS',
+        '30',
+      ),
+    );
+    this.enabledByDefault =
+      this.configService.get<string>('TELKOMSAT_ENABLED', 'true') !== 'false';
+
+    const timeZone = this.configService.get<string>(
+      'TELKOMSAT_SOURCE_TIMEZONE',
+      'Asia/Jakarta',
+    );
+    if (isValidTimeZone(timeZone)) {
+      this.sourceTimezone = timeZone;
+    } else {
+      this.logger.warn(
+        `⚠️ Invalid TELKOMSAT_SOURCE_TIMEZONE "${timeZone}", using Asia/Jakarta`,
+      );
+      this.sourceTimezone = 'Asia/Jakarta';
+    }
+  }
+
+  onModuleInit(): void {
+    this.registry.register(this);
+  }
+
+  async fetchVessels(): Promise<ProviderFetchResult> {
+    return this.telkomsatClient.collectVesselsMassively();
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.telkomsatClient.healthCheck();
+  }
+}
@@ -0,0 +1,74 @@
+// src/voyages/dto/voyage.dto.ts
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class VoyageHistoryDto {
+  @IsOptional()
+  @IsEnum(['underway', 'completed'])
+  status?: 'underway' | 'completed';
+
+  // ISO-8601, offset honoured; none = UTC. Voyages overlapping the window.
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
+
+export class QueryVoyagesDto extends VoyageHistoryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  mmsi?: number;
+
+  // Voyages departing from or arriving at this port
+  @IsOptional()
+  @IsString()
+  locode?: string;
+}
+
+export class VoyagePlaybackDto {
+  // Sampling interval in minutes; 1 or less = every report
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  interval?: number = 5;
+}
+
+export class AnalyzeVoyagesDto {
+  // One vessel, or every vessel reporting in the window
+  @IsOptional()
+  @IsNumber()
+  mmsi?: number;
+
+  // ISO-8601, offset honoured; none = UTC
+  @IsDateString()
+  startDate: string;
+
+  @IsDateString()
+  endDate: string;
+}
@@ -0,0 +1,75 @@
+// src/voyages/schemas/voyage.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import type { VoyageIdlePeriod } from '../voyage-segmenter';
+
+export type VoyageDocument = Voyage & Document;
+
+// ✅ Port is set when the stop lies inside a known port's limits
+export interface VoyageEndpoint {
+  latitude: number;
+  longitude: number;
+  locode?: string;
+  portName?: string;
+}
+
+@Schema({
+  timestamps: true,
+  collection: 'voyages',
+})
+export class Voyage {
+  @Prop({ required: true })
+  mmsi: number;
+
+  @Prop()
+  vesselName?: string;
+
+  @Prop()
+  vesselType?: number;
+
+  @Prop({ required: true, enum: ['underway', 'completed'] })
+  status: 'underway' | 'completed';
+
+  @Prop({ required: true })
+  startedAt: Date; // last report of the stop it left from
+
+  @Prop({ required: true })
+  endedAt: Date; // first report of the stop it ended at, or latest report
+
+  @Prop({ required: true })
+  durationSeconds: number;
+
+  @Prop({ type: Object, required: true })
+  start: VoyageEndpoint;
+
+  @Prop({ type: Object, required: true })
+  end: VoyageEndpoint;
+
+  @Prop({ required: true })
+  distanceNm: number;
+
+  @Prop({ required: true })
+  averageSpeedKnots: number; // distance over time not spent idle
+
+  @Prop({ required: true })
+  maxSpeedKnots: number;
+
+  @Prop({ type: [Object], default: [] })
+  idlePeriods: VoyageIdlePeriod[];
+
+  @Prop({ default: 0 })
+  idleSeconds: number;
+
+  @Prop({ required: true })
+  positions: number;
+
+  @Prop()
+  source?: string;
+}
+
+export const VoyageSchema = SchemaFactory.createForClass(Voyage);
+
+VoyageSchema.index({ mmsi: 1, startedAt: -1 });
+VoyageSchema.index({ startedAt: -1 });
+VoyageSchema.index({ 'start.locode': 1 });
+VoyageSchema.index({ 'end.locode': 1 });
@@ -0,0 +1,177 @@
+import {
+  VoyagePoint,
+  VoyageSegmentationOptions,
+  segmentVoyages,
+  shouldReplaceVoyage,
+} from './voyage-segmenter';
+
+describe('voyage-segmenter', () => {
+  const options: VoyageSegmentationOptions = {
+    stopSpeedKnots: 0.5,
+    minStopSeconds: 3600,
+    minIdleSeconds: 600,
+    minDistanceNm: 1,
+  };
+
+  // ✅ One report every 10 minutes from 00:00 UTC; moving reports step
+  // 0.0333° of latitude (2 nm, i.e. 12 kn)
+  const build = (legs: Array<['stop' | 'move', number]>): VoyagePoint[] => {
+    const points: VoyagePoint[] = [];
+    let latitude = 0;
+    for (const [kind, count] of legs) {
+      for (let i = 0; i < count; i++) {
+        if (kind === 'move') latitude += 2 / 60;
+        points.push({
+          latitude,
+          longitude: 107,
+          speed: kind === 'move' ? 12 : 0,
+          timestamp: new Date(Date.UTC(2024, 0, 1, 0, points.length * 10)),
+        });
+      }
+    }
+    return points;
+  };
+
+  it('should split a track into legs between stops', () => {
+    const voyages = segmentVoyages(
+      build([
+        ['stop', 8],
+        ['move', 6],
+        ['stop', 8],
+        ['move', 3],
+        ['stop', 8],
+      ]),
+      options,
+    );
+
+    expect(voyages).toHaveLength(2);
+    expect(voyages[0]).toMatchObject({
+      startedAt: new Date(Date.UTC(2024, 0, 1, 1, 10)),
+      endedAt: new Date(Date.UTC(2024, 0, 1, 2, 20)),
+      durationSeconds: 70 * 60,
+      positions: 8,
+      complete: true,
+      maxSpeedKnots: 12,
+      idlePeriods: [],
+    });
+    expect(voyages[0].distanceNm).toBeCloseTo(12, 0);
+    expect(voyages[0].start.latitude).toBe(0);
+    expect(voyages[1].distanceNm).toBeCloseTo(6, 0);
+  });
+
+  it('should keep short stops as idle periods of the voyage', () => {
+    const [voyage] = segmentVoyages(
+      build([
+        ['stop', 8],
+        ['move', 3],
+        ['stop', 3],
+        ['move', 3],
+        ['stop', 8],
+      ]),
+      options,
+    );
+
+    expect(voyage.idlePeriods).toHaveLength(1);
+    expect(voyage.idlePeriods[0].durationSeconds).toBe(30 * 60);
+    expect(voyage.idleSeconds).toBe(30 * 60);
+    // 12 nm over 70 min underway (100 min in total)
+    expect(voyage.durationSeconds).toBe(100 * 60);
+    expect(voyage.averageSpeedKnots).toBeCloseTo(10.3, 0);
+  });
+
+  it('should return a leg still moving at the end as incomplete', () => {
+    const voyages = segmentVoyages(
+      build([
+        ['stop', 8],
+        ['move', 4],
+      ]),
+      options,
+    );
+
+    expect(voyages).toHaveLength(1);
+    expect(voyages[0].complete).toBe(false);
+    expect(voyages[0].endedAt).toEqual(new Date(Date.UTC(2024, 0, 1, 1, 50)));
+  });
+
+  it('should treat anchored and moored reports as stationary', () => {
+    const track = build([
+      ['move', 4],
+      ['move', 8],
+    ]).map((point, i) =>
+      i >= 4 ? { ...point, latitude: 0.1333, navStatus: 5, speed: 2 } : point,
+    );
+
+    const [voyage] = segmentVoyages(track, options);
+
+    expect(voyage.complete).toBe(true);
+    expect(voyage.startedAt).toEqual(track[0].timestamp);
+    expect(voyage.endedAt).toEqual(track[4].timestamp);
+  });
+
+  it('should drop legs shorter than the minimum distance', () => {
+    const track = build([
+      ['stop', 8],
+      ['move', 1],
+      ['stop', 8],
+    ]).map((point) => ({ ...point, latitude: point.latitude / 10 }));
+
+    expect(segmentVoyages(track, options)).toEqual([]);
+  });
+
+  it('should ignore speed not available when taking the maximum', () => {
+    const track = build([
+      ['stop', 8],
+      ['move', 4],
+      ['stop', 8],
+    ]);
+    track[10].speed = 102.3;
+
+    expect(segmentVoyages(track, options)[0].maxSpeedKnots).toBe(12);
+  });
+
+  it('should complete a live voyage once its final stop qualifies', () => {
+    // ✅ Reports every 5 minutes: moving 10:00-11:50, stationary from 11:55
+    const at = (minutes: number) => new Date(Date.UTC(2024, 0, 1, 10, minutes));
+    const trackUntil = (minutes: number): VoyagePoint[] => {
+      const points: VoyagePoint[] = [];
+      for (let m = 0; m <= minutes; m += 5) {
+        const moving = m <= 110;
+        points.push({
+          latitude: (Math.min(m, 110) / 5) * (1 / 60),
+          longitude: 107,
+          speed: moving ? 12 : 0,
+          timestamp: at(m),
+        });
+      }
+      return points;
+    };
+
+    const [atHalfPast] = segmentVoyages(trackUntil(145), options); // 12:30 tick
+    expect(atHalfPast).toMatchObject({ complete: false, endedAt: at(145) });
+
+    const [atOne] = segmentVoyages(trackUntil(175), options); // 13:00 tick
+    expect(atOne).toMatchObject({ complete: true, endedAt: at(115) });
+    expect(atOne.durationSeconds).toBeLessThan(atHalfPast.durationSeconds);
+
+    const stored = { ...atHalfPast, status: 'underway' as const };
+    expect(shouldReplaceVoyage(stored, atOne)).toBe(true);
+  });
+
+  it('should not shrink or reopen a stored voyage', () => {
+    const underway = { status: 'underway' as const, durationSeconds: 7200 };
+    const completed = { status: 'completed' as const, durationSeconds: 7200 };
+
+    expect(
+      shouldReplaceVoyage(underway, { complete: false, durationSeconds: 3600 }),
+    ).toBe(false);
+    expect(
+      shouldReplaceVoyage(underway, { complete: false, durationSeconds: 9000 }),
+    ).toBe(true);
+    expect(
+      shouldReplaceVoyage(completed, {
+        complete: false,
+        durationSeconds: 9000,
+      }),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,204 @@
+// src/voyages/voyage-segmenter.ts
+import {
+  NAUTICAL_MILE_METERS,
+  haversineDistanceMeters,
+} from '../common/geo/geo.util';
+
+export interface VoyagePoint {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  speed?: number;
+  navStatus?: number;
+}
+
+export interface VoyageSegmentationOptions {
+  stopSpeedKnots: number; // below this (or at anchor/moored) = stationary
+  minStopSeconds: number; // stationary this long ends a voyage
+  minIdleSeconds: number; // shorter stationary spells are not reported
+  minDistanceNm: number; // shorter legs (berth shifts) are not voyages
+}
+
+export interface VoyageIdlePeriod {
+  startedAt: Date;
+  endedAt: Date;
+  durationSeconds: number;
+  latitude: number;
+  longitude: number;
+}
+
+export interface VoyageSegment {
+  startedAt: Date;
+  endedAt: Date;
+  durationSeconds: number;
+  start: { latitude: number; longitude: number };
+  end: { latitude: number; longitude: number };
+  distanceNm: number;
+  averageSpeedKnots: number; // over the time not spent idle
+  maxSpeedKnots: number;
+  idlePeriods: VoyageIdlePeriod[];
+  idleSeconds: number;
+  positions: number;
+  complete: boolean; // ended at a stop, not at the end of the track
+}
+
+interface StationaryRun {
+  from: number; // first stationary report
+  to: number; // last stationary report
+  startedAt: Date;
+  endedAt: Date; // next report (vessel moving again), or `to` at track end
+}
+
+// ✅ 102.3 kn is "speed not available" in AIS
+const SPEED_NOT_AVAILABLE = 102.3;
+
+/**
+ * Split a track (oldest first) into voyages: legs between stops, where a
+ * stop is a stationary spell of at least minStopSeconds. A voyage runs
+ * from the last report of one stop to the first report of the next, so
+ * start/end are the stop positions; shorter stationary spells along the
+ * way are its idle periods. A leg still moving at the end of the track is
+ * returned with complete=false; one already moving at the start begins
+ * at the first report.
+ */
+export function segmentVoyages(
+  track: VoyagePoint[],
+  options: VoyageSegmentationOptions,
+): VoyageSegment[] {
+  if (track.length < 2) return [];
+
+  const runs = stationaryRuns(track, options.stopSpeedKnots);
+  const stops = runs.filter(
+    (run) => seconds(run.startedAt, run.endedAt) >= options.minStopSeconds,
+  );
+
+  const segments: VoyageSegment[] = [];
+  let from = stops.length > 0 && stops[0].from === 0 ? stops[0].to : 0;
+  let stopIndex = stops.length > 0 && stops[0].from === 0 ? 1 : 0;
+
+  while (from < track.length - 1) {
+    const nextStop = stops[stopIndex];
+    const to = nextStop ? nextStop.from : track.length - 1;
+    const idle = runs.filter(
+      (run) =>
+        !stops.includes(run) &&
+        run.from >= from &&
+        run.to <= to &&
+        seconds(run.startedAt, run.endedAt) >= options.minIdleSeconds,
+    );
+
+    const segment = summarize(track, from, to, idle, Boolean(nextStop));
+    if (segment.distanceNm >= options.minDistanceNm) segments.push(segment);
+
+    if (!nextStop) break;
+    from = nextStop.to;
+    stopIndex++;
+  }
+
+  return segments;
+}
+
+function stationaryRuns(
+  track: VoyagePoint[],
+  stopSpeedKnots: number,
+): StationaryRun[] {
+  const runs: StationaryRun[] = [];
+  let start = -1;
+
+  track.forEach((point, i) => {
+    const stationary =
+      point.navStatus === 1 ||
+      point.navStatus === 5 ||
+      Number(point.speed ?? 0) < stopSpeedKnots;
+    if (stationary && start === -1) start = i;
+    if (start !== -1 && (!stationary || i === track.length - 1)) {
+      runs.push({
+        from: start,
+        to: stationary ? i : i - 1,
+        startedAt: track[start].timestamp,
+        endedAt: track[i].timestamp,
+      });
+      start = -1;
+    }
+  });
+
+  return runs;
+}
+
+function summarize(
+  track: VoyagePoint[],
+  from: number,
+  to: number,
+  idle: StationaryRun[],
+  complete: boolean,
+): VoyageSegment {
+  let meters = 0;
+  let maxSpeed = 0;
+  for (let i = from; i <= to; i++) {
+    if (i > from) {
+      meters += haversineDistanceMeters(
+        track[i - 1].latitude,
+        track[i - 1].longitude,
+        track[i].latitude,
+        track[i].longitude,
+      );
+    }
+    const speed = Number(track[i].speed ?? 0);
+    if (speed < SPEED_NOT_AVAILABLE && speed > maxSpeed) maxSpeed = speed;
+  }
+
+  const idlePeriods = idle.map((run) => ({
+    startedAt: run.startedAt,
+    endedAt: run.endedAt,
+    durationSeconds: seconds(run.startedAt, run.endedAt),
+    latitude: track[run.from].latitude,
+    longitude: track[run.from].longitude,
+  }));
+  const idleSeconds = idlePeriods.reduce(
+    (sum, period) => sum + period.durationSeconds,
+    0,
+  );
+  const startedAt = track[from].timestamp;
+  const endedAt = track[to].timestamp;
+  const durationSeconds = seconds(startedAt, endedAt);
+  const distanceNm = meters / NAUTICAL_MILE_METERS;
+  const underwaySeconds = durationSeconds - idleSeconds;
+
+  return {
+    startedAt,
+    endedAt,
+    durationSeconds,
+    start: { latitude: track[from].latitude, longitude: track[from].longitude },
+    end: { latitude: track[to].latitude, longitude: track[to].longitude },
+    distanceNm: Math.round(distanceNm * 100) / 100,
+    averageSpeedKnots:
+      underwaySeconds > 0
+        ? Math.round((distanceNm / (underwaySeconds / 3600)) * 10) / 10
+        : 0,
+    maxSpeedKnots: maxSpeed,
+    idlePeriods,
+    idleSeconds,
+    positions: to - from + 1,
+    complete,
+  };
+}
+
+function seconds(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / 1000);
+}
+
+/**
+ * Whether a re-detected segment should overwrite the stored voyage it
+ * overlaps. A completed re-detection always replaces an underway voyage
+ * (it ends at the stop, earlier than the underway end); a completed
+ * voyage is not reopened; otherwise a shorter re-detection from a
+ * narrower window does not shrink the voyage.
+ */
+export function shouldReplaceVoyage(
+  stored: { status: 'underway' | 'completed'; durationSeconds: number },
+  segment: Pick<VoyageSegment, 'complete' | 'durationSeconds'>,
+): boolean {
+  const completed = stored.status === 'completed';
+  if (segment.complete !== completed) return segment.complete;
+  return segment.durationSeconds >= stored.durationSeconds;
+}
@@ -0,0 +1,128 @@
+// src/voyages/voyages.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { VoyagesService } from './voyages.service';
+import {
+  AnalyzeVoyagesDto,
+  QueryVoyagesDto,
+  VoyageHistoryDto,
+  VoyagePlaybackDto,
+} from './dto/voyage.dto';
+
+@ApiTags('Voyages')
+@Controller('voyages')
+export class VoyagesController {
+  constructor(private readonly voyagesService: VoyagesService) {}
+
+  /**
+   * 🧭 QUERY VOYAGES
+   * GET /api/voyages?mmsi=&locode=&status=&startDate=&endDate=
+   */
+  @Get()
+  @ApiOperation({ summary: 'Query voyages' })
+  @ApiQuery({ type: QueryVoyagesDto })
+  async queryVoyages(@Query() queryDto: QueryVoyagesDto) {
+    const result = await this.voyagesService.queryVoyages(queryDto);
+    return {
+      success: true,
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🚢 VOYAGES PER VESSEL
+   * GET /api/voyages/vessel/:mmsi?startDate=&endDate=
+   */
+  @Get('vessel/:mmsi')
+  @ApiOperation({ summary: 'Voyages of a vessel' })
+  @ApiQuery({ type: VoyageHistoryDto })
+  async getVesselVoyages(
+    @Param('mmsi', ParseIntPipe) mmsi: number,
+    @Query() queryDto: VoyageHistoryDto,
+  ) {
+    const result = await this.voyagesService.queryVoyages({
+      ...queryDto,
+      mmsi,
+    });
+    return {
+      success: true,
+      mmsi,
+      ...result,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * ⏪ ANALYZE HISTORY
+   * POST /api/voyages/analyze { mmsi?, startDate, endDate }
+   */
+  @Post('analyze')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Segment vessel_logs tracks into voyages over a past window',
+  })
+  async analyze(@Body() dto: AnalyzeVoyagesDto) {
+    return {
+      success: true,
+      data: await this.voyagesService.analyzeHistory(dto),
+      timestamp: new Date(),
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a voyage by id' })
+  async findOne(@Param('id') id: string) {
+    return {
+      success: true,
+      data: await this.voyagesService.findById(id),
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * 🎬 VOYAGE PLAYBACK - track replay of a single voyage
+   * GET /api/voyages/:id/playback?interval=5
+   */
+  @Get(':id/playback')
+  @ApiOperation({ summary: 'Get playback data for a single voyage' })
+  @ApiQuery({ type: VoyagePlaybackDto })
+  async getPlayback(
+    @Param('id') id: string,
+    @Query() queryDto: VoyagePlaybackDto,
+  ) {
+    const intervalMinutes = queryDto.interval ?? 5;
+    const { voyage, data } = await this.voyagesService.getVoyagePlayback(
+      id,
+      intervalMinutes,
+    );
+    return {
+      success: true,
+      mmsi: voyage.mmsi,
+      voyage,
+      count: data.length,
+      data,
+      playbackInfo: {
+        startDate: voyage.startedAt,
+        endDate: voyage.endedAt,
+        intervalMinutes,
+        trackPoints: data.length,
+        samplingRate:
+          intervalMinutes <= 1
+            ? 'Full resolution'
+            : `${intervalMinutes} minute intervals`,
+      },
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,27 @@
+// src/voyages/voyages.module.ts
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Voyage, VoyageSchema } from './schemas/voyage.schema';
+import { VoyagesService } from './voyages.service';
+import { VoyagesController } from './voyages.controller';
+import {
+  VesselLog,
+  VesselLogSchema,
+} from '../ais-data/schemas/vessel-log.schema';
+import { AisDataModule } from '../ais-data/ais-data.module';
+import { PortsModule } from '../ports/ports.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Voyage.name, schema: VoyageSchema },
+      { name: VesselLog.name, schema: VesselLogSchema },
+    ]),
+    AisDataModule,
+    PortsModule,
+  ],
+  controllers: [VoyagesController],
+  providers: [VoyagesService],
+  exports: [VoyagesService],
+})
+export class VoyagesModule {}
@@ -0,0 +1,334 @@
+// src/voyages/voyages.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, isValidObjectId } from 'mongoose';
+import {
+  Voyage,
+  VoyageDocument,
+  VoyageEndpoint,
+} from './schemas/voyage.schema';
+import { AnalyzeVoyagesDto, QueryVoyagesDto } from './dto/voyage.dto';
+import {
+  VoyageSegment,
+  VoyageSegmentationOptions,
+  segmentVoyages,
+  shouldReplaceVoyage,
+} from './voyage-segmenter';
+import {
+  VesselLog,
+  VesselLogDocument,
+} from '../ais-data/schemas/vessel-log.schema';
+import { AisDataService } from '../ais-data/ais-data.service';
+import { PortsService } from '../ports/ports.service';
+import { normalizeLocode } from '../ports/port-formats';
+import { parseApiDate } from '../common/time/timezone.util';
+
+export interface VoyageAnalysisResult {
+  vessels: number;
+  voyages: number;
+}
+
+/**
+ * 🧭 VOYAGES
+ * Splits vessel_logs tracks into port-to-port / stop-to-stop legs with
+ * distance, speeds and idle periods, stored in the voyages collection.
+ * Runs hourly over recently reporting vessels and on demand over history.
+ */
+@Injectable()
+export class VoyagesService {
+  private readonly logger = new Logger(VoyagesService.name);
+  private readonly enabled: boolean;
+  private readonly options: VoyageSegmentationOptions;
+  private readonly lookbackMs: number;
+  private readonly maxAnalyzeDays: number;
+  private running = false;
+
+  constructor(
+    @InjectModel(Voyage.name)
+    private readonly voyageModel: Model<VoyageDocument>,
+    @InjectModel(VesselLog.name)
+    private readonly vesselLogModel: Model<VesselLogDocument>,
+    private readonly aisDataService: AisDataService,
+    private readonly portsService: PortsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.enabled =
+      this.configService.get<string>('VOYAGES_ENABLED', 'true') !== 'false';
+    this.options = {
+      stopSpeedKnots: Number(
+        this.configService.get<string>('VOYAGE_STOP_SPEED_KNOTS', '0.5'),
+      ),
+      minStopSeconds:
+        Number(
+          this.configService.get<string>('VOYAGE_MIN_STOP_MINUTES', '60'),
+        ) * 60,
+      minIdleSeconds:
+        Number(
+          this.configService.get<string>('VOYAGE_MIN_IDLE_MINUTES', '10'),
+        ) * 60,
+      minDistanceNm: Number(
+        this.configService.get<string>('VOYAGE_MIN_DISTANCE_NM', '1'),
+      ),
+    };
+    this.lookbackMs =
+      Number(this.configService.get<string>('VOYAGE_LOOKBACK_HOURS', '48')) *
+      3600 *
+      1000;
+    this.maxAnalyzeDays = Number(
+      this.configService.get<string>('VOYAGE_MAX_ANALYZE_DAYS', '31'),
+    );
+  }
+
+  /**
+   * 🕐 HOURLY SEGMENTATION - vessels that reported in the last hour
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'voyage-segmentation' })
+  async handleSegmentation(): Promise<void> {
+    if (!this.enabled || this.running) return;
+
+    this.running = true;
+    try {
+      const now = new Date();
+      const mmsis: number[] = await this.vesselLogModel.distinct('mmsi', {
+        status: 'archived',
+        timestamp: { $gte: new Date(now.getTime() - 3600 * 1000) },
+      });
+
+      let voyages = 0;
+      for (const mmsi of mmsis) {
+        voyages += await this.segmentVessel(
+          mmsi,
+          await this.liveWindowStart(mmsi, now),
+          now,
+        );
+      }
+
+      if (voyages > 0) {
+        this.logger.log(
+          `🧭 Voyages: ${voyages} voyages updated from ${mmsis.length} vessels`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Voyage segmentation failed', (error as Error).stack);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * ⏪ HISTORICAL SEGMENTATION - one vessel or every vessel in the window
+   */
+  async analyzeHistory(dto: AnalyzeVoyagesDto): Promise<VoyageAnalysisResult> {
+    const from = parseApiDate(dto.startDate);
+    const to = parseApiDate(dto.endDate);
+    if (!from || !to || from >= to) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+    if (to.getTime() - from.getTime() > this.maxAnalyzeDays * 86400 * 1000) {
+      throw new BadRequestException(
+        `Analysis window is limited to ${this.maxAnalyzeDays} days`,
+      );
+    }
+
+    const mmsis: number[] = dto.mmsi
+      ? [dto.mmsi]
+      : await this.vesselLogModel.distinct('mmsi', {
+          status: 'archived',
+          timestamp: { $gte: from, $lte: to },
+        });
+
+    let voyages = 0;
+    for (const mmsi of mmsis) {
+      voyages += await this.segmentVessel(mmsi, from, to);
+    }
+
+    this.logger.log(
+      `🧭 Historical voyage segmentation: ${voyages} voyages from ${mmsis.length} vessels`,
+    );
+    return { vessels: mmsis.length, voyages };
+  }
+
+  /**
+   * 📚 QUERY VOYAGES - newest first
+   */
+  async queryVoyages(queryDto: QueryVoyagesDto) {
+    const {
+      mmsi,
+      locode,
+      status,
+      startDate,
+      endDate,
+      page = 1,
+      limit = 100,
+    } = queryDto;
+
+    const query: Record<string, any> = {};
+    if (mmsi) query.mmsi = mmsi;
+    if (status) query.status = status;
+    if (locode) {
+      const code = normalizeLocode(locode) ?? locode;
+      query.$or = [{ 'start.locode': code }, { 'end.locode': code }];
+    }
+    // ✅ Overlap with the window, so long voyages are not missed
+    if (startDate) query.endedAt = { $gte: parseApiDate(startDate) };
+    if (endDate) query.startedAt = { $lte: parseApiDate(endDate) };
+
+    const [voyages, total] = await Promise.all([
+      this.voyageModel
+        .find(query)
+        .sort({ startedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.voyageModel.countDocuments(query),
+    ]);
+
+    return {
+      data: voyages,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: page * limit < total,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async findById(id: string): Promise<Voyage> {
+    const voyage = isValidObjectId(id)
+      ? await this.voyageModel.findById(id).lean<Voyage>().exec()
+      : null;
+    if (!voyage) {
+      throw new NotFoundException(`Voyage ${id} not found`);
+    }
+    return voyage;
+  }
+
+  /**
+   * 🎬 VOYAGE PLAYBACK - the vessel's track over one voyage
+   */
+  async getVoyagePlayback(
+    id: string,
+    intervalMinutes: number = 5,
+  ): Promise<{ voyage: Voyage; data: any[] }> {
+    const voyage = await this.findById(id);
+    const data = await this.aisDataService.getVesselPlaybackData(
+      voyage.mmsi,
+      voyage.startedAt.toISOString(),
+      voyage.endedAt.toISOString(),
+      intervalMinutes,
+    );
+    return { voyage, data };
+  }
+
+  /**
+   * An underway voyage is re-segmented from its start, not cut at the window
+   */
+  private async liveWindowStart(mmsi: number, now: Date): Promise<Date> {
+    const from = new Date(now.getTime() - this.lookbackMs);
+    const underway = await this.voyageModel
+      .findOne({ mmsi, status: 'underway' })
+      .sort({ startedAt: -1 })
+      .select('startedAt')
+      .lean<Pick<Voyage, 'startedAt'>>();
+    const earliest = new Date(
+      now.getTime() - this.maxAnalyzeDays * 86400 * 1000,
+    );
+
+    if (!underway || underway.startedAt >= from) return from;
+    return underway.startedAt > earliest ? underway.startedAt : earliest;
+  }
+
+  private async segmentVessel(
+    mmsi: number,
+    from: Date,
+    to: Date,
+  ): Promise<number> {
+    const track = await this.vesselLogModel
+      .find({ mmsi, status: 'archived', timestamp: { $gte: from, $lte: to } })
+      .sort({ timestamp: 1 })
+      .select(
+        'latitude longitude timestamp speed navStatus name vesselType source',
+      )
+      .lean<VesselLog[]>();
+    if (track.length < 2) return 0;
+
+    const segments = segmentVoyages(track, this.options);
+    const latest = track[track.length - 1];
+    for (const segment of segments) {
+      await this.saveVoyage(mmsi, segment, latest);
+    }
+    return segments.length;
+  }
+
+  /**
+   * Upsert by overlap: re-runs and the sliding window find the same voyage
+   * again, possibly longer or completed since
+   */
+  private async saveVoyage(
+    mmsi: number,
+    segment: VoyageSegment,
+    vessel: VesselLog,
+  ): Promise<void> {
+    const existing = await this.voyageModel
+      .findOne({
+        mmsi,
+        startedAt: { $lte: segment.endedAt },
+        endedAt: { $gte: segment.startedAt },
+      })
+      .sort({ startedAt: 1 })
+      .exec();
+
+    if (existing && !shouldReplaceVoyage(existing, segment)) {
+      return;
+    }
+
+    const fields: Voyage = {
+      mmsi,
+      vesselName: vessel.name,
+      vesselType: vessel.vesselType,
+      status: segment.complete ? 'completed' : 'underway',
+      startedAt: segment.startedAt,
+      endedAt: segment.endedAt,
+      durationSeconds: segment.durationSeconds,
+      start: await this.toEndpoint(segment.start),
+      end: segment.complete
+        ? await this.toEndpoint(segment.end)
+        : { ...segment.end },
+      distanceNm: segment.distanceNm,
+      averageSpeedKnots: segment.averageSpeedKnots,
+      maxSpeedKnots: segment.maxSpeedKnots,
+      idlePeriods: segment.idlePeriods,
+      idleSeconds: segment.idleSeconds,
+      positions: segment.positions,
+      source: vessel.source,
+    };
+
+    if (!existing) {
+      await this.voyageModel.create(fields);
+      return;
+    }
+    existing.set(fields);
+    await existing.save();
+  }
+
+  private async toEndpoint(position: {
+    latitude: number;
+    longitude: number;
+  }): Promise<VoyageEndpoint> {
+    const port = await this.portsService.findPortAt(position);
+    return port
+      ? { ...position, locode: port.locode, portName: port.name }
+      : { ...position };
+  }
+}
@@ -4,6 +4,7 @@ import {
   WebSocketServer, 
   SubscribeMessage, 
   MessageBody,
+  ConnectedSocket,
   OnGatewayConnection,
   OnGatewayDisconnect,
   OnGatewayInit
@@ -11,6 +12,19 @@ import {
 import { Server, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
 import { AisDataService } from '../ais-data/ais-data.service';
+import { parseTimestamp, zonedTimeToUtc } from '../common/time/timezone.util';
+import {
+  crossesAntimeridian,
+  isValidCoordinate,
+} from '../common/geo/geo.util';
+import { polygonBoundingBox } from '../common/geo/polygon.util';
+import { PoiAreasService } from '../poi-areas/poi-areas.service';
+import type { GeofenceEvent } from '../geofences/schemas/geofence-event.schema';
+import type { Alert } from '../alerts/schemas/alert.schema';
+import type { PortCallEvent } from '../ports/port-calls.service';
+
+// ✅ Telkomsat-era records carry data_date/data_time in WIB
+const LEGACY_DATA_TIMEZONE = 'Asia/Jakarta';
 
 @WebSocketGateway({
   cors: {
@@ -33,7 +47,10 @@ export class VesselTrackingGateway implements OnGatewayInit, OnGatewayConnection
   private readonly INITIAL_DATA_AGE_MS = this.INITIAL_DATA_AGE_HOURS * 60 * 60 * 1000;
   private readonly UPDATE_DATA_AGE_MS = this.UPDATE_DATA_AGE_MINUTES * 60 * 1000;
 
-  constructor(private readonly aisDataService: AisDataService) {}
+  constructor(
+    private readonly aisDataService: AisDataService,
+    private readonly poiAreasService: PoiAreasService
+  ) {}
 
   afterInit(server: Server) {
     this.logger.log('🔌 WebSocket Gateway initialized');
@@ -65,23 +82,11 @@ export class VesselTrackingGateway implements OnGatewayInit, OnGatewayConnection
   // ✅ SHARED: Age checking logic
   private checkVesselAge(vessel: any, maxAgeMs: number): boolean {
     try {
-      let vesselDateTime: Date;
-
-      // ✅ Check data_date and data_time first
-      if (vessel.data_date && vessel.data_time) {
-        vesselDateTime = new Date(`${vessel.data_date} ${vessel.data_time}`);
-      } 
-      // ✅ Fallback to timestamp field
-      else if (vessel.timestamp) {
-        vesselDateTime = new Date(vessel.timestamp);
-      } 
-      else {
-        // ✅ No timestamp = exclude
-        return false;
-      }
+      // ✅ timestamp is stored in UTC; data_date/data_time only as legacy fallback
+      const vesselDateTime = this.parseVesselDateTime(vessel);
 
-      // ✅ Validate parsed date
-      if (isNaN(vesselDateTime.getTime())) {
+      // ✅ No or invalid timestamp = exclude
+      if (!vesselDateTime) {
         return false;
       }
 
@@ -102,23 +107,21 @@ export class VesselTrackingGateway implements OnGatewayInit, OnGatewayConnection
 
   // ✅ Helper to get vessel datetime
   private getVesselDateTime(vessel: any): Date {
-    if (vessel.data_date && vessel.data_time) {
-      try {
-        return new Date(`${vessel.data_date} ${vessel.data_time}`);
-      } catch (error) {
-        // Continue to fallback
-      }
-    }
-    
+    return this.parseVesselDateTime(vessel) ?? new Date(0); // Very old date
+  }
+
+  // ✅ Stored timestamp is UTC; legacy data_date/data_time are WIB wall-clock
+  private parseVesselDateTime(vessel: any): Date | null {
     if (vessel.timestamp) {
-      try {
-        return new Date(vessel.timestamp);
-      } catch (error) {
-        // Continue to fallback
-      }
+      const timestamp = parseTimestamp(vessel.timestamp);
+      if (timestamp) return timestamp;
     }
-    
-    return new Date(0); // Very old date
+
+    if (vessel.data_date && vessel.data_time) {
+      return zonedTimeToUtc(`${vessel.data_date}T${vessel.data_time}`, LEGACY_DATA_TIMEZONE);
+    }
+
+    return null;
   }
 
   /**
@@ -194,6 +197,76 @@ export class VesselTrackingGateway implements OnGatewayInit, OnGatewayConnection
     this.logger.debug(`📍 Broadcasted recent position for vessel ${mmsi}`);
   }
 
+  /**
+   * 🚧 BROADCAST GEOFENCE EVENTS - enter/exit/dwell from the geofence detector
+   */
+  broadcastGeofenceEvents(events: GeofenceEvent[]) {
+    if (!this.server || !events || events.length === 0) {
+      return;
+    }
+
+    events.forEach(event => {
+      this.server.emit('geofence_event', {
+        type: 'geofence_event',
+        event,
+        timestamp: new Date()
+      });
+    });
+
+    this.logger.debug(`🚧 Broadcasted ${events.length} geofence events`);
+  }
+
+  /**
+   * 🚨 BROADCAST ALERTS - fired alert rules
+   */
+  broadcastAlerts(alerts: Alert[]) {
+    if (!this.server || !alerts || alerts.length === 0) {
+      return;
+    }
+
+    alerts.forEach(alert => {
+      this.server.emit('alert', {
+        type: 'alert',
+        alert,
+        timestamp: new Date()
+      });
+    });
+
+    this.logger.debug(`🚨 Broadcasted ${alerts.length} alerts`);
+  }
+
+  // ✅ Lets other operators' consoles clear the alert
+  broadcastAlertAcknowledged(alert: Alert) {
+    if (!this.server || !alert) {
+      return;
+    }
+
+    this.server.emit('alert_acknowledged', {
+      type: 'alert_acknowledged',
+      alert,
+      timestamp: new Date()
+    });
+  }
+
+  /**
+   * ⚓ BROADCAST PORT CALL EVENTS - arrivals and departures
+   */
+  broadcastPortCallEvents(events: PortCallEvent[]) {
+    if (!this.server || !events || events.length === 0) {
+      return;
+    }
+
+    events.forEach(event => {
+      this.server.emit('port_call_event', {
+        type: 'port_call_event',
+        event,
+        timestamp: new Date()
+      });
+    });
+
+    this.logger.debug(`⚓ Broadcasted ${events.length} port call events`);
+  }
+
   /**
    * 🔄 Send ALL VESSELS as initial data (24h window)
    * ✅ This gives complete overview of all vessels
@@ -307,11 +380,36 @@ export class VesselTrackingGateway implements OnGatewayInit, OnGatewayConnection
     };
   }
 
+  /**
+   * 🗺️ Handle client subscription to an area
+   * ✅ west > east means the box crosses the antimeridian (e.g. west 170, east -170)
+   * ✅ { areaId } subscribes to a saved POI area instead of bounds
+   */
   @SubscribeMessage('subscribe_area')
-  handleAreaSubscription(@MessageBody() data: { 
-    bounds: { north: number, south: number, east: number, west: number }
-  }, client: Socket) {
-    client.data.subscribedArea = data.bounds;
+  async handleAreaSubscription(@MessageBody() data: { 
+    bounds?: { north: number, south: number, east: number, west: number },
+    areaId?: string
+  }, @ConnectedSocket() client: Socket) {
+    if (data?.areaId) {
+      return this.subscribeToSavedArea(data.areaId, client);
+    }
+
+    if (!data?.bounds) {
+      return {
+        event: 'area_subscription_error',
+        data: { status: 'rejected', error: 'bounds or areaId is required' }
+      };
+    }
+
+    const { north, south, east, west } = data.bounds;
+    const error = this.validateAreaBounds(north, south, east, west);
+    if (error) {
+      return {
+        event: 'area_subscription_error',
+        data: { bounds: data.bounds, status: 'rejected', error }
+      };
+    }
+
     this.logger.log(`🗺️ Client ${client.id} subscribed to area: ${JSON.stringify(data.bounds)}`);
     
     return {
@@ -319,6 +417,7 @@ export class VesselTrackingGateway implements OnGatewayInit, OnGatewayConnection
       data: { 
         bounds: data.bounds, 
         status: 'subscribed',
+        crossesAntimeridian: crossesAntimeridian(west, east),
         note: 'Area filtering handled on frontend. Backend provides incremental updates only.',
         dataWindows: {
           initial: `${this.INITIAL_DATA_AGE_HOURS}h`,
@@ -328,6 +427,60 @@ export class VesselTrackingGateway implements OnGatewayInit, OnGatewayConnection
     };
   }
 
+  @SubscribeMessage('unsubscribe_area')
+  handleAreaUnsubscription(@ConnectedSocket() client: Socket) {
+    this.logger.log(`❌ Client ${client.id} unsubscribed from area`);
+
+    return {
+      event: 'area_unsubscription_confirmed',
+      data: { status: 'unsubscribed' }
+    };
+  }
+
+  private async subscribeToSavedArea(areaId: string, client: Socket) {
+    try {
+      const saved = await this.poiAreasService.findOne(areaId);
+      this.logger.log(`🗺️ Client ${client.id} subscribed to saved area "${saved.name}" (${areaId})`);
+
+      return {
+        event: 'area_subscription_confirmed',
+        data: {
+          areaId,
+          name: saved.name,
+          bounds: polygonBoundingBox(saved.geometry),
+          geometry: saved.geometry,
+          status: 'subscribed',
+          note: 'Area filtering handled on frontend. Backend provides incremental updates only.',
+          dataWindows: {
+            initial: `${this.INITIAL_DATA_AGE_HOURS}h`,
+            updates: `${this.UPDATE_DATA_AGE_MINUTES}min`
+          }
+        }
+      };
+    } catch (error) {
+      return {
+        event: 'area_subscription_error',
+        data: { areaId, status: 'rejected', error: error.message }
+      };
+    }
+  }
+
+  private validateAreaBounds(north: number, south: number, east: number, west: number): string | null {
+    if (![north, south, east, west].every(value => typeof value === 'number')) {
+      return 'bounds.north, bounds.south, bounds.east and bounds.west must be numbers';
+    }
+    if (!isValidCoordinate(south, west) || !isValidCoordinate(north, east)) {
+      return 'Latitudes must be between -90 and 90, longitudes between -180 and 180';
+    }
+    if (south >= north) {
+      return 'bounds.south must be less than bounds.north';
+    }
+    if (west === east) {
+      return 'bounds.west and bounds.east must differ';
+    }
+    return null;
+  }
+
   // ✅ Get current filtering strategy info
   @SubscribeMessage('get_filter_strategy')
   handleFilterStrategy(client: Socket) {
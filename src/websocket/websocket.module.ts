@@ -2,9 +2,10 @@
 import { Module } from '@nestjs/common';
 import { VesselTrackingGateway } from './vessel-tracking.gateway';
 import { AisDataModule } from '../ais-data/ais-data.module';
+import { PoiAreasModule } from '../poi-areas/poi-areas.module';
 
 @Module({
-  imports: [AisDataModule],
+  imports: [AisDataModule, PoiAreasModule],
   providers: [VesselTrackingGateway],
   exports: [VesselTrackingGateway]
 })